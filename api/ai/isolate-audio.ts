@@ -11,10 +11,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   const auth = await import('../../lib/auth.js');
   const usage = await import('../../lib/usage.js');
   const voiceIsolation = await import('../../lib/voice-isolation.js');
+  const audioFormats = await import('../../lib/audio-format.js');
 
   const { authenticateRequest } = auth;
   const { hasEnoughMinutes, trackUsage, estimateMinutes } = usage;
   const { isolateVoiceWithDemucs } = voiceIsolation;
+  const { SUPPORTED_AUDIO_FORMATS, parseAudioFormat, getAudioFileInfo } = audioFormats;
+
+  // Format negotiation: clients check this before sending anything but WAV
+  if (req.method === 'GET') {
+    return res.status(200).json({ audioFormats: SUPPORTED_AUDIO_FORMATS });
+  }
 
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
@@ -27,12 +34,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    const { audioBase64, durationSeconds, userApiKey } = req.body;
+    const { audioBase64, audioFormat, durationSeconds, userApiKey } = req.body;
 
     if (!audioBase64) {
       return res.status(400).json({ error: 'Audio data is required' });
     }
 
+    const format = parseAudioFormat(audioFormat);
+    if (!format) {
+      return res.status(400).json({ error: 'Unsupported audio format' });
+    }
+
     // Estimate usage
     const estimatedMinutes = await estimateMinutes('voice_isolation', durationSeconds || 60);
 
@@ -54,8 +66,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     if (userApiKey) {
       // BYOK: Use ElevenLabs with user's API key
+      const { type, filename } = getAudioFileInfo(format);
       const formData = new FormData();
-      formData.append('audio', new Blob([new Uint8Array(audioBuffer)]), 'audio.wav');
+      formData.append('audio', new Blob([new Uint8Array(audioBuffer)], { type }), filename);
 
       const response = await fetch(ELEVENLABS_API_URL, {
         method: 'POST',
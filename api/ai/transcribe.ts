@@ -20,10 +20,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   const auth = await import('../../lib/auth.js');
   const usage = await import('../../lib/usage.js');
   const groq = await import('../../lib/groq.js');
+  const audioFormats = await import('../../lib/audio-format.js');
 
   const { authenticateRequest } = auth;
   const { hasEnoughMinutes, trackUsage, estimateMinutes } = usage;
   const { transcribeWithGroq } = groq;
+  const { SUPPORTED_AUDIO_FORMATS, parseAudioFormat, getAudioFileInfo } = audioFormats;
+
+  // Format negotiation: clients check this before sending anything but WAV
+  if (req.method === 'GET') {
+    return res.status(200).json({ audioFormats: SUPPORTED_AUDIO_FORMATS });
+  }
 
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
@@ -36,12 +43,18 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    const { audioBase64, durationSeconds, language, userApiKey } = req.body;
+    const { audioBase64, audioFormat, durationSeconds, language, userApiKey } = req.body;
 
     if (!audioBase64) {
       return res.status(400).json({ error: 'Audio data is required' });
     }
 
+    const format = parseAudioFormat(audioFormat);
+    if (!format) {
+      return res.status(400).json({ error: 'Unsupported audio format' });
+    }
+    const { type, filename } = getAudioFileInfo(format);
+
     // Estimate usage
     const estimatedMinutes = await estimateMinutes('transcription', durationSeconds || 60);
 
@@ -64,7 +77,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     if (userApiKey) {
       // BYOK: Use OpenAI with user's API key
       const formData = new FormData();
-      formData.append('file', new Blob([new Uint8Array(audioBuffer)]), 'audio.wav');
+      formData.append('file', new Blob([new Uint8Array(audioBuffer)], { type }), filename);
       formData.append('model', 'whisper-1');
       formData.append('response_format', 'verbose_json');
       formData.append('timestamp_granularities[]', 'word');
@@ -107,7 +120,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       };
     } else {
       // Platform users: Use Groq (67% cheaper than OpenAI)
-      const groqResult = await transcribeWithGroq(audioBuffer, { language });
+      const groqResult = await transcribeWithGroq(audioBuffer, { language, filename });
 
       result = {
         text: groqResult.text,
@@ -0,0 +1,32 @@
+/**
+ * Upload audio format negotiation for the AI proxy endpoints
+ * Clients GET the endpoint to learn which formats it accepts, then POST with audioFormat.
+ * Servers that predate this answer GET with 405, so clients fall back to WAV.
+ */
+
+export const SUPPORTED_AUDIO_FORMATS = ['wav', 'flac'] as const;
+
+export type AudioFormat = (typeof SUPPORTED_AUDIO_FORMATS)[number];
+
+const AUDIO_FILE_INFO: Record<AudioFormat, { type: string; filename: string }> = {
+  wav: { type: 'audio/wav', filename: 'audio.wav' },
+  flac: { type: 'audio/flac', filename: 'audio.flac' },
+};
+
+/**
+ * Validate the audioFormat field of a request body
+ * @returns The format (WAV when omitted), or null if it is not supported
+ */
+export function parseAudioFormat(value: unknown): AudioFormat | null {
+  if (value === undefined || value === null) {
+    return 'wav';
+  }
+  return SUPPORTED_AUDIO_FORMATS.find((format) => format === value) ?? null;
+}
+
+/**
+ * MIME type and file name to forward to upstream providers
+ */
+export function getAudioFileInfo(format: AudioFormat): { type: string; filename: string } {
+  return AUDIO_FILE_INFO[format];
+}
@@ -21,6 +21,7 @@ export interface GroqTranscriptionResult {
 export interface GroqTranscriptionOptions {
   language?: string;
   responseFormat?: 'json' | 'verbose_json' | 'text' | 'srt' | 'vtt';
+  filename?: string; // Extension tells Groq the container, e.g. 'audio.flac'
 }
 
 /**
@@ -40,7 +41,7 @@ export async function transcribeWithGroq(
   }
 
   const formData = new FormData();
-  formData.append('file', new Blob([new Uint8Array(audioBuffer)]), 'audio.wav');
+  formData.append('file', new Blob([new Uint8Array(audioBuffer)]), options.filename || 'audio.wav');
   formData.append('model', 'whisper-large-v3');
   formData.append('response_format', options.responseFormat || 'verbose_json');
   formData.append('timestamp_granularities[]', 'word');
@@ -2,11 +2,19 @@ import { logger } from '../lib/logger';
 import { BackendClient, backendClient } from './backend-client';
 import { transcriptionCache, voiceIsolationCache } from '../utils/audio-cache';
 import { PerformanceMetrics } from '../utils/performance-metrics';
+import { audioPreprocessor } from '../services/audio-preprocessor';
+import { flacEncoder } from '../services/flac-encoder';
+import { audioChunker, AudioChunk } from '../services/audio-chunker';
+import { transcriptStitcher } from '../services/transcript-stitcher';
+import { AUDIO_CONFIG } from '../config/audio-config';
+import { SpliceError, SpliceErrorCode } from '../lib/errors';
+import { sleep } from '../lib/utils';
 
 // Type imports - these don't add to bundle size
 import type { WhisperClient } from './whisper';
 import type { ElevenLabsClient } from './elevenlabs';
 import type { LLMProvider } from './llm-provider';
+import type { WavStreamReader } from '../services/wav-stream-reader';
 
 interface ColorMatchResult {
   success: boolean;
@@ -31,6 +39,25 @@ interface AIServicesOptions {
   llmProvider?: LLMProvider;
 }
 
+/**
+ * Progress of a chunked transcription
+ */
+export interface TranscriptionProgress {
+  completedChunks: number;
+  totalChunks: number;
+  partial: WhisperTranscriptionResult; // Stitched from the start up to the first unfinished chunk
+}
+
+/**
+ * How long audio is split up and scheduled for transcription
+ */
+export interface TranscriptionScheduleOptions {
+  concurrency?: number; // Defaults to AUDIO_CONFIG.TRANSCRIBE_CONCURRENCY
+  maxRetries?: number; // Per chunk, defaults to AUDIO_CONFIG.TRANSCRIBE_CHUNK_RETRIES
+  signal?: AbortSignal; // e.g. from operationLock.acquire('transcription')
+  onProgress?: (progress: TranscriptionProgress) => void;
+}
+
 /**
  * AI Services integration for Splice
  * Supports two modes:
@@ -132,10 +159,13 @@ export class AIServices {
    * Transcribe audio using AI speech-to-text
    * Routes to Whisper BYOK client or backend proxy based on mode
    * Uses caching to avoid reprocessing identical audio
+   * Long audio is transcribed in parallel chunks (see transcribeChunks)
+   * A reader is chunked from disk, so long timelines are never held in memory
    */
   async transcribe(
-    audioBuffer: ArrayBuffer,
-    options: WhisperOptions = {}
+    audioBuffer: ArrayBuffer | WavStreamReader,
+    options: WhisperOptions = {},
+    schedule: TranscriptionScheduleOptions = {}
   ): Promise<TranscriptionResult> {
     return this.metrics.measure(
       'transcribe',
@@ -152,12 +182,23 @@ export class AIServices {
         }
 
         // Not cached, perform transcription
+        const chunks = this.chunkUpload(audioBuffer);
+        const first = (await chunks.next()).value as AudioChunk;
+        throwIfCancelled(schedule.signal);
+
         let result: TranscriptionResult;
-        if (this.mode === 'byok' && this.whisperClient) {
-          result = await this.whisperClient.transcribe(audioBuffer, options);
+        if (first.totalChunks > 1) {
+          result = toTranscriptionResult(
+            await this.transcribeChunks(prepend(first, chunks), options, schedule)
+          );
+        } else if (this.mode === 'byok' && this.whisperClient) {
+          result = await this.whisperClient.transcribe(
+            flacEncoder.encodeForUpload(first.buffer),
+            options
+          );
         } else {
-          // Proxy mode - use backend
-          result = await this.backend.transcribe(audioBuffer);
+          // Proxy mode - use backend (negotiates FLAC itself)
+          result = await this.backend.transcribe(first.buffer);
         }
 
         // Cache the result
@@ -174,48 +215,209 @@ export class AIServices {
   /**
    * Transcribe with word-level timestamps for precise silence detection
    * Only available in BYOK mode (backend doesn't return word timestamps yet)
+   * Long audio is split into overlapping chunks and stitched back into one result
+   * A reader is chunked from disk, so long timelines are never held in memory
    * Note: Caching is done at the TranscriptionResult level, not WhisperTranscriptionResult
    */
   async transcribeWithTimestamps(
-    audioBuffer: ArrayBuffer,
-    options: Omit<WhisperOptions, 'responseFormat'> = {}
+    audioBuffer: ArrayBuffer | WavStreamReader,
+    options: Omit<WhisperOptions, 'responseFormat'> = {},
+    schedule: TranscriptionScheduleOptions = {}
   ): Promise<WhisperTranscriptionResult> {
     return this.metrics.measure(
       'transcribeWithTimestamps',
       async () => {
         logger.info(`Starting transcription with timestamps (${this.mode} mode)`);
-
-        if (this.mode === 'byok' && this.whisperClient) {
-          return this.whisperClient.transcribeWithTimestamps(audioBuffer, options);
-        }
-
-        // Proxy mode - backend transcription (may not have word-level timestamps)
-        const result = await this.backend.transcribe(audioBuffer);
-
-        // Convert to WhisperTranscriptionResult format
-        return {
-          task: 'transcribe',
-          language: 'en',
-          duration: 0,
-          text: result.text,
-          segments: result.segments.map((seg, idx) => ({
-            id: idx,
-            seek: 0,
-            start: seg.start,
-            end: seg.end,
-            text: seg.text,
-            tokens: [],
-            temperature: 0,
-            avg_logprob: 0,
-            compression_ratio: 0,
-            no_speech_prob: 1 - seg.confidence,
-          })),
-        };
+        return this.transcribeChunks(this.chunkUpload(audioBuffer), options, schedule);
       },
       { bufferSize: audioBuffer.byteLength }
     );
   }
 
+  /**
+   * Transcribe chunks in parallel (up to the concurrency limit) and stitch them.
+   * A failed chunk is retried on its own with exponential backoff; the job only
+   * fails once a chunk runs out of retries. Progress reports the transcript so far,
+   * in order, each time a chunk finishes.
+   *
+   * @throws SpliceError TRANSCRIPTION_CANCELLED if the signal aborts,
+   *   TRANSCRIPTION_FAILED if a chunk still fails after its retries
+   */
+  private async transcribeChunks(
+    chunks: AsyncIterator<AudioChunk>,
+    options: Omit<WhisperOptions, 'responseFormat'>,
+    schedule: TranscriptionScheduleOptions
+  ): Promise<WhisperTranscriptionResult> {
+    const { concurrency = AUDIO_CONFIG.TRANSCRIBE_CONCURRENCY, signal, onProgress } = schedule;
+    throwIfCancelled(signal);
+
+    // The first chunk says how many there are; the rest are pulled as workers free up
+    const first = await chunks.next();
+    if (first.done) {
+      return transcriptStitcher.stitch([], []);
+    }
+    const totalChunks = first.value.totalChunks;
+    const queue = prepend(first.value, chunks);
+
+    const results: WhisperTranscriptionResult[] = [];
+    const spans: Array<Pick<AudioChunk, 'startTime' | 'endTime'>> = []; // Buffers aren't kept
+    let pulledChunks = 0;
+    let completedChunks = 0;
+    let failed = false;
+
+    if (totalChunks > 1) {
+      logger.info(`Transcribing ${totalChunks} overlapping chunks, ${concurrency} at a time`);
+    }
+
+    const worker = async (): Promise<void> => {
+      while (!failed) {
+        const next = await queue.next();
+        if (next.done) return;
+        const chunk = next.value;
+        const index = pulledChunks++;
+        spans[index] = { startTime: chunk.startTime, endTime: chunk.endTime };
+
+        try {
+          results[index] = await this.transcribeChunkWithRetry(chunk, options, schedule);
+        } catch (error) {
+          failed = true; // Stop the other workers picking up new chunks
+          throw error;
+        }
+        completedChunks++;
+
+        if (onProgress) {
+          let ready = 0;
+          while (results[ready]) ready++;
+          onProgress({
+            completedChunks,
+            totalChunks,
+            partial: transcriptStitcher.stitch(results.slice(0, ready), spans.slice(0, ready)),
+          });
+        }
+      }
+    };
+
+    // Cancelling rejects straight away; requests already in flight are left to finish
+    const cancelled = new Promise<never>((_, reject) => {
+      signal?.addEventListener('abort', () => reject(createCancelledError()), { once: true });
+    });
+    cancelled.catch(() => {}); // Only matters while racing the workers
+
+    const workerCount = Math.max(1, Math.min(concurrency, totalChunks));
+    await Promise.race([Promise.all(Array.from({ length: workerCount }, worker)), cancelled]);
+
+    return totalChunks === 1 ? results[0] : transcriptStitcher.stitch(results, spans);
+  }
+
+  private async transcribeChunkWithRetry(
+    chunk: AudioChunk,
+    options: Omit<WhisperOptions, 'responseFormat'>,
+    schedule: TranscriptionScheduleOptions
+  ): Promise<WhisperTranscriptionResult> {
+    const { maxRetries = AUDIO_CONFIG.TRANSCRIBE_CHUNK_RETRIES, signal } = schedule;
+
+    for (let attempt = 0; ; attempt++) {
+      throwIfCancelled(signal);
+      try {
+        return await this.transcribeChunkWithTimestamps(chunk.buffer, options);
+      } catch (error) {
+        throwIfCancelled(signal);
+        if (attempt >= maxRetries) {
+          throw new SpliceError(
+            SpliceErrorCode.TRANSCRIPTION_FAILED,
+            `Chunk ${chunk.chunkIndex + 1}/${chunk.totalChunks} failed after ${attempt + 1} attempts`,
+            { chunkIndex: chunk.chunkIndex, startTime: chunk.startTime, attempts: attempt + 1 },
+            error instanceof Error ? error : undefined
+          );
+        }
+
+        const delay = AUDIO_CONFIG.TRANSCRIBE_RETRY_DELAY_MS * 2 ** attempt;
+        logger.warn(
+          `Chunk ${chunk.chunkIndex + 1}/${chunk.totalChunks} failed, retrying in ${delay}ms`,
+          error
+        );
+        await sleep(delay);
+      }
+    }
+  }
+
+  private async transcribeChunkWithTimestamps(
+    uploadBuffer: ArrayBuffer,
+    options: Omit<WhisperOptions, 'responseFormat'>
+  ): Promise<WhisperTranscriptionResult> {
+    if (this.mode === 'byok' && this.whisperClient) {
+      return this.whisperClient.transcribeWithTimestamps(
+        flacEncoder.encodeForUpload(uploadBuffer),
+        options
+      );
+    }
+
+    // Proxy mode - backend transcription (may not have word-level timestamps)
+    const result = await this.backend.transcribe(uploadBuffer);
+
+    // Convert to WhisperTranscriptionResult format
+    return {
+      task: 'transcribe',
+      language: 'en',
+      duration: 0,
+      text: result.text,
+      segments: result.segments.map((seg, idx) => ({
+        id: idx,
+        seek: 0,
+        start: seg.start,
+        end: seg.end,
+        text: seg.text,
+        tokens: [],
+        temperature: 0,
+        avg_logprob: 0,
+        compression_ratio: 0,
+        no_speech_prob: 1 - seg.confidence,
+      })),
+    };
+  }
+
+  /**
+   * Prepare audio for upload and split it into overlapping chunks under the
+   * size limit. Audio that fits is sent as a single chunk.
+   * A reader is cut into chunks sized for the prepared audio and each is read
+   * from disk and prepared only when pulled, so memory stays bounded.
+   */
+  private async *chunkUpload(audio: ArrayBuffer | WavStreamReader): AsyncGenerator<AudioChunk> {
+    if (!(audio instanceof ArrayBuffer)) {
+      const bytesPerSecond = audioPreprocessor.getUploadBytesPerSecond(audio.info);
+      const chunks = audioChunker.chunkWavBufferIterator(audio, audio.duration, {
+        bytesPerSecond,
+      });
+      for await (const chunk of chunks) {
+        yield { ...chunk, buffer: this.prepareUpload(chunk.buffer) };
+      }
+      return;
+    }
+
+    const uploadBuffer = this.prepareUpload(audio);
+    if (!audioChunker.needsChunking(uploadBuffer)) {
+      yield { buffer: uploadBuffer, startTime: 0, endTime: 0, chunkIndex: 0, totalChunks: 1 };
+      return;
+    }
+
+    const { sampleRate, channels, bitsPerSample, dataSize } = audioChunker.getWavInfo(uploadBuffer);
+    const duration = dataSize / (sampleRate * channels * (bitsPerSample / 8));
+    yield* await audioChunker.chunkWavBuffer(uploadBuffer, duration);
+  }
+
+  /**
+   * Downmix/resample audio for transcription upload.
+   * Timestamps are unaffected; unparseable audio is sent as-is.
+   */
+  private prepareUpload(audioBuffer: ArrayBuffer): ArrayBuffer {
+    try {
+      return audioPreprocessor.prepareForUpload(audioBuffer);
+    } catch (error) {
+      logger.warn('Could not preprocess audio for upload, sending original', error);
+      return audioBuffer;
+    }
+  }
+
   /**
    * Generate captions/subtitles from audio
    */
@@ -518,5 +720,41 @@ Provide 3-5 specific, actionable suggestions.`;
   }
 }
 
+function createCancelledError(): SpliceError {
+  return new SpliceError(SpliceErrorCode.TRANSCRIPTION_CANCELLED, 'Transcription cancelled');
+}
+
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createCancelledError();
+  }
+}
+
+/**
+ * Put an item already taken off an iterator back in front of the rest
+ */
+async function* prepend<T>(first: T, rest: AsyncIterator<T>): AsyncGenerator<T> {
+  yield first;
+  for (let next = await rest.next(); !next.done; next = await rest.next()) {
+    yield next.value;
+  }
+}
+
+/**
+ * Convert a Whisper verbose result to the TranscriptionResult shape
+ */
+function toTranscriptionResult(result: WhisperTranscriptionResult): TranscriptionResult {
+  return {
+    success: true,
+    text: result.text,
+    segments: (result.segments ?? []).map((segment) => ({
+      start: segment.start,
+      end: segment.end,
+      text: segment.text.trim(),
+      confidence: 1 - segment.no_speech_prob,
+    })),
+  };
+}
+
 // Default singleton instance using proxy mode
 export const aiServices = new AIServices();
@@ -1,6 +1,8 @@
 import { secureStorage } from '../lib/secure-storage';
 import { logger } from '../lib/logger';
 import { serviceStatus } from '../services/service-status';
+import { flacEncoder, getUploadFileInfo, UploadAudioFormat } from '../services/flac-encoder';
+import { AUDIO_CONFIG } from '../config/audio-config';
 
 // Backend URL configuration
 const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3000/api';
@@ -13,6 +15,7 @@ export class BackendClient {
   private baseUrl: string;
   private isRefreshing: boolean = false;
   private refreshPromise: Promise<string | null> | null = null;
+  private audioFormats = new Map<string, Promise<UploadAudioFormat[]>>();
 
   constructor(baseUrl: string = BACKEND_URL) {
     this.baseUrl = baseUrl;
@@ -255,8 +258,7 @@ export class BackendClient {
   // ============================================
 
   async isolateVoice(audioBuffer: ArrayBuffer): Promise<IsolatedAudio> {
-    const formData = new FormData();
-    formData.append('audio', new Blob([audioBuffer], { type: 'audio/wav' }), 'audio.wav');
+    const formData = await this.createAudioFormData('/ai/isolate-audio', audioBuffer);
 
     const token = await secureStorage.getAuthToken();
     const response = await fetch(`${this.baseUrl}/ai/isolate-audio`, {
@@ -277,8 +279,7 @@ export class BackendClient {
   }
 
   async transcribe(audioBuffer: ArrayBuffer): Promise<TranscriptionResult> {
-    const formData = new FormData();
-    formData.append('audio', new Blob([audioBuffer], { type: 'audio/wav' }), 'audio.wav');
+    const formData = await this.createAudioFormData('/ai/transcribe', audioBuffer);
 
     const token = await secureStorage.getAuthToken();
     const response = await fetch(`${this.baseUrl}/ai/transcribe`, {
@@ -294,6 +295,54 @@ export class BackendClient {
     return response.json();
   }
 
+  /**
+   * Build the multipart body for an audio upload, as FLAC if the endpoint accepts it
+   */
+  private async createAudioFormData(endpoint: string, audioBuffer: ArrayBuffer): Promise<FormData> {
+    let upload = audioBuffer;
+    if (AUDIO_CONFIG.UPLOAD_FLAC_ENABLED) {
+      const formats = await this.getAudioFormats(endpoint);
+      if (formats.includes('flac')) {
+        upload = flacEncoder.encodeForUpload(audioBuffer);
+      }
+    }
+
+    const { format, type, filename } = getUploadFileInfo(upload);
+    const formData = new FormData();
+    formData.append('audio', new Blob([upload], { type }), filename);
+    formData.append('audioFormat', format);
+    return formData;
+  }
+
+  /**
+   * Ask an AI endpoint which upload formats it accepts (cached per endpoint).
+   * Servers without format negotiation reject GET, so they are treated as WAV-only.
+   */
+  private getAudioFormats(endpoint: string): Promise<UploadAudioFormat[]> {
+    let formats = this.audioFormats.get(endpoint);
+    if (!formats) {
+      formats = this.fetchAudioFormats(endpoint);
+      this.audioFormats.set(endpoint, formats);
+    }
+    return formats;
+  }
+
+  private async fetchAudioFormats(endpoint: string): Promise<UploadAudioFormat[]> {
+    try {
+      const response = await fetch(`${this.baseUrl}${endpoint}`, { method: 'GET' });
+      if (!response.ok) {
+        return ['wav'];
+      }
+      const data = await response.json();
+      return Array.isArray(data.audioFormats) ? data.audioFormats : ['wav'];
+    } catch (error) {
+      // Network trouble says nothing about the server; ask again next time
+      logger.warn(`Could not check audio formats for ${endpoint}, sending WAV`, error);
+      this.audioFormats.delete(endpoint);
+      return ['wav'];
+    }
+  }
+
   async analyzeTakes(transcript: string): Promise<TakeAnalysis> {
     return this.request<TakeAnalysis>('/ai/analyze-takes', {
       method: 'POST',
@@ -1,6 +1,51 @@
 import { logger } from '../lib/logger';
 import { audioExtractor } from '../services/audio-extractor';
-import { silenceDetector, SilentSection } from '../services/silence-detector';
+import { silenceDetector, SilentSection, SilenceDetectionMode } from '../services/silence-detector';
+import { cutPlanner, CutHandleOptions } from '../services/cut-planner';
+import { fillerDetector, DisfluencyDetectionOptions } from '../services/filler-detector';
+import { breathDetector } from '../services/breath-detector';
+import {
+  loudnessAnalyzer,
+  LoudnessAnalysis,
+  LoudnessAnalysisOptions,
+  LoudnessFlag,
+} from '../services/loudness-analyzer';
+import {
+  audioDefectDetector,
+  AudioDefectKind,
+  AudioDefectReport,
+  DefectDetectionOptions,
+} from '../services/audio-defect-detector';
+import { waveformPeaks, WaveformPeakData } from '../services/waveform-peaks';
+import { editLog, DEFAULT_COPY_NAME_TEMPLATE } from '../services/edit-log';
+import { reviewMarkers, ReviewMarkerPayload } from '../services/review-markers';
+import {
+  cutListExporter,
+  CutListExportResult,
+  CutListFormat,
+  CutListSequenceInfo,
+} from '../services/cut-list-exporter';
+import { cutListImporter, ImportedCut, ImportedCutList } from '../services/cut-list-importer';
+import { timeMap, RemovedRange } from '../services/time-map';
+import {
+  cutSimulator,
+  CutSimulationReport,
+  TimelineStructure,
+  TimelineTrack,
+} from '../services/cut-simulator';
+import {
+  FrameRate,
+  frameRateFromTimebase,
+  frameRateFromFps,
+  framesToTicks,
+  isDropFrameRate,
+  secondsToFrames,
+  secondsToTicks,
+  ticksToFrames,
+  ticksToSeconds,
+} from '../utils/timecode';
+import { SpliceError, SpliceErrorCode } from '../lib/errors';
+import { aiServices } from './ai-services';
 
 // UXP Premiere Pro API types
 declare const require: (module: string) => any;
@@ -15,6 +60,27 @@ interface AutoCutResult {
   cutsApplied: number;
   silentSections: number;
   timeRemoved: number;
+  breaths?: number; // Breaths found when a breath policy other than 'keep' was requested
+  reviewMarkers?: number; // Review markers written when reviewMarkers was requested
+  errors?: string[]; // Breath and review marker failures
+}
+
+interface DisfluencyResult {
+  fillers: number;
+  repetitions: number;
+  timeRemoved: number;
+}
+
+interface LoudnessResult {
+  analysis: LoudnessAnalysis;
+  markersAdded: number;
+  errors: string[];
+}
+
+interface AudioDefectResult {
+  report: AudioDefectReport;
+  markersAdded: number;
+  errors: string[];
 }
 
 interface ExtractedAudio {
@@ -27,20 +93,41 @@ interface ExtractedAudio {
 interface MarkerInfo {
   name: string;
   time: number;
-  color?: string;
+  duration?: number; // Range markers only
+  color?: MarkerColor;
   comments?: string;
 }
 
+/** What deleteRange removed: the range snapped to frames, in seconds */
+interface DeleteRangeResult {
+  clipsDeleted: number;
+  start: number;
+  end: number;
+  timeRemoved: number; // 0 when the range was shorter than a frame
+  tracksSkipped: TrackSkip[];
+}
+
 interface TrackInfo {
   name: string;
   index: number;
   type: 'video' | 'audio';
 }
 
+/** A track of the active sequence, as resolved for an edit */
+interface TrackRef {
+  type: 'video' | 'audio';
+  index: number;
+  track: any;
+}
+
 interface AutoCutOptions {
   thresholdDb?: number;
   useVoiceIsolation?: boolean;
   useAIAnalysis?: boolean;
+  detectionMode?: SilenceDetectionMode;
+  minGapDuration?: number;
+  breathPolicy?: BreathPolicy;
+  reviewMarkers?: boolean; // Also write each section as a marker to review in Premiere
 }
 
 /**
@@ -52,6 +139,20 @@ export interface ApplySilenceCutsResult {
   cutsAttempted: number;
   timeRemoved: number;
   errors: string[];
+  sequenceCopy?: SequenceCopy; // Non-destructive mode only
+  tracksSkipped?: TrackSkip[]; // Tracks left uncut by track targeting, locks or mutes
+}
+
+/**
+ * Result of applying the review markers left on the sequence.
+ * Each part is null when no markers of that kind were found.
+ */
+export interface ApplyReviewMarkersResult {
+  markersFound: number;
+  markersRemoved: number;
+  silence: ApplySilenceCutsResult | null;
+  takes: ApplyTakesResult | null;
+  errors: string[]; // Takes that could not be matched, markers that could not be removed
 }
 
 /**
@@ -68,9 +169,47 @@ export class PremiereAPI {
   /** Stores detected takes between detection and application */
   public pendingTakes: NormalizedTake[] = [];
 
+  /** Word timestamps of the last transcription, with the time-map version and duration they match */
+  private transcriptWords: {
+    words: WhisperWord[];
+    language?: string;
+    version: number;
+    duration: number;
+  } | null = null;
+
+  /** Marker labels and colors for detected audio defects */
+  private static readonly DEFECT_MARKER_LABELS: Record<AudioDefectKind, string> = {
+    clipping: 'Clipping',
+    dropout: 'Dropout',
+    'dc-offset': 'DC offset',
+  };
+  private static readonly DEFECT_MARKER_COLORS: Record<AudioDefectKind, MarkerColor> = {
+    clipping: 'red',
+    dropout: 'yellow',
+    'dc-offset': 'blue',
+  };
+
+  /** Premiere's marker color index of each marker color */
+  private static readonly MARKER_COLOR_INDEX: Record<MarkerColor, number> = {
+    green: 0,
+    red: 1,
+    purple: 2,
+    orange: 3,
+    yellow: 4,
+    white: 5,
+    blue: 6,
+    cyan: 7,
+  };
+
   /** Color rotation for takes: Green (1), Yellow (3), Orange (5), Purple (9), Blue (7), Cyan (11) */
   public static readonly TAKE_COLOR_ROTATION = [1, 3, 5, 9, 7, 11];
 
+  /**
+   * Duplicate the sequence before applying cuts or takes, so revertLastEdit() can
+   * switch back. Off by default, as each backup adds a sequence to the project.
+   */
+  public backupBeforeEdits: boolean = false;
+
   constructor() {
     this.initializeAPI();
   }
@@ -141,13 +280,21 @@ export class PremiereAPI {
 
   /**
    * Auto-cut silence from audio tracks.
-   * Detects silence using transcription + AI analysis, stores results for later application.
+   * Detects silence using transcription + AI analysis (or locally from signal energy
+   * when detectionMode is 'energy'), stores results for later application.
    */
   async autoCutSilence(
     thresholdDb: number = -40,
     options: Partial<AutoCutOptions> = {}
   ): Promise<AutoCutResult> {
-    const { useVoiceIsolation = false, useAIAnalysis = true } = options;
+    const {
+      useVoiceIsolation = false,
+      useAIAnalysis = true,
+      detectionMode = 'transcription',
+      minGapDuration,
+      breathPolicy = 'keep',
+      reviewMarkers: writeReviewMarkers = false,
+    } = options;
 
     if (!this.isAvailable()) {
       logger.info('Running in mock mode - using mock detection');
@@ -170,24 +317,74 @@ export class PremiereAPI {
       }
 
       logger.info(
-        `Detecting silence (threshold: ${thresholdDb}dB, voice isolation: ${useVoiceIsolation})`
+        `Detecting silence (mode: ${detectionMode}, threshold: ${thresholdDb}dB, voice isolation: ${useVoiceIsolation})`
       );
 
-      // Step 1: Extract audio from timeline
-      const audio = await audioExtractor.extractFromTimeline();
-      logger.info(`Extracted ${audio.duration}s of audio`);
+      // Step 1: Open the timeline audio; it is analyzed and uploaded straight from disk
+      const audio = await audioExtractor.openTimelineStream();
+      logger.info(`Streaming ${audio.duration}s of audio`);
+
+      let sections: SilentSection[];
+      let breathCount: number | undefined;
+      let errors: string[] | undefined;
+      try {
+        // Step 2: Detect silence (transcription + AI, or local signal energy)
+        let words: WhisperWord[] = [];
+        sections = await silenceDetector.detectSilence({
+          audioBuffer: audio.reader,
+          mode: detectionMode,
+          thresholdDb,
+          useVoiceIsolation,
+          useAIAnalysis,
+          minGapDuration,
+          onTranscription: (result) => {
+            words = result.words ?? [];
+            this.rememberTranscriptWords(activeSequence, words, result.language);
+          },
+        });
+
+        // Step 3: Breaths - only looked for when asked; 'keep' cuts silence as before
+        if (breathPolicy !== 'keep') {
+          const breaths = await breathDetector.detectStream(audio.reader, words);
+          sections = breathDetector.applyPolicy(sections, breaths, breathPolicy);
+          breathCount = breaths.length;
+
+          if (breathPolicy === 'mark') {
+            const marked = await this.addMarkers(
+              breaths.map((breath) => ({
+                name: 'Breath',
+                time: breath.start,
+                color: 'cyan',
+                comments: `${breath.duration.toFixed(2)}s at ${breath.levelDb.toFixed(0)} dB`,
+              }))
+            );
+            errors = marked.errors;
+          }
+        }
 
-      // Step 2: Detect silence using transcription + AI
-      const sections = await silenceDetector.detectSilence({
-        audioBuffer: audio.buffer,
-        thresholdDb,
-        useVoiceIsolation,
-        useAIAnalysis,
-      });
+        // The export is still open, so the waveform view opens without exporting again
+        try {
+          waveformPeaks.setCached(
+            this.getWaveformKey(activeSequence),
+            await waveformPeaks.generateStream(audio.reader)
+          );
+        } catch (error) {
+          logger.warn('Failed to build waveform peaks', error);
+        }
+      } finally {
+        await audio.reader.close();
+      }
 
       // Store for later application
       this.pendingSilentSections = sections;
 
+      let reviewMarkerCount: number | undefined;
+      if (writeReviewMarkers) {
+        const marked = await this.addReviewMarkers({ sections });
+        reviewMarkerCount = marked.added;
+        errors = [...(errors ?? []), ...marked.errors];
+      }
+
       const timeRemoved = sections.reduce((sum, s) => sum + s.duration, 0);
       logger.info(`Found ${sections.length} cuttable sections, ${timeRemoved.toFixed(1)}s total`);
 
@@ -195,6 +392,9 @@ export class PremiereAPI {
         cutsApplied: 0, // Not applied yet
         silentSections: sections.length,
         timeRemoved,
+        breaths: breathCount,
+        reviewMarkers: reviewMarkerCount,
+        errors,
       };
     } catch (error) {
       logger.error('Failed to detect silence', error);
@@ -202,6 +402,320 @@ export class PremiereAPI {
     }
   }
 
+  /**
+   * Detect filler words and stutters in the active sequence.
+   * Candidates replace the pending sections, so they are reviewed and applied
+   * through applySilenceCuts() like detected silence - but with
+   * cutPlanner.handlesForDisfluencies(), not the silence padding.
+   */
+  async detectDisfluencies(options: DisfluencyDetectionOptions = {}): Promise<DisfluencyResult> {
+    if (!this.isAvailable()) {
+      logger.info('Running in mock mode - no disfluencies detected');
+      this.pendingSilentSections = [];
+      return { fillers: 0, repetitions: 0, timeRemoved: 0 };
+    }
+
+    try {
+      const activeSequence = this.project.activeSequence;
+      if (!activeSequence) {
+        throw new Error('No active sequence');
+      }
+
+      // Words from an earlier transcription still hold after Splice's own cuts
+      let transcription = this.getTranscriptWords(activeSequence);
+      if (transcription) {
+        logger.info('Reusing transcript words for disfluency detection');
+      } else {
+        const audio = await audioExtractor.openTimelineStream();
+        logger.info(`Streaming ${audio.duration}s of audio for disfluency detection`);
+
+        let result: WhisperTranscriptionResult;
+        try {
+          result = await aiServices.transcribeWithTimestamps(audio.reader);
+        } finally {
+          await audio.reader.close();
+        }
+        transcription = { words: result.words ?? [], language: result.language };
+        this.rememberTranscriptWords(activeSequence, transcription.words, result.language);
+      }
+
+      const candidates = fillerDetector.detect(transcription.words, {
+        ...options,
+        language: options.language ?? transcription.language,
+      });
+
+      this.pendingSilentSections = candidates;
+
+      return {
+        fillers: candidates.filter((c) => c.kind === 'filler').length,
+        repetitions: candidates.filter((c) => c.kind === 'repetition').length,
+        timeRemoved: candidates.reduce((sum, c) => sum + c.duration, 0),
+      };
+    } catch (error) {
+      logger.error('Failed to detect disfluencies', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Measure loudness (EBU R128) of the active sequence and mark passages
+   * above the short-term loudness or true-peak ceilings.
+   * Marker failures are reported in `errors` and don't fail the analysis.
+   */
+  async analyzeLoudness(
+    options: LoudnessAnalysisOptions & { addMarkers?: boolean } = {}
+  ): Promise<LoudnessResult> {
+    const { addMarkers = true, ...analysisOptions } = options;
+
+    if (!this.isAvailable()) {
+      logger.info('Running in mock mode - using mock loudness analysis');
+      return { analysis: loudnessAnalyzer.createMockAnalysis(180), markersAdded: 0, errors: [] };
+    }
+
+    try {
+      const activeSequence = this.project.activeSequence;
+      if (!activeSequence) {
+        throw new Error('No active sequence');
+      }
+
+      // Measured straight from disk, so long timelines never sit in memory
+      const audio = await audioExtractor.openTimelineStream();
+      logger.info(`Streaming ${audio.duration}s of audio for loudness analysis`);
+
+      let analysis: LoudnessAnalysis;
+      try {
+        analysis = await loudnessAnalyzer.analyzeStream(audio.reader, analysisOptions);
+      } finally {
+        await audio.reader.close();
+      }
+      if (!addMarkers) {
+        return { analysis, markersAdded: 0, errors: [] };
+      }
+
+      const { added, errors } = await this.addMarkers(
+        analysis.flags.map((flag) => ({
+          time: flag.start,
+          name: this.getLoudnessMarkerName(flag),
+          color: 'red',
+          comments: this.getLoudnessMarkerComment(flag),
+        }))
+      );
+
+      return { analysis, markersAdded: added, errors };
+    } catch (error) {
+      logger.error('Failed to analyze loudness', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Scan the active sequence for clipping, dropouts and DC offset, optionally
+   * marking each defect (red = clipping, yellow = dropout, blue = DC offset).
+   */
+  async detectAudioDefects(
+    options: DefectDetectionOptions & { addMarkers?: boolean } = {}
+  ): Promise<AudioDefectResult> {
+    const { addMarkers = true, ...detectionOptions } = options;
+
+    if (!this.isAvailable()) {
+      logger.info('Running in mock mode - no defects detected');
+      return {
+        report: { defects: [], clippedSamples: 0, dcOffset: [0, 0], duration: 180 },
+        markersAdded: 0,
+        errors: [],
+      };
+    }
+
+    try {
+      const activeSequence = this.project.activeSequence;
+      if (!activeSequence) {
+        throw new Error('No active sequence');
+      }
+
+      const audio = await audioExtractor.openTimelineStream();
+      logger.info(`Streaming ${audio.duration}s of audio for defect detection`);
+
+      let report: AudioDefectReport;
+      try {
+        report = await audioDefectDetector.detectStream(audio.reader, detectionOptions);
+      } finally {
+        await audio.reader.close();
+      }
+      if (!addMarkers) {
+        return { report, markersAdded: 0, errors: [] };
+      }
+
+      const { added, errors } = await this.addMarkers(
+        report.defects.map((defect) => ({
+          time: defect.start,
+          name: `${PremiereAPI.DEFECT_MARKER_LABELS[defect.kind]} (${defect.severity})`,
+          color: PremiereAPI.DEFECT_MARKER_COLORS[defect.kind],
+          comments: defect.detail,
+        }))
+      );
+
+      return { report, markersAdded: added, errors };
+    } catch (error) {
+      logger.error('Failed to detect audio defects', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Min/max waveform peaks of the active sequence for the waveform view.
+   * Peaks are cached per sequence and length, so a cut invalidates them.
+   *
+   * @param generate - Export and scan the audio when nothing is cached;
+   *   false only returns cached peaks
+   * @returns Peaks, or null when none are cached and generate is false
+   */
+  async getWaveformPeaks(generate: boolean = true): Promise<WaveformPeakData | null> {
+    if (!this.isAvailable()) {
+      const key = 'mock';
+      const cached = waveformPeaks.getCached(key);
+      if (cached || !generate) {
+        return cached ?? null;
+      }
+      const mock = waveformPeaks.createMockPeaks(180);
+      waveformPeaks.setCached(key, mock);
+      return mock;
+    }
+
+    try {
+      const activeSequence = this.project.activeSequence;
+      if (!activeSequence) {
+        throw new Error('No active sequence');
+      }
+
+      const key = this.getWaveformKey(activeSequence);
+      const cached = waveformPeaks.getCached(key);
+      if (cached || !generate) {
+        return cached ?? null;
+      }
+
+      const audio = await audioExtractor.openTimelineStream();
+      logger.info(`Streaming ${audio.duration}s of audio for waveform peaks`);
+
+      let peaks: WaveformPeakData;
+      try {
+        peaks = await waveformPeaks.generateStream(audio.reader);
+      } finally {
+        await audio.reader.close();
+      }
+
+      waveformPeaks.setCached(key, peaks);
+      return peaks;
+    } catch (error) {
+      logger.error('Failed to build waveform peaks', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Keep word timestamps for reuse after later cuts
+   */
+  private rememberTranscriptWords(sequence: any, words: WhisperWord[], language?: string): void {
+    if (words.length === 0) return;
+    this.transcriptWords = {
+      words,
+      language,
+      version: timeMap.getVersion(),
+      duration: Number(sequence.end?.seconds ?? 0),
+    };
+  }
+
+  /**
+   * Remembered words mapped onto the current timeline, or null if there are none
+   * or the sequence was changed outside Splice (its length no longer adds up)
+   */
+  private getTranscriptWords(sequence: any): { words: WhisperWord[]; language?: string } | null {
+    const cached = this.transcriptWords;
+    if (!cached) return null;
+
+    const expected = cached.duration - timeMap.removedSince(cached.version);
+    if (Math.abs(Number(sequence.end?.seconds ?? 0) - expected) > 0.05) {
+      logger.info('Sequence changed since the last transcription - transcribing again');
+      this.transcriptWords = null;
+      return null;
+    }
+
+    return {
+      words: timeMap.remapWords(cached.words, cached.version),
+      language: cached.language,
+    };
+  }
+
+  /**
+   * Record the ranges an apply operation ripple-deleted and move pending
+   * detections onto the edited timeline
+   */
+  private recordRemovedRanges(ranges: RemovedRange[]): void {
+    const version = timeMap.getVersion();
+    if (timeMap.record(ranges, editLog.getCurrentSessionId()) === version) return;
+
+    this.pendingTakes = timeMap.remapTakes(this.pendingTakes, version);
+    this.pendingSilentSections = timeMap.remapSections(this.pendingSilentSections, version);
+  }
+
+  /**
+   * Move pending detections back when a reverted session had removed time
+   */
+  private recordRevert(sessionId: string): void {
+    const version = timeMap.getVersion();
+    if (!timeMap.revert(sessionId)) return;
+
+    this.pendingTakes = timeMap.remapTakes(this.pendingTakes, version);
+    this.pendingSilentSections = timeMap.remapSections(this.pendingSilentSections, version);
+  }
+
+  /**
+   * Waveform cache key: the sequence and its current length
+   */
+  private getWaveformKey(activeSequence: any): string {
+    const id = this.getSequenceId(activeSequence);
+    return `${id}:${Number(activeSequence.end?.seconds ?? 0).toFixed(3)}`;
+  }
+
+  /**
+   * Add several markers, continuing past individual failures.
+   */
+  private async addMarkers(markers: MarkerInfo[]): Promise<{ added: number; errors: string[] }> {
+    let added = 0;
+    const errors: string[] = [];
+
+    for (const marker of markers) {
+      try {
+        await this.addMarker(
+          marker.time,
+          marker.name,
+          marker.color,
+          marker.comments,
+          marker.duration
+        );
+        added++;
+      } catch (error) {
+        const errorMsg = `Failed to add marker "${marker.name}" at ${marker.time.toFixed(2)}s: ${error}`;
+        errors.push(errorMsg);
+        logger.error(errorMsg);
+      }
+    }
+
+    return { added, errors };
+  }
+
+  private getLoudnessMarkerName(flag: LoudnessFlag): string {
+    return flag.kind === 'true-peak'
+      ? `True peak ${flag.peak.toFixed(1)} dBTP`
+      : `Loud passage ${flag.peak.toFixed(1)} LUFS`;
+  }
+
+  private getLoudnessMarkerComment(flag: LoudnessFlag): string {
+    const range = `${flag.start.toFixed(1)}s - ${flag.end.toFixed(1)}s`;
+    return flag.kind === 'true-peak'
+      ? `True peak above ceiling (${range})`
+      : `Short-term loudness above ceiling (${range})`;
+  }
+
   /**
    * Get project metadata
    */
@@ -264,20 +778,22 @@ export class PremiereAPI {
 
   /**
    * Add a marker to the active sequence at the specified time
-   * @param time - Time in seconds where to place the marker
+   * @param time - Time in seconds where to place the marker (snapped to the nearest frame)
    * @param name - Marker name/label
    * @param color - Optional marker color (e.g., 'red', 'green', 'blue')
    * @param comments - Optional comments for the marker
+   * @param duration - Optional length in seconds, making a range marker
    */
   async addMarker(
     time: number,
     name: string,
-    color?: string,
-    comments?: string
+    color?: MarkerColor,
+    comments?: string,
+    duration?: number
   ): Promise<MarkerInfo> {
     if (!this.isAvailable()) {
       logger.info('Running in mock mode');
-      return this.mockAddMarker(time, name, color, comments);
+      return { ...this.mockAddMarker(time, name, color, comments), duration };
     }
 
     try {
@@ -288,24 +804,31 @@ export class PremiereAPI {
 
       // Access the markers collection
       const markers = activeSequence.markers;
+      const start = this.toFrameTicks(activeSequence, time);
+      const end = duration ? this.toFrameTicks(activeSequence, time + duration) : start;
 
       // Create a new marker at the specified time
       // Note: Premiere UXP marker API may vary - this is based on documented patterns
-      const marker = markers.createMarker(time);
+      const marker = markers.createMarker(ticksToSeconds(start));
       if (marker) {
         marker.name = name;
         if (comments) {
           marker.comments = comments;
         }
-        // Color setting depends on available API
-        // marker.setColorByIndex() or similar may be available
+        if (end > start) {
+          marker.end = ticksToSeconds(end);
+        }
+        if (color) {
+          this.setMarkerColor(marker, color);
+        }
       }
 
-      logger.info(`Added marker "${name}" at ${time}s`);
+      logger.info(`Added marker "${name}" at ${ticksToSeconds(start)}s`);
 
       return {
         name,
-        time,
+        time: ticksToSeconds(start),
+        duration: duration ? ticksToSeconds(end - start) : undefined,
         color,
         comments,
       };
@@ -315,12 +838,33 @@ export class PremiereAPI {
     }
   }
 
+  /**
+   * Set the color of a sequence marker
+   * @returns false if the marker does not support a color API
+   */
+  private setMarkerColor(marker: any, color: MarkerColor): boolean {
+    const colorIndex = PremiereAPI.MARKER_COLOR_INDEX[color];
+
+    if (typeof marker.setColorByIndex === 'function') {
+      marker.setColorByIndex(colorIndex);
+      return true;
+    } else if (typeof marker.colorIndex !== 'undefined') {
+      // Alternative property-based approach
+      marker.colorIndex = colorIndex;
+      return true;
+    }
+
+    logger.warn('Marker does not support color API');
+    return false;
+  }
+
   /**
    * Cut clips at a specific time (razor tool functionality)
-   * @param time - Time in seconds where to make the cut
-   * @param trackIndex - Optional specific track to cut (all tracks if not specified)
+   * @param time - Time in seconds where to make the cut (snapped to the nearest frame)
+   * @param target - Tracks to cut: a targeting choice, or one track by combined index
+   *   (video tracks first, then audio). All unlocked, unmuted tracks if not specified.
    */
-  async razorAtTime(time: number, trackIndex?: number): Promise<boolean> {
+  async razorAtTime(time: number, target?: number | TrackTargeting): Promise<boolean> {
     if (!this.isAvailable()) {
       logger.info('Running in mock mode');
       return this.mockRazorAtTime();
@@ -333,56 +877,37 @@ export class PremiereAPI {
       }
 
       let cutsMade = 0;
-
-      // Get both video and audio tracks
-      const videoTracks = activeSequence.videoTracks;
-      const audioTracks = activeSequence.audioTracks;
-
-      // Helper to cut clips on a track collection
-      const cutOnTracks = (tracks: any, startIdx?: number, endIdx?: number) => {
-        const start = startIdx ?? 0;
-        const end = endIdx ?? tracks.numTracks;
-
-        for (let i = start; i < end; i++) {
-          const track = tracks[i];
-          if (!track || track.isMuted()) continue;
-
-          // Find clips at the specified time
-          for (let j = 0; j < track.clips.numItems; j++) {
-            const clip = track.clips[j];
-            const clipStart = clip.start.seconds;
-            const clipEnd = clip.end.seconds;
-
-            // Check if time falls within this clip
-            if (time > clipStart && time < clipEnd) {
-              // Split the clip at this time
-              // Note: The actual API method may be clip.split() or similar
-              if (typeof clip.split === 'function') {
-                clip.split(time);
-                cutsMade++;
-              }
+      const at = this.toFrameTicks(activeSequence, time);
+
+      for (const { track } of this.resolveTrackTargets(activeSequence, target).cut) {
+        // Find clips at the specified time
+        for (let j = 0; j < track.clips.numItems; j++) {
+          const clip = track.clips[j];
+          const clipStart = this.ticksOf(clip.start);
+          const clipEnd = this.ticksOf(clip.end);
+
+          // Check if time falls within this clip
+          if (at > clipStart && at < clipEnd) {
+            // Split the clip at this time
+            // Note: The actual API method may be clip.split() or similar
+            if (typeof clip.split === 'function') {
+              clip.split(ticksToSeconds(at));
+              cutsMade++;
             }
           }
         }
-      };
+      }
 
-      if (trackIndex !== undefined) {
-        // Cut on specific track only
-        // Determine if it's video or audio based on index
-        const totalVideoTracks = videoTracks.numTracks;
-        if (trackIndex < totalVideoTracks) {
-          cutOnTracks(videoTracks, trackIndex, trackIndex + 1);
-        } else {
-          const audioIndex = trackIndex - totalVideoTracks;
-          cutOnTracks(audioTracks, audioIndex, audioIndex + 1);
-        }
-      } else {
-        // Cut on all tracks
-        cutOnTracks(videoTracks);
-        cutOnTracks(audioTracks);
+      if (cutsMade > 0) {
+        editLog.record({
+          type: 'razor',
+          time: ticksToSeconds(at),
+          trackIndex: typeof target === 'number' ? target : undefined,
+          cuts: cutsMade,
+        });
       }
 
-      logger.info(`Made ${cutsMade} cuts at ${time}s`);
+      logger.info(`Made ${cutsMade} cuts at ${ticksToSeconds(at)}s`);
       return cutsMade > 0;
     } catch (error) {
       logger.error('Failed to razor at time', error);
@@ -443,17 +968,19 @@ export class PremiereAPI {
 
   /**
    * Delete clips in a time range (for removing silence)
-   * @param startTime - Start time in seconds
-   * @param endTime - End time in seconds
-   * @param trackIndex - Optional specific track (all tracks if not specified)
+   * @param startTime - Start time in seconds (snapped to the nearest frame)
+   * @param endTime - End time in seconds (snapped to the nearest frame)
+   * @param target - Tracks to cut (see razorAtTime); all unlocked, unmuted tracks if not specified
    * @param ripple - Whether to ripple delete (close the gap)
+   * @returns The snapped range actually removed, and tracksSkipped - tracks that were
+   *   not cut; with ripple and the 'ripple' policy their later clips are shifted to stay in sync
    */
   async deleteRange(
     startTime: number,
     endTime: number,
-    trackIndex?: number,
+    target?: number | TrackTargeting,
     ripple: boolean = true
-  ): Promise<{ clipsDeleted: number; timeRemoved: number }> {
+  ): Promise<DeleteRangeResult> {
     if (!this.isAvailable()) {
       logger.info('Running in mock mode');
       return this.mockDeleteRange(startTime, endTime);
@@ -465,64 +992,228 @@ export class PremiereAPI {
         throw new Error('No active sequence');
       }
 
+      // Work on the frame grid so hundreds of ripple deletes don't accumulate drift
+      const start = this.toFrameTicks(activeSequence, startTime);
+      const end = this.toFrameTicks(activeSequence, endTime);
+      if (end <= start) {
+        logger.info(`Skipped range shorter than a frame at ${startTime}s`);
+        const at = ticksToSeconds(start);
+        return { clipsDeleted: 0, start: at, end: at, timeRemoved: 0, tracksSkipped: [] };
+      }
+
       // First, make cuts at start and end times
-      await this.razorAtTime(startTime, trackIndex);
-      await this.razorAtTime(endTime, trackIndex);
+      await this.razorAtTime(ticksToSeconds(start), target);
+      await this.razorAtTime(ticksToSeconds(end), target);
 
       let clipsDeleted = 0;
-      const timeRemoved = endTime - startTime;
+      const timeRemoved = ticksToSeconds(end - start);
+      const { cut, skipped } = this.resolveTrackTargets(activeSequence, target);
 
       // Find and delete clips that fall within the range
-      const videoTracks = activeSequence.videoTracks;
-      const audioTracks = activeSequence.audioTracks;
-
-      const deleteFromTracks = (tracks: any) => {
-        for (let i = 0; i < tracks.numTracks; i++) {
-          if (trackIndex !== undefined && i !== trackIndex) continue;
+      for (const { track } of cut) {
+        const clipsToDelete: any[] = [];
 
-          const track = tracks[i];
-          const clipsToDelete: any[] = [];
-
-          // Find clips in range
-          for (let j = 0; j < track.clips.numItems; j++) {
-            const clip = track.clips[j];
-            const clipStart = clip.start.seconds;
-            const clipEnd = clip.end.seconds;
+        for (let j = 0; j < track.clips.numItems; j++) {
+          const clip = track.clips[j];
+          const clipStart = this.ticksOf(clip.start);
+          const clipEnd = this.ticksOf(clip.end);
 
-            // Check if clip is within the delete range
-            if (clipStart >= startTime && clipEnd <= endTime) {
-              clipsToDelete.push(clip);
-            }
+          // Check if clip is within the delete range
+          if (clipStart >= start && clipEnd <= end) {
+            clipsToDelete.push(clip);
           }
+        }
 
-          // Delete the clips
-          for (const clip of clipsToDelete) {
-            if (typeof clip.remove === 'function') {
-              clip.remove(ripple);
-              clipsDeleted++;
-            }
+        // Delete the clips
+        for (const clip of clipsToDelete) {
+          if (typeof clip.remove === 'function') {
+            clip.remove(ripple);
+            clipsDeleted++;
           }
         }
-      };
+      }
 
-      deleteFromTracks(videoTracks);
-      deleteFromTracks(audioTracks);
+      // Keep untargeted tracks in sync by closing the same gap, or leave them and report
+      const policy = (typeof target === 'object' && target.untargetedPolicy) || 'leave';
+      const tracksSkipped: TrackSkip[] = skipped
+        .filter(({ track }) => track.clips.numItems > 0)
+        .map(({ type, index, track, reason }) => ({
+          type,
+          index,
+          reason,
+          shifted:
+            ripple &&
+            policy === 'ripple' &&
+            reason !== 'locked' &&
+            this.shiftClipsAfter(track, start, end),
+        }));
+
+      editLog.record({
+        type: 'delete',
+        start: ticksToSeconds(start),
+        end: ticksToSeconds(end),
+        trackIndex: typeof target === 'number' ? target : undefined,
+        ripple,
+        clips: clipsDeleted,
+      });
 
       logger.info(`Deleted ${clipsDeleted} clips, removed ${timeRemoved}s`);
 
-      return { clipsDeleted, timeRemoved };
+      return {
+        clipsDeleted,
+        start: ticksToSeconds(start),
+        end: ticksToSeconds(end),
+        timeRemoved,
+        tracksSkipped,
+      };
     } catch (error) {
       logger.error('Failed to delete range', error);
       throw error;
     }
   }
 
+  /**
+   * Add the tracks one cut skipped to a result, once per track
+   */
+  private mergeTrackSkips(result: ApplySilenceCutsResult, skips: TrackSkip[]): void {
+    const merged = result.tracksSkipped ?? [];
+    for (const skip of skips) {
+      const existing = merged.find((t) => t.type === skip.type && t.index === skip.index);
+      if (!existing) {
+        merged.push({ ...skip });
+      } else if (!skip.shifted) {
+        existing.shifted = false; // Out of sync if any cut could not be followed
+      }
+    }
+    result.tracksSkipped = merged;
+  }
+
+  /**
+   * Sort the tracks of a sequence into those an edit cuts and those it leaves.
+   * A number targets one track by combined index (video tracks first, then audio).
+   */
+  private resolveTrackTargets(
+    sequence: any,
+    target?: number | TrackTargeting
+  ): { cut: TrackRef[]; skipped: Array<TrackRef & { reason: TrackSkip['reason'] }> } {
+    const videoCount = sequence.videoTracks.numTracks;
+    let targeting: TrackTargeting = {};
+    if (typeof target === 'number') {
+      targeting =
+        target < videoCount
+          ? { videoTracks: [target], audioTracks: [] }
+          : { videoTracks: [], audioTracks: [target - videoCount] };
+    } else if (target) {
+      targeting = target;
+    }
+
+    const cut: TrackRef[] = [];
+    const skipped: Array<TrackRef & { reason: TrackSkip['reason'] }> = [];
+
+    const sort = (
+      type: 'video' | 'audio',
+      tracks: any,
+      targeted?: number[],
+      protectedTracks: number[] = []
+    ) => {
+      for (let index = 0; index < tracks.numTracks; index++) {
+        const track = tracks[index];
+        if (!track) continue;
+
+        let reason: TrackSkip['reason'] | null = null;
+        if (typeof track.isLocked === 'function' && track.isLocked()) {
+          reason = 'locked';
+        } else if (protectedTracks.includes(index)) {
+          reason = 'protected';
+        } else if (targeted && !targeted.includes(index)) {
+          reason = 'not-targeted';
+        } else if (!targeting.includeMuted && track.isMuted()) {
+          reason = 'muted';
+        }
+
+        if (reason) {
+          skipped.push({ type, index, track, reason });
+        } else {
+          cut.push({ type, index, track });
+        }
+      }
+    };
+
+    sort('video', sequence.videoTracks, targeting.videoTracks, targeting.protectedVideoTracks);
+    sort('audio', sequence.audioTracks, targeting.audioTracks, targeting.protectedAudioTracks);
+    return { cut, skipped };
+  }
+
+  /**
+   * Close the gap of a range removed from other tracks, in ticks, by moving every
+   * clip starting at or after its end left by its length. The track is left
+   * untouched (returns false) if a clip lies in the range, as later clips would
+   * slide over it, or if the API can't move clips.
+   */
+  private shiftClipsAfter(track: any, start: number, end: number): boolean {
+    const clips: any[] = [];
+    for (let j = 0; j < track.clips.numItems; j++) {
+      const clip = track.clips[j];
+      if (this.ticksOf(clip.start) >= end) {
+        clips.push(clip);
+      } else if (this.ticksOf(clip.end) > start) {
+        logger.warn(`Clip "${clip.name}" on track "${track.name}" spans a cut - left out of sync`);
+        return false;
+      }
+    }
+    if (clips.some((clip) => typeof clip.move !== 'function')) {
+      logger.warn(`Cannot shift clips on track "${track.name}" - left out of sync`);
+      return false;
+    }
+
+    // Earliest first, so clips never pass over each other
+    clips.sort((a, b) => this.ticksOf(a.start) - this.ticksOf(b.start));
+    for (const clip of clips) {
+      clip.move(ticksToSeconds(start - end));
+    }
+    return true;
+  }
+
+  /**
+   * Frame rate of a sequence, or null if its timebase can't be read
+   */
+  private getFrameRate(sequence: any): FrameRate | null {
+    try {
+      return frameRateFromTimebase(sequence.timebase);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Tick position of a time snapped to the sequence's frame grid.
+   * Unsnapped if the sequence has no readable timebase.
+   */
+  private toFrameTicks(sequence: any, seconds: number): number {
+    const rate = this.getFrameRate(sequence);
+    return rate ? framesToTicks(secondsToFrames(seconds, rate), rate) : secondsToTicks(seconds);
+  }
+
+  /**
+   * Tick position of a Premiere Time; read from ticks when available, as seconds are rounded
+   */
+  private ticksOf(time: any): number {
+    return time?.ticks !== undefined ? Number(time.ticks) : secondsToTicks(time?.seconds ?? 0);
+  }
+
   /**
    * Apply previously detected silence cuts to the timeline.
+   * Sections are first shrunk by the pre/post handles, merged and filtered (see CutPlanner).
    * Cuts from END to START to preserve earlier timecodes.
+   * With options.nonDestructive the cuts go to a duplicate, which becomes the active sequence.
    */
-  async applySilenceCuts(sections?: SilentSection[]): Promise<ApplySilenceCutsResult> {
-    const sectionsToApply = sections ?? this.pendingSilentSections;
+  async applySilenceCuts(
+    sections?: SilentSection[],
+    handles: CutHandleOptions = {},
+    options: ApplyEditOptions = {}
+  ): Promise<ApplySilenceCutsResult> {
+    const detectedSections = sections ?? this.pendingSilentSections;
+    const sectionsToApply = cutPlanner.applyHandles(detectedSections, handles);
 
     const result: ApplySilenceCutsResult = {
       cutsApplied: 0,
@@ -533,6 +1224,7 @@ export class PremiereAPI {
 
     if (sectionsToApply.length === 0) {
       logger.warn('No silent sections to apply');
+      this.pendingSilentSections = [];
       return result;
     }
 
@@ -541,26 +1233,41 @@ export class PremiereAPI {
       // In mock mode, just clear the pending sections
       const timeRemoved = sectionsToApply.reduce((sum, s) => sum + s.duration, 0);
       this.pendingSilentSections = [];
+      this.recordRemovedRanges(sectionsToApply);
       return {
         cutsApplied: sectionsToApply.length,
         cutsAttempted: sectionsToApply.length,
         timeRemoved,
         errors: [],
+        sequenceCopy: options.nonDestructive
+          ? this.mockSequenceCopy('silence-cuts', options.copyNameTemplate)
+          : undefined,
       };
     }
 
     try {
+      result.sequenceCopy = await this.beginEditSession('silence-cuts', options);
+
       // Sort sections by time DESCENDING (cut from end first to preserve timecodes)
       const sorted = [...sectionsToApply].sort((a, b) => b.start - a.start);
 
       logger.info(`Applying ${sorted.length} cuts (from end to start)...`);
 
+      const removed: RemovedRange[] = [];
       for (const section of sorted) {
         try {
           logger.info(`Cutting: ${section.start.toFixed(2)}s - ${section.end.toFixed(2)}s`);
-          await this.deleteRange(section.start, section.end, undefined, true); // ripple=true
+          const deleted = await this.deleteRange(
+            section.start,
+            section.end,
+            options.tracks,
+            true // ripple
+          );
+          if (deleted.timeRemoved === 0) continue; // Shorter than a frame
+          this.mergeTrackSkips(result, deleted.tracksSkipped);
+          removed.push({ start: deleted.start, end: deleted.end });
           result.cutsApplied++;
-          result.timeRemoved += section.duration;
+          result.timeRemoved += deleted.timeRemoved;
         } catch (error) {
           const errorMsg = `Failed to cut at ${section.start.toFixed(2)}s: ${error}`;
           result.errors.push(errorMsg);
@@ -571,6 +1278,7 @@ export class PremiereAPI {
 
       // Clear pending sections after application
       this.pendingSilentSections = [];
+      this.recordRemovedRanges(removed);
 
       logger.info(
         `Applied ${result.cutsApplied}/${result.cutsAttempted} cuts, removed ${result.timeRemoved.toFixed(1)}s`
@@ -579,6 +1287,8 @@ export class PremiereAPI {
     } catch (error) {
       logger.error('Failed to apply silence cuts', error);
       throw error;
+    } finally {
+      await this.commitEditSession();
     }
   }
 
@@ -613,15 +1323,19 @@ export class PremiereAPI {
 
       // Validate color index (0-15)
       const safeIndex = Math.max(0, Math.min(15, Math.floor(colorIndex)));
+      const before = this.getClipColorLabel(clip);
+      const clipStart = clip.start?.seconds ?? 0;
 
       // Premiere UXP API for setting color label
       if (typeof clip.setColorLabel === 'function') {
         clip.setColorLabel(safeIndex);
+        editLog.record({ type: 'color', clipStart, before, after: safeIndex });
         logger.debug(`Set clip color to ${safeIndex}`);
         return true;
       } else if (typeof clip.colorLabelIndex !== 'undefined') {
         // Alternative property-based approach
         clip.colorLabelIndex = safeIndex;
+        editLog.record({ type: 'color', clipStart, before, after: safeIndex });
         logger.debug(`Set clip colorLabelIndex to ${safeIndex}`);
         return true;
       }
@@ -653,7 +1367,14 @@ export class PremiereAPI {
 
       // Premiere clips have a writable name property
       if (typeof clip.name !== 'undefined') {
+        const before = clip.name;
         clip.name = newName;
+        editLog.record({
+          type: 'rename',
+          clipStart: clip.start?.seconds ?? 0,
+          before,
+          after: newName,
+        });
         logger.debug(`Renamed clip to "${newName}"`);
         return true;
       }
@@ -767,8 +1488,12 @@ export class PremiereAPI {
    * Processes from END to START to preserve earlier timecodes.
    *
    * @param takes - Array of normalized takes to apply (uses pendingTakes if not provided)
+   * @param options - nonDestructive applies the takes to a duplicate, which becomes the active sequence
    */
-  async applyTakesToTimeline(takes?: NormalizedTake[]): Promise<ApplyTakesResult> {
+  async applyTakesToTimeline(
+    takes?: NormalizedTake[],
+    options: ApplyEditOptions = {}
+  ): Promise<ApplyTakesResult> {
     const takesToApply = takes ?? this.pendingTakes;
 
     const result: ApplyTakesResult = {
@@ -793,10 +1518,15 @@ export class PremiereAPI {
         clipsColored: takesToApply.length,
         clipsRenamed: takesToApply.length,
         errors: [],
+        sequenceCopy: options.nonDestructive
+          ? this.mockSequenceCopy('takes', options.copyNameTemplate)
+          : undefined,
       };
     }
 
     try {
+      result.sequenceCopy = await this.beginEditSession('takes', options);
+
       // Sort takes by start time DESCENDING (process from end first)
       const sorted = [...takesToApply].sort((a, b) => b.start - a.start);
 
@@ -805,8 +1535,8 @@ export class PremiereAPI {
       for (const take of sorted) {
         try {
           // Step 1: Make cuts at take boundaries
-          const cutAtStart = await this.razorAtTime(take.start);
-          const cutAtEnd = await this.razorAtTime(take.end);
+          const cutAtStart = await this.razorAtTime(take.start, options.tracks);
+          const cutAtEnd = await this.razorAtTime(take.end, options.tracks);
 
           if (cutAtStart) result.cutsCreated++;
           if (cutAtEnd) result.cutsCreated++;
@@ -844,6 +1574,8 @@ export class PremiereAPI {
     } catch (error) {
       logger.error('Failed to apply takes to timeline', error);
       throw error;
+    } finally {
+      await this.commitEditSession();
     }
   }
 
@@ -855,6 +1587,596 @@ export class PremiereAPI {
     logger.info('Cleared pending takes');
   }
 
+  // ============================================
+  // Review Marker Methods
+  // ============================================
+
+  /**
+   * Write detected sections and/or takes as sequence markers for review in Premiere.
+   * Markers the editor deletes are rejected; applyReviewMarkers() applies the rest.
+   */
+  async addReviewMarkers(candidates: {
+    sections?: SilentSection[];
+    takes?: NormalizedTake[];
+  }): Promise<{ added: number; errors: string[] }> {
+    const markers = [
+      ...reviewMarkers.fromSections(candidates.sections ?? []),
+      ...reviewMarkers.fromTakes(candidates.takes ?? []),
+    ];
+
+    const result = await this.addMarkers(markers);
+    logger.info(`Added ${result.added}/${markers.length} review markers`);
+    return result;
+  }
+
+  /**
+   * Apply the candidates whose review markers are still on the sequence, then
+   * remove those markers. Silence markers are cut with the given handles; take
+   * markers are matched to the pending takes.
+   */
+  async applyReviewMarkers(
+    handles: CutHandleOptions = {},
+    options: ApplyEditOptions = {}
+  ): Promise<ApplyReviewMarkersResult> {
+    const found = await this.readReviewMarkers();
+    const result: ApplyReviewMarkersResult = {
+      markersFound: found.length,
+      markersRemoved: 0,
+      silence: null,
+      takes: null,
+      errors: [],
+    };
+    if (found.length === 0) {
+      logger.warn('No review markers on the sequence');
+      return result;
+    }
+
+    const sections = found
+      .filter(({ payload }) => payload.type === 'silence')
+      .map(({ payload }) => reviewMarkers.toSection(payload));
+
+    const takeIds = new Set(
+      found.filter(({ payload }) => payload.type === 'take').map(({ payload }) => payload.id)
+    );
+    const takes = this.pendingTakes.filter((take) => takeIds.delete(reviewMarkers.getTakeId(take)));
+    for (const id of takeIds) {
+      result.errors.push(`Take ${id} is no longer pending - analyze takes again to apply it`);
+    }
+
+    // Takes first: they don't move anything, while silence cuts ripple later times
+    if (takes.length > 0) {
+      result.takes = await this.applyTakesToTimeline(takes, options);
+    }
+    if (sections.length > 0) {
+      // A copy made for the takes above is already the active sequence
+      result.silence = await this.applySilenceCuts(sections, handles, {
+        ...options,
+        nonDestructive: options.nonDestructive && !result.takes?.sequenceCopy,
+      });
+    }
+
+    // Remove applied markers from the edited sequence (the copy in non-destructive
+    // mode); markers of unmatched takes stay for another try
+    const remaining = this.isAvailable() ? await this.readReviewMarkers() : found;
+    result.markersRemoved = this.removeMarkers(
+      remaining
+        .filter(({ payload }) => payload.type === 'silence' || !takeIds.has(payload.id))
+        .map(({ marker }) => marker),
+      result.errors
+    );
+
+    logger.info(
+      `Applied ${sections.length} silence and ${takes.length} take markers, removed ${result.markersRemoved}`
+    );
+    return result;
+  }
+
+  /**
+   * Review markers on the active sequence, with their decoded payloads
+   */
+  private async readReviewMarkers(): Promise<Array<{ marker: any; payload: ReviewMarkerPayload }>> {
+    if (!this.isAvailable()) {
+      logger.info('Running in mock mode - treating pending sections as reviewed markers');
+      return reviewMarkers.fromSections(this.pendingSilentSections).map((spec) => ({
+        marker: spec,
+        payload: reviewMarkers.decode(spec.comments)!,
+      }));
+    }
+
+    const activeSequence = this.project.activeSequence;
+    if (!activeSequence) {
+      throw new Error('No active sequence');
+    }
+
+    const found: Array<{ marker: any; payload: ReviewMarkerPayload }> = [];
+    const markers = activeSequence.markers;
+    for (let i = 0; i < markers.numMarkers; i++) {
+      const payload = reviewMarkers.decode(markers[i].comments);
+      if (payload) found.push({ marker: markers[i], payload });
+    }
+    return found;
+  }
+
+  /**
+   * Delete markers from the active sequence, collecting failures
+   */
+  private removeMarkers(markers: any[], errors: string[]): number {
+    if (!this.isAvailable()) {
+      return markers.length;
+    }
+
+    const collection = this.project.activeSequence?.markers;
+    let removed = 0;
+    for (const marker of markers) {
+      try {
+        if (typeof collection?.deleteMarker === 'function') {
+          collection.deleteMarker(marker);
+        } else if (typeof marker.remove === 'function') {
+          marker.remove();
+        } else {
+          throw new Error('Marker removal not supported');
+        }
+        removed++;
+      } catch (error) {
+        errors.push(`Failed to remove marker "${marker.name}": ${error}`);
+      }
+    }
+    return removed;
+  }
+
+  // ============================================
+  // Edit Log Methods
+  // ============================================
+
+  /**
+   * Revert the last cut or take session applied to the active sequence.
+   * Switches to the duplicate made before the edit when there is one; otherwise
+   * restores clip names and colors from the edit log. Razor cuts and deletes
+   * can only be reverted through the duplicate.
+   */
+  async revertLastEdit(): Promise<RevertEditResult> {
+    if (!this.isAvailable()) {
+      logger.info('Running in mock mode - nothing to revert');
+      return { reverted: false, method: 'none', errors: [] };
+    }
+
+    try {
+      const activeSequence = this.project.activeSequence;
+      if (!activeSequence) {
+        throw new Error('No active sequence');
+      }
+
+      const sequenceId = this.getSequenceId(activeSequence);
+      const session = await editLog.getLastSession(sequenceId);
+      if (!session) {
+        logger.info('No Splice edits logged for this sequence');
+        return { reverted: false, method: 'none', errors: [] };
+      }
+
+      const errors: string[] = [];
+      if (session.backupSequenceId) {
+        if (await this.switchToSequence(session.backupSequenceId)) {
+          await editLog.removeSession(sequenceId, session.id);
+          this.recordRevert(session.id);
+          logger.info(`Reverted to backup sequence "${session.backupSequenceName}"`);
+          return { reverted: true, method: 'backup-sequence', session, errors };
+        }
+        errors.push(`Backup sequence "${session.backupSequenceName}" no longer exists`);
+      }
+
+      const irreversible = await this.restoreClips(session, errors);
+      if (irreversible > 0) {
+        errors.push(
+          `${irreversible} razor/delete edits can't be reverted without a backup sequence - use Edit > Undo in Premiere`
+        );
+      }
+
+      const reverted = irreversible === 0 && errors.length === 0;
+      if (reverted) {
+        await editLog.removeSession(sequenceId, session.id);
+      }
+      return { reverted, method: 'restore-clips', session, errors };
+    } catch (error) {
+      logger.error('Failed to revert last edit', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Undo the renames and color changes of a session, newest first.
+   * @returns Number of razor/delete edits that could not be undone
+   */
+  private async restoreClips(session: EditSession, errors: string[]): Promise<number> {
+    let irreversible = 0;
+
+    for (const action of [...session.actions].reverse()) {
+      if (action.type === 'razor' || action.type === 'delete') {
+        irreversible++;
+        continue;
+      }
+
+      const clips = await this.findClipsAtTime(action.clipStart + 0.01);
+      const matching = clips.filter(({ clip }) => clip.start?.seconds === action.clipStart);
+      if (matching.length === 0) {
+        errors.push(`No clip found at ${action.clipStart.toFixed(2)}s to restore`);
+        continue;
+      }
+
+      for (const { clip } of matching) {
+        if (action.type === 'rename' && clip.name === action.after) {
+          await this.renameClip(clip, action.before);
+        } else if (action.type === 'color' && action.before !== undefined) {
+          await this.setClipColorLabel(clip, action.before);
+        }
+      }
+    }
+
+    return irreversible;
+  }
+
+  /**
+   * Start logging edits to the active sequence. In non-destructive mode the
+   * sequence is duplicated and the duplicate made active first; otherwise it is
+   * backed up when backupBeforeEdits is set.
+   * @returns The original/duplicate pair in non-destructive mode
+   */
+  private async beginEditSession(
+    operation: EditOperation,
+    options: NonDestructiveOptions = {}
+  ): Promise<SequenceCopy | undefined> {
+    const activeSequence = this.project.activeSequence;
+    if (!activeSequence) {
+      if (options.nonDestructive) {
+        throw new Error('No active sequence');
+      }
+      return undefined;
+    }
+
+    if (options.nonDestructive) {
+      const copy = await this.createWorkingCopy(
+        activeSequence,
+        operation,
+        options.copyNameTemplate
+      );
+      // Reverting the duplicate's edits switches back to the untouched original
+      editLog.begin(
+        operation,
+        { id: this.getSequenceId(this.project.activeSequence), name: copy.copyName },
+        { id: copy.originalId, name: copy.originalName }
+      );
+      return copy;
+    }
+
+    const backup = this.backupBeforeEdits
+      ? await this.duplicateSequence(
+          activeSequence,
+          `${activeSequence.name} (before Splice ${new Date().toLocaleTimeString()})`
+        )
+      : null;
+    editLog.begin(
+      operation,
+      { id: this.getSequenceId(activeSequence), name: activeSequence.name },
+      backup
+    );
+    return undefined;
+  }
+
+  /**
+   * Duplicate the original, switch to the duplicate and remember the pair.
+   * Throws rather than fall back to editing the original.
+   */
+  private async createWorkingCopy(
+    original: any,
+    operation: EditOperation,
+    template: string = DEFAULT_COPY_NAME_TEMPLATE
+  ): Promise<SequenceCopy> {
+    const originalName: string = original.name;
+    const originalId = await this.getSequenceItemId(original);
+    const duplicate = await this.duplicateSequence(
+      original,
+      editLog.formatCopyName(template, originalName)
+    );
+    if (!originalId || !duplicate) {
+      throw new SpliceError(
+        SpliceErrorCode.SEQUENCE_DUPLICATE_FAILED,
+        `Could not duplicate sequence "${originalName}"`
+      );
+    }
+
+    if (!(await this.switchToSequence(duplicate.id))) {
+      throw new SpliceError(
+        SpliceErrorCode.SEQUENCE_NOT_FOUND,
+        `Could not open duplicate "${duplicate.name}"`
+      );
+    }
+
+    const copy: SequenceCopy = {
+      originalId,
+      originalName,
+      copyId: duplicate.id,
+      copyName: duplicate.name,
+      operation,
+      createdAt: new Date().toISOString(),
+    };
+    try {
+      await editLog.recordSequenceCopy(copy);
+    } catch (error) {
+      logger.warn('Failed to store sequence copy', error);
+    }
+
+    logger.info(`Editing duplicate "${copy.copyName}" of "${originalName}"`);
+    return copy;
+  }
+
+  private async commitEditSession(): Promise<void> {
+    try {
+      await editLog.commit();
+    } catch (error) {
+      // The edits themselves succeeded; only the log is lost
+      logger.warn('Failed to store edit log', error);
+    }
+  }
+
+  /**
+   * Duplicate a sequence in the project
+   * @param name - Name for the duplicate
+   * @returns Project item ID and name of the duplicate, or null if it couldn't be made
+   */
+  private async duplicateSequence(
+    sequence: any,
+    name: string
+  ): Promise<{ id: string; name: string } | null> {
+    try {
+      if (typeof sequence.clone !== 'function') {
+        logger.warn('Sequence does not support clone');
+        return null;
+      }
+
+      const existing = new Set((await this.getSequences()).map((s) => s.id));
+      sequence.clone();
+      const copy = (await this.getSequences()).find((s) => !existing.has(s.id));
+      if (!copy) {
+        logger.warn('Could not find the duplicated sequence');
+        return null;
+      }
+
+      const item = this.findSequenceItem(copy.id);
+      if (item) {
+        item.name = name;
+      }
+
+      logger.info(`Duplicated sequence as "${name}"`);
+      return { id: copy.id, name: item ? name : copy.name };
+    } catch (error) {
+      logger.warn('Failed to duplicate sequence', error);
+      return null;
+    }
+  }
+
+  /**
+   * Project item ID of a sequence, as used by switchToSequence()
+   */
+  private async getSequenceItemId(sequence: any): Promise<string | null> {
+    if (sequence.projectItem?.nodeId) {
+      return sequence.projectItem.nodeId;
+    }
+    const match = (await this.getSequences()).find((s) => s.name === sequence.name);
+    return match?.id ?? null;
+  }
+
+  private findSequenceItem(sequenceId: string): any | null {
+    const projectItems = this.project.rootItem.children;
+    for (let i = 0; i < projectItems.numItems; i++) {
+      const item = projectItems[i];
+      if (item.nodeId === sequenceId && item.type === 2) {
+        return item;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Stable ID of a sequence for per-sequence caches and logs
+   */
+  private getSequenceId(sequence: any): string {
+    return String(sequence.sequenceID ?? sequence.name);
+  }
+
+  /**
+   * Current color label of a clip, if the API exposes it
+   */
+  private getClipColorLabel(clip: any): number | undefined {
+    if (typeof clip.getColorLabel === 'function') {
+      return clip.getColorLabel();
+    }
+    return typeof clip.colorLabelIndex === 'number' ? clip.colorLabelIndex : undefined;
+  }
+
+  // ============================================
+  // Cut List Methods
+  // ============================================
+
+  /**
+   * Save proposed cuts as an EDL, FCPXML or OTIO timeline of the kept ranges.
+   * Sections are padded with the same handles as when cutting; takes are kept as given.
+   * Returns null if the user cancelled the save dialog.
+   */
+  async exportCutList(
+    format: CutListFormat,
+    source: { sections?: SilentSection[]; takes?: NormalizedTake[] },
+    handles: CutHandleOptions = {}
+  ): Promise<CutListExportResult | null> {
+    const info = await this.getSequenceMetadata();
+    const ranges = source.takes
+      ? cutListExporter.keepRangesFromTakes(source.takes, info.frameRate)
+      : cutListExporter.keepRangesFromSections(
+          cutPlanner.applyHandles(source.sections ?? this.pendingSilentSections, handles),
+          info.durationFrames,
+          info.frameRate
+        );
+
+    const content = cutListExporter.format(format, ranges, info);
+    const fileName = await cutListExporter.save(content, info.name, format);
+    if (!fileName) return null;
+
+    logger.info(`Exported ${ranges.length} kept ranges as ${format} to ${fileName}`);
+    return { format, fileName, events: ranges.length };
+  }
+
+  /**
+   * Let the user pick an EDL or CSV cut list and check it against the active sequence.
+   * Returns null if the user cancelled the open dialog.
+   */
+  async importCutList(): Promise<ImportedCutList | null> {
+    const file = this.isAvailable()
+      ? await cutListImporter.open()
+      : { fileName: 'mock.csv', text: 'start,end,action,label\n10,12.5,cut,Intro fluff\n' };
+    if (!file) return null;
+
+    const cutList = cutListImporter.load(
+      file.text,
+      file.fileName,
+      await this.getSequenceMetadata()
+    );
+    logger.info(
+      `Imported ${cutList.cuts.length} cuts from ${file.fileName} (${cutList.issues.length} issues)`
+    );
+    return cutList;
+  }
+
+  /**
+   * Ripple delete the ranges of an imported cut list, from the end of the
+   * sequence backwards. Supports partial success like applySilenceCuts.
+   */
+  async applyCutList(
+    cuts: ImportedCut[],
+    options: ApplyEditOptions = {}
+  ): Promise<ApplySilenceCutsResult> {
+    const result: ApplySilenceCutsResult = {
+      cutsApplied: 0,
+      cutsAttempted: cuts.length,
+      timeRemoved: 0,
+      errors: [],
+    };
+
+    if (cuts.length === 0) {
+      logger.warn('No imported cuts to apply');
+      return result;
+    }
+
+    if (!this.isAvailable()) {
+      logger.info('Running in mock mode - simulating imported cuts');
+      this.recordRemovedRanges(cuts);
+      return {
+        ...result,
+        cutsApplied: cuts.length,
+        timeRemoved: cuts.reduce((sum, c) => sum + c.duration, 0),
+        sequenceCopy: options.nonDestructive
+          ? this.mockSequenceCopy('cut-list', options.copyNameTemplate)
+          : undefined,
+      };
+    }
+
+    try {
+      result.sequenceCopy = await this.beginEditSession('cut-list', options);
+
+      const removed: RemovedRange[] = [];
+      for (const cut of [...cuts].sort((a, b) => b.start - a.start)) {
+        try {
+          const deleted = await this.deleteRange(cut.start, cut.end, options.tracks, true);
+          if (deleted.timeRemoved === 0) continue; // Shorter than a frame
+          this.mergeTrackSkips(result, deleted.tracksSkipped);
+          removed.push({ start: deleted.start, end: deleted.end });
+          result.cutsApplied++;
+          result.timeRemoved += deleted.timeRemoved;
+        } catch (error) {
+          const errorMsg = `Failed to cut "${cut.label}" at ${cut.start.toFixed(2)}s: ${error}`;
+          result.errors.push(errorMsg);
+          logger.error(errorMsg);
+        }
+      }
+
+      this.recordRemovedRanges(removed);
+      logger.info(`Applied ${result.cutsApplied}/${result.cutsAttempted} imported cuts`);
+      return result;
+    } catch (error) {
+      logger.error('Failed to apply cut list', error);
+      throw error;
+    } finally {
+      await this.commitEditSession();
+    }
+  }
+
+  // ============================================
+  // Cut Simulation Methods
+  // ============================================
+
+  /**
+   * Work out what applying cuts would do to each track, without editing the sequence.
+   * Sections are padded with the same handles as when cutting; imported cuts are used as given.
+   */
+  async simulateCuts(
+    source: { sections?: SilentSection[]; cuts?: ImportedCut[] },
+    handles: CutHandleOptions = {},
+    tracks?: TrackTargeting
+  ): Promise<CutSimulationReport> {
+    const ranges =
+      source.cuts ??
+      cutPlanner.applyHandles(source.sections ?? this.pendingSilentSections, handles);
+    const report = cutSimulator.simulate(await this.getTimelineStructure(tracks), ranges);
+
+    logger.info(
+      `Simulated ${report.cuts} cuts: ${report.durationBefore.toFixed(1)}s -> ${report.durationAfter.toFixed(1)}s, ${report.syncBreaks.length} sync breaks`
+    );
+    return report;
+  }
+
+  /**
+   * Clips of every track of the active sequence, and which tracks an edit
+   * with the given targeting would leave uncut
+   */
+  async getTimelineStructure(tracks?: TrackTargeting): Promise<TimelineStructure> {
+    if (!this.isAvailable()) {
+      logger.info('Running in mock mode - using mock timeline');
+      return this.readTimelineStructure(this.mockSequence(), tracks);
+    }
+
+    const activeSequence = this.project.activeSequence;
+    if (!activeSequence) {
+      throw new Error('No active sequence');
+    }
+    return this.readTimelineStructure(activeSequence, tracks);
+  }
+
+  private readTimelineStructure(sequence: any, targeting?: TrackTargeting): TimelineStructure {
+    const { cut, skipped } = this.resolveTrackTargets(sequence, targeting);
+
+    const read = (ref: TrackRef, skipReason?: TrackSkip['reason']): TimelineTrack => {
+      const clips: TimelineTrack['clips'] = [];
+      for (let j = 0; j < ref.track.clips.numItems; j++) {
+        const clip = ref.track.clips[j];
+        clips.push({
+          name: clip.name,
+          start: ticksToSeconds(this.ticksOf(clip.start)),
+          end: ticksToSeconds(this.ticksOf(clip.end)),
+        });
+      }
+      return { type: ref.type, index: ref.index, name: ref.track.name, clips, skipReason };
+    };
+
+    const tracks = [
+      ...cut.map((ref) => read(ref)),
+      ...skipped.map((ref) => read(ref, ref.reason)),
+    ].sort((a, b) => (a.type === b.type ? a.index - b.index : a.type === 'video' ? -1 : 1));
+
+    return {
+      duration: ticksToSeconds(this.ticksOf(sequence.end)),
+      frameRate: this.getFrameRate(sequence) ?? undefined,
+      tracks,
+      untargetedPolicy: targeting?.untargetedPolicy ?? 'leave',
+    };
+  }
+
   // ============================================
   // Sequence Management Methods
   // ============================================
@@ -930,6 +2252,40 @@ export class PremiereAPI {
     }
   }
 
+  /**
+   * Name, frame rate, length, frame size and starting timecode of the active sequence
+   */
+  async getSequenceMetadata(): Promise<CutListSequenceInfo> {
+    if (!this.isAvailable()) {
+      const frameRate = frameRateFromFps(29.97);
+      return {
+        name: 'Main Sequence',
+        frameRate,
+        durationFrames: secondsToFrames(180, frameRate),
+        width: 1920,
+        height: 1080,
+        dropFrame: isDropFrameRate(frameRate),
+      };
+    }
+
+    const sequence = this.project.activeSequence;
+    if (!sequence) {
+      throw new Error('No active sequence');
+    }
+
+    const frameRate = frameRateFromTimebase(sequence.timebase);
+    return {
+      name: sequence.name,
+      frameRate,
+      durationFrames: ticksToFrames(this.ticksOf(sequence.end), frameRate),
+      width: sequence.frameSizeHorizontal,
+      height: sequence.frameSizeVertical,
+      // Premiere counts NTSC sequences in drop-frame timecode by default
+      dropFrame: isDropFrameRate(frameRate),
+      startFrame: sequence.zeroPoint ? ticksToFrames(sequence.zeroPoint, frameRate) : 0,
+    };
+  }
+
   /**
    * Get information about a specific sequence
    */
@@ -1025,7 +2381,12 @@ export class PremiereAPI {
     };
   }
 
-  private mockAddMarker(time: number, name: string, color?: string, comments?: string): MarkerInfo {
+  private mockAddMarker(
+    time: number,
+    name: string,
+    color?: MarkerColor,
+    comments?: string
+  ): MarkerInfo {
     return {
       name,
       time,
@@ -1034,6 +2395,17 @@ export class PremiereAPI {
     };
   }
 
+  private mockSequenceCopy(operation: EditOperation, template?: string): SequenceCopy {
+    return {
+      originalId: 'seq-001',
+      originalName: 'Main Sequence',
+      copyId: `seq-copy-${Date.now()}`,
+      copyName: editLog.formatCopyName(template ?? DEFAULT_COPY_NAME_TEMPLATE, 'Main Sequence'),
+      operation,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
   private mockRazorAtTime(): boolean {
     return true;
   }
@@ -1046,13 +2418,64 @@ export class PremiereAPI {
     };
   }
 
-  private mockDeleteRange(
-    startTime: number,
-    endTime: number
-  ): { clipsDeleted: number; timeRemoved: number } {
+  /**
+   * Sequence shaped like the UXP one: an interview on V1/A1, graphics and
+   * B-roll on V2, music on A2
+   */
+  private mockSequence(): any {
+    const time = (seconds: number) => ({ seconds, ticks: String(secondsToTicks(seconds)) });
+    const collection = <T>(items: T[], count: 'numTracks' | 'numItems') =>
+      Object.assign([...items], { [count]: items.length });
+    const track = (name: string, clips: Array<[string, number, number]>) => ({
+      name,
+      clips: collection(
+        clips.map(([clipName, start, end]) => ({
+          name: clipName,
+          start: time(start),
+          end: time(end),
+        })),
+        'numItems'
+      ),
+      isMuted: () => false,
+    });
+
+    return {
+      name: 'Main Sequence',
+      timebase: String(framesToTicks(1, frameRateFromFps(29.97))),
+      end: time(180),
+      videoTracks: collection(
+        [
+          track('Video 1', [
+            ['Interview A', 0, 95],
+            ['Interview B', 95, 180],
+          ]),
+          track('Video 2', [
+            ['Lower third', 12, 18],
+            ['B-roll', 60, 75],
+          ]),
+        ],
+        'numTracks'
+      ),
+      audioTracks: collection(
+        [
+          track('Audio 1', [
+            ['Interview A', 0, 95],
+            ['Interview B', 95, 180],
+          ]),
+          track('Audio 2', [['Music', 0, 180]]),
+        ],
+        'numTracks'
+      ),
+    };
+  }
+
+  private mockDeleteRange(startTime: number, endTime: number): DeleteRangeResult {
     return {
       clipsDeleted: 2,
+      start: startTime,
+      end: endTime,
       timeRemoved: endTime - startTime,
+      tracksSkipped: [],
     };
   }
 }
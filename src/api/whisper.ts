@@ -1,4 +1,5 @@
 import { logger } from '../lib/logger';
+import { getUploadFileInfo } from '../services/flac-encoder';
 
 const OPENAI_BASE_URL = 'https://api.openai.com/v1';
 const WHISPER_MODEL = 'whisper-1';
@@ -96,8 +97,8 @@ export class WhisperClient {
 
     try {
       const formData = new FormData();
-      const blob = new Blob([audioBuffer], { type: 'audio/wav' });
-      formData.append('file', blob, 'audio.wav');
+      const { type, filename } = getUploadFileInfo(audioBuffer);
+      formData.append('file', new Blob([audioBuffer], { type }), filename);
       formData.append('model', WHISPER_MODEL);
       formData.append('response_format', 'verbose_json');
       formData.append('timestamp_granularities[]', 'word');
@@ -233,9 +234,9 @@ export class WhisperClient {
   private createFormData(audioBuffer: ArrayBuffer, options: WhisperOptions): FormData {
     const formData = new FormData();
 
-    // Determine audio type from buffer or default to wav
-    const blob = new Blob([audioBuffer], { type: 'audio/wav' });
-    formData.append('file', blob, 'audio.wav');
+    // Determine audio type from the buffer's magic bytes (FLAC or WAV)
+    const { type, filename } = getUploadFileInfo(audioBuffer);
+    formData.append('file', new Blob([audioBuffer], { type }), filename);
     formData.append('model', WHISPER_MODEL);
 
     if (options.responseFormat) {
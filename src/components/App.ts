@@ -3,13 +3,24 @@ import { AIServices, aiServices } from '../api/ai-services';
 import { subscriptionService } from '../services/subscription';
 import { takeDetector } from '../services/take-detector';
 import { exportPresetsService } from '../services/export-presets';
+import { timeMap } from '../services/time-map';
+import { cutPlanner } from '../services/cut-planner';
 import { serviceStatus } from '../services/service-status';
 import { secureStorage } from '../lib/secure-storage';
 import { logger, LogLevel } from '../lib/logger';
-import { isSpliceError, wrapError } from '../lib/errors';
+import { isSpliceError, wrapError, SpliceErrorCode } from '../lib/errors';
+import { operationLock, withOperationLock } from '../lib/operation-lock';
 import { openExternalUrl } from '../lib/utils';
 import { backendClient } from '../api/backend-client';
 import { AuthPanel } from './AuthPanel';
+import { WaveformView } from './WaveformView';
+import type { SilenceDetectionMode, SilentSection } from '../services/silence-detector';
+import type { WaveformPeakData } from '../services/waveform-peaks';
+import type { CutHandleOptions } from '../services/cut-planner';
+import type { DisfluencyCandidate } from '../services/filler-detector';
+import type { CutListFormat } from '../services/cut-list-exporter';
+import type { ImportedCutList } from '../services/cut-list-importer';
+import type { CutSimulationReport } from '../services/cut-simulator';
 
 type TabId = 'home' | 'silence' | 'takes' | 'settings';
 
@@ -20,6 +31,7 @@ interface AppState {
   clipCount: number;
   duration: number;
   tracks: number;
+  loudness: LoudnessSummary | null;
   status: string;
   isProcessing: boolean;
   progressPercent: number;
@@ -27,13 +39,35 @@ interface AppState {
   canCancel: boolean;
   // Silence tab state
   silenceThreshold: number;
+  silenceDetectionMode: SilenceDetectionMode;
+  silencePadding: number;
+  silenceCutMode: SilenceCutMode;
+  tightenTarget: number;
+  tightenAnchor: TightenAnchor;
+  breathPolicy: BreathPolicy;
   useVoiceIsolation: boolean;
+  applyToCopy: boolean; // Cut a duplicate instead of the original sequence
+  backupBeforeEdits: boolean; // Duplicate the original before cutting it, so the edit can be reverted
+  reviewWithMarkers: boolean; // Write detections as sequence markers to review in Premiere
+  trackTargeting: TrackTargeting; // Which tracks cuts apply to
+  cutSimulation: {
+    source: 'silence' | 'cut-list';
+    key: string; // Inputs the report was made from; it is hidden once they change
+    report: CutSimulationReport;
+  } | null;
   silentSections: number;
-  timeToRemove: number;
+  sectionSource: 'silence' | 'disfluencies'; // What detected the pending sections
+  timeToRemove: number; // Accepted sections only
+  sectionAccepted: boolean[]; // Review verdict per pending section
+  reviewMinConfidence: number;
   selectedPresetId: string | null;
   availablePresets: SilenceDetectionPreset[];
+  waveform: WaveformPeakData | null;
+  waveformZoom: number;
+  importedCutList: ImportedCutList | null; // EDL/CSV cut list awaiting review
   // Takes tab state
   transcript: string;
+  transcriptVersion: number; // Time-map version the transcript was measured at
   takes: NormalizedTake[];
   takeGroups: TakeGroup[];
   takeSelectionStrategy: TakeSelectionStrategy;
@@ -49,6 +83,13 @@ interface AppState {
   debugFilterLevel: LogLevel;
 }
 
+interface LoudnessSummary {
+  integratedLufs: number;
+  loudnessRange: number;
+  truePeakDbtp: number;
+  flaggedPassages: number;
+}
+
 export class App {
   private container: HTMLElement;
   private premiereAPI: PremiereAPI;
@@ -60,6 +101,7 @@ export class App {
   private authPanel: AuthPanel | null = null;
   private isAuthenticated: boolean = false;
   private listenerCleanups: Array<() => void> = [];
+  private waveformView = new WaveformView();
 
   constructor(container: HTMLElement) {
     this.container = container;
@@ -72,18 +114,37 @@ export class App {
       clipCount: 0,
       duration: 0,
       tracks: 0,
+      loudness: null,
       status: 'Ready',
       isProcessing: false,
       progressPercent: 0,
       progressMessage: '',
       canCancel: false,
       silenceThreshold: -40,
+      silenceDetectionMode: 'transcription',
+      silencePadding: 0.15,
+      silenceCutMode: 'remove',
+      tightenTarget: 0.25,
+      tightenAnchor: 'following',
+      breathPolicy: 'keep',
       useVoiceIsolation: false,
+      applyToCopy: false,
+      backupBeforeEdits: false,
+      reviewWithMarkers: false,
+      trackTargeting: {},
+      cutSimulation: null,
       silentSections: 0,
+      sectionSource: 'silence',
       timeToRemove: 0,
+      sectionAccepted: [],
+      reviewMinConfidence: 0.7,
       selectedPresetId: null,
       availablePresets: [],
+      waveform: null,
+      waveformZoom: 1,
+      importedCutList: null,
       transcript: '',
+      transcriptVersion: 0,
       takes: [],
       takeGroups: [],
       takeSelectionStrategy: 'best_only',
@@ -371,8 +432,19 @@ export class App {
           <sp-button variant="primary" id="btn-quick-silence" ${this.state.isProcessing ? 'disabled' : ''}>
             Quick Silence Cut
           </sp-button>
+          <sp-button variant="secondary" id="btn-measure-loudness" ${this.state.isProcessing ? 'disabled' : ''}>
+            Measure Loudness
+          </sp-button>
+          <sp-button variant="secondary" id="btn-check-defects" ${this.state.isProcessing ? 'disabled' : ''}>
+            Check for Clipping &amp; Dropouts
+          </sp-button>
+          <sp-button variant="secondary" id="btn-revert-edit" ${this.state.isProcessing ? 'disabled' : ''}>
+            Revert Last Splice Edit
+          </sp-button>
         </section>
 
+        ${this.state.loudness ? this.renderLoudnessSummary(this.state.loudness) : ''}
+
         <!-- Usage -->
         <section class="usage-info" style="background: var(--spectrum-global-color-gray-200); padding: 12px; border-radius: 4px;">
           <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 8px;">
@@ -387,6 +459,33 @@ export class App {
     `;
   }
 
+  private renderLoudnessSummary(loudness: LoudnessSummary): string {
+    return `
+      <section class="loudness-info" style="background: var(--spectrum-global-color-gray-200); padding: 12px; border-radius: 4px;">
+        <div style="font-size: 11px; color: var(--spectrum-global-color-gray-500); margin-bottom: 8px;">LOUDNESS (EBU R128)</div>
+        <div style="display: grid; grid-template-columns: 1fr 1fr 1fr; gap: 8px; text-align: center;">
+          <div>
+            <div style="font-size: 14px; font-weight: 600; color: var(--spectrum-global-color-gray-50);">${loudness.integratedLufs.toFixed(1)}</div>
+            <div style="font-size: 10px; color: var(--spectrum-global-color-gray-500);">LUFS</div>
+          </div>
+          <div>
+            <div style="font-size: 14px; font-weight: 600; color: var(--spectrum-global-color-gray-50);">${loudness.loudnessRange.toFixed(1)}</div>
+            <div style="font-size: 10px; color: var(--spectrum-global-color-gray-500);">LRA (LU)</div>
+          </div>
+          <div>
+            <div style="font-size: 14px; font-weight: 600; color: var(--spectrum-global-color-gray-50);">${loudness.truePeakDbtp.toFixed(1)}</div>
+            <div style="font-size: 10px; color: var(--spectrum-global-color-gray-500);">dBTP</div>
+          </div>
+        </div>
+        ${
+          loudness.flaggedPassages > 0
+            ? `<div style="font-size: 11px; color: var(--spectrum-global-color-orange-500); margin-top: 8px;">${loudness.flaggedPassages} passages over the ceiling were marked on the timeline</div>`
+            : ''
+        }
+      </section>
+    `;
+  }
+
   private renderSilenceTab(): string {
     return `
       <div class="silence-tab" style="display: flex; flex-direction: column; gap: 16px;">
@@ -414,6 +513,26 @@ export class App {
         <section class="silence-settings" style="display: flex; flex-direction: column; gap: 12px;">
           <div>
             <label style="font-size: 11px; color: var(--spectrum-global-color-gray-400); display: block; margin-bottom: 4px;">
+              Detection Method
+            </label>
+            <select
+              id="silence-detection-mode"
+              style="width: 100%; padding: 6px; background: var(--spectrum-global-color-gray-200); border: 1px solid var(--spectrum-global-color-gray-300); border-radius: 4px; color: var(--spectrum-global-color-gray-50);"
+            >
+              <option value="transcription" ${this.state.silenceDetectionMode === 'transcription' ? 'selected' : ''}>
+                Transcription + AI (uses minutes)
+              </option>
+              <option value="energy" ${this.state.silenceDetectionMode === 'energy' ? 'selected' : ''}>
+                Audio level (offline, free)
+              </option>
+              <option value="hybrid" ${this.state.silenceDetectionMode === 'hybrid' ? 'selected' : ''}>
+                Transcription + audio level (most precise cuts)
+              </option>
+            </select>
+          </div>
+
+          <div>
+            <label for="silence-threshold" style="font-size: 11px; color: var(--spectrum-global-color-gray-400); display: block; margin-bottom: 4px;">
               Silence Threshold: ${this.state.silenceThreshold} dB
             </label>
             <input
@@ -430,6 +549,99 @@ export class App {
             </div>
           </div>
 
+          <div>
+            <label for="silence-padding" style="font-size: 11px; color: var(--spectrum-global-color-gray-400); display: block; margin-bottom: 4px;">
+              Padding: ${this.state.silencePadding.toFixed(2)}s
+            </label>
+            <input
+              type="range"
+              id="silence-padding"
+              min="0"
+              max="0.5"
+              step="0.05"
+              value="${this.state.silencePadding}"
+              style="width: 100%;"
+            />
+            <div style="display: flex; justify-content: space-between; font-size: 9px; color: var(--spectrum-global-color-gray-500);">
+              <span>Tight (0s)</span>
+              <span>Loose (0.5s)</span>
+            </div>
+          </div>
+
+          <div>
+            <label for="silence-cut-mode" style="font-size: 11px; color: var(--spectrum-global-color-gray-400); display: block; margin-bottom: 4px;">
+              Cut Style
+            </label>
+            <select
+              id="silence-cut-mode"
+              style="width: 100%; padding: 6px; background: var(--spectrum-global-color-gray-200); border: 1px solid var(--spectrum-global-color-gray-300); border-radius: 4px; color: var(--spectrum-global-color-gray-50);"
+            >
+              <option value="remove" ${this.state.silenceCutMode === 'remove' ? 'selected' : ''}>
+                Remove pauses
+              </option>
+              <option value="tighten" ${this.state.silenceCutMode === 'tighten' ? 'selected' : ''}>
+                Tighten pauses to target length
+              </option>
+            </select>
+          </div>
+
+          ${
+            this.state.silenceCutMode === 'tighten'
+              ? `
+          <div>
+            <label for="tighten-target" style="font-size: 11px; color: var(--spectrum-global-color-gray-400); display: block; margin-bottom: 4px;">
+              Target Pause: ${this.state.tightenTarget.toFixed(2)}s
+            </label>
+            <input
+              type="range"
+              id="tighten-target"
+              min="0.1"
+              max="1"
+              step="0.05"
+              value="${this.state.tightenTarget}"
+              style="width: 100%;"
+            />
+            <select
+              id="tighten-anchor"
+              style="width: 100%; margin-top: 4px; padding: 6px; background: var(--spectrum-global-color-gray-200); border: 1px solid var(--spectrum-global-color-gray-300); border-radius: 4px; color: var(--spectrum-global-color-gray-50);"
+            >
+              <option value="following" ${this.state.tightenAnchor === 'following' ? 'selected' : ''}>
+                Keep pause before next word
+              </option>
+              <option value="center" ${this.state.tightenAnchor === 'center' ? 'selected' : ''}>
+                Keep pause centered
+              </option>
+            </select>
+          </div>
+          `
+              : ''
+          }
+
+          <div>
+            <label for="breath-policy" style="font-size: 11px; color: var(--spectrum-global-color-gray-400); display: block; margin-bottom: 4px;">
+              Breaths
+            </label>
+            <select
+              id="breath-policy"
+              style="width: 100%; padding: 6px; background: var(--spectrum-global-color-gray-200); border: 1px solid var(--spectrum-global-color-gray-300); border-radius: 4px; color: var(--spectrum-global-color-gray-50);"
+            >
+              <option value="keep" ${this.state.breathPolicy === 'keep' ? 'selected' : ''}>
+                Don't detect breaths
+              </option>
+              <option value="protect" ${this.state.breathPolicy === 'protect' ? 'selected' : ''}>
+                Keep breaths out of cuts
+              </option>
+              <option value="mark" ${this.state.breathPolicy === 'mark' ? 'selected' : ''}>
+                Mark breaths
+              </option>
+              <option value="cut" ${this.state.breathPolicy === 'cut' ? 'selected' : ''}>
+                Cut breaths
+              </option>
+            </select>
+          </div>
+
+          ${this.renderTrackTargeting()}
+
           <div style="display: flex; align-items: center; gap: 8px;">
             <input
               type="checkbox"
@@ -450,12 +662,24 @@ export class App {
 
         <!-- Actions -->
         <section class="silence-actions" style="display: flex; flex-direction: column; gap: 8px;">
+          ${this.renderApplyToCopyOption('silence-apply-to-copy')}
+          ${this.renderBackupOption('silence-backup-before-edits')}
+          ${this.renderReviewWithMarkersOption('silence-review-markers')}
           <sp-button variant="cta" id="btn-detect-silence" ${this.state.isProcessing ? 'disabled' : ''}>
             Detect Silence
           </sp-button>
-          <sp-button variant="primary" id="btn-apply-cuts" ${this.state.isProcessing || this.state.silentSections === 0 ? 'disabled' : ''}>
-            Apply Cuts (${this.state.silentSections} sections)
+          <sp-button variant="secondary" id="btn-detect-disfluencies" ${this.state.isProcessing ? 'disabled' : ''}>
+            Detect Filler Words
+          </sp-button>
+          <sp-button variant="secondary" id="btn-simulate-silence" ${this.state.isProcessing || this.getAcceptedCount() === 0 ? 'disabled' : ''}>
+            Preview Result
+          </sp-button>
+          ${this.renderCutSimulation('silence')}
+          <sp-button variant="primary" id="btn-apply-cuts" ${this.state.isProcessing || this.getAcceptedCount() === 0 ? 'disabled' : ''}>
+            Apply Cuts (${this.getAcceptedCount()} of ${this.state.silentSections} sections)
           </sp-button>
+          ${this.renderApplyReviewMarkersButton('silence')}
+          ${this.state.silentSections > 0 ? this.renderCutListExport('silence', this.getAcceptedCount() === 0) : ''}
         </section>
 
         <!-- Results -->
@@ -467,7 +691,7 @@ export class App {
             <div style="display: grid; grid-template-columns: 1fr 1fr; gap: 8px;">
               <div>
                 <div style="font-size: 20px; font-weight: 600; color: var(--spectrum-global-color-orange-500);">${this.state.silentSections}</div>
-                <div style="font-size: 10px; color: var(--spectrum-global-color-gray-500);">Silent Sections</div>
+                <div style="font-size: 10px; color: var(--spectrum-global-color-gray-500);">${this.state.sectionSource === 'disfluencies' ? 'Filler Words' : 'Silent Sections'}</div>
               </div>
               <div>
                 <div style="font-size: 20px; font-weight: 600; color: var(--spectrum-global-color-orange-500);">${this.state.timeToRemove.toFixed(1)}s</div>
@@ -475,22 +699,377 @@ export class App {
               </div>
             </div>
           </section>
+          ${this.renderSectionReview()}
         `
             : ''
         }
 
+        ${this.renderWaveformSection()}
+
+        ${this.renderCutListImport()}
+
         <!-- Info -->
         <section style="font-size: 11px; color: var(--spectrum-global-color-gray-500); line-height: 1.4;">
           <strong>How it works:</strong><br/>
           1. Extracts audio from timeline<br/>
           2. Detects silent sections below threshold<br/>
-          3. Uses AI to preserve natural pauses<br/>
+          3. Uses AI to preserve natural pauses (transcription method)<br/>
           4. Cuts silent sections with ripple delete
         </section>
       </div>
     `;
   }
 
+  private renderWaveformSection(): string {
+    const { waveform, waveformZoom, isProcessing } = this.state;
+
+    return `
+      <section class="silence-waveform" style="display: flex; flex-direction: column; gap: 8px;">
+        <div style="display: flex; align-items: center; justify-content: space-between;">
+          <div style="font-size: 11px; color: var(--spectrum-global-color-gray-500);">WAVEFORM</div>
+          ${
+            waveform
+              ? `
+            <div style="display: flex; gap: 4px;">
+              <sp-button variant="secondary" size="s" id="btn-waveform-zoom-out" ${waveformZoom <= WaveformView.MIN_ZOOM ? 'disabled' : ''}>-</sp-button>
+              <sp-button variant="secondary" size="s" id="btn-waveform-zoom-in" ${waveformZoom >= WaveformView.MAX_ZOOM ? 'disabled' : ''}>+</sp-button>
+            </div>
+          `
+              : ''
+          }
+        </div>
+        ${
+          waveform
+            ? this.waveformView.render(
+                waveform,
+                this.premiereAPI.pendingSilentSections,
+                waveformZoom,
+                this.state.sectionAccepted
+              )
+            : `
+          <sp-button variant="secondary" id="btn-load-waveform" ${isProcessing ? 'disabled' : ''}>
+            Show Waveform
+          </sp-button>
+        `
+        }
+      </section>
+    `;
+  }
+
+  /**
+   * Import of an EDL/CSV cut list, with the cuts it resolves to and any problems found
+   */
+  private renderCutListImport(): string {
+    const cutList = this.state.importedCutList;
+    const disabled = this.state.isProcessing ? 'disabled' : '';
+
+    if (!cutList) {
+      return `
+        <section class="cut-list-import">
+          <sp-button variant="secondary" id="btn-import-cut-list" ${disabled}>
+            Import Cut List (EDL / CSV)
+          </sp-button>
+        </section>
+      `;
+    }
+
+    const issues = cutList.issues
+      .map(
+        (issue) => `
+          <div style="font-size: 10px; color: var(--spectrum-global-color-${issue.severity === 'error' ? 'red' : 'orange'}-500);">
+            Line ${issue.line}: ${this.escapeHtml(issue.message)}
+          </div>
+        `
+      )
+      .join('');
+    const cuts = cutList.cuts
+      .map(
+        (cut, i) => `
+          <div style="display: flex; align-items: center; gap: 8px; padding: 4px 8px; background: var(--spectrum-global-color-gray-300); border-radius: 3px;">
+            <div style="flex: 1; min-width: 0; font-size: 11px; white-space: nowrap; overflow: hidden; text-overflow: ellipsis;">
+              ${cut.start.toFixed(2)}s · ${cut.duration.toFixed(2)}s
+              <span style="color: var(--spectrum-global-color-gray-500);">· ${this.escapeHtml(cut.label)}</span>
+            </div>
+            <sp-action-button size="xs" id="btn-goto-imported-cut-${i}" title="Go to this cut">Go to</sp-action-button>
+          </div>
+        `
+      )
+      .join('');
+
+    return `
+      <section class="cut-list-import" style="display: flex; flex-direction: column; gap: 8px; background: var(--spectrum-global-color-gray-200); padding: 12px; border-radius: 4px;">
+        <div style="font-size: 11px; color: var(--spectrum-global-color-gray-500);">
+          CUT LIST · ${this.escapeHtml(cutList.fileName)}
+        </div>
+        <div style="font-size: 12px;">
+          ${cutList.cuts.length} cuts from ${cutList.entries.length} ${cutList.format.toUpperCase()} entries (${cutList.timeRemoved.toFixed(1)}s)
+        </div>
+        ${issues}
+        <div style="display: flex; flex-direction: column; gap: 4px; max-height: 200px; overflow-y: auto;">
+          ${cuts}
+        </div>
+        ${this.renderCutSimulation('cut-list')}
+        <div style="display: flex; gap: 8px;">
+          <sp-button variant="secondary" id="btn-simulate-cut-list" ${disabled || cutList.cuts.length === 0 ? 'disabled' : ''}>
+            Preview
+          </sp-button>
+          <sp-button variant="primary" id="btn-apply-cut-list" style="flex: 1;" ${disabled || cutList.cuts.length === 0 ? 'disabled' : ''}>
+            Apply Cut List
+          </sp-button>
+          <sp-button variant="secondary" id="btn-clear-cut-list" ${disabled}>Clear</sp-button>
+        </div>
+      </section>
+    `;
+  }
+
+  /**
+   * Dry-run report of the proposed cuts: new duration, what happens to each
+   * track's clips, and clips on uncut tracks that fall out of sync
+   */
+  private renderCutSimulation(source: 'silence' | 'cut-list'): string {
+    const simulation = this.state.cutSimulation;
+    if (
+      !simulation ||
+      simulation.source !== source ||
+      simulation.key !== this.getSimulationKey(source)
+    ) {
+      return '';
+    }
+
+    const report = simulation.report;
+    const muted = 'color: var(--spectrum-global-color-gray-500);';
+    const tracks = report.tracks
+      .map((track) => {
+        const note = track.cut
+          ? ''
+          : ` · not cut (${track.skipReason})${track.shifted ? ', shifted' : ''}`;
+        return `
+          <div style="display: flex; gap: 8px; font-size: 11px;">
+            <span style="width: 24px; font-weight: 600;">${track.track}</span>
+            <span style="flex: 1; min-width: 0; white-space: nowrap; overflow: hidden; text-overflow: ellipsis;">
+              ${track.clipsBefore} → ${track.clipsAfter} clips · ${track.durationBefore.toFixed(1)}s → ${track.durationAfter.toFixed(1)}s
+              <span style="${muted}">${note}</span>
+            </span>
+          </div>
+        `;
+      })
+      .join('');
+    const syncLabels: Record<string, (offset: number) => string> = {
+      orphaned: () => 'everything under it is cut',
+      'out-of-sync': (offset) => `${Math.abs(offset).toFixed(2)}s out of sync`,
+      overlap: (offset) => `overlapped by ${offset.toFixed(2)}s`,
+    };
+    const syncBreaks = report.syncBreaks
+      .map(
+        (brk) => `
+          <div style="font-size: 10px; color: var(--spectrum-global-color-red-500);">
+            ${brk.track} · ${this.escapeHtml(brk.clipName)} at ${brk.start.toFixed(1)}s: ${syncLabels[brk.kind](brk.offset)}
+          </div>
+        `
+      )
+      .join('');
+
+    return `
+      <div class="cut-simulation" style="display: flex; flex-direction: column; gap: 6px; background: var(--spectrum-global-color-gray-200); padding: 12px; border-radius: 4px;">
+        <div style="font-size: 11px; ${muted}">PREVIEW · ${report.cuts} CUTS</div>
+        <div style="font-size: 16px; font-weight: 600;">
+          ${report.durationBefore.toFixed(1)}s → ${report.durationAfter.toFixed(1)}s
+          <span style="font-size: 11px; font-weight: 400; ${muted}">(-${(report.durationBefore - report.durationAfter).toFixed(1)}s)</span>
+        </div>
+        <div style="font-size: 11px;">
+          ${report.clipsTrimmed} clips trimmed, ${report.clipsSplit} split, ${report.clipsRemoved} removed
+        </div>
+        ${tracks}
+        ${
+          syncBreaks
+            ? `<div style="display: flex; flex-direction: column; gap: 2px; max-height: 120px; overflow-y: auto;">${syncBreaks}</div>`
+            : `<div style="font-size: 10px; color: var(--spectrum-global-color-green-500);">All tracks stay in sync</div>`
+        }
+      </div>
+    `;
+  }
+
+  /**
+   * Buttons saving the proposed edit as a cut list for other editors
+   * @param source - Which tab's proposal to export: accepted sections or selected takes
+   */
+  private renderCutListExport(source: 'silence' | 'takes', empty: boolean): string {
+    const disabled = this.state.isProcessing || empty ? 'disabled' : '';
+    return `
+      <div style="display: flex; align-items: center; gap: 4px;">
+        <span style="font-size: 11px; color: var(--spectrum-global-color-gray-500); flex: 1;">Export cut list</span>
+        <sp-button variant="secondary" size="s" id="btn-export-${source}-edl" ${disabled}>EDL</sp-button>
+        <sp-button variant="secondary" size="s" id="btn-export-${source}-fcpxml" ${disabled}>FCPXML</sp-button>
+        <sp-button variant="secondary" size="s" id="btn-export-${source}-otio" ${disabled}>OTIO</sp-button>
+      </div>
+    `;
+  }
+
+  /**
+   * Track numbers to cut and protect (1-based, as shown in Premiere), and what
+   * happens to the tracks that are not cut
+   */
+  private renderTrackTargeting(): string {
+    const targeting = this.state.trackTargeting;
+    const inputStyle =
+      'padding: 6px; background: var(--spectrum-global-color-gray-200); border: 1px solid var(--spectrum-global-color-gray-300); border-radius: 4px; color: var(--spectrum-global-color-gray-50); min-width: 0;';
+    const input = (id: string, placeholder: string, tracks?: number[]) => `
+      <input type="text" id="${id}" placeholder="${placeholder}" value="${this.formatTrackList(tracks)}" style="${inputStyle}" />
+    `;
+
+    return `
+      <div>
+        <label style="font-size: 11px; color: var(--spectrum-global-color-gray-400); display: block; margin-bottom: 4px;">
+          Tracks (e.g. 1, 2 - locked tracks are never cut)
+        </label>
+        <div style="display: grid; grid-template-columns: 1fr 1fr; gap: 6px; margin-bottom: 6px;">
+          ${input('tracks-cut-audio', 'Cut audio: all', targeting.audioTracks)}
+          ${input('tracks-cut-video', 'Cut video: all', targeting.videoTracks)}
+          ${input('tracks-protect-audio', 'Protect audio: none', targeting.protectedAudioTracks)}
+          ${input('tracks-protect-video', 'Protect video: none', targeting.protectedVideoTracks)}
+        </div>
+        <select id="untargeted-policy" style="width: 100%; ${inputStyle}">
+          <option value="leave" ${targeting.untargetedPolicy !== 'ripple' ? 'selected' : ''}>
+            Leave other tracks alone
+          </option>
+          <option value="ripple" ${targeting.untargetedPolicy === 'ripple' ? 'selected' : ''}>
+            Shift other tracks to stay in sync
+          </option>
+        </select>
+      </div>
+    `;
+  }
+
+  private renderReviewWithMarkersOption(id: string): string {
+    return `
+      <div style="display: flex; align-items: center; gap: 8px;">
+        <input type="checkbox" id="${id}" ${this.state.reviewWithMarkers ? 'checked' : ''} />
+        <label for="${id}" style="font-size: 12px; color: var(--spectrum-global-color-gray-300);">
+          Review in Premiere (add a marker per detection; delete markers to reject)
+        </label>
+      </div>
+    `;
+  }
+
+  private renderApplyReviewMarkersButton(tab: 'silence' | 'takes'): string {
+    if (!this.state.reviewWithMarkers) return '';
+    return `
+      <sp-button variant="secondary" id="btn-apply-review-markers-${tab}" ${this.state.isProcessing ? 'disabled' : ''}>
+        Apply Remaining Markers
+      </sp-button>
+    `;
+  }
+
+  private renderApplyToCopyOption(id: string): string {
+    return `
+      <div style="display: flex; align-items: center; gap: 8px;">
+        <input type="checkbox" id="${id}" ${this.state.applyToCopy ? 'checked' : ''} />
+        <label for="${id}" style="font-size: 12px; color: var(--spectrum-global-color-gray-300);">
+          Apply to a copy (leave the original sequence untouched)
+        </label>
+      </div>
+    `;
+  }
+
+  private renderBackupOption(id: string): string {
+    return `
+      <div style="display: flex; align-items: center; gap: 8px;">
+        <input type="checkbox" id="${id}" ${this.state.backupBeforeEdits ? 'checked' : ''} />
+        <label for="${id}" style="font-size: 12px; color: var(--spectrum-global-color-gray-300);">
+          Back up the sequence before cutting, so cuts can be reverted (adds a "before Splice" sequence to the project)
+        </label>
+      </div>
+    `;
+  }
+
+  /**
+   * Review list of detected sections - only accepted ones are cut
+   */
+  private renderSectionReview(): string {
+    const sections = this.premiereAPI.pendingSilentSections;
+
+    return `
+      <section class="silence-review" style="display: flex; flex-direction: column; gap: 8px;">
+        <div style="display: flex; align-items: center; justify-content: space-between;">
+          <div style="font-size: 11px; color: var(--spectrum-global-color-gray-500);">REVIEW</div>
+          <div style="display: flex; gap: 4px;">
+            <sp-action-button size="xs" id="btn-accept-all-sections">Accept all</sp-action-button>
+            <sp-action-button size="xs" id="btn-reject-all-sections">Reject all</sp-action-button>
+          </div>
+        </div>
+
+        <div style="display: flex; align-items: center; gap: 8px;">
+          <label for="review-min-confidence" style="font-size: 11px; color: var(--spectrum-global-color-gray-400); flex: 1;">
+            Below ${Math.round(this.state.reviewMinConfidence * 100)}% confidence
+          </label>
+          <input
+            type="range"
+            id="review-min-confidence"
+            min="0"
+            max="1"
+            step="0.05"
+            value="${this.state.reviewMinConfidence}"
+            style="flex: 1;"
+          />
+          <sp-action-button size="xs" id="btn-reject-low-confidence">Reject</sp-action-button>
+        </div>
+
+        <div style="display: flex; flex-direction: column; gap: 4px; max-height: 240px; overflow-y: auto;">
+          ${sections.map((section, i) => this.renderSectionReviewItem(section, i)).join('')}
+        </div>
+      </section>
+    `;
+  }
+
+  private renderSectionReviewItem(section: SilentSection, index: number): string {
+    const accepted = this.state.sectionAccepted[index] !== false;
+    const context =
+      section.precedingText || section.followingText
+        ? `${this.escapeHtml(section.precedingText ?? '')} … ${this.escapeHtml(section.followingText ?? '')}`
+        : '';
+
+    return `
+      <div style="
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 6px 8px;
+        background: var(--spectrum-global-color-gray-300);
+        border-radius: 3px;
+        opacity: ${accepted ? 1 : 0.5};
+      ">
+        <input type="checkbox" id="section-accept-${index}" ${accepted ? 'checked' : ''} title="Cut this section" />
+        <div style="flex: 1; min-width: 0;">
+          <div style="font-size: 11px; color: var(--spectrum-global-color-gray-300);">
+            ${section.start.toFixed(2)}s · ${section.duration.toFixed(2)}s
+            <span style="color: var(--spectrum-global-color-gray-500);">
+              · ${Math.round(section.confidence * 100)}% · ${this.getSectionLabel(section)}
+            </span>
+          </div>
+          ${
+            context
+              ? `<div style="font-size: 10px; color: var(--spectrum-global-color-gray-500); white-space: nowrap; overflow: hidden; text-overflow: ellipsis;">${context}</div>`
+              : ''
+          }
+        </div>
+        <sp-action-button size="xs" id="btn-goto-section-${index}" title="Go to this section">
+          Go to
+        </sp-action-button>
+      </div>
+    `;
+  }
+
+  /**
+   * What a review item is: the removed words for filler candidates, the pause kind otherwise
+   */
+  private getSectionLabel(section: SilentSection): string {
+    if (this.state.sectionSource === 'disfluencies') {
+      const candidate = section as DisfluencyCandidate;
+      return `${candidate.kind} "${this.escapeHtml(candidate.text)}"`;
+    }
+    return section.isNatural ? 'natural pause' : 'cuttable';
+  }
+
   private renderTakesTab(): string {
     return `
       <div class="takes-tab" style="display: flex; flex-direction: column; gap: 16px;">
@@ -519,6 +1098,7 @@ export class App {
           this.state.transcript
             ? `
           <section class="take-analysis" style="display: flex; flex-direction: column; gap: 8px;">
+            ${this.renderReviewWithMarkersOption('takes-review-markers')}
             <sp-button variant="primary" id="btn-analyze-takes" ${this.state.isProcessing ? 'disabled' : ''}>
               Analyze Takes
             </sp-button>
@@ -536,9 +1116,13 @@ export class App {
             ? `
           <section class="take-actions" style="display: flex; flex-direction: column; gap: 8px;">
             ${this.state.takePreview ? this.renderTakePreview() : ''}
+            ${this.renderApplyToCopyOption('takes-apply-to-copy')}
+            ${this.renderBackupOption('takes-backup-before-edits')}
             <sp-button variant="cta" id="btn-apply-takes" ${this.state.isProcessing ? 'disabled' : ''}>
               Apply Takes to Timeline (${this.getTotalTakesCount()} takes)
             </sp-button>
+            ${this.renderApplyReviewMarkersButton('takes')}
+            ${this.renderCutListExport('takes', this.getSelectedTakes().length === 0)}
           </section>
         `
             : ''
@@ -913,6 +1497,29 @@ export class App {
     // Home tab
     this.addListener('#btn-analyze', 'click', () => this.handleAnalyze());
     this.addListener('#btn-quick-silence', 'click', () => this.handleQuickSilence());
+    this.addListener('#btn-measure-loudness', 'click', () => this.handleMeasureLoudness());
+    this.addListener('#btn-check-defects', 'click', () => this.handleCheckDefects());
+    this.addListener('#btn-revert-edit', 'click', () => this.handleRevertEdit());
+    ['#silence-apply-to-copy', '#takes-apply-to-copy'].forEach((selector) => {
+      this.addListener(selector, 'change', (e) => {
+        this.state.applyToCopy = (e.target as HTMLInputElement).checked;
+      });
+    });
+    ['#silence-backup-before-edits', '#takes-backup-before-edits'].forEach((selector) => {
+      this.addListener(selector, 'change', (e) => {
+        this.state.backupBeforeEdits = (e.target as HTMLInputElement).checked;
+        this.premiereAPI.backupBeforeEdits = this.state.backupBeforeEdits;
+      });
+    });
+    ['silence', 'takes'].forEach((tab) => {
+      this.addListener(`#${tab}-review-markers`, 'change', (e) => {
+        this.state.reviewWithMarkers = (e.target as HTMLInputElement).checked;
+        this.render();
+      });
+      this.addListener(`#btn-apply-review-markers-${tab}`, 'click', () =>
+        this.handleApplyReviewMarkers()
+      );
+    });
 
     // Silence tab
     this.addListener('#preset-selector', 'change', (e) => {
@@ -924,13 +1531,128 @@ export class App {
       const label = this.container.querySelector('label[for="silence-threshold"]');
       if (label) label.textContent = `Silence Threshold: ${this.state.silenceThreshold} dB`;
     });
+    this.addListener('#silence-padding', 'input', (e) => {
+      this.state.silencePadding = parseFloat((e.target as HTMLInputElement).value);
+      this.state.selectedPresetId = null; // Clear preset when manually adjusting
+      const label = this.container.querySelector('label[for="silence-padding"]');
+      if (label) label.textContent = `Padding: ${this.state.silencePadding.toFixed(2)}s`;
+    });
+    this.addListener('#silence-cut-mode', 'change', (e) => {
+      this.state.silenceCutMode = (e.target as HTMLSelectElement).value as SilenceCutMode;
+      this.render();
+    });
+    this.addListener('#tighten-target', 'input', (e) => {
+      this.state.tightenTarget = parseFloat((e.target as HTMLInputElement).value);
+      const label = this.container.querySelector('label[for="tighten-target"]');
+      if (label) label.textContent = `Target Pause: ${this.state.tightenTarget.toFixed(2)}s`;
+    });
+    this.addListener('#tighten-anchor', 'change', (e) => {
+      this.state.tightenAnchor = (e.target as HTMLSelectElement).value as TightenAnchor;
+    });
+    this.addListener('#breath-policy', 'change', (e) => {
+      this.state.breathPolicy = (e.target as HTMLSelectElement).value as BreathPolicy;
+      this.state.selectedPresetId = null; // Clear preset when manually adjusting
+    });
+    this.addListener('#silence-detection-mode', 'change', (e) => {
+      this.state.silenceDetectionMode = (e.target as HTMLSelectElement)
+        .value as SilenceDetectionMode;
+    });
     this.addListener('#voice-isolation', 'change', (e) => {
       this.state.useVoiceIsolation = (e.target as HTMLInputElement).checked;
       this.state.selectedPresetId = null; // Clear preset when manually adjusting
     });
+    const trackInputs = {
+      '#tracks-cut-audio': 'audioTracks',
+      '#tracks-cut-video': 'videoTracks',
+      '#tracks-protect-audio': 'protectedAudioTracks',
+      '#tracks-protect-video': 'protectedVideoTracks',
+    } as const;
+    for (const [selector, key] of Object.entries(trackInputs)) {
+      this.addListener(selector, 'change', (e) => {
+        this.state.trackTargeting = {
+          ...this.state.trackTargeting,
+          [key]: this.parseTrackList((e.target as HTMLInputElement).value),
+        };
+        this.state.selectedPresetId = null; // Clear preset when manually adjusting
+      });
+    }
+    this.addListener('#untargeted-policy', 'change', (e) => {
+      this.state.trackTargeting = {
+        ...this.state.trackTargeting,
+        untargetedPolicy: (e.target as HTMLSelectElement).value as UntargetedTrackPolicy,
+      };
+      this.state.selectedPresetId = null; // Clear preset when manually adjusting
+    });
     this.addListener('#btn-save-preset', 'click', () => this.handleSavePreset());
     this.addListener('#btn-detect-silence', 'click', () => this.handleDetectSilence());
+    this.addListener('#btn-detect-disfluencies', 'click', () => this.handleDetectDisfluencies());
     this.addListener('#btn-apply-cuts', 'click', () => this.handleApplyCuts());
+    for (const format of ['edl', 'fcpxml', 'otio'] as const) {
+      this.addListener(`#btn-export-silence-${format}`, 'click', () =>
+        this.handleExportCutList(format, 'silence')
+      );
+      this.addListener(`#btn-export-takes-${format}`, 'click', () =>
+        this.handleExportCutList(format, 'takes')
+      );
+    }
+    this.addListener('#btn-accept-all-sections', 'click', () =>
+      this.setSectionsAccepted(() => true)
+    );
+    this.addListener('#btn-reject-all-sections', 'click', () =>
+      this.setSectionsAccepted(() => false)
+    );
+    this.addListener('#review-min-confidence', 'input', (e) => {
+      this.state.reviewMinConfidence = parseFloat((e.target as HTMLInputElement).value);
+      const label = this.container.querySelector('label[for="review-min-confidence"]');
+      if (label) {
+        label.textContent = `Below ${Math.round(this.state.reviewMinConfidence * 100)}% confidence`;
+      }
+    });
+    this.addListener('#btn-reject-low-confidence', 'click', () =>
+      this.setSectionsAccepted((section, accepted) =>
+        section.confidence < this.state.reviewMinConfidence ? false : accepted
+      )
+    );
+    this.premiereAPI.pendingSilentSections.forEach((section, i) => {
+      this.addListener(`#section-accept-${i}`, 'change', (e) => {
+        const checked = (e.target as HTMLInputElement).checked;
+        this.setSectionsAccepted((_, accepted, index) => (index === i ? checked : accepted));
+      });
+      this.addListener(`#btn-goto-section-${i}`, 'click', () => this.handleGoToTime(section.start));
+    });
+    this.addListener('#btn-load-waveform', 'click', () => this.handleLoadWaveform());
+    this.addListener('#btn-import-cut-list', 'click', () => this.handleImportCutList());
+    this.addListener('#btn-apply-cut-list', 'click', () => this.handleApplyCutList());
+    this.addListener('#btn-simulate-silence', 'click', () => this.handleSimulateCuts('silence'));
+    this.addListener('#btn-simulate-cut-list', 'click', () => this.handleSimulateCuts('cut-list'));
+    this.addListener('#btn-clear-cut-list', 'click', () => {
+      this.state.importedCutList = null;
+      this.render();
+    });
+    this.state.importedCutList?.cuts.forEach((cut, i) => {
+      this.addListener(`#btn-goto-imported-cut-${i}`, 'click', () =>
+        this.handleGoToTime(cut.start)
+      );
+    });
+    this.addListener('#btn-waveform-zoom-in', 'click', () => this.setWaveformZoom(2));
+    this.addListener('#btn-waveform-zoom-out', 'click', () => this.setWaveformZoom(0.5));
+
+    // Waveform - click a section to jump to it, or anywhere else to jump there
+    this.premiereAPI.pendingSilentSections.forEach((section, i) => {
+      this.addListener(`#waveform-section-${i}`, 'click', (e) => {
+        e.stopPropagation();
+        this.handleGoToTime(section.start);
+      });
+    });
+    this.addListener('#waveform-svg', 'click', (e) => {
+      const waveform = this.state.waveform;
+      const svg = e.currentTarget as SVGSVGElement;
+      if (!waveform) return;
+      const { offsetX } = e as MouseEvent;
+      this.handleGoToTime(
+        this.waveformView.getTimeAt(waveform, offsetX, svg.getBoundingClientRect().width)
+      );
+    });
 
     // Takes tab - Strategy selection
     this.addListener('#strategy-best-only', 'click', () => this.handleStrategyChange('best_only'));
@@ -986,6 +1708,11 @@ export class App {
     }
     this.state.activeTab = tab;
     this.render();
+
+    // Peaks cached from an earlier visit or detection draw without re-exporting
+    if (tab === 'silence' && !this.state.waveform) {
+      this.loadCachedWaveform();
+    }
   }
 
   // ============================================
@@ -1007,6 +1734,74 @@ export class App {
     }
   }
 
+  private async handleMeasureLoudness(): Promise<void> {
+    this.setStatus('Measuring loudness...', true);
+    try {
+      const { analysis, markersAdded, errors } = await this.premiereAPI.analyzeLoudness();
+      this.state.loudness = {
+        integratedLufs: analysis.integratedLufs,
+        loudnessRange: analysis.loudnessRange,
+        truePeakDbtp: analysis.truePeakDbtp,
+        flaggedPassages: markersAdded,
+      };
+      if (errors.length > 0) {
+        logger.warn('Some loudness markers could not be added:', errors);
+      }
+      this.setStatus(`Integrated loudness: ${analysis.integratedLufs.toFixed(1)} LUFS`);
+      this.render();
+      logger.info('Loudness analysis complete', this.state.loudness);
+    } catch (error) {
+      this.handleError(error, 'Loudness analysis failed');
+    }
+  }
+
+  private async handleCheckDefects(): Promise<void> {
+    this.setStatus('Scanning audio for defects...', true);
+    try {
+      const { report, markersAdded, errors } = await this.premiereAPI.detectAudioDefects();
+      if (errors.length > 0) {
+        logger.warn('Some defect markers could not be added:', errors);
+      }
+      this.setStatus(
+        report.defects.length === 0
+          ? 'No clipping, dropouts or DC offset found'
+          : `Found ${report.defects.length} audio defects (${markersAdded} marked)`
+      );
+      this.render();
+      logger.info('Defect scan complete', { defects: report.defects.length, markersAdded });
+    } catch (error) {
+      this.handleError(error, 'Defect scan failed');
+    }
+  }
+
+  private async handleRevertEdit(): Promise<void> {
+    this.setStatus('Reverting last Splice edit...', true);
+    try {
+      const version = timeMap.getVersion();
+      const result = await this.premiereAPI.revertLastEdit();
+      if (result.errors.length > 0) {
+        logger.warn('Revert was incomplete:', result.errors);
+      }
+      this.remapTakesSince(version);
+
+      if (!result.session) {
+        this.setStatus('No Splice edits to revert on this sequence');
+      } else if (result.method === 'backup-sequence') {
+        this.setStatus(`Switched back to "${result.session.backupSequenceName}"`);
+      } else if (result.reverted) {
+        this.setStatus('Restored clip names and colors');
+      } else {
+        this.setStatus('Partially reverted - see logs for edits to undo in Premiere');
+      }
+
+      // The cached waveform belongs to the edited timeline
+      this.state.waveform = null;
+      this.render();
+    } catch (error) {
+      this.handleError(error, 'Failed to revert edit');
+    }
+  }
+
   private async handleQuickSilence(): Promise<void> {
     this.switchTab('silence');
     await this.handleDetectSilence();
@@ -1016,23 +1811,33 @@ export class App {
     this.setStatus('Extracting audio...', true);
     try {
       // Get settings from state
-      const { silenceThreshold, useVoiceIsolation } = this.state;
+      const { silenceThreshold, silenceDetectionMode, useVoiceIsolation, breathPolicy } =
+        this.state;
 
       // Detect silence with options
       this.setStatus('Analyzing audio for silence...', true);
       const result = await this.premiereAPI.autoCutSilence(silenceThreshold, {
         useVoiceIsolation,
         useAIAnalysis: true,
+        detectionMode: silenceDetectionMode,
+        breathPolicy,
+        reviewMarkers: this.state.reviewWithMarkers,
       });
 
       this.state.silentSections = result.silentSections;
+      this.state.sectionSource = 'silence';
       this.state.timeToRemove = result.timeRemoved;
+      this.state.sectionAccepted = this.premiereAPI.pendingSilentSections.map(() => true);
+      await this.loadCachedWaveform(false);
 
+      const breathNote = result.breaths !== undefined ? `, ${result.breaths} breaths` : '';
+      const markerNote =
+        result.reviewMarkers !== undefined ? ` - ${result.reviewMarkers} markers to review` : '';
       if (result.silentSections === 0) {
-        this.setStatus('No cuttable silence found');
+        this.setStatus(`No cuttable silence found${breathNote}`);
       } else {
         this.setStatus(
-          `Found ${result.silentSections} silent sections (${result.timeRemoved.toFixed(1)}s)`
+          `Found ${result.silentSections} silent sections (${result.timeRemoved.toFixed(1)}s)${breathNote}${markerNote}`
         );
       }
 
@@ -1043,28 +1848,71 @@ export class App {
     }
   }
 
+  /**
+   * Find filler words and stutters; they are reviewed and cut like silent sections
+   */
+  private async handleDetectDisfluencies(): Promise<void> {
+    this.setStatus('Transcribing audio for filler words...', true);
+    try {
+      const result = await this.premiereAPI.detectDisfluencies();
+      const found = result.fillers + result.repetitions;
+
+      this.state.silentSections = found;
+      this.state.sectionSource = 'disfluencies';
+      this.state.timeToRemove = result.timeRemoved;
+      this.state.sectionAccepted = this.premiereAPI.pendingSilentSections.map(() => true);
+      await this.loadCachedWaveform(false);
+
+      if (found === 0) {
+        this.setStatus('No filler words found');
+      } else {
+        this.setStatus(
+          `Found ${result.fillers} filler words and ${result.repetitions} repetitions (${result.timeRemoved.toFixed(1)}s)`
+        );
+      }
+
+      this.render();
+      logger.info('Disfluency detection complete', result);
+    } catch (error) {
+      this.handleError(error, 'Filler word detection failed');
+    }
+  }
+
   private async handleApplyCuts(): Promise<void> {
     this.setStatus('Applying cuts...', true);
     try {
-      // Apply the pending silence cuts
-      const result = await this.premiereAPI.applySilenceCuts();
-
-      // Reset state
+      const version = timeMap.getVersion();
+      // Apply the accepted sections, with the handles for what detected them
+      const result = await this.premiereAPI.applySilenceCuts(
+        this.getAcceptedSections(),
+        this.getCutHandles(),
+        { nonDestructive: this.state.applyToCopy, tracks: this.state.trackTargeting }
+      );
+
+      // Reset state (the cut timeline no longer matches the waveform)
       this.state.silentSections = 0;
       this.state.timeToRemove = 0;
+      this.state.sectionAccepted = [];
+      this.state.waveform = null;
+      this.remapTakesSince(version);
 
       // Build status message with partial success handling
       let statusMessage: string;
       if (result.cutsApplied === 0) {
         statusMessage = 'No cuts were applied';
       } else if (result.errors.length === 0) {
-        statusMessage = `Removed ${result.cutsApplied} sections (${result.timeRemoved.toFixed(1)}s)`;
+        const verb = this.getCutHandles().mode === 'tighten' ? 'Tightened' : 'Removed';
+        statusMessage = `${verb} ${result.cutsApplied} sections (${result.timeRemoved.toFixed(1)}s)`;
       } else {
         // Partial success
         const failed = result.cutsAttempted - result.cutsApplied;
         statusMessage = `Completed ${result.cutsApplied}/${result.cutsAttempted} cuts. ${failed} failed.`;
         logger.warn('Some cuts failed:', result.errors);
       }
+      statusMessage += this.getOutOfSyncNote(result.tracksSkipped);
+      if (result.sequenceCopy) {
+        statusMessage += ` - edited copy "${result.sequenceCopy.copyName}"`;
+      }
       this.setStatus(statusMessage);
 
       this.render();
@@ -1075,16 +1923,40 @@ export class App {
   }
 
   private async handleTranscribe(): Promise<void> {
-    this.setStatus('Transcribing...', true);
+    this.setStatus('Transcribing...', true, undefined, true);
     try {
-      // Extract audio and transcribe
-      const audio = await this.premiereAPI.extractAudio();
-      const result = await this.aiServices.transcribe(audio.buffer);
+      const version = timeMap.getVersion();
+      const result = await withOperationLock('transcription', async (signal) => {
+        // Extract audio and transcribe, showing the transcript as chunks finish
+        const audio = await this.premiereAPI.extractAudio();
+        return this.aiServices.transcribe(
+          audio.buffer,
+          {},
+          {
+            signal,
+            onProgress: ({ completedChunks, totalChunks, partial }) => {
+              this.state.transcript = partial.text;
+              this.render();
+              this.setStatus(
+                `Transcribing... ${completedChunks}/${totalChunks} chunks`,
+                true,
+                (completedChunks / totalChunks) * 100,
+                true
+              );
+            },
+          }
+        );
+      });
       this.state.transcript = result.text;
+      this.state.transcriptVersion = version;
       this.setStatus('Transcription complete');
       this.render();
       logger.info('Transcription complete');
     } catch (error) {
+      if (isSpliceError(error) && error.code === SpliceErrorCode.TRANSCRIPTION_CANCELLED) {
+        this.setStatus('Transcription cancelled');
+        return;
+      }
       this.handleError(error, 'Transcription failed');
     }
   }
@@ -1097,8 +1969,12 @@ export class App {
 
     this.setStatus('Analyzing takes...', true);
     try {
-      // Use the take detector service
-      const groups = await takeDetector.detectTakes(this.state.transcript);
+      // Use the take detector service; a transcript made before Splice's cuts
+      // is mapped onto the current timeline instead of transcribing again
+      const groups = timeMap.remapTakeGroups(
+        await takeDetector.detectTakes(this.state.transcript),
+        this.state.transcriptVersion
+      );
 
       // Store groups and flat list
       this.state.takeGroups = groups;
@@ -1107,11 +1983,17 @@ export class App {
       // Store in PremiereAPI for later application
       this.premiereAPI.pendingTakes = this.state.takes;
 
+      let markerNote = '';
+      if (this.state.reviewWithMarkers) {
+        const marked = await this.premiereAPI.addReviewMarkers({ takes: this.state.takes });
+        markerNote = ` - ${marked.added} markers to review`;
+      }
+
       const totalTakes = this.getTotalTakesCount();
       if (totalTakes === 0) {
         this.setStatus('No takes detected');
       } else {
-        this.setStatus(`Found ${totalTakes} takes in ${groups.length} groups`);
+        this.setStatus(`Found ${totalTakes} takes in ${groups.length} groups${markerNote}`);
       }
 
       this.render();
@@ -1130,7 +2012,10 @@ export class App {
     const totalTakes = this.getTotalTakesCount();
     this.setStatus('Applying takes to timeline...', true);
     try {
-      const result = await this.premiereAPI.applyTakesToTimeline();
+      const result = await this.premiereAPI.applyTakesToTimeline(undefined, {
+        nonDestructive: this.state.applyToCopy,
+        tracks: this.state.trackTargeting,
+      });
 
       // Clear state after application
       this.state.takeGroups = [];
@@ -1147,6 +2032,9 @@ export class App {
         statusMessage = `Completed ${result.takesApplied}/${totalTakes} takes. ${result.errors.length} failed.`;
         logger.warn('Some takes had errors:', result.errors);
       }
+      if (result.sequenceCopy) {
+        statusMessage += ` - edited copy "${result.sequenceCopy.copyName}"`;
+      }
       this.setStatus(statusMessage);
 
       this.render();
@@ -1156,6 +2044,311 @@ export class App {
     }
   }
 
+  private async handleExportCutList(
+    format: CutListFormat,
+    source: 'silence' | 'takes'
+  ): Promise<void> {
+    this.setStatus('Exporting cut list...', true);
+    try {
+      const result = await this.premiereAPI.exportCutList(
+        format,
+        source === 'takes'
+          ? { takes: this.getSelectedTakes() }
+          : { sections: this.getAcceptedSections() },
+        this.getCutHandles()
+      );
+
+      this.setStatus(
+        result ? `Saved ${result.events} clips to ${result.fileName}` : 'Export cancelled'
+      );
+    } catch (error) {
+      this.handleError(error, 'Failed to export cut list');
+    }
+  }
+
+  /**
+   * Apply the detections whose markers the editor kept in Premiere
+   */
+  private async handleApplyReviewMarkers(): Promise<void> {
+    this.setStatus('Applying reviewed markers...', true);
+    try {
+      const version = timeMap.getVersion();
+      const result = await this.premiereAPI.applyReviewMarkers(this.getCutHandles(), {
+        nonDestructive: this.state.applyToCopy,
+        tracks: this.state.trackTargeting,
+      });
+      if (result.errors.length > 0) {
+        logger.warn('Some review markers were not applied:', result.errors);
+      }
+
+      if (result.markersFound === 0) {
+        this.setStatus('No review markers left on the sequence');
+        return;
+      }
+
+      // Like applying from the panel, the pending detections are used up
+      if (result.silence) {
+        this.state.silentSections = 0;
+        this.state.timeToRemove = 0;
+        this.state.sectionAccepted = [];
+        this.state.waveform = null;
+      }
+      if (result.takes) {
+        this.state.takeGroups = [];
+        this.state.takes = [];
+      } else {
+        this.remapTakesSince(version);
+      }
+
+      const parts: string[] = [];
+      if (result.silence) {
+        parts.push(
+          `cut ${result.silence.cutsApplied} sections (${result.silence.timeRemoved.toFixed(1)}s)`
+        );
+      }
+      if (result.takes) {
+        parts.push(`applied ${result.takes.takesApplied} takes`);
+      }
+      const copy = result.silence?.sequenceCopy ?? result.takes?.sequenceCopy;
+      this.setStatus(
+        `From ${result.markersFound} markers: ${parts.join(', ') || 'nothing applied'}` +
+          (result.errors.length > 0 ? ` (${result.errors.length} problems, see logs)` : '') +
+          this.getOutOfSyncNote(result.silence?.tracksSkipped) +
+          (copy ? ` - edited copy "${copy.copyName}"` : '')
+      );
+
+      this.render();
+      logger.info('Review markers applied', result);
+    } catch (error) {
+      this.handleError(error, 'Failed to apply review markers');
+    }
+  }
+
+  private async handleImportCutList(): Promise<void> {
+    this.setStatus('Importing cut list...', true);
+    try {
+      const cutList = await this.premiereAPI.importCutList();
+      if (!cutList) {
+        this.setStatus('Import cancelled');
+        return;
+      }
+
+      this.state.importedCutList = cutList;
+      const errors = cutList.issues.filter((issue) => issue.severity === 'error').length;
+      this.setStatus(
+        `Imported ${cutList.cuts.length} cuts${errors > 0 ? ` - ${errors} entries skipped` : ''}`
+      );
+      this.render();
+    } catch (error) {
+      this.handleError(error, 'Failed to import cut list');
+    }
+  }
+
+  private async handleApplyCutList(): Promise<void> {
+    const cutList = this.state.importedCutList;
+    if (!cutList) return;
+
+    this.setStatus('Applying cut list...', true);
+    try {
+      const version = timeMap.getVersion();
+      const result = await this.premiereAPI.applyCutList(cutList.cuts, {
+        nonDestructive: this.state.applyToCopy,
+        tracks: this.state.trackTargeting,
+      });
+
+      // The cut timeline no longer matches the list or the waveform
+      this.state.importedCutList = null;
+      this.state.waveform = null;
+      this.remapTakesSince(version);
+
+      let statusMessage: string;
+      if (result.errors.length === 0) {
+        statusMessage = `Removed ${result.cutsApplied} ranges (${result.timeRemoved.toFixed(1)}s)`;
+      } else {
+        statusMessage = `Completed ${result.cutsApplied}/${result.cutsAttempted} cuts. ${result.errors.length} failed.`;
+        logger.warn('Some imported cuts failed:', result.errors);
+      }
+      statusMessage += this.getOutOfSyncNote(result.tracksSkipped);
+      if (result.sequenceCopy) {
+        statusMessage += ` - edited copy "${result.sequenceCopy.copyName}"`;
+      }
+      this.setStatus(statusMessage);
+
+      this.render();
+      logger.info('Cut list applied', result);
+    } catch (error) {
+      this.handleError(error, 'Failed to apply cut list');
+    }
+  }
+
+  /**
+   * Simulate applying the accepted silence cuts or the imported cut list
+   */
+  private async handleSimulateCuts(source: 'silence' | 'cut-list'): Promise<void> {
+    this.setStatus('Simulating cuts...', true);
+    try {
+      const report = await this.premiereAPI.simulateCuts(
+        source === 'cut-list'
+          ? { cuts: this.state.importedCutList?.cuts ?? [] }
+          : { sections: this.getAcceptedSections() },
+        this.getCutHandles(),
+        this.state.trackTargeting
+      );
+      this.state.cutSimulation = { source, key: this.getSimulationKey(source), report };
+
+      const issues = report.syncBreaks.length;
+      this.setStatus(
+        `Result: ${report.durationAfter.toFixed(1)}s${issues > 0 ? ` - ${issues} clips out of sync` : ''}`
+      );
+      this.render();
+    } catch (error) {
+      this.handleError(error, 'Failed to simulate cuts');
+    }
+  }
+
+  /**
+   * Everything a cut simulation depends on, to tell when its report is out of date
+   */
+  private getSimulationKey(source: 'silence' | 'cut-list'): string {
+    return JSON.stringify({
+      cuts:
+        source === 'cut-list'
+          ? (this.state.importedCutList?.cuts ?? null)
+          : [this.getAcceptedSections(), this.getCutHandles()],
+      tracks: this.state.trackTargeting,
+      timeline: timeMap.getVersion(),
+    });
+  }
+
+  /**
+   * Move detected takes onto the timeline left by cuts applied since a time-map version
+   */
+  private remapTakesSince(version: number): void {
+    if (this.state.takeGroups.length === 0) return;
+
+    this.state.takeGroups = timeMap.remapTakeGroups(this.state.takeGroups, version);
+    this.state.takes = takeDetector.flattenTakeGroups(this.state.takeGroups);
+    this.premiereAPI.pendingTakes = this.state.takes;
+  }
+
+  /**
+   * Status note naming tracks that were not cut and did not follow the ripple
+   */
+  private getOutOfSyncNote(tracksSkipped?: TrackSkip[]): string {
+    const names = (tracksSkipped ?? [])
+      .filter((track) => !track.shifted)
+      .map((track) => `${track.type === 'video' ? 'V' : 'A'}${track.index + 1} (${track.reason})`);
+    return names.length > 0 ? ` - not cut, now out of sync: ${names.join(', ')}` : '';
+  }
+
+  /**
+   * 1-based track numbers for display; empty for "all"/"none"
+   */
+  private formatTrackList(tracks?: number[]): string {
+    return tracks ? tracks.map((index) => index + 1).join(', ') : '';
+  }
+
+  /**
+   * Parse "1, 2" or "A1, A3" into 0-based indices; empty input means no list
+   */
+  private parseTrackList(text: string): number[] | undefined {
+    const indices = text
+      .split(/[,\s]+/)
+      .map((part) => parseInt(part.replace(/^[av]/i, ''), 10))
+      .filter((n) => Number.isInteger(n) && n >= 1)
+      .map((n) => n - 1);
+    return indices.length > 0 ? [...new Set(indices)] : undefined;
+  }
+
+  private getSelectedTakes(): NormalizedTake[] {
+    return this.state.takes.filter((take) => take.selected);
+  }
+
+  private getAcceptedSections(): SilentSection[] {
+    return this.premiereAPI.pendingSilentSections.filter(
+      (_, i) => this.state.sectionAccepted[i] !== false
+    );
+  }
+
+  private getAcceptedCount(): number {
+    return this.getAcceptedSections().length;
+  }
+
+  /**
+   * Padding kept around speech when cutting (tighten mode keeps a fixed target pause instead).
+   * Filler word candidates are cut as detected, without the silence padding.
+   */
+  private getCutHandles(): CutHandleOptions {
+    if (this.state.sectionSource === 'disfluencies') {
+      return cutPlanner.handlesForDisfluencies();
+    }
+    return {
+      preHandle: this.state.silencePadding,
+      postHandle: this.state.silencePadding,
+      mode: this.state.silenceCutMode,
+      tightenTarget: this.state.tightenTarget,
+      tightenAnchor: this.state.tightenAnchor,
+    };
+  }
+
+  /**
+   * Update the review verdict of every pending section and the totals that depend on it
+   * @param verdict - New verdict from the section, its current verdict and its index
+   */
+  private setSectionsAccepted(
+    verdict: (section: SilentSection, accepted: boolean, index: number) => boolean
+  ): void {
+    this.state.sectionAccepted = this.premiereAPI.pendingSilentSections.map((section, i) =>
+      verdict(section, this.state.sectionAccepted[i] !== false, i)
+    );
+    this.state.timeToRemove = this.getAcceptedSections().reduce((sum, s) => sum + s.duration, 0);
+    this.render();
+  }
+
+  private async handleLoadWaveform(): Promise<void> {
+    this.setStatus('Building waveform...', true);
+    try {
+      this.state.waveform = await this.premiereAPI.getWaveformPeaks();
+      this.setStatus('Ready');
+      this.render();
+    } catch (error) {
+      this.handleError(error, 'Failed to build waveform');
+    }
+  }
+
+  /**
+   * Show cached waveform peaks for the active sequence, if any
+   * @param render - Re-render when peaks were found
+   */
+  private async loadCachedWaveform(render: boolean = true): Promise<void> {
+    try {
+      const waveform = await this.premiereAPI.getWaveformPeaks(false);
+      if (waveform) {
+        this.state.waveform = waveform;
+        if (render) this.render();
+      }
+    } catch (error) {
+      logger.debug('No cached waveform', error);
+    }
+  }
+
+  private setWaveformZoom(factor: number): void {
+    this.state.waveformZoom = Math.min(
+      WaveformView.MAX_ZOOM,
+      Math.max(WaveformView.MIN_ZOOM, this.state.waveformZoom * factor)
+    );
+    this.render();
+  }
+
+  private async handleGoToTime(time: number): Promise<void> {
+    try {
+      await this.premiereAPI.goToTime(time);
+      this.setStatus(`Moved to ${time.toFixed(2)}s`);
+    } catch (error) {
+      this.handleError(error, 'Failed to navigate');
+    }
+  }
+
   private async handleGoToTake(take: NormalizedTake): Promise<void> {
     try {
       await this.premiereAPI.goToTime(take.start);
@@ -1360,7 +2553,10 @@ export class App {
     // Apply preset settings
     this.state.selectedPresetId = presetId;
     this.state.silenceThreshold = preset.threshold;
+    this.state.silencePadding = preset.padding;
     this.state.useVoiceIsolation = preset.useVoiceIsolation;
+    this.state.breathPolicy = preset.breathPolicy ?? 'keep';
+    this.state.trackTargeting = preset.trackTargeting ?? {};
     this.setStatus(`Applied preset: ${preset.name}`);
     this.render();
   }
@@ -1377,8 +2573,10 @@ export class App {
       description: description || undefined,
       threshold: this.state.silenceThreshold,
       minSilenceDuration: 0.5, // Default value
-      padding: 0.15, // Default value
+      padding: this.state.silencePadding,
       useVoiceIsolation: this.state.useVoiceIsolation,
+      breathPolicy: this.state.breathPolicy,
+      trackTargeting: this.state.trackTargeting,
     });
 
     if (result.success && result.preset) {
@@ -1534,6 +2732,7 @@ export class App {
    */
   private handleCancel(): void {
     logger.info('Operation cancelled by user');
+    operationLock.cancel();
     this.setStatus('Operation cancelled', false);
   }
 
@@ -0,0 +1,97 @@
+import { waveformPeaks, WaveformPeakData } from '../services/waveform-peaks';
+import type { SilentSection } from '../services/silence-detector';
+
+/**
+ * Waveform of the active sequence with detected sections overlaid
+ * Sections are colored by confidence (rejected ones in gray); App wires clicks to the playhead
+ */
+export class WaveformView {
+  /** Pixel columns drawn per zoom step; the SVG stretches to the panel width */
+  private static readonly COLUMNS_PER_ZOOM = 400;
+  private static readonly HEIGHT = 100;
+
+  static readonly MIN_ZOOM = 1;
+  static readonly MAX_ZOOM = 16;
+
+  /**
+   * @param accepted - Review verdict per section; sections marked false are drawn in gray
+   */
+  render(
+    data: WaveformPeakData,
+    sections: SilentSection[],
+    zoom: number,
+    accepted: boolean[] = []
+  ): string {
+    const columns = WaveformView.COLUMNS_PER_ZOOM * zoom;
+    const height = WaveformView.HEIGHT;
+    const mid = height / 2;
+    const { min, max } = waveformPeaks.getColumns(data, 0, data.duration, columns);
+
+    // One vertical line per column, from its minimum to its maximum
+    let path = '';
+    for (let x = 0; x < columns; x++) {
+      const top = mid - max[x] * mid;
+      const bottom = Math.max(top + 0.5, mid - min[x] * mid);
+      path += `M${x + 0.5} ${top.toFixed(1)}V${bottom.toFixed(1)}`;
+    }
+
+    const scale = data.duration > 0 ? columns / data.duration : 0;
+    const overlays = sections
+      .map((section, i) => {
+        const x = section.start * scale;
+        const width = Math.max(1, section.duration * scale);
+        return `
+          <rect id="waveform-section-${i}" x="${x.toFixed(1)}" y="0" width="${width.toFixed(1)}" height="${height}"
+            fill="${accepted[i] === false ? '#8e8e8e' : this.getConfidenceColor(section.confidence)}" fill-opacity="0.35" style="cursor: pointer;">
+            <title>${section.start.toFixed(2)}s - ${section.end.toFixed(2)}s (${Math.round(section.confidence * 100)}%)</title>
+          </rect>
+        `;
+      })
+      .join('');
+
+    return `
+      <div id="waveform-scroll" style="overflow-x: auto; background: var(--spectrum-global-color-gray-75); border-radius: 4px;">
+        <svg
+          id="waveform-svg"
+          viewBox="0 0 ${columns} ${height}"
+          preserveAspectRatio="none"
+          style="display: block; width: ${100 * zoom}%; height: 80px; cursor: crosshair;"
+        >
+          <path d="${path}" stroke="#6e9fe6" stroke-width="1" fill="none" />
+          ${overlays}
+        </svg>
+      </div>
+      <div style="display: flex; gap: 12px; font-size: 10px; color: var(--spectrum-global-color-gray-500); margin-top: 4px;">
+        ${this.renderLegendItem('#e34850', 'High confidence')}
+        ${this.renderLegendItem('#e68619', 'Medium')}
+        ${this.renderLegendItem('#dfbf00', 'Low')}
+        ${this.renderLegendItem('#8e8e8e', 'Rejected')}
+      </div>
+    `;
+  }
+
+  /**
+   * Timeline position under a click on the waveform
+   * @param offsetX - Click position relative to the SVG
+   * @param width - Rendered SVG width in pixels
+   */
+  getTimeAt(data: WaveformPeakData, offsetX: number, width: number): number {
+    if (width <= 0) return 0;
+    return Math.min(data.duration, Math.max(0, (offsetX / width) * data.duration));
+  }
+
+  private getConfidenceColor(confidence: number): string {
+    if (confidence >= 0.8) return '#e34850';
+    if (confidence >= 0.5) return '#e68619';
+    return '#dfbf00';
+  }
+
+  private renderLegendItem(color: string, label: string): string {
+    return `
+      <span style="display: flex; align-items: center; gap: 4px;">
+        <span style="width: 8px; height: 8px; background: ${color}; border-radius: 2px;"></span>
+        ${label}
+      </span>
+    `;
+  }
+}
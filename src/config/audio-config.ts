@@ -12,11 +12,11 @@
 
 export const AUDIO_CONFIG = {
   /**
-   * Chunk duration in seconds for splitting large audio files.
-   * 10 minutes (600s) is a safe default that stays well under Whisper's 25MB limit
-   * for typical audio formats (48kHz stereo 16-bit = ~11.5MB per 10 min).
+   * Longest chunk in seconds when splitting large audio files.
+   * Chunks are otherwise as long as fits in MAX_CHUNK_SIZE_BYTES at the audio's
+   * byte rate: ~13 minutes of the 16kHz mono upload, ~2 minutes of 48kHz stereo.
    */
-  CHUNK_DURATION_SECONDS: 600,
+  CHUNK_DURATION_SECONDS: 3600,
 
   /**
    * Maximum file size in bytes for Whisper API.
@@ -24,6 +24,13 @@ export const AUDIO_CONFIG = {
    */
   MAX_CHUNK_SIZE_BYTES: 25 * 1024 * 1024, // 25MB
 
+  /**
+   * Seconds each chunk runs on into the next one.
+   * Words cut at a chunk edge are transcribed whole in the overlap, and
+   * TranscriptStitcher drops the duplicates when merging.
+   */
+  CHUNK_OVERLAP_SECONDS: 5,
+
   /**
    * Base timeout in milliseconds for AME export to complete.
    * This is the minimum timeout regardless of sequence length.
@@ -106,6 +113,99 @@ export const AUDIO_CONFIG = {
    */
   MAX_CHANNELS: 8,
 
+  // ============================================
+  // Upload Preprocessing
+  // ============================================
+
+  /**
+   * Downmix to mono and resample before sending audio for transcription.
+   * Whisper works at 16 kHz mono internally, so anything more is wasted upload.
+   * Local analysis (silence, loudness, breaths) still uses the full-quality export.
+   */
+  UPLOAD_PREPROCESS_ENABLED: true,
+
+  /**
+   * Sample rate (Hz) of audio sent for transcription.
+   * 16 kHz mono 16-bit is ~1.9MB per minute vs ~11.5MB for 48 kHz stereo.
+   */
+  UPLOAD_SAMPLE_RATE: 16000,
+
+  /**
+   * Length of the resampler's windowed-sinc filter, in zero crossings per side.
+   * Higher values give a sharper anti-alias filter at more CPU cost.
+   */
+  UPLOAD_RESAMPLER_ZERO_CROSSINGS: 16,
+
+  /**
+   * Send uploads as lossless FLAC instead of WAV where the endpoint accepts it.
+   * Speech typically compresses to 40-60% of the PCM size.
+   * Backend endpoints are asked first; servers that don't answer still get WAV.
+   */
+  UPLOAD_FLAC_ENABLED: true,
+
+  // ============================================
+  // Chunk Transcription Scheduling
+  // ============================================
+
+  /**
+   * Number of chunks transcribed at the same time for long sequences.
+   * Higher values finish sooner but hit API rate limits more often.
+   */
+  TRANSCRIBE_CONCURRENCY: 3,
+
+  /**
+   * Retries for a single failed chunk before the whole transcription fails.
+   * Other chunks keep their results while one is retried.
+   */
+  TRANSCRIBE_CHUNK_RETRIES: 2,
+
+  /**
+   * Delay in milliseconds before the first chunk retry; doubles on each attempt.
+   */
+  TRANSCRIBE_RETRY_DELAY_MS: 1000,
+
+  // ============================================
+  // Streaming WAV Reads
+  // ============================================
+
+  /**
+   * Bytes read from disk at a time when streaming a WAV file.
+   * Peak memory for streamed analysis is a small multiple of this,
+   * whatever the sequence duration.
+   */
+  STREAM_WINDOW_BYTES: 4 * 1024 * 1024, // 4MB
+
+  /**
+   * Largest header searched for the data chunk when opening a stream.
+   * Broadcast WAVs can carry large bext/iXML/JUNK chunks before the audio.
+   */
+  STREAM_MAX_HEADER_BYTES: 16 * 1024 * 1024, // 16MB
+
+  // ============================================
+  // Waveform Display
+  // ============================================
+
+  /**
+   * Length of audio summarized by one min/max pair at the finest zoom level.
+   * 10ms keeps a 2-hour sequence under 6MB of peak data.
+   */
+  WAVEFORM_PEAK_SECONDS: 0.01,
+
+  /**
+   * Number of zoom levels; each one is WAVEFORM_LEVEL_FACTOR times coarser.
+   */
+  WAVEFORM_LEVELS: 4,
+
+  /**
+   * Peaks of one level merged into a single peak of the next.
+   */
+  WAVEFORM_LEVEL_FACTOR: 4,
+
+  /**
+   * Sequences whose peaks are kept in memory for instant redraws.
+   */
+  WAVEFORM_CACHE_MAX_SEQUENCES: 5,
+
   // ============================================
   // Cache Configuration
   // ============================================
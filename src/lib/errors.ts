@@ -35,6 +35,7 @@ export enum SpliceErrorCode {
   CHUNK_INVALID_FORMAT = 'CHK_303',
   CHUNK_BOUNDS_ERROR = 'CHK_304',
   CHUNK_MISSING_DATA = 'CHK_305',
+  CHUNK_SIZE_EXCEEDED = 'CHK_306',
 
   // Premiere API Errors (4xx)
   PREMIERE_NOT_AVAILABLE = 'PPR_401',
@@ -42,11 +43,15 @@ export enum SpliceErrorCode {
   PREMIERE_TIMELINE_ERROR = 'PPR_403',
   PREMIERE_OPERATION_LOCKED = 'PPR_404',
   SEQUENCE_NOT_FOUND = 'PPR_405',
+  SEQUENCE_DUPLICATE_FAILED = 'PPR_406',
+  CUT_LIST_SAVE_FAILED = 'PPR_407',
+  CUT_LIST_INVALID = 'PPR_408',
 
   // Transcription Errors (5xx)
   TRANSCRIPTION_FAILED = 'TRS_501',
   TRANSCRIPTION_NO_AUDIO = 'TRS_502',
   TRANSCRIPTION_API_ERROR = 'TRS_503',
+  TRANSCRIPTION_CANCELLED = 'TRS_504',
 
   // Silence Detection Errors (6xx)
   SILENCE_DETECTION_FAILED = 'SIL_601',
@@ -108,11 +113,13 @@ export const USER_MESSAGES: Record<SpliceErrorCode, string> = {
   [SpliceErrorCode.CHUNK_MISSING_HEADER]:
     'Audio file is corrupted or incomplete. Try exporting again.',
   [SpliceErrorCode.CHUNK_INVALID_FORMAT]:
-    'Unsupported audio format. Splice requires standard WAV files (8/16/24/32-bit).',
+    'Unsupported audio format. Splice requires WAV files with 8/16/24/32-bit PCM or 32-bit float samples.',
   [SpliceErrorCode.CHUNK_BOUNDS_ERROR]:
     'Audio processing error. Please report this issue with your sequence details.',
   [SpliceErrorCode.CHUNK_MISSING_DATA]:
     'Audio file has no data. Ensure your timeline has audio content.',
+  [SpliceErrorCode.CHUNK_SIZE_EXCEEDED]:
+    'Audio is too high-resolution to upload. Export it at a lower sample rate or with fewer channels.',
 
   // Premiere API
   [SpliceErrorCode.PREMIERE_NOT_AVAILABLE]:
@@ -124,6 +131,12 @@ export const USER_MESSAGES: Record<SpliceErrorCode, string> = {
     'Another operation is in progress. Please wait for it to complete.',
   [SpliceErrorCode.SEQUENCE_NOT_FOUND]:
     'The requested sequence could not be found. It may have been deleted or renamed.',
+  [SpliceErrorCode.SEQUENCE_DUPLICATE_FAILED]:
+    'Could not duplicate the sequence, so no edits were made. Your original sequence is unchanged.',
+  [SpliceErrorCode.CUT_LIST_SAVE_FAILED]:
+    'Could not save the cut list. Check that the folder is writable and try again.',
+  [SpliceErrorCode.CUT_LIST_INVALID]:
+    'Could not read the cut list. Use a CMX3600 EDL or a CSV file with start, end, action and label columns.',
 
   // Transcription
   [SpliceErrorCode.TRANSCRIPTION_FAILED]:
@@ -132,6 +145,7 @@ export const USER_MESSAGES: Record<SpliceErrorCode, string> = {
     'No audio to transcribe. Ensure your timeline has audio content.',
   [SpliceErrorCode.TRANSCRIPTION_API_ERROR]:
     'Transcription service error. Please try again in a moment.',
+  [SpliceErrorCode.TRANSCRIPTION_CANCELLED]: 'Transcription was cancelled.',
 
   // Silence Detection
   [SpliceErrorCode.SILENCE_DETECTION_FAILED]:
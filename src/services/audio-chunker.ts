@@ -13,23 +13,46 @@ import { logger } from '../lib/logger';
 import { SpliceError, SpliceErrorCode } from '../lib/errors';
 import { AUDIO_CONFIG } from '../config/audio-config';
 import { PerformanceMetrics } from '../utils/performance-metrics';
+import type { WavStreamReader } from './wav-stream-reader';
 
 export interface AudioChunk {
   buffer: ArrayBuffer;
-  startTime: number;
-  endTime: number;
+  startTime: number; // Where the chunk's audio starts in the full file (seconds)
+  endTime: number; // Includes the overlap shared with the next chunk
   chunkIndex: number;
   totalChunks: number;
 }
 
-interface WavInfo {
+export interface ChunkOptions {
+  overlapSeconds?: number; // Defaults to AUDIO_CONFIG.CHUNK_OVERLAP_SECONDS
+  bytesPerSecond?: number; // Size chunks for audio re-encoded at this rate (e.g. for upload)
+}
+
+/** How samples in the data chunk are encoded */
+export type WavSampleFormat = 'pcm' | 'float';
+
+export interface WavInfo {
   sampleRate: number;
   channels: number;
-  bitsPerSample: number;
+  bitsPerSample: number; // Container size; 24-in-32 extensible files report 32
+  sampleFormat: WavSampleFormat;
   dataOffset: number;
-  dataSize: number;
+  dataSize: number; // Clamped to the bytes actually present in the buffer (or file)
 }
 
+/** Format tags from the fmt chunk */
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+/** Trailing 12 bytes shared by the KSDATAFORMAT_SUBTYPE_PCM / _IEEE_FLOAT GUIDs */
+const KSDATAFORMAT_SUBTYPE_TAIL = [
+  0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xaa, 0x00, 0x38, 0x9b, 0x71,
+];
+
+/** 32-bit size fields in RF64 files hold this; the real size lives in ds64 */
+const RF64_SIZE_PLACEHOLDER = 0xffffffff;
+
 interface CachedWavHeader {
   wavInfo: WavInfo;
   headerBuffer: ArrayBuffer; // Pre-built header template
@@ -49,6 +72,8 @@ export class AudioChunker {
   // Use centralized config
   private readonly CHUNK_DURATION_SECONDS = AUDIO_CONFIG.CHUNK_DURATION_SECONDS;
   private readonly MAX_FILE_SIZE_BYTES = AUDIO_CONFIG.MAX_CHUNK_SIZE_BYTES;
+  private readonly CHUNK_OVERLAP_SECONDS = AUDIO_CONFIG.CHUNK_OVERLAP_SECONDS;
+  private readonly CHUNK_HEADER_BYTES = 44; // Written by createWavHeader
 
   // Performance optimization: cache parsed headers
   private headerCache: Map<string, CachedWavHeader> = new Map();
@@ -62,10 +87,10 @@ export class AudioChunker {
   /**
    * Check if an audio buffer needs chunking.
    *
-   * @param buffer - WAV audio buffer
+   * @param buffer - WAV audio buffer (or a reader over a WAV file)
    * @returns True if buffer exceeds 25MB
    */
-  needsChunking(buffer: ArrayBuffer): boolean {
+  needsChunking(buffer: ArrayBuffer | WavStreamReader): boolean {
     return buffer.byteLength > this.MAX_FILE_SIZE_BYTES;
   }
 
@@ -76,6 +101,35 @@ export class AudioChunker {
     return this.metrics;
   }
 
+  /**
+   * Parse and validate a WAV header without touching the header cache.
+   * Exposed for local DSP analysis that needs the sample layout.
+   *
+   * @param buffer - WAV audio buffer
+   * @returns WAV format information
+   * @throws SpliceError with a CHUNK_* code if the header is invalid
+   */
+  getWavInfo(buffer: ArrayBuffer): WavInfo {
+    return this.parseWavHeader(buffer, false);
+  }
+
+  /**
+   * Parse the header of a WAV file that is read from disk in pieces.
+   * The data size is clamped to the file size rather than to the header bytes.
+   *
+   * @param header - The first bytes of the file, up to at least the data chunk header
+   * @param fileSize - Total size of the file in bytes
+   * @returns WAV format information
+   * @throws SpliceError CHUNK_MISSING_DATA if the data chunk starts beyond the header bytes
+   */
+  getWavInfoFromHeader(header: ArrayBuffer, fileSize: number): WavInfo {
+    return this.metrics.measureSync(
+      'parseWavHeader',
+      () => this.parseWavHeaderImpl(header, false, fileSize),
+      { bufferSize: header.byteLength, fileSize }
+    );
+  }
+
   /**
    * Parse WAV header to extract audio format information.
    * Optimized with caching to avoid repeated parsing of the same buffer.
@@ -91,7 +145,11 @@ export class AudioChunker {
     );
   }
 
-  private parseWavHeaderImpl(buffer: ArrayBuffer, useCache: boolean): WavInfo {
+  private parseWavHeaderImpl(
+    buffer: ArrayBuffer,
+    useCache: boolean,
+    fileSize = buffer.byteLength
+  ): WavInfo {
     // Check cache first (based on buffer size as quick key)
     const cacheKey = `${buffer.byteLength}`;
     if (useCache) {
@@ -101,17 +159,21 @@ export class AudioChunker {
       }
     }
 
+    if (buffer.byteLength < 12) {
+      throw new SpliceError(
+        SpliceErrorCode.CHUNK_INVALID_WAV,
+        'Invalid WAV file: buffer too small for a RIFF header',
+        { bufferLength: buffer.byteLength }
+      );
+    }
+
     const view = new DataView(buffer);
 
-    // Verify RIFF header
-    const riff = String.fromCharCode(
-      view.getUint8(0),
-      view.getUint8(1),
-      view.getUint8(2),
-      view.getUint8(3)
-    );
+    // Verify RIFF header (RF64/BW64 for files over 4GB)
+    const riff = this.readFourCC(view, 0);
+    const isRf64 = riff === 'RF64' || riff === 'BW64';
 
-    if (riff !== 'RIFF') {
+    if (riff !== 'RIFF' && !isRf64) {
       throw new SpliceError(
         SpliceErrorCode.CHUNK_INVALID_WAV,
         'Invalid WAV file: missing RIFF header',
@@ -120,12 +182,7 @@ export class AudioChunker {
     }
 
     // Verify WAVE format
-    const wave = String.fromCharCode(
-      view.getUint8(8),
-      view.getUint8(9),
-      view.getUint8(10),
-      view.getUint8(11)
-    );
+    const wave = this.readFourCC(view, 8);
 
     if (wave !== 'WAVE') {
       throw new SpliceError(
@@ -135,41 +192,62 @@ export class AudioChunker {
       );
     }
 
-    // Parse fmt chunk (usually at offset 12)
+    // Walk the chunk list. Unknown chunks (bext, iXML, LIST, JUNK, ...) are skipped.
     let offset = 12;
+    let sampleFormat: WavSampleFormat | undefined;
     let sampleRate: number | undefined;
     let channels: number | undefined;
     let bitsPerSample: number | undefined;
+    let ds64DataSize: number | undefined;
     let dataOffset = 0;
     let dataSize = 0;
     let foundFmt = false;
 
-    // Find fmt and data chunks
-    while (offset < buffer.byteLength - 8) {
-      const chunkId = String.fromCharCode(
-        view.getUint8(offset),
-        view.getUint8(offset + 1),
-        view.getUint8(offset + 2),
-        view.getUint8(offset + 3)
-      );
+    while (offset <= buffer.byteLength - 8) {
+      const chunkId = this.readFourCC(view, offset);
       const chunkSize = view.getUint32(offset + 4, true);
-
-      if (chunkId === 'fmt ') {
+      const bodyOffset = offset + 8;
+
+      if (chunkId === 'ds64') {
+        // RF64 size table: riffSize (64), dataSize (64), sampleCount (64), ...
+        if (chunkSize < 24 || bodyOffset + 24 > buffer.byteLength) {
+          throw new SpliceError(
+            SpliceErrorCode.CHUNK_MISSING_HEADER,
+            'Invalid RF64 file: ds64 chunk is truncated',
+            { chunkSize, bufferLength: buffer.byteLength }
+          );
+        }
+        ds64DataSize = this.readUint64(view, bodyOffset + 8);
+      } else if (chunkId === 'fmt ') {
+        if (chunkSize < 16 || bodyOffset + 16 > buffer.byteLength) {
+          throw new SpliceError(
+            SpliceErrorCode.CHUNK_MISSING_HEADER,
+            'Invalid WAV file: fmt chunk is truncated',
+            { chunkSize, bufferLength: buffer.byteLength }
+          );
+        }
         foundFmt = true;
-        // Audio format (1 = PCM)
-        // const audioFormat = view.getUint16(offset + 8, true);
-        channels = view.getUint16(offset + 10, true);
-        sampleRate = view.getUint32(offset + 12, true);
-        // Byte rate at offset + 16
-        // Block align at offset + 20
-        bitsPerSample = view.getUint16(offset + 22, true);
+        sampleFormat = this.readSampleFormat(view, bodyOffset, chunkSize);
+        channels = view.getUint16(bodyOffset + 2, true);
+        sampleRate = view.getUint32(bodyOffset + 4, true);
+        // Byte rate at +8, block align at +12
+        bitsPerSample = view.getUint16(bodyOffset + 14, true);
       } else if (chunkId === 'data') {
-        dataOffset = offset + 8;
+        dataOffset = bodyOffset;
         dataSize = chunkSize;
+        if (isRf64 && chunkSize === RF64_SIZE_PLACEHOLDER) {
+          if (ds64DataSize === undefined) {
+            throw new SpliceError(
+              SpliceErrorCode.CHUNK_MISSING_HEADER,
+              'Invalid RF64 file: missing ds64 chunk with the data size'
+            );
+          }
+          dataSize = ds64DataSize;
+        }
         break;
       }
 
-      offset += 8 + chunkSize;
+      offset = bodyOffset + chunkSize;
       // Ensure even alignment
       if (chunkSize % 2 !== 0) offset++;
     }
@@ -177,6 +255,7 @@ export class AudioChunker {
     // Validate fmt chunk was found (#5)
     if (
       !foundFmt ||
+      sampleFormat === undefined ||
       sampleRate === undefined ||
       channels === undefined ||
       bitsPerSample === undefined
@@ -203,6 +282,13 @@ export class AudioChunker {
         { channels, maxChannels: AUDIO_CONFIG.MAX_CHANNELS }
       );
     }
+    if (sampleFormat === 'float' && bitsPerSample !== 32) {
+      throw new SpliceError(
+        SpliceErrorCode.CHUNK_INVALID_FORMAT,
+        `Invalid WAV file: ${bitsPerSample}-bit float is not supported`,
+        { bitsPerSample, sampleFormat, supportedBits: [32] }
+      );
+    }
     if (
       bitsPerSample !== 8 &&
       bitsPerSample !== 16 &&
@@ -223,10 +309,18 @@ export class AudioChunker {
       );
     }
 
+    // Recorders that were interrupted (or stream to disk) leave an overstated data size
+    const availableData = fileSize - dataOffset;
+    if (dataSize > availableData) {
+      logger.debug(`WAV data chunk claims ${dataSize} bytes, only ${availableData} present`);
+      dataSize = availableData;
+    }
+
     const wavInfo: WavInfo = {
       sampleRate,
       channels,
       bitsPerSample,
+      sampleFormat,
       dataOffset,
       dataSize,
     };
@@ -235,7 +329,7 @@ export class AudioChunker {
     if (useCache) {
       this.headerCache.set(cacheKey, {
         wavInfo,
-        headerBuffer: this.createWavHeader(0, sampleRate, channels, bitsPerSample),
+        headerBuffer: this.createWavHeader(0, sampleRate, channels, bitsPerSample, sampleFormat),
         timestamp: Date.now(),
       });
     }
@@ -250,13 +344,15 @@ export class AudioChunker {
    * @param sampleRate - Sample rate in Hz
    * @param channels - Number of channels
    * @param bitsPerSample - Bits per sample
+   * @param sampleFormat - Integer PCM or IEEE float samples
    * @returns ArrayBuffer containing the WAV header
    */
   private createWavHeader(
     dataSize: number,
     sampleRate: number,
     channels: number,
-    bitsPerSample: number
+    bitsPerSample: number,
+    sampleFormat: WavSampleFormat = 'pcm'
   ): ArrayBuffer {
     const headerSize = 44;
     const buffer = new ArrayBuffer(headerSize);
@@ -273,8 +369,9 @@ export class AudioChunker {
 
     // fmt sub-chunk
     this.writeString(view, 12, 'fmt ');
-    view.setUint32(16, 16, true); // Subchunk1Size (16 for PCM)
-    view.setUint16(20, 1, true); // AudioFormat (1 = PCM)
+    view.setUint32(16, 16, true); // Subchunk1Size (16, no extension)
+    // Chunks are always under 4GB, so a plain RIFF header works for every source format
+    view.setUint16(20, sampleFormat === 'float' ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, true);
     view.setUint16(22, channels, true);
     view.setUint32(24, sampleRate, true);
     view.setUint32(28, byteRate, true);
@@ -288,6 +385,66 @@ export class AudioChunker {
     return buffer;
   }
 
+  /**
+   * Resolve the sample encoding from a fmt chunk, including WAVE_FORMAT_EXTENSIBLE.
+   *
+   * @param view - DataView over the WAV buffer
+   * @param fmtOffset - Offset of the fmt chunk body
+   * @param fmtSize - Size of the fmt chunk body
+   * @throws SpliceError CHUNK_INVALID_FORMAT for compressed or unknown encodings
+   */
+  private readSampleFormat(view: DataView, fmtOffset: number, fmtSize: number): WavSampleFormat {
+    let formatTag = view.getUint16(fmtOffset, true);
+
+    if (formatTag === WAVE_FORMAT_EXTENSIBLE) {
+      // cbSize (2), validBits (2), channelMask (4), then the SubFormat GUID (16)
+      if (fmtSize < 40 || fmtOffset + 40 > view.byteLength) {
+        throw new SpliceError(
+          SpliceErrorCode.CHUNK_MISSING_HEADER,
+          'Invalid WAV file: WAVE_FORMAT_EXTENSIBLE fmt chunk is truncated',
+          { fmtSize }
+        );
+      }
+      const guidOffset = fmtOffset + 24;
+      const isKnownSubtype = KSDATAFORMAT_SUBTYPE_TAIL.every(
+        (byte, i) => view.getUint8(guidOffset + 4 + i) === byte
+      );
+      formatTag = isKnownSubtype ? view.getUint32(guidOffset, true) : -1;
+    }
+
+    if (formatTag === WAVE_FORMAT_PCM) {
+      return 'pcm';
+    }
+    if (formatTag === WAVE_FORMAT_IEEE_FLOAT) {
+      return 'float';
+    }
+
+    throw new SpliceError(
+      SpliceErrorCode.CHUNK_INVALID_FORMAT,
+      'Invalid WAV file: only PCM and IEEE float encodings are supported',
+      { formatTag }
+    );
+  }
+
+  /**
+   * Read a four-character chunk ID.
+   */
+  private readFourCC(view: DataView, offset: number): string {
+    return String.fromCharCode(
+      view.getUint8(offset),
+      view.getUint8(offset + 1),
+      view.getUint8(offset + 2),
+      view.getUint8(offset + 3)
+    );
+  }
+
+  /**
+   * Read a little-endian 64-bit size. Exact up to 2^53 bytes, far beyond any real file.
+   */
+  private readUint64(view: DataView, offset: number): number {
+    return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+  }
+
   /**
    * Write a string to a DataView at the specified offset.
    */
@@ -299,23 +456,33 @@ export class AudioChunker {
 
   /**
    * Split a WAV buffer into chunks suitable for Whisper API.
-   * Each chunk is ~10 minutes or less.
+   * Each chunk is as long as fits in MAX_CHUNK_SIZE_BYTES at the audio's byte
+   * rate (~13 minutes of the 16kHz mono upload, ~2 minutes of 48kHz stereo),
+   * at most CHUNK_DURATION_SECONDS. Chunks run on into the next chunk by the
+   * overlap, so a word cut at one chunk's edge is heard whole in its neighbour.
    *
    * @param buffer - The full WAV audio buffer
    * @param totalDuration - Total duration in seconds
+   * @param options - Overlap override
    * @returns Array of audio chunks
+   * @throws SpliceError CHUNK_SIZE_EXCEEDED if the byte rate is too high for a chunk to fit
    */
-  async chunkWavBuffer(buffer: ArrayBuffer, totalDuration: number): Promise<AudioChunk[]> {
+  async chunkWavBuffer(
+    buffer: ArrayBuffer,
+    totalDuration: number,
+    options: ChunkOptions = {}
+  ): Promise<AudioChunk[]> {
     return this.metrics.measure(
       'chunkWavBuffer',
-      () => this.chunkWavBufferImpl(buffer, totalDuration),
+      () => this.chunkWavBufferImpl(buffer, totalDuration, options),
       { bufferSize: buffer.byteLength, duration: totalDuration }
     );
   }
 
   private async chunkWavBufferImpl(
     buffer: ArrayBuffer,
-    totalDuration: number
+    totalDuration: number,
+    options: ChunkOptions
   ): Promise<AudioChunk[]> {
     // Always validate WAV header first, regardless of size
     const wavInfo = this.parseWavHeader(buffer);
@@ -337,7 +504,12 @@ export class AudioChunker {
     const chunks: AudioChunk[] = [];
 
     const bytesPerSecond = wavInfo.sampleRate * wavInfo.channels * (wavInfo.bitsPerSample / 8);
-    const totalChunks = Math.ceil(totalDuration / this.CHUNK_DURATION_SECONDS);
+    const ranges = this.getChunkRanges(
+      totalDuration,
+      options.bytesPerSecond ?? bytesPerSecond,
+      options
+    );
+    const totalChunks = ranges.length;
 
     logger.info(`Creating ${totalChunks} chunks`, {
       sampleRate: wavInfo.sampleRate,
@@ -351,8 +523,7 @@ export class AudioChunker {
     const blockAlign = wavInfo.channels * bytesPerSample;
 
     for (let i = 0; i < totalChunks; i++) {
-      const startTime = i * this.CHUNK_DURATION_SECONDS;
-      const endTime = Math.min((i + 1) * this.CHUNK_DURATION_SECONDS, totalDuration);
+      const { startTime, endTime } = ranges[i];
       const chunkDuration = endTime - startTime;
 
       // Calculate byte offsets within data chunk, aligned to sample boundaries (#4)
@@ -385,7 +556,8 @@ export class AudioChunker {
         chunkDataSize,
         wavInfo.sampleRate,
         wavInfo.channels,
-        wavInfo.bitsPerSample
+        wavInfo.bitsPerSample,
+        wavInfo.sampleFormat
       );
 
       // Optimization: Allocate once and use views to avoid extra copies
@@ -437,28 +609,34 @@ export class AudioChunker {
    * - Streams chunks without allocating all at once
    * - Reuses header template from cache
    * - Minimal memory footprint for large files
+   * - Given a WavStreamReader, reads each chunk's PCM from disk as it is
+   *   yielded, so the full file is never in memory
    *
-   * @param buffer - The full WAV audio buffer
+   * @param source - The full WAV audio buffer, or a reader over the file
    * @param totalDuration - Total duration in seconds
+   * @param options - Overlap override
    * @yields Audio chunks one at a time
+   * @throws SpliceError CHUNK_SIZE_EXCEEDED if the byte rate is too high for a chunk to fit
    */
   async *chunkWavBufferIterator(
-    buffer: ArrayBuffer,
-    totalDuration: number
+    source: ArrayBuffer | WavStreamReader,
+    totalDuration: number,
+    options: ChunkOptions = {}
   ): AsyncGenerator<AudioChunk> {
     this.metrics.start('chunkWavBufferIterator', {
-      bufferSize: buffer.byteLength,
+      bufferSize: source.byteLength,
       duration: totalDuration,
     });
 
     try {
       // Always validate WAV header first, regardless of size
-      const wavInfo = this.parseWavHeader(buffer);
+      const wavInfo = source instanceof ArrayBuffer ? this.parseWavHeader(source) : source.info;
 
-      if (!this.needsChunking(buffer)) {
+      if (!this.needsChunking(source)) {
         // Yield single chunk if under limit
         yield {
-          buffer,
+          buffer:
+            source instanceof ArrayBuffer ? source : await source.readBytes(0, source.byteLength),
           startTime: 0,
           endTime: totalDuration,
           chunkIndex: 0,
@@ -468,18 +646,22 @@ export class AudioChunker {
       }
 
       logger.info(
-        `Chunking audio (iterator): ${buffer.byteLength} bytes, ${totalDuration}s duration`
+        `Chunking audio (iterator): ${source.byteLength} bytes, ${totalDuration}s duration`
       );
       const bytesPerSecond = wavInfo.sampleRate * wavInfo.channels * (wavInfo.bitsPerSample / 8);
-      const totalChunks = Math.ceil(totalDuration / this.CHUNK_DURATION_SECONDS);
+      const ranges = this.getChunkRanges(
+        totalDuration,
+        options.bytesPerSecond ?? bytesPerSecond,
+        options
+      );
+      const totalChunks = ranges.length;
 
       // Calculate block align for sample boundary alignment
       const bytesPerSample = wavInfo.bitsPerSample / 8;
       const blockAlign = wavInfo.channels * bytesPerSample;
 
       for (let i = 0; i < totalChunks; i++) {
-        const startTime = i * this.CHUNK_DURATION_SECONDS;
-        const endTime = Math.min((i + 1) * this.CHUNK_DURATION_SECONDS, totalDuration);
+        const { startTime, endTime } = ranges[i];
 
         // Calculate byte offsets, aligned to sample boundaries
         const rawStartByte = Math.floor(startTime * bytesPerSecond);
@@ -507,7 +689,8 @@ export class AudioChunker {
           chunkDataSize,
           wavInfo.sampleRate,
           wavInfo.channels,
-          wavInfo.bitsPerSample
+          wavInfo.bitsPerSample,
+          wavInfo.sampleFormat
         );
 
         // Optimization: Allocate buffer and use views
@@ -517,9 +700,12 @@ export class AudioChunker {
         // Copy header
         chunkView.set(new Uint8Array(header), 0);
 
-        // Copy audio data using zero-copy view
+        // Copy audio data using zero-copy view (or a read of just this range from disk)
         const sourceOffset = wavInfo.dataOffset + startByte;
-        const sourceData = new Uint8Array(buffer, sourceOffset, chunkDataSize);
+        const sourceData =
+          source instanceof ArrayBuffer
+            ? new Uint8Array(source, sourceOffset, chunkDataSize)
+            : new Uint8Array(await source.readBytes(sourceOffset, chunkDataSize));
         chunkView.set(sourceData, header.byteLength);
 
         yield {
@@ -537,6 +723,43 @@ export class AudioChunker {
     }
   }
 
+  /**
+   * Time range of each chunk: as long as fits in MAX_FILE_SIZE_BYTES at the
+   * audio's byte rate with the overlap (at most CHUNK_DURATION_SECONDS),
+   * extended by the overlap and clamped to the end of the audio.
+   * Throws if the overlap alone fills a chunk, as the chunks would then never
+   * advance through the audio.
+   */
+  private getChunkRanges(
+    totalDuration: number,
+    bytesPerSecond: number,
+    options: ChunkOptions
+  ): Array<{ startTime: number; endTime: number }> {
+    const overlap = Math.max(0, options.overlapSeconds ?? this.CHUNK_OVERLAP_SECONDS);
+    const fits = (this.MAX_FILE_SIZE_BYTES - this.CHUNK_HEADER_BYTES) / bytesPerSecond - overlap;
+    const chunkDuration = Math.min(this.CHUNK_DURATION_SECONDS, fits);
+    if (!(chunkDuration > 0)) {
+      throw new SpliceError(
+        SpliceErrorCode.CHUNK_SIZE_EXCEEDED,
+        `Audio at ${bytesPerSecond} bytes/s does not fit a ${this.MAX_FILE_SIZE_BYTES}-byte chunk with ${overlap}s overlap`,
+        { bytesPerSecond, maxFileSizeBytes: this.MAX_FILE_SIZE_BYTES, overlapSeconds: overlap }
+      );
+    }
+    const totalChunks = Math.ceil(totalDuration / chunkDuration);
+    const ranges: Array<{ startTime: number; endTime: number }> = [];
+
+    for (let i = 0; i < totalChunks; i++) {
+      const startTime = i * chunkDuration;
+      const nominalEnd = (i + 1) * chunkDuration;
+      const endTime = Math.min(
+        i < totalChunks - 1 ? nominalEnd + overlap : nominalEnd,
+        totalDuration
+      );
+      ranges.push({ startTime, endTime });
+    }
+    return ranges;
+  }
+
   /**
    * Merge transcription results from multiple chunks.
    * Adjusts timestamps to be relative to the full audio.
@@ -0,0 +1,386 @@
+/**
+ * Audio Defect Detector
+ *
+ * Local scan of WAV audio for recording damage:
+ * - Clipping: runs of consecutive full-scale samples
+ * - Dropouts: signal that suddenly falls to exact digital zero and comes back
+ * - DC offset: windows whose mean sample value is far from zero
+ *
+ * Single streaming pass over the PCM data; no network access. Long files can be
+ * scanned straight from disk with detectStream().
+ */
+
+import { logger } from '../lib/logger';
+import { audioChunker, WavInfo } from './audio-chunker';
+import { readPcmSample } from '../utils/audio-envelope';
+import type { WavStreamReader } from './wav-stream-reader';
+
+export type AudioDefectKind = 'clipping' | 'dropout' | 'dc-offset';
+
+export type DefectSeverity = 'low' | 'medium' | 'high';
+
+export interface AudioDefect {
+  kind: AudioDefectKind;
+  start: number; // Seconds
+  end: number; // Seconds
+  channel: number | null; // Zero-based channel, null if several/all channels are affected
+  severity: DefectSeverity;
+  detail: string; // Human-readable summary, used for marker comments
+}
+
+export interface AudioDefectReport {
+  defects: AudioDefect[];
+  clippedSamples: number;
+  dcOffset: number[]; // Mean sample value per channel over the whole file (-1..1)
+  duration: number;
+}
+
+export interface DefectDetectionOptions {
+  detectClipping?: boolean;
+  detectDropouts?: boolean;
+  detectDcOffset?: boolean;
+  clipLevel?: number; // Absolute sample value (0-1) treated as full scale; default depends on the format
+  minClipRun?: number; // Consecutive full-scale samples that count as clipping
+  dcThreshold?: number; // Absolute mean (0-1) above which a window has DC offset
+}
+
+interface ClipRun {
+  channel: number;
+  startFrame: number;
+  endFrame: number; // Exclusive
+}
+
+/** Detector settings and tracker state carried across the windows of one pass */
+interface DefectScan {
+  wavInfo: WavInfo;
+  detectClipping: boolean;
+  detectDropouts: boolean;
+  detectDcOffset: boolean;
+  clipLevel: number;
+  minClipRun: number;
+  dcThreshold: number;
+  minDropoutFrames: number;
+  maxDropoutFrames: number;
+  dcWindowFrames: number;
+  clipRuns: ClipRun[];
+  clipRunStart: number[]; // Per channel, -1 when not in a run
+  dropouts: AudioDefect[];
+  zeroRunStart: number;
+  levelBeforeZeros: number;
+  previousLevel: number;
+  totalSums: Float64Array;
+  windowSums: Float64Array;
+  dcWindows: Array<{ start: number; means: number[] }>;
+}
+
+/**
+ * Service for finding clipped, dropped-out and DC-offset audio.
+ */
+export class AudioDefectDetector {
+  private readonly DEFAULT_CLIP_RATIO = 0.999; // Of the format's largest positive sample
+  private readonly DEFAULT_MIN_CLIP_RUN = 3;
+  private readonly DEFAULT_DC_THRESHOLD = 0.01; // -40 dBFS
+  private readonly CLIP_MERGE_GAP = 0.05; // Clip runs closer than this form one defect
+  private readonly MIN_DROPOUT_SECONDS = 0.0005;
+  private readonly MAX_DROPOUT_SECONDS = 0.5; // Longer digital silence is likely intentional
+  private readonly DROPOUT_EDGE_LEVEL = 0.01; // Signal must be at least -40 dBFS on both sides
+  private readonly DC_WINDOW_SECONDS = 1;
+
+  /**
+   * Scan a WAV buffer for defects.
+   *
+   * @param buffer - WAV audio (e.g. from AudioExtractor.extractFromTimeline)
+   * @throws SpliceError if the buffer is not a valid WAV file
+   */
+  detect(buffer: ArrayBuffer, options: DefectDetectionOptions = {}): AudioDefectReport {
+    const wavInfo = audioChunker.getWavInfo(buffer);
+    const blockAlign = (wavInfo.bitsPerSample / 8) * wavInfo.channels;
+    const dataEnd = Math.min(wavInfo.dataOffset + wavInfo.dataSize, buffer.byteLength);
+    const totalFrames = Math.max(0, Math.floor((dataEnd - wavInfo.dataOffset) / blockAlign));
+
+    const scan = this.createScan(wavInfo, options);
+    this.scanFrames(scan, new DataView(buffer), wavInfo.dataOffset, 0, totalFrames);
+    return this.finishScan(scan, totalFrames);
+  }
+
+  /**
+   * Scan a WAV file streamed from disk, one window at a time.
+   * Gives the same report as detect() on the whole file.
+   *
+   * @param reader - Reader over the file (e.g. from AudioExtractor.openTimelineStream)
+   */
+  async detectStream(
+    reader: WavStreamReader,
+    options: DefectDetectionOptions = {}
+  ): Promise<AudioDefectReport> {
+    const scan = this.createScan(reader.info, options);
+    for await (const window of reader.windows()) {
+      this.scanFrames(scan, window.view, 0, window.startFrame, window.frameCount);
+    }
+    return this.finishScan(scan, reader.totalFrames);
+  }
+
+  private createScan(wavInfo: WavInfo, options: DefectDetectionOptions): DefectScan {
+    const { sampleRate, channels } = wavInfo;
+    return {
+      wavInfo,
+      detectClipping: options.detectClipping ?? true,
+      detectDropouts: options.detectDropouts ?? true,
+      detectDcOffset: options.detectDcOffset ?? true,
+      clipLevel: options.clipLevel ?? this.DEFAULT_CLIP_RATIO * this.getFullScale(wavInfo),
+      minClipRun: options.minClipRun ?? this.DEFAULT_MIN_CLIP_RUN,
+      dcThreshold: options.dcThreshold ?? this.DEFAULT_DC_THRESHOLD,
+      minDropoutFrames: Math.max(2, Math.round(this.MIN_DROPOUT_SECONDS * sampleRate)),
+      maxDropoutFrames: Math.round(this.MAX_DROPOUT_SECONDS * sampleRate),
+      dcWindowFrames: Math.round(this.DC_WINDOW_SECONDS * sampleRate),
+      clipRuns: [],
+      clipRunStart: new Array<number>(channels).fill(-1),
+      dropouts: [],
+      zeroRunStart: -1,
+      levelBeforeZeros: 0,
+      previousLevel: 0,
+      totalSums: new Float64Array(channels),
+      windowSums: new Float64Array(channels),
+      dcWindows: [],
+    };
+  }
+
+  /**
+   * Largest positive sample value of a format. Integer PCM has one code more
+   * below zero than above it, so 8-bit audio tops out at 127/128.
+   */
+  private getFullScale(wavInfo: WavInfo): number {
+    if (wavInfo.sampleFormat === 'float') return 1;
+    const codes = Math.pow(2, wavInfo.bitsPerSample - 1);
+    return (codes - 1) / codes;
+  }
+
+  /**
+   * Run consecutive frames through the clipping, dropout and DC trackers.
+   *
+   * @param view - PCM data holding the frames
+   * @param byteOffset - Offset of the first frame in the view
+   * @param firstFrame - Index of the first frame in the whole file
+   * @param frameCount - Number of frames to scan
+   */
+  private scanFrames(
+    scan: DefectScan,
+    view: DataView,
+    byteOffset: number,
+    firstFrame: number,
+    frameCount: number
+  ): void {
+    const { channels, bitsPerSample, sampleFormat } = scan.wavInfo;
+    const { clipLevel, clipRunStart, totalSums, windowSums, dcWindowFrames } = scan;
+    const bytesPerSample = bitsPerSample / 8;
+    const blockAlign = bytesPerSample * channels;
+
+    for (let frame = firstFrame; frame < firstFrame + frameCount; frame++) {
+      const frameOffset = byteOffset + (frame - firstFrame) * blockAlign;
+      let frameLevel = 0;
+
+      for (let ch = 0; ch < channels; ch++) {
+        const x = readPcmSample(
+          view,
+          frameOffset + ch * bytesPerSample,
+          bitsPerSample,
+          sampleFormat
+        );
+        const abs = Math.abs(x);
+        if (abs > frameLevel) frameLevel = abs;
+
+        if (scan.detectClipping) {
+          if (abs >= clipLevel) {
+            if (clipRunStart[ch] === -1) clipRunStart[ch] = frame;
+          } else if (clipRunStart[ch] !== -1) {
+            this.closeClipRun(scan.clipRuns, ch, clipRunStart[ch], frame, scan.minClipRun);
+            clipRunStart[ch] = -1;
+          }
+        }
+
+        totalSums[ch] += x;
+        windowSums[ch] += x;
+      }
+
+      if (scan.detectDropouts) {
+        if (frameLevel === 0) {
+          if (scan.zeroRunStart === -1) {
+            scan.zeroRunStart = frame;
+            scan.levelBeforeZeros = scan.previousLevel;
+          }
+        } else if (scan.zeroRunStart !== -1) {
+          const length = frame - scan.zeroRunStart;
+          if (
+            length >= scan.minDropoutFrames &&
+            length <= scan.maxDropoutFrames &&
+            scan.levelBeforeZeros >= this.DROPOUT_EDGE_LEVEL &&
+            frameLevel >= this.DROPOUT_EDGE_LEVEL
+          ) {
+            scan.dropouts.push(
+              this.createDropout(scan.zeroRunStart, frame, scan.wavInfo.sampleRate)
+            );
+          }
+          scan.zeroRunStart = -1;
+        }
+      }
+      scan.previousLevel = frameLevel;
+
+      if (scan.detectDcOffset && (frame + 1) % dcWindowFrames === 0) {
+        scan.dcWindows.push({
+          start: frame + 1 - dcWindowFrames,
+          means: Array.from(windowSums, (sum) => sum / dcWindowFrames),
+        });
+        windowSums.fill(0);
+      }
+    }
+  }
+
+  private finishScan(scan: DefectScan, totalFrames: number): AudioDefectReport {
+    const { sampleRate, channels } = scan.wavInfo;
+    const { clipRuns, clipRunStart, dropouts } = scan;
+
+    // Close clip runs that reach the end of the file
+    for (let ch = 0; ch < channels; ch++) {
+      if (clipRunStart[ch] !== -1) {
+        this.closeClipRun(clipRuns, ch, clipRunStart[ch], totalFrames, scan.minClipRun);
+      }
+    }
+    let clippedSamples = 0;
+    for (const run of clipRuns) {
+      clippedSamples += run.endFrame - run.startFrame;
+    }
+
+    const defects = [
+      ...this.mergeClipRuns(clipRuns, sampleRate),
+      ...dropouts,
+      ...this.findDcOffset(scan.dcWindows, scan.dcWindowFrames, sampleRate, scan.dcThreshold),
+    ].sort((a, b) => a.start - b.start);
+
+    const report: AudioDefectReport = {
+      defects,
+      clippedSamples,
+      dcOffset: Array.from(scan.totalSums, (sum) => (totalFrames > 0 ? sum / totalFrames : 0)),
+      duration: totalFrames / sampleRate,
+    };
+
+    logger.info(
+      `Defect scan: ${defects.length} defects (${clippedSamples} clipped samples, ${dropouts.length} dropouts)`
+    );
+
+    return report;
+  }
+
+  private closeClipRun(
+    runs: ClipRun[],
+    channel: number,
+    startFrame: number,
+    endFrame: number,
+    minClipRun: number
+  ): void {
+    if (endFrame - startFrame >= minClipRun) {
+      runs.push({ channel, startFrame, endFrame });
+    }
+  }
+
+  /**
+   * Merge nearby clip runs (any channel) into one defect per clipped passage
+   */
+  private mergeClipRuns(runs: ClipRun[], sampleRate: number): AudioDefect[] {
+    const sorted = [...runs].sort((a, b) => a.startFrame - b.startFrame);
+    const mergeGapFrames = Math.round(this.CLIP_MERGE_GAP * sampleRate);
+    const groups: Array<{ start: number; end: number; channels: Set<number>; samples: number }> =
+      [];
+
+    for (const run of sorted) {
+      const last = groups[groups.length - 1];
+      if (last && run.startFrame <= last.end + mergeGapFrames) {
+        last.end = Math.max(last.end, run.endFrame);
+        last.channels.add(run.channel);
+        last.samples += run.endFrame - run.startFrame;
+      } else {
+        groups.push({
+          start: run.startFrame,
+          end: run.endFrame,
+          channels: new Set([run.channel]),
+          samples: run.endFrame - run.startFrame,
+        });
+      }
+    }
+
+    return groups.map((group) => {
+      const clippedMs = (group.samples / sampleRate) * 1000;
+      const severity: DefectSeverity = clippedMs < 1 ? 'low' : clippedMs < 5 ? 'medium' : 'high';
+      return {
+        kind: 'clipping',
+        start: group.start / sampleRate,
+        end: group.end / sampleRate,
+        channel: group.channels.size === 1 ? [...group.channels][0] : null,
+        severity,
+        detail: `${group.samples} clipped samples (${clippedMs.toFixed(1)}ms)`,
+      };
+    });
+  }
+
+  private createDropout(startFrame: number, endFrame: number, sampleRate: number): AudioDefect {
+    const durationMs = ((endFrame - startFrame) / sampleRate) * 1000;
+    const severity: DefectSeverity = durationMs < 5 ? 'low' : durationMs < 50 ? 'medium' : 'high';
+    return {
+      kind: 'dropout',
+      start: startFrame / sampleRate,
+      end: endFrame / sampleRate,
+      channel: null,
+      severity,
+      detail: `${durationMs.toFixed(1)}ms dropout to digital silence`,
+    };
+  }
+
+  /**
+   * Merge consecutive offset windows per channel into defects
+   */
+  private findDcOffset(
+    windows: Array<{ start: number; means: number[] }>,
+    windowFrames: number,
+    sampleRate: number,
+    threshold: number
+  ): AudioDefect[] {
+    const defects: AudioDefect[] = [];
+    const channels = windows[0]?.means.length ?? 0;
+
+    for (let ch = 0; ch < channels; ch++) {
+      let current: { start: number; end: number; maxOffset: number } | null = null;
+
+      const flush = () => {
+        if (!current) return;
+        const offset = current.maxOffset;
+        const severity: DefectSeverity = offset < 0.03 ? 'low' : offset < 0.1 ? 'medium' : 'high';
+        defects.push({
+          kind: 'dc-offset',
+          start: current.start / sampleRate,
+          end: current.end / sampleRate,
+          channel: ch,
+          severity,
+          detail: `DC offset ${(20 * Math.log10(offset)).toFixed(1)} dBFS on channel ${ch + 1}`,
+        });
+        current = null;
+      };
+
+      for (const window of windows) {
+        const offset = Math.abs(window.means[ch]);
+        if (offset < threshold) {
+          flush();
+        } else if (current) {
+          current.end = window.start + windowFrames;
+          current.maxOffset = Math.max(current.maxOffset, offset);
+        } else {
+          current = { start: window.start, end: window.start + windowFrames, maxOffset: offset };
+        }
+      }
+      flush();
+    }
+
+    return defects;
+  }
+}
+
+// Singleton instance
+export const audioDefectDetector = new AudioDefectDetector();
@@ -9,6 +9,7 @@
  * - Performance metrics tracking for all operations
  * - Optimized WAV parsing with caching
  * - Memory-efficient buffer handling
+ * - openTimelineStream() reads the export from disk in windows for long timelines
  *
  * Throws SpliceError if both methods fail (no mock fallback).
  */
@@ -17,6 +18,7 @@ import { logger } from '../lib/logger';
 import { SpliceError, SpliceErrorCode, isSpliceError } from '../lib/errors';
 import { ameExporter, AMEExportResult } from './ame-exporter';
 import { audioChunker, AudioChunk } from './audio-chunker';
+import { WavStreamReader, openFileSource } from './wav-stream-reader';
 import { AUDIO_CONFIG, validateTimelineDuration } from '../config/audio-config';
 import { PerformanceMetrics } from '../utils/performance-metrics';
 
@@ -42,6 +44,16 @@ export interface AudioExtractionResult {
   extractionMethod: 'ame' | 'source';
 }
 
+export interface AudioStreamResult {
+  /** Reader over the WAV file; close() it when done */
+  reader: WavStreamReader;
+  duration: number;
+  sampleRate: number;
+  channels: number;
+  sourceFiles: SourceFileInfo[];
+  extractionMethod: 'ame' | 'source';
+}
+
 // AudioExtractionError has been replaced by SpliceError for consistent error handling.
 // For backward compatibility, export an alias
 export { SpliceError as AudioExtractionError } from '../lib/errors';
@@ -98,40 +110,7 @@ export class AudioExtractor {
    */
   async extractFromTimeline(): Promise<AudioExtractionResult> {
     return this.metrics.measure('extractFromTimeline', async () => {
-      if (!this.isAvailable()) {
-        throw new SpliceError(
-          SpliceErrorCode.PREMIERE_NOT_AVAILABLE,
-          'Premiere Pro API not available',
-          { hasApp: !!this.app, hasProject: !!this.project }
-        );
-      }
-
-      const activeSequence = this.project.activeSequence;
-      if (!activeSequence) {
-        throw new SpliceError(SpliceErrorCode.AUDIO_NO_SEQUENCE, 'No active sequence found');
-      }
-
-      const duration = activeSequence.end?.seconds;
-      if (!duration || duration <= 0) {
-        throw new SpliceError(
-          SpliceErrorCode.AUDIO_INVALID_DURATION,
-          `Invalid sequence duration: ${duration}`,
-          { duration }
-        );
-      }
-
-      // Validate timeline duration to prevent excessive processing
-      const durationValidation = validateTimelineDuration(duration);
-      if (!durationValidation.valid) {
-        throw new SpliceError(
-          SpliceErrorCode.AUDIO_TIMELINE_TOO_LONG,
-          durationValidation.error || 'Timeline too long',
-          { duration, maxDuration: AUDIO_CONFIG.MAX_TIMELINE_DURATION_SECONDS }
-        );
-      }
-      if (durationValidation.warning) {
-        logger.warn(durationValidation.warning);
-      }
+      const { activeSequence, duration } = this.getActiveSequence();
 
       let ameError: SpliceError | undefined;
       let sourceError: string | undefined;
@@ -193,6 +172,121 @@ export class AudioExtractor {
     });
   }
 
+  /**
+   * Open the active sequence's audio as a stream instead of one buffer.
+   *
+   * Same strategy as extractFromTimeline(), but the export is read from disk a
+   * window at a time, so memory stays bounded even for the longest timelines.
+   * The caller must close() the reader; that also deletes the AME export.
+   */
+  async openTimelineStream(): Promise<AudioStreamResult> {
+    return this.metrics.measure('openTimelineStream', async () => {
+      const { activeSequence, duration } = this.getActiveSequence();
+
+      let ameError: string | undefined;
+      let sourceError: string | undefined;
+
+      if (ameExporter.isAvailable()) {
+        try {
+          const exportResult = await this.metrics.measure('ameExport', async () => {
+            return await ameExporter.exportSequenceAudio(activeSequence, {
+              workArea: 'full',
+            });
+          });
+          const { filePath } = exportResult;
+          const reader = await WavStreamReader.open(
+            await openFileSource(filePath, () => ameExporter.cleanupExportedFile(filePath))
+          );
+
+          if (Math.abs(reader.duration - duration) > 1) {
+            logger.warn(
+              `WAV duration (${reader.duration.toFixed(2)}s) differs from sequence duration (${duration.toFixed(2)}s)`
+            );
+          }
+          logger.info(`Streaming exported audio: ${reader.byteLength} bytes`);
+
+          return {
+            reader,
+            duration: reader.duration,
+            sampleRate: reader.info.sampleRate,
+            channels: reader.info.channels,
+            sourceFiles: [],
+            extractionMethod: 'ame' as const,
+          };
+        } catch (error) {
+          ameError = error instanceof Error ? error.message : 'Unknown AME export error';
+          logger.warn('AME export failed, trying fallback...', error);
+        }
+      }
+
+      try {
+        const sourceFiles = this.collectSourceFiles(activeSequence);
+        if (sourceFiles.length > 0) {
+          const reader = await WavStreamReader.open(await openFileSource(sourceFiles[0].path));
+          return {
+            reader,
+            duration,
+            sampleRate: reader.info.sampleRate,
+            channels: reader.info.channels,
+            sourceFiles,
+            extractionMethod: 'source' as const,
+          };
+        }
+        sourceError = 'No audio clips found on timeline';
+      } catch (error) {
+        sourceError = error instanceof Error ? error.message : 'Unknown source extraction error';
+      }
+
+      throw new SpliceError(
+        SpliceErrorCode.AUDIO_EXTRACTION_FAILED,
+        'Audio extraction failed. Neither AME export nor source file reading succeeded.',
+        { ameError, sourceError }
+      );
+    });
+  }
+
+  /**
+   * Resolve the active sequence and check its duration is within limits.
+   */
+  private getActiveSequence(): { activeSequence: any; duration: number } {
+    if (!this.isAvailable()) {
+      throw new SpliceError(
+        SpliceErrorCode.PREMIERE_NOT_AVAILABLE,
+        'Premiere Pro API not available',
+        { hasApp: !!this.app, hasProject: !!this.project }
+      );
+    }
+
+    const activeSequence = this.project.activeSequence;
+    if (!activeSequence) {
+      throw new SpliceError(SpliceErrorCode.AUDIO_NO_SEQUENCE, 'No active sequence found');
+    }
+
+    const duration = activeSequence.end?.seconds;
+    if (!duration || duration <= 0) {
+      throw new SpliceError(
+        SpliceErrorCode.AUDIO_INVALID_DURATION,
+        `Invalid sequence duration: ${duration}`,
+        { duration }
+      );
+    }
+
+    // Validate timeline duration to prevent excessive processing
+    const durationValidation = validateTimelineDuration(duration);
+    if (!durationValidation.valid) {
+      throw new SpliceError(
+        SpliceErrorCode.AUDIO_TIMELINE_TOO_LONG,
+        durationValidation.error || 'Timeline too long',
+        { duration, maxDuration: AUDIO_CONFIG.MAX_TIMELINE_DURATION_SECONDS }
+      );
+    }
+    if (durationValidation.warning) {
+      logger.warn(durationValidation.warning);
+    }
+
+    return { activeSequence, duration };
+  }
+
   /**
    * Handle a successful AME export - read the file and optionally chunk it.
    * Uses try-finally to guarantee cleanup even on failure.
@@ -266,17 +360,15 @@ export class AudioExtractor {
     bitsPerSample: number;
     duration: number;
   } {
-    const view = new DataView(buffer);
-
-    // Verify RIFF header
-    const riff = String.fromCharCode(
-      view.getUint8(0),
-      view.getUint8(1),
-      view.getUint8(2),
-      view.getUint8(3)
-    );
-    if (riff !== 'RIFF') {
-      logger.warn('Not a valid WAV file, using defaults');
+    try {
+      // Shared parser handles RF64, WAVE_FORMAT_EXTENSIBLE and metadata chunks
+      const { sampleRate, channels, bitsPerSample, dataSize } = audioChunker.getWavInfo(buffer);
+      const bytesPerSecond = sampleRate * channels * (bitsPerSample / 8);
+      const duration = bytesPerSecond > 0 ? dataSize / bytesPerSecond : 0;
+
+      return { sampleRate, channels, bitsPerSample, duration };
+    } catch (error) {
+      logger.warn('Not a valid WAV file, using defaults', error);
       return {
         sampleRate: AUDIO_CONFIG.DEFAULT_SAMPLE_RATE,
         channels: AUDIO_CONFIG.DEFAULT_CHANNELS,
@@ -284,42 +376,6 @@ export class AudioExtractor {
         duration: 0,
       };
     }
-
-    let offset = 12;
-    let sampleRate: number = AUDIO_CONFIG.DEFAULT_SAMPLE_RATE;
-    let channels: number = AUDIO_CONFIG.DEFAULT_CHANNELS;
-    let bitsPerSample: number = AUDIO_CONFIG.DEFAULT_BITS_PER_SAMPLE;
-    let dataSize = 0;
-
-    // Find fmt and data chunks
-    while (offset < buffer.byteLength - 8) {
-      const chunkId = String.fromCharCode(
-        view.getUint8(offset),
-        view.getUint8(offset + 1),
-        view.getUint8(offset + 2),
-        view.getUint8(offset + 3)
-      );
-      const chunkSize = view.getUint32(offset + 4, true);
-
-      if (chunkId === 'fmt ') {
-        channels = view.getUint16(offset + 10, true);
-        sampleRate = view.getUint32(offset + 12, true);
-        bitsPerSample = view.getUint16(offset + 22, true);
-      } else if (chunkId === 'data') {
-        dataSize = chunkSize;
-        break;
-      }
-
-      offset += 8 + chunkSize;
-      if (chunkSize % 2 !== 0) offset++;
-    }
-
-    // Calculate duration from data size
-    const bytesPerSample = bitsPerSample / 8;
-    const bytesPerSecond = sampleRate * channels * bytesPerSample;
-    const duration = bytesPerSecond > 0 ? dataSize / bytesPerSecond : 0;
-
-    return { sampleRate, channels, bitsPerSample, duration };
   }
 
   /**
@@ -352,54 +408,12 @@ export class AudioExtractor {
    */
   private async extractFromSourceFiles(activeSequence: any): Promise<AudioExtractionResult | null> {
     try {
-      const audioTracks = activeSequence.audioTracks;
-      const sourceFiles: SourceFileInfo[] = [];
-
-      // Collect all audio clips and their source files
-      for (let i = 0; i < audioTracks.numTracks; i++) {
-        const track = audioTracks[i];
-        if (track.isMuted && track.isMuted()) continue;
-
-        for (let j = 0; j < track.clips.numItems; j++) {
-          const clip = track.clips[j];
-          const projectItem = clip.projectItem;
-
-          // Get the media file path
-          let mediaPath = '';
-          if (projectItem && typeof projectItem.getMediaPath === 'function') {
-            mediaPath = projectItem.getMediaPath();
-          } else if (projectItem && projectItem.treePath) {
-            mediaPath = projectItem.treePath;
-          }
-
-          if (mediaPath) {
-            sourceFiles.push({
-              path: mediaPath,
-              clipStart: clip.start.seconds,
-              clipEnd: clip.end.seconds,
-              mediaStart: clip.inPoint?.seconds ?? 0,
-              mediaEnd: clip.outPoint?.seconds ?? clip.end.seconds - clip.start.seconds,
-            });
-          }
-        }
-      }
-
+      const sourceFiles = this.collectSourceFiles(activeSequence);
       if (sourceFiles.length === 0) {
         logger.warn('No audio clips found on timeline');
         return null;
       }
 
-      // Sort by timeline position
-      sourceFiles.sort((a, b) => a.clipStart - b.clipStart);
-
-      // Warn about multi-clip limitation (#13)
-      if (sourceFiles.length > 1) {
-        logger.warn(
-          `Source file extraction found ${sourceFiles.length} audio clips, but only the first will be used. ` +
-            `For multi-clip sequences, use AME export for accurate results.`
-        );
-      }
-
       // Try to read the first source file
       const firstFile = sourceFiles[0];
       logger.info(`Attempting to read source audio from: ${firstFile.path}`);
@@ -434,6 +448,56 @@ export class AudioExtractor {
     }
   }
 
+  /**
+   * Source media of every audio clip on unmuted tracks, in timeline order.
+   */
+  private collectSourceFiles(activeSequence: any): SourceFileInfo[] {
+    const audioTracks = activeSequence.audioTracks;
+    const sourceFiles: SourceFileInfo[] = [];
+
+    // Collect all audio clips and their source files
+    for (let i = 0; i < audioTracks.numTracks; i++) {
+      const track = audioTracks[i];
+      if (track.isMuted && track.isMuted()) continue;
+
+      for (let j = 0; j < track.clips.numItems; j++) {
+        const clip = track.clips[j];
+        const projectItem = clip.projectItem;
+
+        // Get the media file path
+        let mediaPath = '';
+        if (projectItem && typeof projectItem.getMediaPath === 'function') {
+          mediaPath = projectItem.getMediaPath();
+        } else if (projectItem && projectItem.treePath) {
+          mediaPath = projectItem.treePath;
+        }
+
+        if (mediaPath) {
+          sourceFiles.push({
+            path: mediaPath,
+            clipStart: clip.start.seconds,
+            clipEnd: clip.end.seconds,
+            mediaStart: clip.inPoint?.seconds ?? 0,
+            mediaEnd: clip.outPoint?.seconds ?? clip.end.seconds - clip.start.seconds,
+          });
+        }
+      }
+    }
+
+    // Sort by timeline position
+    sourceFiles.sort((a, b) => a.clipStart - b.clipStart);
+
+    // Warn about multi-clip limitation (#13)
+    if (sourceFiles.length > 1) {
+      logger.warn(
+        `Source file extraction found ${sourceFiles.length} audio clips, but only the first will be used. ` +
+          `For multi-clip sequences, use AME export for accurate results.`
+      );
+    }
+
+    return sourceFiles;
+  }
+
   /**
    * Read an audio file using UXP file system APIs.
    */
@@ -0,0 +1,265 @@
+/**
+ * Audio Preprocessor
+ *
+ * Prepares extracted timeline audio for upload to transcription:
+ * - Downmixes all channels to mono
+ * - Resamples to AUDIO_CONFIG.UPLOAD_SAMPLE_RATE with a windowed-sinc
+ *   anti-alias filter (polyphase, Blackman window)
+ * - Writes a plain 16-bit PCM WAV
+ *
+ * Performance notes:
+ * - Works in blocks, so only the output buffer grows with the timeline length
+ * - Filter coefficients are precomputed per phase; rational ratios such as
+ *   48k -> 16k (3:1) or 44.1k -> 16k (441:160) are exact
+ */
+
+import { logger } from '../lib/logger';
+import { audioChunker, WavInfo } from './audio-chunker';
+import { AUDIO_CONFIG } from '../config/audio-config';
+import { readMonoFrames } from '../utils/audio-envelope';
+
+export interface UploadPreprocessOptions {
+  enabled?: boolean; // Defaults to AUDIO_CONFIG.UPLOAD_PREPROCESS_ENABLED
+  sampleRate?: number; // Target rate, defaults to AUDIO_CONFIG.UPLOAD_SAMPLE_RATE
+}
+
+/**
+ * Precomputed polyphase filter bank
+ */
+interface ResamplerKernel {
+  phases: number;
+  tapsPerPhase: number;
+  halfTaps: number;
+  coefficients: Float32Array; // phases * tapsPerPhase
+}
+
+/**
+ * Downmixes and resamples WAV audio to a compact mono upload format.
+ * Never upsamples: audio already at or below the target rate keeps its rate.
+ */
+export class AudioPreprocessor {
+  private readonly OUTPUT_BITS = 16;
+  private readonly CUTOFF = 0.9; // Fraction of the output Nyquist frequency kept
+  private readonly MAX_PHASES = 1024; // Irrational-looking ratios are quantized to this
+  private readonly BLOCK_OUTPUT_FRAMES = 16384;
+
+  /**
+   * Convert a WAV buffer to mono 16-bit PCM at the upload sample rate.
+   * Returns the input untouched if preprocessing is disabled or not needed.
+   *
+   * @param buffer - WAV audio (any format AudioChunker can parse)
+   * @param options - Overrides for the AUDIO_CONFIG defaults
+   * @returns WAV buffer ready for upload
+   * @throws SpliceError with a CHUNK_* code if the buffer is not a valid WAV file
+   */
+  prepareForUpload(buffer: ArrayBuffer, options: UploadPreprocessOptions = {}): ArrayBuffer {
+    const {
+      enabled = AUDIO_CONFIG.UPLOAD_PREPROCESS_ENABLED,
+      sampleRate = AUDIO_CONFIG.UPLOAD_SAMPLE_RATE,
+    } = options;
+
+    if (!enabled) {
+      return buffer;
+    }
+
+    const wavInfo = audioChunker.getWavInfo(buffer);
+    const targetRate = Math.min(sampleRate, wavInfo.sampleRate);
+
+    if (this.isUploadFormat(wavInfo, targetRate)) {
+      return buffer;
+    }
+
+    const output = this.downmixAndResample(buffer, wavInfo, targetRate);
+    logger.info(
+      `Preprocessed audio for upload: ${wavInfo.sampleRate} Hz ${wavInfo.channels}ch -> ` +
+        `${targetRate} Hz mono (${buffer.byteLength} -> ${output.byteLength} bytes)`
+    );
+    return output;
+  }
+
+  /**
+   * Bytes per second of audio in this format once prepareForUpload() has run,
+   * so chunks can be sized before any audio is converted.
+   *
+   * @param wavInfo - Header of the audio as extracted
+   * @param options - The same overrides passed to prepareForUpload()
+   */
+  getUploadBytesPerSecond(wavInfo: WavInfo, options: UploadPreprocessOptions = {}): number {
+    const {
+      enabled = AUDIO_CONFIG.UPLOAD_PREPROCESS_ENABLED,
+      sampleRate = AUDIO_CONFIG.UPLOAD_SAMPLE_RATE,
+    } = options;
+    const targetRate = Math.min(sampleRate, wavInfo.sampleRate);
+
+    if (!enabled || this.isUploadFormat(wavInfo, targetRate)) {
+      return wavInfo.sampleRate * wavInfo.channels * (wavInfo.bitsPerSample / 8);
+    }
+    return targetRate * (this.OUTPUT_BITS / 8);
+  }
+
+  private isUploadFormat(wavInfo: WavInfo, targetRate: number): boolean {
+    return (
+      wavInfo.channels === 1 &&
+      wavInfo.sampleRate === targetRate &&
+      wavInfo.bitsPerSample === this.OUTPUT_BITS &&
+      wavInfo.sampleFormat === 'pcm'
+    );
+  }
+
+  private downmixAndResample(
+    buffer: ArrayBuffer,
+    wavInfo: WavInfo,
+    targetRate: number
+  ): ArrayBuffer {
+    const blockAlign = (wavInfo.bitsPerSample / 8) * wavInfo.channels;
+    const totalFrames = Math.floor(wavInfo.dataSize / blockAlign);
+    const inputRate = wavInfo.sampleRate;
+
+    // Integer ratio: output frame n sits at input position n * M / L
+    const divisor = gcd(inputRate, targetRate);
+    const up = targetRate / divisor; // L
+    const down = inputRate / divisor; // M
+    const outputFrames = Math.floor((totalFrames * up) / down);
+
+    const output = this.createWavBuffer(outputFrames, targetRate);
+    const view = new DataView(output);
+    const kernel = up === down ? null : this.createKernel(up, down);
+
+    for (let first = 0; first < outputFrames; first += this.BLOCK_OUTPUT_FRAMES) {
+      const last = Math.min(first + this.BLOCK_OUTPUT_FRAMES, outputFrames) - 1;
+      const halfTaps = kernel?.halfTaps ?? 1;
+
+      // Input frames covering every tap of this block (zeros beyond the data),
+      // plus one frame for a quantized phase rounding up to the next index
+      const inputStart = Math.floor((first * down) / up) - halfTaps + 1;
+      const inputEnd = Math.floor((last * down) / up) + halfTaps + 2;
+      const input = readMonoFrames(buffer, wavInfo, inputStart, inputEnd - inputStart);
+
+      for (let n = first; n <= last; n++) {
+        const sample = kernel
+          ? this.interpolate(kernel, input, n, up, down, inputStart)
+          : input[n - inputStart];
+        const clamped = Math.max(-1, Math.min(1, sample));
+        view.setInt16(44 + n * 2, Math.round(clamped * 32767), true);
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Filter the input around output frame n using the nearest precomputed phase.
+   */
+  private interpolate(
+    kernel: ResamplerKernel,
+    input: Float32Array,
+    n: number,
+    up: number,
+    down: number,
+    inputStart: number
+  ): number {
+    const position = n * down;
+    let index = Math.floor(position / up);
+    let phase = position - index * up;
+    if (kernel.phases !== up) {
+      phase = Math.round((phase * kernel.phases) / up);
+      if (phase === kernel.phases) {
+        phase = 0;
+        index++;
+      }
+    }
+
+    const offset = phase * kernel.tapsPerPhase;
+    const base = index - kernel.halfTaps + 1 - inputStart;
+    let sum = 0;
+    for (let j = 0; j < kernel.tapsPerPhase; j++) {
+      sum += kernel.coefficients[offset + j] * input[base + j];
+    }
+    return sum;
+  }
+
+  /**
+   * Build the Blackman-windowed sinc filter bank for an L/M rate change.
+   * Each phase is normalized to unity DC gain.
+   */
+  private createKernel(up: number, down: number): ResamplerKernel {
+    // Cutoff relative to the input rate (1 = input Nyquist)
+    const cutoff = this.CUTOFF * Math.min(1, up / down);
+    const halfTaps = Math.ceil(AUDIO_CONFIG.UPLOAD_RESAMPLER_ZERO_CROSSINGS / cutoff);
+    const tapsPerPhase = halfTaps * 2;
+    const phases = Math.min(up, this.MAX_PHASES);
+    const coefficients = new Float32Array(phases * tapsPerPhase);
+
+    for (let p = 0; p < phases; p++) {
+      const fraction = p / phases;
+      let sum = 0;
+      for (let j = 0; j < tapsPerPhase; j++) {
+        // Distance from the output position to input tap j
+        const distance = fraction + halfTaps - 1 - j;
+        const value = cutoff * sinc(cutoff * distance) * blackman(distance / halfTaps);
+        coefficients[p * tapsPerPhase + j] = value;
+        sum += value;
+      }
+      for (let j = 0; j < tapsPerPhase; j++) {
+        coefficients[p * tapsPerPhase + j] /= sum;
+      }
+    }
+
+    return { phases, tapsPerPhase, halfTaps, coefficients };
+  }
+
+  /**
+   * Allocate a mono 16-bit WAV with its header written
+   */
+  private createWavBuffer(frames: number, sampleRate: number): ArrayBuffer {
+    const dataSize = frames * 2;
+    const buffer = new ArrayBuffer(44 + dataSize);
+    const view = new DataView(buffer);
+
+    writeString(view, 0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeString(view, 8, 'WAVE');
+    writeString(view, 12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // Mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true); // Byte rate
+    view.setUint16(32, 2, true); // Block align
+    view.setUint16(34, this.OUTPUT_BITS, true);
+    writeString(view, 36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    return buffer;
+  }
+}
+
+function gcd(a: number, b: number): number {
+  while (b !== 0) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
+
+function sinc(x: number): number {
+  if (x === 0) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+}
+
+/**
+ * Blackman window over -1..1 (zero outside)
+ */
+function blackman(x: number): number {
+  if (Math.abs(x) >= 1) return 0;
+  return 0.42 + 0.5 * Math.cos(Math.PI * x) + 0.08 * Math.cos(2 * Math.PI * x);
+}
+
+function writeString(view: DataView, offset: number, str: string): void {
+  for (let i = 0; i < str.length; i++) {
+    view.setUint8(offset + i, str.charCodeAt(i));
+  }
+}
+
+// Singleton instance
+export const audioPreprocessor = new AudioPreprocessor();
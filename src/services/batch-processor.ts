@@ -1,6 +1,7 @@
 import { logger } from '../lib/logger';
 import { PremiereAPI } from '../api/premiere';
 import { SpliceError, SpliceErrorCode } from '../lib/errors';
+import { cutPlanner } from './cut-planner';
 
 /**
  * Service for batch processing multiple sequences in a project.
@@ -183,6 +184,7 @@ export class BatchProcessor {
     const detectionResult = await this.premiereAPI.autoCutSilence(threshold, {
       useVoiceIsolation,
       useAIAnalysis: true,
+      breathPolicy: options.preset?.breathPolicy,
     });
 
     job.progress = 60;
@@ -200,7 +202,21 @@ export class BatchProcessor {
       job.progress = 65;
       this.reportProgress(job, options);
 
-      const applyResult = await this.premiereAPI.applySilenceCuts();
+      const applyResult = await this.premiereAPI.applySilenceCuts(
+        undefined,
+        {
+          ...(options.preset ? cutPlanner.handlesFromPreset(options.preset) : {}),
+          mode: options.cutMode ?? 'remove',
+          tightenTarget: options.tightenTarget,
+          tightenAnchor: options.tightenAnchor,
+        },
+        {
+          nonDestructive: options.nonDestructive,
+          copyNameTemplate: options.copyNameTemplate,
+          tracks: options.tracks ?? options.preset?.trackTargeting,
+        }
+      );
+      job.sequenceCopy = applyResult.sequenceCopy;
 
       if (applyResult.errors.length > 0) {
         logger.warn(`Some cuts failed: ${applyResult.errors.length} errors`, applyResult.errors);
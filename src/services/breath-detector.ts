@@ -0,0 +1,323 @@
+import { logger } from '../lib/logger';
+import { audioChunker, WavInfo } from './audio-chunker';
+import { AUDIO_CONFIG } from '../config/audio-config';
+import { meanSquareToDb, readMonoFrames } from '../utils/audio-envelope';
+import { powerSpectrum, spectralCentroid, spectralFlatness } from '../utils/spectrum';
+import type { SilentSection } from './silence-detector';
+import type { WavStreamReader } from './wav-stream-reader';
+
+/**
+ * A detected breath.
+ */
+export interface BreathRegion {
+  start: number; // Seconds
+  end: number; // Seconds
+  duration: number;
+  confidence: number; // 0-1
+  levelDb: number; // Mean RMS level of the breath
+}
+
+export interface BreathDetectionOptions {
+  minDb?: number; // Quieter windows are silence, not breath
+  maxDb?: number; // Louder windows are speech
+  minDuration?: number;
+  maxDuration?: number;
+}
+
+type BreathWindow = { start: number; isBreath: boolean; flatness: number; levelDb: number };
+
+/**
+ * Detects breaths between words.
+ *
+ * Breaths are quieter than speech, louder than room tone, and noise-like:
+ * their spectrum is flat with most energy in the upper frequencies, unlike
+ * voiced speech. Each ~20ms window inside a word gap is classified from its
+ * level, spectral flatness and spectral centroid; runs of breath windows of a
+ * plausible length become BreathRegions.
+ *
+ * Without a transcript the whole file is scanned (energy/spectral features only).
+ */
+export class BreathDetector {
+  private readonly DEFAULT_MIN_DB = -60;
+  private readonly DEFAULT_MAX_DB = -20;
+  private readonly DEFAULT_MIN_DURATION = 0.1;
+  private readonly DEFAULT_MAX_DURATION = 1.0;
+  private readonly FRAME_SECONDS = 0.02;
+  private readonly HOP_SECONDS = 0.01;
+  private readonly MIN_FLATNESS = 0.25; // Voiced speech and tones sit well below this
+  private readonly MIN_CENTROID_HZ = 1000;
+  private readonly BRIDGE_WINDOWS = 2; // Non-breath windows tolerated inside a breath
+
+  /**
+   * Find breaths in a WAV buffer.
+   *
+   * @param audioBuffer - WAV audio (original, not voice-isolated)
+   * @param words - Word timestamps from transcribeWithTimestamps; only the gaps are scanned
+   * @throws SpliceError if the buffer is not a valid WAV file
+   */
+  detect(
+    audioBuffer: ArrayBuffer,
+    words: WhisperWord[] = [],
+    options: BreathDetectionOptions = {}
+  ): BreathRegion[] {
+    const wavInfo = audioChunker.getWavInfo(audioBuffer);
+    const blockAlign = (wavInfo.bitsPerSample / 8) * wavInfo.channels;
+    const dataEnd = Math.min(wavInfo.dataOffset + wavInfo.dataSize, audioBuffer.byteLength);
+    const duration = Math.max(0, (dataEnd - wavInfo.dataOffset) / blockAlign) / wavInfo.sampleRate;
+
+    const settings = this.getSettings(options);
+    const ranges = this.getCandidateRanges(words, duration, settings.minDuration);
+    const breaths: BreathRegion[] = [];
+
+    for (const range of ranges) {
+      const windows: BreathWindow[] = [];
+      for (const block of this.getBlocks(range, wavInfo.sampleRate, blockAlign)) {
+        const samples = readMonoFrames(audioBuffer, wavInfo, block.startFrame, block.frameCount);
+        windows.push(...this.classifyWindows(samples, block.startFrame, wavInfo, settings));
+      }
+      breaths.push(
+        ...this.groupWindows(windows, range.end, settings.minDuration, settings.maxDuration)
+      );
+    }
+
+    logger.info(`Detected ${breaths.length} breaths in ${ranges.length} candidate ranges`);
+    return breaths;
+  }
+
+  /**
+   * Find breaths in a WAV file streamed from disk; gives the same result as
+   * detect() while reading only a bounded block of each word gap at a time.
+   *
+   * @param reader - Reader over the file (e.g. from AudioExtractor.openTimelineStream)
+   * @param words - Word timestamps from transcribeWithTimestamps; only the gaps are scanned
+   */
+  async detectStream(
+    reader: WavStreamReader,
+    words: WhisperWord[] = [],
+    options: BreathDetectionOptions = {}
+  ): Promise<BreathRegion[]> {
+    const { info } = reader;
+    const settings = this.getSettings(options);
+    const ranges = this.getCandidateRanges(words, reader.duration, settings.minDuration);
+    const breaths: BreathRegion[] = [];
+
+    for (const range of ranges) {
+      const windows: BreathWindow[] = [];
+      for (const block of this.getBlocks(range, info.sampleRate, reader.blockAlign)) {
+        const data = await reader.readBytes(
+          info.dataOffset + block.startFrame * reader.blockAlign,
+          block.frameCount * reader.blockAlign
+        );
+        const blockInfo = { ...info, dataOffset: 0, dataSize: data.byteLength };
+        const samples = readMonoFrames(data, blockInfo, 0, block.frameCount);
+        windows.push(...this.classifyWindows(samples, block.startFrame, info, settings));
+      }
+      breaths.push(
+        ...this.groupWindows(windows, range.end, settings.minDuration, settings.maxDuration)
+      );
+    }
+
+    logger.info(`Detected ${breaths.length} breaths in ${ranges.length} candidate ranges`);
+    return breaths;
+  }
+
+  /**
+   * Combine silent sections with breaths according to the policy.
+   * Unless the policy is 'keep', breaths are carved out of any silent section
+   * that overlaps them; with 'cut' they are then added back as cuts of their own.
+   */
+  applyPolicy(
+    sections: SilentSection[],
+    breaths: BreathRegion[],
+    policy: BreathPolicy
+  ): SilentSection[] {
+    if (policy === 'keep') return sections;
+
+    // Carve first so 'cut' never counts a breath inside a silence twice
+    let result = sections;
+    for (const breath of breaths) {
+      result = result.flatMap((section) => this.subtract(section, breath));
+    }
+
+    if (policy === 'cut') {
+      const breathCuts: SilentSection[] = breaths.map((b) => ({
+        start: b.start,
+        end: b.end,
+        duration: b.duration,
+        isNatural: false,
+        confidence: b.confidence,
+      }));
+      return [...result, ...breathCuts].sort((a, b) => a.start - b.start);
+    }
+
+    return result;
+  }
+
+  /**
+   * Word gaps (plus lead-in and tail) long enough to hold a breath
+   */
+  private getCandidateRanges(
+    words: WhisperWord[],
+    duration: number,
+    minDuration: number
+  ): Array<{ start: number; end: number }> {
+    if (words.length === 0) {
+      return [{ start: 0, end: duration }];
+    }
+
+    const ranges: Array<{ start: number; end: number }> = [];
+    const bounds = [0, ...words.flatMap((w) => [w.start, w.end]), duration];
+    for (let i = 0; i < bounds.length; i += 2) {
+      const start = bounds[i];
+      const end = Math.min(bounds[i + 1], duration);
+      if (end - start >= minDuration) {
+        ranges.push({ start, end });
+      }
+    }
+    return ranges;
+  }
+
+  private getSettings(options: BreathDetectionOptions): Required<BreathDetectionOptions> {
+    return {
+      minDb: options.minDb ?? this.DEFAULT_MIN_DB,
+      maxDb: options.maxDb ?? this.DEFAULT_MAX_DB,
+      minDuration: options.minDuration ?? this.DEFAULT_MIN_DURATION,
+      maxDuration: options.maxDuration ?? this.DEFAULT_MAX_DURATION,
+    };
+  }
+
+  /**
+   * Split a range into blocks of whole analysis windows (about
+   * AUDIO_CONFIG.STREAM_WINDOW_BYTES each), every block holding the full
+   * frames of the windows that start in it
+   */
+  private getBlocks(
+    range: { start: number; end: number },
+    sampleRate: number,
+    blockAlign: number
+  ): Array<{ startFrame: number; frameCount: number }> {
+    const frameSize = Math.round(this.FRAME_SECONDS * sampleRate);
+    const hopSize = Math.round(this.HOP_SECONDS * sampleRate);
+    const firstFrame = Math.round(range.start * sampleRate);
+    const lastFrame = Math.round(range.end * sampleRate);
+    const hopsPerBlock = Math.max(
+      1,
+      Math.floor(AUDIO_CONFIG.STREAM_WINDOW_BYTES / (hopSize * blockAlign))
+    );
+    const blocks: Array<{ startFrame: number; frameCount: number }> = [];
+
+    for (let start = firstFrame; start + frameSize <= lastFrame; start += hopsPerBlock * hopSize) {
+      const end = Math.min(lastFrame, start + (hopsPerBlock - 1) * hopSize + frameSize);
+      blocks.push({ startFrame: start, frameCount: end - start });
+    }
+    return blocks;
+  }
+
+  /**
+   * Classify each analysis window starting in a block of mono samples as breath-like or not
+   */
+  private classifyWindows(
+    samples: Float32Array,
+    startFrame: number,
+    wavInfo: WavInfo,
+    settings: Required<BreathDetectionOptions>
+  ): BreathWindow[] {
+    const { sampleRate } = wavInfo;
+    const frameSize = Math.round(this.FRAME_SECONDS * sampleRate);
+    const hopSize = Math.round(this.HOP_SECONDS * sampleRate);
+    const windows: BreathWindow[] = [];
+
+    for (let offset = 0; offset + frameSize <= samples.length; offset += hopSize) {
+      const frame = samples.subarray(offset, offset + frameSize);
+
+      let sumSquares = 0;
+      for (const sample of frame) sumSquares += sample * sample;
+      const levelDb = meanSquareToDb(sumSquares / frameSize);
+
+      let isBreath = false;
+      let flatness = 0;
+      if (levelDb >= settings.minDb && levelDb <= settings.maxDb) {
+        const power = powerSpectrum(frame);
+        flatness = spectralFlatness(power);
+        isBreath =
+          flatness >= this.MIN_FLATNESS &&
+          spectralCentroid(power, sampleRate) >= this.MIN_CENTROID_HZ;
+      }
+
+      windows.push({ start: (startFrame + offset) / sampleRate, isBreath, flatness, levelDb });
+    }
+
+    return windows;
+  }
+
+  /**
+   * Group runs of breath windows into regions of plausible breath length
+   */
+  private groupWindows(
+    windows: BreathWindow[],
+    rangeEnd: number,
+    minDuration: number,
+    maxDuration: number
+  ): BreathRegion[] {
+    const regions: BreathRegion[] = [];
+    let runStart = -1;
+    let runEnd = -1;
+    let gap = 0;
+
+    const flush = () => {
+      if (runStart === -1) return;
+      const run = windows.slice(runStart, runEnd + 1).filter((w) => w.isBreath);
+      const start = windows[runStart].start;
+      const end = Math.min(windows[runEnd].start + this.FRAME_SECONDS, rangeEnd);
+      const duration = end - start;
+
+      if (duration >= minDuration && duration <= maxDuration) {
+        const meanFlatness = run.reduce((sum, w) => sum + w.flatness, 0) / run.length;
+        const meanPower =
+          run.reduce((sum, w) => sum + Math.pow(10, w.levelDb / 10), 0) / run.length;
+        regions.push({
+          start,
+          end,
+          duration,
+          confidence: Math.min(0.95, 0.5 + meanFlatness * 0.8),
+          levelDb: meanSquareToDb(meanPower),
+        });
+      }
+      runStart = -1;
+    };
+
+    for (let i = 0; i < windows.length; i++) {
+      if (windows[i].isBreath) {
+        if (runStart === -1) runStart = i;
+        runEnd = i;
+        gap = 0;
+      } else if (runStart !== -1 && ++gap > this.BRIDGE_WINDOWS) {
+        flush();
+      }
+    }
+    flush();
+
+    return regions;
+  }
+
+  /**
+   * Remove a breath from a silent section, returning the remaining pieces
+   */
+  private subtract(section: SilentSection, breath: BreathRegion): SilentSection[] {
+    if (breath.end <= section.start || breath.start >= section.end) {
+      return [section];
+    }
+
+    const pieces: SilentSection[] = [];
+    if (breath.start > section.start) {
+      pieces.push({ ...section, end: breath.start, duration: breath.start - section.start });
+    }
+    if (breath.end < section.end) {
+      pieces.push({ ...section, start: breath.end, duration: section.end - breath.end });
+    }
+    return pieces;
+  }
+}
+
+// Singleton instance
+export const breathDetector = new BreathDetector();
@@ -0,0 +1,337 @@
+import { logger } from '../lib/logger';
+import { SpliceError, SpliceErrorCode } from '../lib/errors';
+import {
+  FrameRate,
+  frameRateToFps,
+  framesToTimecode,
+  isDropFrameRate,
+  secondsToFrames,
+} from '../utils/timecode';
+import type { SilentSection } from './silence-detector';
+
+declare const require: (module: string) => any;
+
+/** Interchange formats a cut list can be written in */
+export type CutListFormat = 'edl' | 'fcpxml' | 'otio';
+
+/** A kept part of the sequence, in frames at the sequence rate (end exclusive) */
+export interface KeepRange {
+  startFrame: number;
+  endFrame: number;
+}
+
+/** Sequence metadata the exported timelines are built against */
+export interface CutListSequenceInfo {
+  name: string;
+  frameRate: FrameRate;
+  durationFrames: number;
+  width: number;
+  height: number;
+  /** Media the exported clips point at (e.g. a render of the sequence); omitted clips are offline */
+  mediaPath?: string;
+  /** Write drop-frame timecode; only honored at 29.97 and 59.94 fps */
+  dropFrame?: boolean;
+  /** Starting timecode of the sequence as a frame count (01:00:00:00 is common); 0 if omitted */
+  startFrame?: number;
+}
+
+export interface CutListExportResult {
+  format: CutListFormat;
+  fileName: string;
+  events: number;
+}
+
+const FILE_EXTENSIONS: Record<CutListFormat, string> = {
+  edl: 'edl',
+  fcpxml: 'fcpxml',
+  otio: 'otio',
+};
+
+/**
+ * Writes proposed cuts as timelines other applications can import:
+ * CMX3600 EDL, FCPXML and OpenTimelineIO JSON.
+ *
+ * Each format describes the kept parts of the sequence as consecutive clips
+ * from a single source (the sequence itself), so importing one reproduces
+ * the edit without touching the Premiere timeline. All times are whole
+ * frames at the sequence timebase.
+ */
+export class CutListExporter {
+  /** EDL reel name of the sequence source */
+  private readonly REEL = 'AX';
+
+  /**
+   * Kept ranges left after removing the given sections from the sequence.
+   * Cut boundaries are rounded to the nearest frame.
+   */
+  keepRangesFromSections(
+    sections: SilentSection[],
+    durationFrames: number,
+    rate: FrameRate
+  ): KeepRange[] {
+    const cuts = sections
+      .map((s) => ({
+        startFrame: Math.max(0, secondsToFrames(s.start, rate)),
+        endFrame: Math.min(durationFrames, secondsToFrames(s.end, rate)),
+      }))
+      .filter((c) => c.endFrame > c.startFrame)
+      .sort((a, b) => a.startFrame - b.startFrame);
+
+    const ranges: KeepRange[] = [];
+    let position = 0;
+    for (const cut of cuts) {
+      if (cut.startFrame > position) {
+        ranges.push({ startFrame: position, endFrame: cut.startFrame });
+      }
+      position = Math.max(position, cut.endFrame);
+    }
+    if (position < durationFrames) {
+      ranges.push({ startFrame: position, endFrame: durationFrames });
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Kept ranges for the given takes in timeline order; overlapping or
+   * touching takes become one range.
+   */
+  keepRangesFromTakes(takes: NormalizedTake[], rate: FrameRate): KeepRange[] {
+    const ranges = takes
+      .map((t) => ({
+        startFrame: Math.max(0, secondsToFrames(t.start, rate)),
+        endFrame: secondsToFrames(t.end, rate),
+      }))
+      .filter((r) => r.endFrame > r.startFrame)
+      .sort((a, b) => a.startFrame - b.startFrame);
+
+    const merged: KeepRange[] = [];
+    for (const range of ranges) {
+      const last = merged[merged.length - 1];
+      if (last && range.startFrame <= last.endFrame) {
+        last.endFrame = Math.max(last.endFrame, range.endFrame);
+      } else {
+        merged.push({ ...range });
+      }
+    }
+
+    return merged;
+  }
+
+  /**
+   * Serialize kept ranges in the given format
+   */
+  format(format: CutListFormat, ranges: KeepRange[], info: CutListSequenceInfo): string {
+    switch (format) {
+      case 'edl':
+        return this.toEdl(ranges, info);
+      case 'fcpxml':
+        return this.toFcpxml(ranges, info);
+      case 'otio':
+        return this.toOtio(ranges, info);
+    }
+  }
+
+  /**
+   * CMX3600 EDL with one cut event per kept range.
+   * Timecode is counted at the nominal rate, drop-frame if the sequence uses it.
+   * Source timecode is the sequence's own, from its starting timecode.
+   */
+  toEdl(ranges: KeepRange[], info: CutListSequenceInfo): string {
+    const rate = info.frameRate;
+    const dropFrame = this.isDropFrame(info);
+    const tc = (frames: number) => framesToTimecode(frames, rate, dropFrame);
+    const source = (frames: number) => tc(frames + (info.startFrame ?? 0));
+    const lines = [`TITLE: ${info.name}`, `FCM: ${dropFrame ? 'DROP' : 'NON-DROP'} FRAME`, ''];
+
+    let record = 0;
+    ranges.forEach((range, i) => {
+      const length = range.endFrame - range.startFrame;
+      const event = String(i + 1).padStart(3, '0');
+      lines.push(
+        `${event}  ${this.REEL.padEnd(8)} ${'AA/V'.padEnd(5)} ${'C'.padEnd(8)} ` +
+          `${source(range.startFrame)} ${source(range.endFrame)} ${tc(record)} ${tc(record + length)}`,
+        `* FROM CLIP NAME: ${info.name}`,
+        ''
+      );
+      record += length;
+    });
+
+    return lines.join('\n');
+  }
+
+  /**
+   * FCPXML 1.9 project whose spine holds one asset-clip per kept range
+   */
+  toFcpxml(ranges: KeepRange[], info: CutListSequenceInfo): string {
+    const rate = info.frameRate;
+    const time = (frames: number) => this.toRationalTime(frames, rate);
+    const name = this.escapeXml(info.name);
+    const src = info.mediaPath
+      ? this.toFileUrl(info.mediaPath)
+      : `${encodeURIComponent(info.name)}.mov`;
+    const total = ranges.reduce((sum, r) => sum + r.endFrame - r.startFrame, 0);
+    const tcFormat = this.isDropFrame(info) ? 'DF' : 'NDF';
+
+    let offset = 0;
+    const clips = ranges.map((range) => {
+      const length = range.endFrame - range.startFrame;
+      const clip =
+        `          <asset-clip ref="r2" name="${name}" offset="${time(offset)}" ` +
+        `start="${time(range.startFrame)}" duration="${time(length)}" tcFormat="${tcFormat}"/>`;
+      offset += length;
+      return clip;
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<!DOCTYPE fcpxml>',
+      '<fcpxml version="1.9">',
+      '  <resources>',
+      `    <format id="r1" frameDuration="${time(1)}" width="${info.width}" height="${info.height}"/>`,
+      `    <asset id="r2" name="${name}" start="0s" duration="${time(info.durationFrames)}" hasVideo="1" hasAudio="1" format="r1">`,
+      `      <media-rep kind="original-media" src="${this.escapeXml(src)}"/>`,
+      '    </asset>',
+      '  </resources>',
+      '  <library>',
+      '    <event name="Splice">',
+      `      <project name="${name}">`,
+      `        <sequence format="r1" duration="${time(total)}" tcStart="0s" tcFormat="${tcFormat}">`,
+      '          <spine>',
+      ...clips,
+      '          </spine>',
+      '        </sequence>',
+      '      </project>',
+      '    </event>',
+      '  </library>',
+      '</fcpxml>',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * OpenTimelineIO JSON with matching video and audio tracks
+   */
+  toOtio(ranges: KeepRange[], info: CutListSequenceInfo): string {
+    const rate = frameRateToFps(info.frameRate);
+    const time = (value: number) => ({ OTIO_SCHEMA: 'RationalTime.1', rate, value });
+    const timeRange = (start: number, duration: number) => ({
+      OTIO_SCHEMA: 'TimeRange.1',
+      start_time: time(start),
+      duration: time(duration),
+    });
+    const mediaReference = info.mediaPath
+      ? {
+          OTIO_SCHEMA: 'ExternalReference.1',
+          name: info.name,
+          target_url: this.toFileUrl(info.mediaPath),
+          available_range: timeRange(0, info.durationFrames),
+          metadata: {},
+        }
+      : { OTIO_SCHEMA: 'MissingReference.1', name: info.name, metadata: {} };
+
+    const track = (kind: 'Video' | 'Audio') => ({
+      OTIO_SCHEMA: 'Track.1',
+      name: kind === 'Video' ? 'V1' : 'A1',
+      kind,
+      source_range: null,
+      effects: [],
+      markers: [],
+      metadata: {},
+      children: ranges.map((range) => ({
+        OTIO_SCHEMA: 'Clip.1',
+        name: info.name,
+        source_range: timeRange(range.startFrame, range.endFrame - range.startFrame),
+        media_reference: mediaReference,
+        effects: [],
+        markers: [],
+        metadata: {},
+      })),
+    });
+
+    const timeline = {
+      OTIO_SCHEMA: 'Timeline.1',
+      name: info.name,
+      global_start_time: null,
+      metadata: {},
+      tracks: {
+        OTIO_SCHEMA: 'Stack.1',
+        name: 'tracks',
+        source_range: null,
+        effects: [],
+        markers: [],
+        metadata: {},
+        children: [track('Video'), track('Audio')],
+      },
+    };
+
+    return JSON.stringify(timeline, null, 2);
+  }
+
+  /**
+   * Ask the user where to save a cut list and write it there.
+   * Returns the saved file name, or null if the picker was cancelled
+   * or UXP is not available (development mode).
+   */
+  async save(
+    content: string,
+    suggestedName: string,
+    format: CutListFormat
+  ): Promise<string | null> {
+    const extension = FILE_EXTENSIONS[format];
+
+    let fs: any;
+    try {
+      fs = require('uxp').storage.localFileSystem;
+    } catch {
+      logger.info(`UXP not available - cut list not saved (${content.length} characters)`);
+      return null;
+    }
+
+    try {
+      const file = await fs.getFileForSaving(`${suggestedName}.${extension}`, {
+        types: [extension],
+      });
+      if (!file) return null;
+
+      await file.write(content);
+      logger.info(`Saved cut list to ${file.name}`);
+      return file.name;
+    } catch (error) {
+      throw new SpliceError(
+        SpliceErrorCode.CUT_LIST_SAVE_FAILED,
+        `Failed to save ${extension} cut list: ${error}`,
+        { format },
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * FCPXML rational time, e.g. 1001/30000s for one frame at 29.97 fps
+   */
+  private toRationalTime(frames: number, rate: FrameRate): string {
+    if (frames === 0) return '0s';
+    return `${frames * rate.denominator}/${rate.numerator}s`;
+  }
+
+  private isDropFrame(info: CutListSequenceInfo): boolean {
+    return info.dropFrame === true && isDropFrameRate(info.frameRate);
+  }
+
+  private toFileUrl(path: string): string {
+    const normalized = path.replace(/\\/g, '/');
+    return `file://${normalized.startsWith('/') ? '' : '/'}${encodeURI(normalized)}`;
+  }
+
+  private escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
+
+// Singleton instance
+export const cutListExporter = new CutListExporter();
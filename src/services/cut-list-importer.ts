@@ -0,0 +1,382 @@
+import { logger } from '../lib/logger';
+import { SpliceError, SpliceErrorCode } from '../lib/errors';
+import {
+  FrameRate,
+  framesToSeconds,
+  isDropFrameRate,
+  secondsToFrames,
+  timecodeToFrames,
+} from '../utils/timecode';
+import type { CutListSequenceInfo } from './cut-list-exporter';
+
+declare const require: (module: string) => any;
+
+/** Cut list file formats that can be imported */
+export type CutListImportFormat = 'edl' | 'csv';
+
+/** Remove the range, or keep it (everything outside kept ranges is removed) */
+export type CutListAction = 'cut' | 'keep';
+
+/** One row of an imported cut list, times in sequence seconds */
+export interface CutListEntry {
+  start: number;
+  end: number;
+  action: CutListAction;
+  label: string;
+  line: number; // 1-based line in the source file
+}
+
+export interface CutListIssue {
+  line: number; // 1-based line in the source file
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/** A range to ripple delete, snapped to the sequence's frames */
+export interface ImportedCut {
+  start: number;
+  end: number;
+  duration: number;
+  label: string;
+}
+
+/** A parsed and validated cut list, ready for review */
+export interface ImportedCutList {
+  fileName: string;
+  format: CutListImportFormat;
+  entries: CutListEntry[];
+  cuts: ImportedCut[];
+  issues: CutListIssue[];
+  timeRemoved: number;
+}
+
+const CUT_ACTIONS = ['cut', 'delete', 'remove'];
+const CSV_COLUMNS = ['start', 'end', 'action', 'label'] as const;
+
+/**
+ * Reads cut lists made outside Splice (CMX3600 EDLs from other editors,
+ * CSV exported from a spreadsheet) and turns them into ranges to remove
+ * from the active sequence.
+ *
+ * CSV rows are `start,end,action,label`, with an optional header row naming
+ * the columns in any order. Times are seconds, MM:SS(.ms), HH:MM:SS(.ms) or
+ * HH:MM:SS:FF timecode. Actions are cut (also delete/remove) or keep.
+ *
+ * EDL events are the parts to keep: their source in/out points are the
+ * sequence's timecode, counted from its starting timecode (often 01:00:00:00)
+ * as CutListExporter writes them. An FCM: DROP FRAME header makes timecode
+ * written with ':' separators count as drop-frame.
+ */
+export class CutListImporter {
+  /**
+   * Ask the user for a cut list file and read it.
+   * Returns null if the picker was cancelled or UXP is not available.
+   */
+  async open(): Promise<{ fileName: string; text: string } | null> {
+    let fs: any;
+    try {
+      fs = require('uxp').storage.localFileSystem;
+    } catch {
+      logger.info('UXP not available - cannot open cut list');
+      return null;
+    }
+
+    try {
+      const file = await fs.getFileForOpening({ types: ['edl', 'csv'] });
+      if (!file) return null;
+
+      const text = await file.read();
+      return { fileName: file.name, text: String(text) };
+    } catch (error) {
+      throw new SpliceError(
+        SpliceErrorCode.CUT_LIST_INVALID,
+        `Failed to read cut list: ${error}`,
+        undefined,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Parse and validate a cut list against the sequence it will be applied to
+   */
+  load(text: string, fileName: string, info: CutListSequenceInfo): ImportedCutList {
+    const format = this.detectFormat(text, fileName);
+    const parsed =
+      format === 'edl'
+        ? this.parseEdl(text, info.frameRate, info.startFrame)
+        : this.parseCsv(text, info.frameRate);
+
+    if (parsed.entries.length === 0) {
+      throw new SpliceError(
+        SpliceErrorCode.CUT_LIST_INVALID,
+        `No ${format} entries found in ${fileName}`,
+        { issues: parsed.issues.length }
+      );
+    }
+
+    const validated = this.validate(parsed.entries, info);
+    const issues = [...parsed.issues, ...validated.issues].sort((a, b) => a.line - b.line);
+
+    return {
+      fileName,
+      format,
+      entries: parsed.entries,
+      cuts: validated.cuts,
+      issues,
+      timeRemoved: validated.cuts.reduce((sum, c) => sum + c.duration, 0),
+    };
+  }
+
+  detectFormat(text: string, fileName: string): CutListImportFormat {
+    const extension = fileName.split('.').pop()?.toLowerCase();
+    if (extension === 'edl' || extension === 'csv') return extension;
+    return /^\s*(TITLE:|FCM:)/m.test(text) ? 'edl' : 'csv';
+  }
+
+  /**
+   * CMX3600 events become keep entries; "* FROM CLIP NAME:" comments label them
+   * @param startFrame - Starting timecode of the sequence as a frame count
+   */
+  parseEdl(
+    text: string,
+    rate: FrameRate,
+    startFrame: number = 0
+  ): { entries: CutListEntry[]; issues: CutListIssue[] } {
+    const entries: CutListEntry[] = [];
+    const issues: CutListIssue[] = [];
+    let dropFrame = false;
+
+    // Under FCM: DROP FRAME, timecode is drop-frame whichever separator it uses
+    const toFrames = (timecode: string) =>
+      timecodeToFrames(
+        dropFrame && isDropFrameRate(rate) ? timecode.replace(/:(\d{2})$/, ';$1') : timecode,
+        rate
+      );
+
+    text.split(/\r?\n/).forEach((raw, index) => {
+      const line = index + 1;
+      const trimmed = raw.trim();
+
+      const fcm = /^FCM:\s*(NON-DROP|DROP)\s+FRAME/i.exec(trimmed);
+      if (fcm) {
+        dropFrame = fcm[1].toUpperCase() === 'DROP';
+        return;
+      }
+
+      const clipName = /^\*\s*FROM CLIP NAME:\s*(.+)$/i.exec(trimmed);
+      if (clipName && entries.length > 0) {
+        entries[entries.length - 1].label = clipName[1].trim();
+        return;
+      }
+      if (!/^\d+\s/.test(trimmed)) return;
+
+      // Event number, reel, track, transition [duration], then src in/out and rec in/out
+      const fields = trimmed.split(/\s+/);
+      if (fields.length < 8) {
+        issues.push({ line, severity: 'error', message: 'Event is missing timecodes' });
+        return;
+      }
+      const [srcIn, srcOut] = fields.slice(-4).map(toFrames);
+      if (srcIn === null || srcOut === null) {
+        issues.push({ line, severity: 'error', message: 'Invalid timecode at this frame rate' });
+        return;
+      }
+
+      entries.push({
+        start: framesToSeconds(srcIn - startFrame, rate),
+        end: framesToSeconds(srcOut - startFrame, rate),
+        action: 'keep',
+        label: `Event ${fields[0]}`,
+        line,
+      });
+    });
+
+    return { entries, issues };
+  }
+
+  parseCsv(text: string, rate: FrameRate): { entries: CutListEntry[]; issues: CutListIssue[] } {
+    const entries: CutListEntry[] = [];
+    const issues: CutListIssue[] = [];
+    let columns: Record<(typeof CSV_COLUMNS)[number], number> = {
+      start: 0,
+      end: 1,
+      action: 2,
+      label: 3,
+    };
+
+    text.split(/\r?\n/).forEach((raw, index) => {
+      const line = index + 1;
+      if (!raw.trim() || raw.trim().startsWith('#')) return;
+
+      const cells = this.splitCsvRow(raw);
+
+      // A first row that isn't a time is a header naming the columns
+      if (entries.length === 0 && issues.length === 0 && this.parseTime(cells[0], rate) === null) {
+        const header = cells.map((c) => c.toLowerCase());
+        if (CSV_COLUMNS.slice(0, 2).every((name) => header.includes(name))) {
+          columns = Object.fromEntries(
+            CSV_COLUMNS.map((name) => [name, header.indexOf(name)])
+          ) as typeof columns;
+          return;
+        }
+      }
+
+      const cell = (name: (typeof CSV_COLUMNS)[number]) =>
+        columns[name] >= 0 ? (cells[columns[name]] ?? '') : '';
+      const start = this.parseTime(cell('start'), rate);
+      const end = this.parseTime(cell('end'), rate);
+      if (start === null || end === null) {
+        issues.push({ line, severity: 'error', message: 'Start or end is not a valid time' });
+        return;
+      }
+
+      const actionText = cell('action').toLowerCase();
+      let action: CutListAction;
+      if (actionText === 'keep') {
+        action = 'keep';
+      } else if (!actionText || CUT_ACTIONS.includes(actionText)) {
+        action = 'cut';
+      } else {
+        issues.push({ line, severity: 'error', message: `Unknown action "${cell('action')}"` });
+        return;
+      }
+
+      entries.push({ start, end, action, label: cell('label') || `Line ${line}`, line });
+    });
+
+    return { entries, issues };
+  }
+
+  /**
+   * Check entries against the sequence and work out the ranges to remove.
+   * Times are snapped to frames; entries past the end are trimmed, invalid
+   * ones dropped. If any keep entries exist, everything outside them is cut.
+   */
+  validate(
+    entries: CutListEntry[],
+    info: CutListSequenceInfo
+  ): { cuts: ImportedCut[]; issues: CutListIssue[] } {
+    const rate = info.frameRate;
+    const issues: CutListIssue[] = [];
+    const ranges: Array<{ startFrame: number; endFrame: number; entry: CutListEntry }> = [];
+
+    for (const entry of entries) {
+      const startFrame = secondsToFrames(entry.start, rate);
+      let endFrame = secondsToFrames(entry.end, rate);
+
+      if (endFrame <= startFrame) {
+        issues.push({ line: entry.line, severity: 'error', message: 'Ends before it starts' });
+        continue;
+      }
+      if (startFrame < 0 || startFrame >= info.durationFrames) {
+        issues.push({
+          line: entry.line,
+          severity: 'error',
+          message: 'Starts outside the sequence',
+        });
+        continue;
+      }
+      if (endFrame > info.durationFrames) {
+        issues.push({
+          line: entry.line,
+          severity: 'warning',
+          message: 'Runs past the end of the sequence and was trimmed',
+        });
+        endFrame = info.durationFrames;
+      }
+
+      ranges.push({ startFrame, endFrame, entry });
+    }
+
+    const keeps = ranges.filter((r) => r.entry.action === 'keep');
+    const cuts = ranges
+      .filter((r) => r.entry.action === 'cut')
+      .map((r) => ({ startFrame: r.startFrame, endFrame: r.endFrame, label: r.entry.label }));
+
+    if (keeps.length > 0) {
+      // Everything between kept ranges goes
+      let position = 0;
+      for (const keep of [...keeps].sort((a, b) => a.startFrame - b.startFrame)) {
+        if (keep.startFrame > position) {
+          cuts.push({ startFrame: position, endFrame: keep.startFrame, label: 'Not kept' });
+        }
+        position = Math.max(position, keep.endFrame);
+      }
+      if (position < info.durationFrames) {
+        cuts.push({ startFrame: position, endFrame: info.durationFrames, label: 'Not kept' });
+      }
+    }
+
+    // Merge overlapping or touching cuts so each range is deleted once
+    const merged: Array<{ startFrame: number; endFrame: number; label: string }> = [];
+    for (const cut of cuts.sort((a, b) => a.startFrame - b.startFrame)) {
+      const last = merged[merged.length - 1];
+      if (last && cut.startFrame <= last.endFrame) {
+        last.endFrame = Math.max(last.endFrame, cut.endFrame);
+      } else {
+        merged.push({ ...cut });
+      }
+    }
+
+    return {
+      cuts: merged.map((cut) => {
+        const start = framesToSeconds(cut.startFrame, rate);
+        const end = framesToSeconds(cut.endFrame, rate);
+        return { start, end, duration: end - start, label: cut.label };
+      }),
+      issues,
+    };
+  }
+
+  /**
+   * Seconds from a CSV time cell, or null if it isn't a time
+   */
+  private parseTime(text: string | undefined, rate: FrameRate): number | null {
+    const value = (text ?? '').trim();
+    if (/^\d+(\.\d+)?$/.test(value)) return parseFloat(value);
+
+    const frames = timecodeToFrames(value, rate);
+    if (frames !== null) return framesToSeconds(frames, rate);
+
+    const clock = /^(?:(\d+):)?(\d{1,2}):(\d{2}(?:\.\d+)?)$/.exec(value);
+    if (!clock) return null;
+    return Number(clock[1] ?? 0) * 3600 + Number(clock[2]) * 60 + parseFloat(clock[3]);
+  }
+
+  /**
+   * Split a CSV row, honoring double-quoted cells (with "" as an escaped quote)
+   */
+  private splitCsvRow(row: string): string[] {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < row.length; i++) {
+      const char = row[i];
+      if (quoted) {
+        if (char === '"' && row[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        cells.push(cell.trim());
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+    cells.push(cell.trim());
+
+    return cells;
+  }
+}
+
+// Singleton instance
+export const cutListImporter = new CutListImporter();
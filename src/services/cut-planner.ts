@@ -0,0 +1,136 @@
+import { logger } from '../lib/logger';
+import type { SilentSection } from './silence-detector';
+
+/**
+ * Handle (padding) settings applied to silent sections before cutting.
+ * All values are in seconds.
+ */
+export interface CutHandleOptions {
+  preHandle?: number; // Silence kept after the preceding speech (protects word tails)
+  postHandle?: number; // Silence kept before the following speech (protects breaths/onsets)
+  minRemainingGap?: number; // Minimum pause left between speech once the cut is made
+  minCutDuration?: number; // Cuts shorter than this after padding are dropped
+  mode?: SilenceCutMode; // 'tighten' replaces the handles with a fixed target pause
+  tightenTarget?: number; // Pause length kept in tighten mode
+  tightenAnchor?: TightenAnchor; // Center the kept pause or keep it before the following word
+}
+
+/**
+ * Turns detected silent sections into the ranges that are actually removed.
+ *
+ * Steps:
+ * 1. Shrink each section by its pre/post handles (growing them if needed to
+ *    leave at least minRemainingGap of pause). In tighten mode the handles are
+ *    derived from tightenTarget instead, so every pause ends up that long.
+ * 2. Merge cuts that overlap or touch
+ * 3. Drop cuts shorter than minCutDuration
+ */
+export class CutPlanner {
+  private readonly DEFAULT_MIN_CUT_DURATION = 0.1;
+  private readonly DEFAULT_TIGHTEN_TARGET = 0.25;
+  private readonly TOUCH_TOLERANCE = 0.001; // Cuts closer than 1ms are treated as touching
+
+  /**
+   * Map a silence detection preset onto handle options.
+   * The preset's single padding value is used for both sides.
+   */
+  handlesFromPreset(preset: SilenceDetectionPreset): CutHandleOptions {
+    return {
+      preHandle: preset.padding,
+      postHandle: preset.padding,
+    };
+  }
+
+  /**
+   * Handle options for filler word and repetition candidates.
+   * Their ranges already span exactly the words to remove, so they are cut
+   * as detected: no padding, and a short "um" is not dropped as too brief.
+   */
+  handlesForDisfluencies(): CutHandleOptions {
+    return {
+      preHandle: 0,
+      postHandle: 0,
+      minCutDuration: 0,
+    };
+  }
+
+  /**
+   * Apply handles to silent sections and return the cut ranges in timeline order.
+   * Input sections are not modified.
+   */
+  applyHandles(sections: SilentSection[], options: CutHandleOptions = {}): SilentSection[] {
+    const preHandle = Math.max(0, options.preHandle ?? 0);
+    const postHandle = Math.max(0, options.postHandle ?? 0);
+    const minRemainingGap = Math.max(0, options.minRemainingGap ?? 0);
+    const minCutDuration = Math.max(0, options.minCutDuration ?? this.DEFAULT_MIN_CUT_DURATION);
+
+    let pre: number;
+    let post: number;
+    if (options.mode === 'tighten') {
+      const target = Math.max(
+        minRemainingGap,
+        options.tightenTarget ?? this.DEFAULT_TIGHTEN_TARGET
+      );
+      if (options.tightenAnchor === 'following') {
+        pre = 0;
+        post = target;
+      } else {
+        pre = target / 2;
+        post = target / 2;
+      }
+    } else {
+      // Grow both handles evenly if together they'd leave less than the minimum pause
+      const deficit = Math.max(0, minRemainingGap - (preHandle + postHandle));
+      pre = preHandle + deficit / 2;
+      post = postHandle + deficit / 2;
+    }
+
+    const padded: SilentSection[] = [];
+    for (const section of sections) {
+      const start = section.start + pre;
+      const end = section.end - post;
+      if (end <= start) continue;
+      padded.push({ ...section, start, end, duration: end - start });
+    }
+
+    const merged = this.mergeSections(padded);
+    const planned = merged.filter((s) => s.duration >= minCutDuration);
+
+    logger.info(
+      `Planned ${planned.length} cuts from ${sections.length} sections (handles ${pre.toFixed(2)}s/${post.toFixed(2)}s)`
+    );
+
+    return planned;
+  }
+
+  /**
+   * Merge sections that overlap or touch. Returns sections sorted by start time.
+   */
+  private mergeSections(sections: SilentSection[]): SilentSection[] {
+    const sorted = [...sections].sort((a, b) => a.start - b.start);
+    const merged: SilentSection[] = [];
+
+    for (const section of sorted) {
+      const last = merged[merged.length - 1];
+      if (last && section.start <= last.end + this.TOUCH_TOLERANCE) {
+        if (section.end > last.end) {
+          last.end = section.end;
+          if (section.boundarySource && last.boundarySource) {
+            last.boundarySource = { ...last.boundarySource, end: section.boundarySource.end };
+          }
+          last.followingText = section.followingText;
+        }
+        last.duration = last.end - last.start;
+        last.confidence = Math.min(last.confidence, section.confidence);
+        last.isNatural = last.isNatural && section.isNatural;
+      } else {
+        merged.push({ ...section });
+      }
+    }
+
+    return merged;
+  }
+}
+
+// Singleton instance
+export const cutPlanner = new CutPlanner();
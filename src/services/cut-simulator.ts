@@ -0,0 +1,338 @@
+import { FrameRate, quantizeToFrame } from '../utils/timecode';
+
+/** A clip on the timeline, in sequence seconds */
+export interface TimelineClip {
+  name: string;
+  start: number;
+  end: number;
+}
+
+/** A track of the sequence, and why the edit would leave it uncut */
+export interface TimelineTrack {
+  type: 'video' | 'audio';
+  index: number; // 0-based within its type
+  name: string;
+  clips: TimelineClip[];
+  skipReason?: TrackSkip['reason'];
+}
+
+/** The sequence as the simulation sees it */
+export interface TimelineStructure {
+  duration: number;
+  frameRate?: FrameRate; // Cut ranges are snapped to it, as deleteRange does
+  tracks: TimelineTrack[];
+  untargetedPolicy: UntargetedTrackPolicy;
+}
+
+/** A clip the edit would shorten, split or remove */
+export interface SimulatedClipChange {
+  track: string; // e.g. V1, A2
+  clipName: string;
+  start: number; // Before the edit
+  end: number;
+  outcome: 'trimmed' | 'split' | 'removed';
+  timeRemoved: number;
+  pieces: Array<{ start: number; end: number }>; // After the edit
+}
+
+/** A clip on an uncut track that no longer lines up with the cut tracks */
+export interface SyncBreak {
+  track: string;
+  clipName: string;
+  start: number; // Before the edit
+  end: number;
+  /**
+   * orphaned: everything under it is cut away; out-of-sync: it sits `offset`
+   * seconds after the content it belonged with; overlap: a shifted clip runs into it
+   */
+  kind: 'orphaned' | 'out-of-sync' | 'overlap';
+  offset: number;
+}
+
+export interface TrackSimulation {
+  track: string;
+  name: string;
+  cut: boolean;
+  skipReason?: TrackSkip['reason'];
+  shifted: boolean; // Uncut, but moved with the ripple
+  durationBefore: number; // End of the last clip
+  durationAfter: number;
+  clipsBefore: number;
+  clipsAfter: number;
+}
+
+export interface CutSimulationReport {
+  cuts: number;
+  durationBefore: number;
+  durationAfter: number;
+  timeRemoved: number; // From the cut tracks
+  tracks: TrackSimulation[];
+  clipChanges: SimulatedClipChange[];
+  clipsTrimmed: number;
+  clipsSplit: number;
+  clipsRemoved: number;
+  syncBreaks: SyncBreak[];
+}
+
+interface Piece {
+  clip: number; // Index of the original clip on its track
+  start: number;
+  end: number;
+}
+
+/** Tolerance for comparing times that went through float arithmetic */
+const EPSILON = 1e-6;
+
+/**
+ * Works out what ripple-deleting a set of ranges would do to a sequence,
+ * without touching Premiere: the new duration, the clips each track loses,
+ * trims or splits, and the clips on uncut tracks that fall out of sync.
+ *
+ * Mirrors PremiereAPI.deleteRange: ranges are cut from the end backwards,
+ * targeted tracks are razored and rippled, and uncut tracks either stay put
+ * or, with the 'ripple' policy, have the clips after each cut shifted
+ * (locked tracks never move, nor do tracks with a clip inside the cut).
+ */
+export class CutSimulator {
+  simulate(
+    structure: TimelineStructure,
+    ranges: Array<{ start: number; end: number }>
+  ): CutSimulationReport {
+    const cuts = this.normalize(ranges, structure);
+    const timeRemoved = cuts.reduce((sum, c) => sum + c.end - c.start, 0);
+
+    const tracks: TrackSimulation[] = [];
+    const clipChanges: SimulatedClipChange[] = [];
+    const syncBreaks: SyncBreak[] = [];
+    let lastEnd = 0;
+
+    for (const track of structure.tracks) {
+      const label = `${track.type === 'video' ? 'V' : 'A'}${track.index + 1}`;
+      const shiftable =
+        track.skipReason !== undefined &&
+        track.skipReason !== 'locked' &&
+        structure.untargetedPolicy === 'ripple';
+      let shifted = shiftable;
+
+      let pieces: Piece[] = track.clips.map((clip, i) => ({
+        clip: i,
+        start: clip.start,
+        end: clip.end,
+      }));
+      for (const cut of [...cuts].reverse()) {
+        if (!track.skipReason) {
+          pieces = this.cutPieces(pieces, cut);
+        } else if (shiftable) {
+          const moved = this.shiftPieces(pieces, cut);
+          if (moved) {
+            pieces = moved;
+          } else {
+            shifted = false; // Out of sync if any cut could not be followed
+          }
+        }
+      }
+
+      if (track.skipReason) {
+        syncBreaks.push(...this.findSyncBreaks(label, track, pieces, cuts));
+      } else {
+        clipChanges.push(...this.describeChanges(label, track, pieces));
+      }
+
+      const durationAfter = Math.max(0, ...pieces.map((p) => p.end));
+      lastEnd = Math.max(lastEnd, durationAfter);
+      tracks.push({
+        track: label,
+        name: track.name,
+        cut: !track.skipReason,
+        skipReason: track.skipReason,
+        shifted,
+        durationBefore: Math.max(0, ...track.clips.map((c) => c.end)),
+        durationAfter,
+        clipsBefore: track.clips.length,
+        clipsAfter: pieces.length,
+      });
+    }
+
+    // A sequence ends with its last clip; with no clips at all, only the cuts count
+    const hasClips = structure.tracks.some((t) => t.clips.length > 0);
+    return {
+      cuts: cuts.length,
+      durationBefore: structure.duration,
+      durationAfter: hasClips ? lastEnd : Math.max(0, structure.duration - timeRemoved),
+      timeRemoved,
+      tracks,
+      clipChanges,
+      clipsTrimmed: clipChanges.filter((c) => c.outcome === 'trimmed').length,
+      clipsSplit: clipChanges.filter((c) => c.outcome === 'split').length,
+      clipsRemoved: clipChanges.filter((c) => c.outcome === 'removed').length,
+      syncBreaks,
+    };
+  }
+
+  /**
+   * Razor at both ends of a range, delete what's inside and ripple the rest
+   */
+  private cutPieces(pieces: Piece[], cut: { start: number; end: number }): Piece[] {
+    const length = cut.end - cut.start;
+    const result: Piece[] = [];
+
+    for (const piece of pieces) {
+      if (piece.end <= cut.start + EPSILON) {
+        result.push(piece);
+      } else if (piece.start >= cut.end - EPSILON) {
+        result.push({ ...piece, start: piece.start - length, end: piece.end - length });
+      } else {
+        if (piece.start < cut.start - EPSILON) {
+          result.push({ ...piece, end: cut.start });
+        }
+        if (piece.end > cut.end + EPSILON) {
+          result.push({ ...piece, start: cut.start, end: piece.end - length });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Move pieces starting at or after the end of a range left by its length,
+   * or null if a piece lies in the range and the track stays put
+   */
+  private shiftPieces(pieces: Piece[], cut: { start: number; end: number }): Piece[] | null {
+    if (pieces.some((p) => p.start < cut.end - EPSILON && p.end > cut.start + EPSILON)) {
+      return null;
+    }
+
+    const length = cut.end - cut.start;
+    return pieces.map((piece) =>
+      piece.start >= cut.end - EPSILON
+        ? { ...piece, start: piece.start - length, end: piece.end - length }
+        : piece
+    );
+  }
+
+  private describeChanges(
+    label: string,
+    track: TimelineTrack,
+    pieces: Piece[]
+  ): SimulatedClipChange[] {
+    const changes: SimulatedClipChange[] = [];
+
+    track.clips.forEach((clip, i) => {
+      const own = pieces.filter((p) => p.clip === i);
+      const kept = own.reduce((sum, p) => sum + p.end - p.start, 0);
+      const removed = clip.end - clip.start - kept;
+      if (own.length === 1 && removed <= EPSILON) return;
+
+      changes.push({
+        track: label,
+        clipName: clip.name,
+        start: clip.start,
+        end: clip.end,
+        outcome: own.length === 0 ? 'removed' : own.length > 1 ? 'split' : 'trimmed',
+        timeRemoved: removed,
+        pieces: own.map((p) => ({ start: p.start, end: p.end })),
+      });
+    });
+
+    return changes;
+  }
+
+  /**
+   * Compare where each clip of an uncut track ends up with where the cut
+   * tracks put the content it was laid against
+   */
+  private findSyncBreaks(
+    label: string,
+    track: TimelineTrack,
+    pieces: Piece[],
+    cuts: Array<{ start: number; end: number }>
+  ): SyncBreak[] {
+    const breaks: SyncBreak[] = [];
+    const sorted = [...pieces].sort((a, b) => a.start - b.start);
+
+    sorted.forEach((piece, i) => {
+      const clip = track.clips[piece.clip];
+      const brk = (kind: SyncBreak['kind'], offset: number) =>
+        breaks.push({
+          track: label,
+          clipName: clip.name,
+          start: clip.start,
+          end: clip.end,
+          kind,
+          offset,
+        });
+
+      if (cuts.some((c) => clip.start >= c.start - EPSILON && clip.end <= c.end + EPSILON)) {
+        brk('orphaned', 0);
+        return;
+      }
+
+      // A clip spanning a cut starts in sync but its end drifts
+      const startOffset = piece.start - this.mapTime(clip.start, cuts);
+      const endOffset = piece.end - this.mapTime(clip.end, cuts);
+      const offset = Math.abs(startOffset) > EPSILON ? startOffset : endOffset;
+      if (Math.abs(offset) > EPSILON) {
+        brk('out-of-sync', offset);
+      }
+
+      const previous = sorted[i - 1];
+      if (previous && piece.start < previous.end - EPSILON) {
+        brk('overlap', previous.end - piece.start);
+      }
+    });
+
+    return breaks;
+  }
+
+  /**
+   * Where content at a time ends up on the cut tracks
+   */
+  private mapTime(time: number, cuts: Array<{ start: number; end: number }>): number {
+    let shift = 0;
+    for (const cut of cuts) {
+      if (time >= cut.end) {
+        shift += cut.end - cut.start;
+      } else if (time > cut.start) {
+        return cut.start - shift;
+      } else {
+        break;
+      }
+    }
+    return time - shift;
+  }
+
+  /**
+   * Snap ranges to frames, keep them inside the sequence, sort and merge them
+   */
+  private normalize(
+    ranges: Array<{ start: number; end: number }>,
+    structure: TimelineStructure
+  ): Array<{ start: number; end: number }> {
+    const snap = (time: number) =>
+      structure.frameRate ? quantizeToFrame(time, structure.frameRate) : time;
+
+    const merged: Array<{ start: number; end: number }> = [];
+    const snapped = ranges
+      .map((r) => ({
+        start: Math.max(0, snap(r.start)),
+        end: Math.min(structure.duration, snap(r.end)),
+      }))
+      .filter((r) => r.end > r.start + EPSILON)
+      .sort((a, b) => a.start - b.start);
+
+    for (const range of snapped) {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+    }
+
+    return merged;
+  }
+}
+
+// Singleton instance
+export const cutSimulator = new CutSimulator();
@@ -0,0 +1,165 @@
+import { storage } from '../lib/storage';
+import { logger } from '../lib/logger';
+
+const EDIT_LOG_STORAGE_PREFIX = 'edit_log:';
+const SEQUENCE_COPIES_STORAGE_KEY = 'sequence_copies';
+
+/** Name given to duplicates made in non-destructive mode */
+export const DEFAULT_COPY_NAME_TEMPLATE = '{name} - Splice {date}';
+
+/**
+ * Records the timeline edits of each apply operation (silence cuts, takes)
+ * and keeps the most recent sessions per sequence in plugin storage, so the
+ * last Splice edit can be reverted without walking Premiere's history.
+ * Also remembers which duplicate was edited in place of each original.
+ */
+export class EditLogService {
+  /** Sessions kept per sequence; older ones are dropped */
+  private readonly MAX_SESSIONS_PER_SEQUENCE = 10;
+
+  /** Original/duplicate pairs kept across all sequences */
+  private readonly MAX_SEQUENCE_COPIES = 100;
+
+  private current: EditSession | null = null;
+
+  /**
+   * Start recording a new session. Edits recorded until commit() belong to it.
+   * A session that was never committed is discarded.
+   */
+  begin(
+    operation: EditOperation,
+    sequence: { id: string; name: string },
+    backup?: { id: string; name: string } | null
+  ): EditSession {
+    if (this.current) {
+      logger.warn(`Discarding uncommitted edit session ${this.current.id}`);
+    }
+
+    this.current = {
+      id: `edit-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      operation,
+      sequenceId: sequence.id,
+      sequenceName: sequence.name,
+      startedAt: new Date().toISOString(),
+      actions: [],
+    };
+    if (backup) {
+      this.current.backupSequenceId = backup.id;
+      this.current.backupSequenceName = backup.name;
+    }
+
+    return this.current;
+  }
+
+  /**
+   * Record an edit in the current session. Edits made outside a session
+   * (e.g. a single razor from the UI) are not logged.
+   */
+  record(action: EditAction): void {
+    this.current?.actions.push(action);
+  }
+
+  isRecording(): boolean {
+    return this.current !== null;
+  }
+
+  getCurrentSessionId(): string | undefined {
+    return this.current?.id;
+  }
+
+  /**
+   * Finish the current session and store it with its sequence's history.
+   * Sessions without edits or backup are not stored.
+   */
+  async commit(): Promise<EditSession | null> {
+    const session = this.current;
+    this.current = null;
+    if (!session || (session.actions.length === 0 && !session.backupSequenceId)) {
+      return null;
+    }
+
+    const sessions = await this.getSessions(session.sequenceId);
+    sessions.push(session);
+    await storage.set(
+      this.getStorageKey(session.sequenceId),
+      sessions.slice(-this.MAX_SESSIONS_PER_SEQUENCE)
+    );
+
+    logger.info(
+      `Logged ${session.actions.length} edits for ${session.operation} on "${session.sequenceName}"`
+    );
+    return session;
+  }
+
+  /**
+   * Stored sessions of a sequence, oldest first
+   */
+  async getSessions(sequenceId: string): Promise<EditSession[]> {
+    try {
+      return (await storage.get<EditSession[]>(this.getStorageKey(sequenceId))) ?? [];
+    } catch (error) {
+      logger.warn('Failed to load edit log', error);
+      return [];
+    }
+  }
+
+  async getLastSession(sequenceId: string): Promise<EditSession | null> {
+    const sessions = await this.getSessions(sequenceId);
+    return sessions[sessions.length - 1] ?? null;
+  }
+
+  /**
+   * Drop a session once it has been reverted
+   */
+  async removeSession(sequenceId: string, sessionId: string): Promise<void> {
+    const sessions = await this.getSessions(sequenceId);
+    await storage.set(
+      this.getStorageKey(sequenceId),
+      sessions.filter((s) => s.id !== sessionId)
+    );
+  }
+
+  /**
+   * Remember that a duplicate was edited in place of an original
+   */
+  async recordSequenceCopy(copy: SequenceCopy): Promise<void> {
+    const copies = await this.getSequenceCopies();
+    copies.push(copy);
+    await storage.set(SEQUENCE_COPIES_STORAGE_KEY, copies.slice(-this.MAX_SEQUENCE_COPIES));
+  }
+
+  /**
+   * Stored original/duplicate pairs, oldest first
+   * @param originalId - Only pairs made from this original sequence
+   */
+  async getSequenceCopies(originalId?: string): Promise<SequenceCopy[]> {
+    try {
+      const copies = (await storage.get<SequenceCopy[]>(SEQUENCE_COPIES_STORAGE_KEY)) ?? [];
+      return originalId ? copies.filter((c) => c.originalId === originalId) : copies;
+    } catch (error) {
+      logger.warn('Failed to load sequence copies', error);
+      return [];
+    }
+  }
+
+  /**
+   * Fill in a copy name template: {name} is the original sequence name,
+   * {date} is YYYY-MM-DD and {time} is HH:MM, both local time
+   */
+  formatCopyName(template: string, sequenceName: string, date: Date = new Date()): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const values: Record<string, string> = {
+      name: sequenceName,
+      date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+      time: `${pad(date.getHours())}:${pad(date.getMinutes())}`,
+    };
+    return template.replace(/\{(name|date|time)\}/g, (_, key: string) => values[key]);
+  }
+
+  private getStorageKey(sequenceId: string): string {
+    return `${EDIT_LOG_STORAGE_PREFIX}${sequenceId}`;
+  }
+}
+
+// Singleton instance
+export const editLog = new EditLogService();
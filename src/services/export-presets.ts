@@ -285,6 +285,32 @@ export class ExportPresetsService {
       return 'Padding must be between 0 and 2 seconds';
     }
 
+    if (
+      preset.breathPolicy !== undefined &&
+      !['keep', 'protect', 'mark', 'cut'].includes(preset.breathPolicy)
+    ) {
+      return 'Breath policy must be keep, protect, mark or cut';
+    }
+
+    const targeting = preset.trackTargeting;
+    if (targeting) {
+      const lists = [
+        targeting.videoTracks,
+        targeting.audioTracks,
+        targeting.protectedVideoTracks,
+        targeting.protectedAudioTracks,
+      ];
+      if (lists.some((list) => list?.some((index) => !Number.isInteger(index) || index < 0))) {
+        return 'Track numbers must be positive whole numbers';
+      }
+      if (
+        targeting.untargetedPolicy !== undefined &&
+        !['ripple', 'leave'].includes(targeting.untargetedPolicy)
+      ) {
+        return 'Untargeted track policy must be ripple or leave';
+      }
+    }
+
     return null;
   }
 
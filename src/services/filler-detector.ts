@@ -0,0 +1,293 @@
+import { logger } from '../lib/logger';
+import type { SilentSection } from './silence-detector';
+
+/**
+ * Words and phrases treated as disfluencies for one language.
+ * Multi-word entries ("you know") are matched as consecutive words.
+ */
+export interface FillerLexicon {
+  fillers: string[]; // Always disfluent ("um", "uh")
+  ambiguousFillers: string[]; // Often meaningful ("like", "you know"), lower confidence
+  allowedRepetitions: string[]; // Words that are legitimately doubled ("very very", "had had")
+}
+
+export type DisfluencyKind = 'filler' | 'repetition';
+
+/**
+ * A disfluency cut candidate. Shape-compatible with SilentSection so it can be
+ * applied through PremiereAPI.applySilenceCuts.
+ */
+export interface DisfluencyCandidate extends SilentSection {
+  kind: DisfluencyKind;
+  text: string; // The removed words, as transcribed
+}
+
+export interface DisfluencyDetectionOptions {
+  language?: string; // ISO code or Whisper language name (default 'en')
+  detectFillers?: boolean;
+  detectRepetitions?: boolean;
+  minConfidence?: number; // Candidates below this are not returned
+}
+
+/**
+ * Built-in lexicons, keyed by ISO 639-1 code
+ */
+const DEFAULT_LEXICONS: Record<string, FillerLexicon> = {
+  en: {
+    fillers: ['um', 'umm', 'uh', 'uhm', 'er', 'erm', 'ah', 'hmm', 'mm'],
+    ambiguousFillers: [
+      'like',
+      'you know',
+      'i mean',
+      'basically',
+      'actually',
+      'literally',
+      'kind of',
+      'sort of',
+    ],
+    allowedRepetitions: ['had', 'that', 'very', 'no', 'yeah', 'really', 'so', 'bye'],
+  },
+  es: {
+    fillers: ['eh', 'em', 'mmm', 'este'],
+    ambiguousFillers: ['o sea', 'pues', 'bueno', 'como', 'sabes'],
+    allowedRepetitions: ['muy', 'no', 'sí', 'ya'],
+  },
+  de: {
+    fillers: ['äh', 'ähm', 'öh', 'hm', 'ehm'],
+    ambiguousFillers: ['also', 'halt', 'eigentlich', 'sozusagen', 'quasi'],
+    allowedRepetitions: ['sehr', 'ja', 'nein', 'die', 'das'],
+  },
+  fr: {
+    fillers: ['euh', 'heu', 'hum', 'bah'],
+    ambiguousFillers: ['genre', 'en fait', 'du coup', 'bref', 'voilà', 'tu vois'],
+    allowedRepetitions: ['très', 'non', 'oui', 'nous', 'vous'],
+  },
+};
+
+/**
+ * Whisper reports the language as a name in verbose_json output
+ */
+const LANGUAGE_ALIASES: Record<string, string> = {
+  english: 'en',
+  spanish: 'es',
+  german: 'de',
+  french: 'fr',
+};
+
+/**
+ * Service for finding filler words and stutters in word-level transcripts.
+ *
+ * Works entirely on Whisper word timestamps - no extra API calls.
+ * Candidates extend from the start of the disfluent words up to the next
+ * word (absorbing a short trailing gap) so the cut closes up cleanly.
+ */
+export class FillerDetector {
+  private lexicons: Record<string, FillerLexicon> = { ...DEFAULT_LEXICONS };
+
+  private readonly FILLER_CONFIDENCE = 0.9;
+  private readonly AMBIGUOUS_CONFIDENCE = 0.5;
+  private readonly ISOLATED_AMBIGUOUS_CONFIDENCE = 0.7; // Ambiguous filler set off by pauses
+  private readonly REPETITION_CONFIDENCE = 0.85;
+  private readonly SPACED_REPETITION_CONFIDENCE = 0.6; // Repeats with a pause may be deliberate
+  private readonly ISOLATION_GAP = 0.15; // Pause (s) that sets a word off from its neighbours
+  private readonly MAX_REPETITION_GAP = 0.5; // Repeats further apart than this are not stutters
+  private readonly MAX_ABSORBED_GAP = 0.3; // Trailing silence (s) removed together with a disfluency
+
+  /**
+   * Register or replace the lexicon for a language
+   */
+  setLexicon(language: string, lexicon: FillerLexicon): void {
+    this.lexicons[this.resolveLanguage(language)] = lexicon;
+    logger.info(`Filler lexicon set for: ${language}`);
+  }
+
+  /**
+   * Get the lexicon for a language (falls back to English)
+   */
+  getLexicon(language: string = 'en'): FillerLexicon {
+    return this.lexicons[this.resolveLanguage(language)] ?? this.lexicons.en ?? DEFAULT_LEXICONS.en;
+  }
+
+  /**
+   * Find filler words and immediate repetitions in a word-level transcript.
+   * Returns candidates sorted by start time.
+   */
+  detect(words: WhisperWord[], options: DisfluencyDetectionOptions = {}): DisfluencyCandidate[] {
+    const {
+      language = 'en',
+      detectFillers = true,
+      detectRepetitions = true,
+      minConfidence = 0,
+    } = options;
+
+    if (words.length === 0) {
+      return [];
+    }
+
+    const lexicon = this.getLexicon(language);
+    const tokens = words.map((w) => this.normalizeWord(w.word));
+    const phrases = this.buildPhraseList(lexicon);
+    const candidates: DisfluencyCandidate[] = [];
+
+    let i = 0;
+    while (i < words.length) {
+      if (!tokens[i]) {
+        i++;
+        continue;
+      }
+
+      // Fillers (longest phrase first)
+      const filler = detectFillers ? this.matchFiller(tokens, i, phrases) : null;
+      if (filler) {
+        const last = i + filler.length - 1;
+        candidates.push(
+          this.createCandidate(
+            words,
+            i,
+            last,
+            'filler',
+            this.fillerConfidence(words, i, last, filler.ambiguous)
+          )
+        );
+        i = last + 1;
+        continue;
+      }
+
+      // Repetitions: "I I I think" -> remove "I I", keep the last one
+      if (detectRepetitions && !lexicon.allowedRepetitions.includes(tokens[i])) {
+        let last = i;
+        let spaced = false;
+        while (
+          last + 1 < words.length &&
+          tokens[last + 1] === tokens[i] &&
+          words[last + 1].start - words[last].end <= this.MAX_REPETITION_GAP
+        ) {
+          if (words[last + 1].start - words[last].end > this.ISOLATION_GAP) spaced = true;
+          last++;
+        }
+
+        if (last > i) {
+          const confidence = spaced
+            ? this.SPACED_REPETITION_CONFIDENCE
+            : this.REPETITION_CONFIDENCE;
+          candidates.push(this.createCandidate(words, i, last - 1, 'repetition', confidence));
+          i = last;
+          continue;
+        }
+      }
+
+      i++;
+    }
+
+    const result = candidates.filter((c) => c.confidence >= minConfidence);
+    logger.info(
+      `Found ${result.length} disfluencies (${result.filter((c) => c.kind === 'filler').length} fillers)`
+    );
+    return result;
+  }
+
+  /**
+   * Map Whisper language names and regional codes ("en-US") to lexicon keys
+   */
+  private resolveLanguage(language: string): string {
+    const lower = language.toLowerCase();
+    return LANGUAGE_ALIASES[lower] ?? lower.split(/[-_]/)[0];
+  }
+
+  /**
+   * Lowercase and strip punctuation ("Um," -> "um")
+   */
+  private normalizeWord(word: string): string {
+    return word
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}']+/gu, '')
+      .trim();
+  }
+
+  /**
+   * Split lexicon entries into token arrays, longest first
+   */
+  private buildPhraseList(lexicon: FillerLexicon): Array<{ tokens: string[]; ambiguous: boolean }> {
+    const toPhrase = (entry: string, ambiguous: boolean) => ({
+      tokens: entry
+        .split(/\s+/)
+        .map((t) => this.normalizeWord(t))
+        .filter(Boolean),
+      ambiguous,
+    });
+
+    return [
+      ...lexicon.fillers.map((f) => toPhrase(f, false)),
+      ...lexicon.ambiguousFillers.map((f) => toPhrase(f, true)),
+    ]
+      .filter((p) => p.tokens.length > 0)
+      .sort((a, b) => b.tokens.length - a.tokens.length);
+  }
+
+  private matchFiller(
+    tokens: string[],
+    index: number,
+    phrases: Array<{ tokens: string[]; ambiguous: boolean }>
+  ): { length: number; ambiguous: boolean } | null {
+    for (const phrase of phrases) {
+      if (phrase.tokens.every((t, k) => tokens[index + k] === t)) {
+        return { length: phrase.tokens.length, ambiguous: phrase.ambiguous };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Ambiguous fillers are more likely disfluent when set off by pauses
+   */
+  private fillerConfidence(
+    words: WhisperWord[],
+    first: number,
+    last: number,
+    ambiguous: boolean
+  ): number {
+    if (!ambiguous) return this.FILLER_CONFIDENCE;
+
+    const gapBefore = first > 0 ? words[first].start - words[first - 1].end : Infinity;
+    const gapAfter = last < words.length - 1 ? words[last + 1].start - words[last].end : Infinity;
+    const isolated = gapBefore >= this.ISOLATION_GAP || gapAfter >= this.ISOLATION_GAP;
+
+    return isolated ? this.ISOLATED_AMBIGUOUS_CONFIDENCE : this.AMBIGUOUS_CONFIDENCE;
+  }
+
+  /**
+   * Build a candidate covering words[first..last] plus a short trailing gap
+   */
+  private createCandidate(
+    words: WhisperWord[],
+    first: number,
+    last: number,
+    kind: DisfluencyKind,
+    confidence: number
+  ): DisfluencyCandidate {
+    const start = words[first].start;
+    const previous = words[first - 1];
+    const next = words[last + 1];
+    const end = next
+      ? Math.max(start, Math.min(next.start, words[last].end + this.MAX_ABSORBED_GAP))
+      : words[last].end;
+
+    return {
+      start,
+      end,
+      duration: end - start,
+      isNatural: false,
+      confidence,
+      kind,
+      text: words
+        .slice(first, last + 1)
+        .map((w) => w.word.trim())
+        .join(' '),
+      precedingText: previous?.word.trim(),
+      followingText: next?.word.trim(),
+    };
+  }
+}
+
+// Singleton instance
+export const fillerDetector = new FillerDetector();
@@ -0,0 +1,705 @@
+/**
+ * FLAC Encoder
+ *
+ * Lossless FLAC encoding of WAV audio for uploads, so transcription and voice
+ * isolation requests carry roughly half the bytes of raw PCM.
+ *
+ * Encoding choices (all part of the FLAC "subset", so every decoder accepts them):
+ * - Fixed 4096-sample blocks
+ * - CONSTANT subframes for digital silence, otherwise the best FIXED predictor
+ *   (order 0-4) with partitioned Rice coding, or VERBATIM if that is smaller
+ * - Stereo picks the cheapest of left/right, left/side, side/right and mid/side
+ * - STREAMINFO MD5 is left as zero ("not computed"), which the spec allows
+ *
+ * Float and 32-bit integer WAV cannot be stored losslessly in subset FLAC;
+ * check canEncode() and send WAV for those.
+ */
+
+import { logger } from '../lib/logger';
+import { SpliceError, SpliceErrorCode } from '../lib/errors';
+import { audioChunker, WavInfo } from './audio-chunker';
+import { AUDIO_CONFIG } from '../config/audio-config';
+
+/** Upload container for audio sent to AI endpoints */
+export type UploadAudioFormat = 'wav' | 'flac';
+
+const BLOCK_SIZE = 4096;
+const BLOCK_SIZE_CODE = 0b1100; // 256 * 2^4
+const MAX_FIXED_ORDER = 4;
+const MAX_PARTITION_ORDER = 8;
+
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 0b0001,
+  176400: 0b0010,
+  192000: 0b0011,
+  8000: 0b0100,
+  16000: 0b0101,
+  22050: 0b0110,
+  24000: 0b0111,
+  32000: 0b1000,
+  44100: 0b1001,
+  48000: 0b1010,
+  96000: 0b1011,
+};
+
+const SAMPLE_SIZE_CODES: Record<number, number> = {
+  8: 0b001,
+  16: 0b100,
+  24: 0b110,
+};
+
+export interface FlacUploadOptions {
+  enabled?: boolean; // Defaults to AUDIO_CONFIG.UPLOAD_FLAC_ENABLED
+}
+
+/** Inter-channel decorrelation modes (frame header channel assignment) */
+const CHANNEL_LEFT_SIDE = 0b1000;
+const CHANNEL_SIDE_RIGHT = 0b1001;
+const CHANNEL_MID_SIDE = 0b1010;
+
+/**
+ * Check whether a buffer is a FLAC stream (starts with the fLaC marker).
+ */
+export function isFlacBuffer(buffer: ArrayBuffer): boolean {
+  if (buffer.byteLength < 4) return false;
+  const bytes = new Uint8Array(buffer, 0, 4);
+  return String.fromCharCode(...bytes) === 'fLaC';
+}
+
+/**
+ * MIME type and file name to use when uploading a WAV or FLAC buffer.
+ */
+export function getUploadFileInfo(buffer: ArrayBuffer): {
+  format: UploadAudioFormat;
+  type: string;
+  filename: string;
+} {
+  return isFlacBuffer(buffer)
+    ? { format: 'flac', type: 'audio/flac', filename: 'audio.flac' }
+    : { format: 'wav', type: 'audio/wav', filename: 'audio.wav' };
+}
+
+/**
+ * Encodes PCM WAV buffers to FLAC.
+ */
+export class FlacEncoder {
+  /**
+   * Whether a WAV buffer can be encoded losslessly (8/16/24-bit integer PCM).
+   * Invalid WAV data returns false rather than throwing.
+   */
+  canEncode(buffer: ArrayBuffer): boolean {
+    try {
+      const { sampleFormat, bitsPerSample } = audioChunker.getWavInfo(buffer);
+      return sampleFormat === 'pcm' && SAMPLE_SIZE_CODES[bitsPerSample] !== undefined;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Encode a WAV buffer as FLAC for upload, falling back to the WAV itself when
+   * FLAC is disabled, the format can't be stored losslessly, or encoding fails.
+   *
+   * @param buffer - WAV audio
+   * @param options - Overrides for the AUDIO_CONFIG defaults
+   * @returns FLAC or the original WAV buffer
+   */
+  encodeForUpload(buffer: ArrayBuffer, options: FlacUploadOptions = {}): ArrayBuffer {
+    const { enabled = AUDIO_CONFIG.UPLOAD_FLAC_ENABLED } = options;
+
+    if (!enabled || !this.canEncode(buffer)) {
+      return buffer;
+    }
+
+    try {
+      return this.encode(buffer);
+    } catch (error) {
+      logger.warn('FLAC encoding failed, uploading WAV', error);
+      return buffer;
+    }
+  }
+
+  /**
+   * Encode a WAV buffer as FLAC.
+   *
+   * @param buffer - 8/16/24-bit integer PCM WAV
+   * @returns FLAC stream
+   * @throws SpliceError with a CHUNK_* code if the WAV is invalid or cannot be stored losslessly
+   */
+  encode(buffer: ArrayBuffer): ArrayBuffer {
+    const wavInfo = audioChunker.getWavInfo(buffer);
+    if (!this.canEncode(buffer)) {
+      throw new SpliceError(
+        SpliceErrorCode.CHUNK_INVALID_FORMAT,
+        `Cannot encode ${wavInfo.bitsPerSample}-bit ${wavInfo.sampleFormat} audio as FLAC`,
+        { bitsPerSample: wavInfo.bitsPerSample, sampleFormat: wavInfo.sampleFormat }
+      );
+    }
+
+    const { channels, bitsPerSample, sampleRate } = wavInfo;
+    const blockAlign = (bitsPerSample / 8) * channels;
+    const totalFrames = Math.floor(wavInfo.dataSize / blockAlign);
+    const view = new DataView(buffer);
+
+    const writer = new BitWriter(Math.max(1024, Math.ceil(wavInfo.dataSize * 0.75)));
+    writer.writeBytes([0x66, 0x4c, 0x61, 0x43]); // fLaC
+    const streamInfoOffset = this.writeStreamInfo(writer, wavInfo, totalFrames);
+
+    const block = Array.from({ length: channels }, () => new Int32Array(BLOCK_SIZE));
+    let minFrameSize = Infinity;
+    let maxFrameSize = 0;
+    let frameNumber = 0;
+
+    for (let first = 0; first < totalFrames; first += BLOCK_SIZE) {
+      const blockSize = Math.min(BLOCK_SIZE, totalFrames - first);
+      this.readBlock(view, wavInfo, first, blockSize, block);
+
+      const frameStart = writer.byteLength;
+      this.writeFrame(writer, block, blockSize, frameNumber++, wavInfo);
+      const frameSize = writer.byteLength - frameStart;
+      minFrameSize = Math.min(minFrameSize, frameSize);
+      maxFrameSize = Math.max(maxFrameSize, frameSize);
+    }
+
+    // Patch the frame size range into STREAMINFO now that it is known
+    if (maxFrameSize > 0) {
+      writer.patchUint24(streamInfoOffset + 4, minFrameSize);
+      writer.patchUint24(streamInfoOffset + 7, maxFrameSize);
+    }
+
+    const output = writer.toArrayBuffer();
+    logger.debug(
+      `FLAC encoded ${totalFrames} frames at ${sampleRate} Hz: ` +
+        `${buffer.byteLength} -> ${output.byteLength} bytes`
+    );
+    return output;
+  }
+
+  /**
+   * Write the STREAMINFO metadata block. Returns the offset of its body.
+   */
+  private writeStreamInfo(writer: BitWriter, wavInfo: WavInfo, totalFrames: number): number {
+    writer.writeBits(1, 1); // Last metadata block
+    writer.writeBits(0, 7); // STREAMINFO
+    writer.writeBits(34, 24);
+
+    const bodyOffset = writer.byteLength;
+    writer.writeBits(BLOCK_SIZE, 16); // Min block size
+    writer.writeBits(BLOCK_SIZE, 16); // Max block size
+    writer.writeBits(0, 24); // Min frame size (patched)
+    writer.writeBits(0, 24); // Max frame size (patched)
+    writer.writeBits(wavInfo.sampleRate, 20);
+    writer.writeBits(wavInfo.channels - 1, 3);
+    writer.writeBits(wavInfo.bitsPerSample - 1, 5);
+    writer.writeBits(Math.floor(totalFrames / 0x10), 32); // Total samples: upper 32 of 36 bits
+    writer.writeBits(totalFrames % 0x10, 4);
+    writer.writeBytes(new Array<number>(16).fill(0)); // MD5 not computed
+
+    return bodyOffset;
+  }
+
+  /**
+   * Read one block of interleaved PCM into per-channel signed integers
+   */
+  private readBlock(
+    view: DataView,
+    wavInfo: WavInfo,
+    firstFrame: number,
+    blockSize: number,
+    block: Int32Array[]
+  ): void {
+    const { channels, bitsPerSample, dataOffset } = wavInfo;
+    const bytesPerSample = bitsPerSample / 8;
+    const blockAlign = bytesPerSample * channels;
+
+    for (let i = 0; i < blockSize; i++) {
+      const frameOffset = dataOffset + (firstFrame + i) * blockAlign;
+      for (let ch = 0; ch < channels; ch++) {
+        const offset = frameOffset + ch * bytesPerSample;
+        switch (bitsPerSample) {
+          case 8:
+            block[ch][i] = view.getUint8(offset) - 128; // 8-bit WAV is unsigned
+            break;
+          case 16:
+            block[ch][i] = view.getInt16(offset, true);
+            break;
+          default:
+            block[ch][i] =
+              view.getUint8(offset) |
+              (view.getUint8(offset + 1) << 8) |
+              (view.getInt8(offset + 2) << 16);
+        }
+      }
+    }
+  }
+
+  private writeFrame(
+    writer: BitWriter,
+    block: Int32Array[],
+    blockSize: number,
+    frameNumber: number,
+    wavInfo: WavInfo
+  ): void {
+    const { bitsPerSample } = wavInfo;
+    const frameStart = writer.byteLength;
+
+    // Pick the channel layout, then encode each subframe
+    let assignment = wavInfo.channels - 1;
+    let subframes: Array<{ samples: Int32Array; bits: number }> = block.map((samples) => ({
+      samples: samples.subarray(0, blockSize),
+      bits: bitsPerSample,
+    }));
+    if (wavInfo.channels === 2) {
+      ({ assignment, subframes } = this.chooseStereoMode(block, blockSize, bitsPerSample));
+    }
+
+    // Frame header
+    writer.writeBits(0b11111111111110, 14); // Sync
+    writer.writeBits(0, 1); // Reserved
+    writer.writeBits(0, 1); // Fixed block size
+    writer.writeBits(blockSize === BLOCK_SIZE ? BLOCK_SIZE_CODE : 0b0111, 4);
+    writer.writeBits(SAMPLE_RATE_CODES[wavInfo.sampleRate] ?? 0b0000, 4);
+    writer.writeBits(assignment, 4);
+    writer.writeBits(SAMPLE_SIZE_CODES[bitsPerSample], 3);
+    writer.writeBits(0, 1); // Reserved
+    writer.writeBytes(encodeUtf8Number(frameNumber));
+    if (blockSize !== BLOCK_SIZE) {
+      writer.writeBits(blockSize - 1, 16);
+    }
+    writer.writeBits(crc8(writer.bytesFrom(frameStart)), 8);
+
+    for (const subframe of subframes) {
+      this.writeSubframe(writer, subframe.samples, subframe.bits);
+    }
+
+    writer.alignToByte();
+    writer.writeBits(crc16(writer.bytesFrom(frameStart)), 16);
+  }
+
+  /**
+   * Choose the stereo decorrelation with the smallest estimated size
+   */
+  private chooseStereoMode(
+    block: Int32Array[],
+    blockSize: number,
+    bitsPerSample: number
+  ): { assignment: number; subframes: Array<{ samples: Int32Array; bits: number }> } {
+    const left = block[0].subarray(0, blockSize);
+    const right = block[1].subarray(0, blockSize);
+    const mid = new Int32Array(blockSize);
+    const side = new Int32Array(blockSize);
+    for (let i = 0; i < blockSize; i++) {
+      mid[i] = (left[i] + right[i]) >> 1;
+      side[i] = left[i] - right[i];
+    }
+
+    const cost = {
+      left: this.estimateBits(left),
+      right: this.estimateBits(right),
+      mid: this.estimateBits(mid),
+      side: this.estimateBits(side),
+    };
+    const options = [
+      { total: cost.left + cost.right, assignment: 1 },
+      { total: cost.left + cost.side, assignment: CHANNEL_LEFT_SIDE },
+      { total: cost.side + cost.right, assignment: CHANNEL_SIDE_RIGHT },
+      { total: cost.mid + cost.side, assignment: CHANNEL_MID_SIDE },
+    ];
+    const best = options.reduce((a, b) => (b.total < a.total ? b : a));
+
+    const sideBits = bitsPerSample + 1;
+    switch (best.assignment) {
+      case CHANNEL_LEFT_SIDE:
+        return {
+          assignment: best.assignment,
+          subframes: [
+            { samples: left, bits: bitsPerSample },
+            { samples: side, bits: sideBits },
+          ],
+        };
+      case CHANNEL_SIDE_RIGHT:
+        return {
+          assignment: best.assignment,
+          subframes: [
+            { samples: side, bits: sideBits },
+            { samples: right, bits: bitsPerSample },
+          ],
+        };
+      case CHANNEL_MID_SIDE:
+        return {
+          assignment: best.assignment,
+          subframes: [
+            { samples: mid, bits: bitsPerSample },
+            { samples: side, bits: sideBits },
+          ],
+        };
+      default:
+        return {
+          assignment: best.assignment,
+          subframes: [
+            { samples: left, bits: bitsPerSample },
+            { samples: right, bits: bitsPerSample },
+          ],
+        };
+    }
+  }
+
+  /**
+   * Rough size of a channel: sum of |residual| for the best fixed predictor
+   */
+  private estimateBits(samples: Int32Array): number {
+    const { order, absSum } = this.chooseFixedOrder(samples);
+    const count = Math.max(1, samples.length - order);
+    const mean = absSum / count;
+    return count * (mean > 1 ? Math.log2(mean) + 2 : 1);
+  }
+
+  /**
+   * Pick the fixed predictor order (0-4) with the smallest total |residual|
+   */
+  private chooseFixedOrder(samples: Int32Array): { order: number; absSum: number } {
+    const sums = new Float64Array(MAX_FIXED_ORDER + 1);
+    for (let i = MAX_FIXED_ORDER; i < samples.length; i++) {
+      const e0 = samples[i];
+      const e1 = e0 - samples[i - 1];
+      const e2 = e1 - (samples[i - 1] - samples[i - 2]);
+      const e3 = e2 - (samples[i - 1] - 2 * samples[i - 2] + samples[i - 3]);
+      const e4 = e3 - (samples[i - 1] - 3 * samples[i - 2] + 3 * samples[i - 3] - samples[i - 4]);
+      sums[0] += Math.abs(e0);
+      sums[1] += Math.abs(e1);
+      sums[2] += Math.abs(e2);
+      sums[3] += Math.abs(e3);
+      sums[4] += Math.abs(e4);
+    }
+
+    let order = 0;
+    for (let o = 1; o <= MAX_FIXED_ORDER; o++) {
+      if (sums[o] < sums[order]) order = o;
+    }
+    // Very short blocks can't hold the warm-up samples of higher orders
+    order = Math.min(order, Math.max(0, samples.length - 1));
+    return { order, absSum: sums[order] };
+  }
+
+  private writeSubframe(writer: BitWriter, samples: Int32Array, bits: number): void {
+    const first = samples[0];
+    if (samples.every((s) => s === first)) {
+      writer.writeBits(0, 1);
+      writer.writeBits(0b000000, 6); // CONSTANT
+      writer.writeBits(0, 1); // No wasted bits
+      writer.writeSigned(first, bits);
+      return;
+    }
+
+    const { order } = this.chooseFixedOrder(samples);
+    const residual = fixedResidual(samples, order);
+    const rice = this.planRice(residual, samples.length, order);
+    const fixedBits = 8 + order * bits + rice.bits;
+    const verbatimBits = 8 + samples.length * bits;
+
+    if (fixedBits >= verbatimBits) {
+      writer.writeBits(0, 1);
+      writer.writeBits(0b000001, 6); // VERBATIM
+      writer.writeBits(0, 1);
+      for (const sample of samples) writer.writeSigned(sample, bits);
+      return;
+    }
+
+    writer.writeBits(0, 1);
+    writer.writeBits(0b001000 | order, 6); // FIXED
+    writer.writeBits(0, 1);
+    for (let i = 0; i < order; i++) writer.writeSigned(samples[i], bits);
+    this.writeResidual(writer, residual, order, rice);
+  }
+
+  /**
+   * Choose the partition order and Rice parameters with the fewest (estimated) bits.
+   * Zigzag sums are taken once at the finest partition order and merged upward.
+   */
+  private planRice(residual: Int32Array, blockSize: number, predictorOrder: number): RicePlan {
+    let maxOrder = 0;
+    while (
+      maxOrder < MAX_PARTITION_ORDER &&
+      blockSize % (2 << maxOrder) === 0 &&
+      blockSize / (2 << maxOrder) > predictorOrder
+    ) {
+      maxOrder++;
+    }
+
+    // Sums and counts per partition at the finest order
+    const finestSize = blockSize >> maxOrder;
+    let sums = new Float64Array(1 << maxOrder);
+    let counts = new Float64Array(1 << maxOrder);
+    for (let i = 0; i < residual.length; i++) {
+      const p = Math.floor((i + predictorOrder) / finestSize);
+      sums[p] += zigzag(residual[i]);
+      counts[p]++;
+    }
+
+    let best: RicePlan = {
+      partitionOrder: 0,
+      partitionSize: blockSize,
+      parameters: [0],
+      bits: Infinity,
+    };
+
+    for (let partitionOrder = maxOrder; partitionOrder >= 0; partitionOrder--) {
+      const parameters: number[] = [];
+      let bits = 6; // Coding method + partition order
+      for (let p = 0; p < sums.length; p++) {
+        const { parameter, cost } = estimateRiceCost(sums[p], counts[p]);
+        parameters.push(parameter);
+        bits += cost;
+      }
+      bits += sums.length * (parameters.some((k) => k > 14) ? 5 : 4);
+
+      if (bits < best.bits) {
+        best = { partitionOrder, partitionSize: blockSize >> partitionOrder, parameters, bits };
+      }
+
+      // Merge neighbouring partitions for the next (coarser) order
+      if (partitionOrder > 0) {
+        const merged = sums.length / 2;
+        const mergedSums = new Float64Array(merged);
+        const mergedCounts = new Float64Array(merged);
+        for (let p = 0; p < merged; p++) {
+          mergedSums[p] = sums[2 * p] + sums[2 * p + 1];
+          mergedCounts[p] = counts[2 * p] + counts[2 * p + 1];
+        }
+        sums = mergedSums;
+        counts = mergedCounts;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Write the partitioned Rice residual. The first partition is shorter by the predictor order.
+   */
+  private writeResidual(
+    writer: BitWriter,
+    residual: Int32Array,
+    predictorOrder: number,
+    rice: RicePlan
+  ): void {
+    const wide = rice.parameters.some((k) => k > 14);
+    writer.writeBits(wide ? 0b01 : 0b00, 2); // RICE / RICE2
+    writer.writeBits(rice.partitionOrder, 4);
+
+    let start = 0;
+    rice.parameters.forEach((k, p) => {
+      const count = p === 0 ? rice.partitionSize - predictorOrder : rice.partitionSize;
+      writer.writeBits(k, wide ? 5 : 4);
+      for (let i = start; i < start + count; i++) {
+        writer.writeRice(residual[i], k);
+      }
+      start += count;
+    });
+  }
+}
+
+interface RicePlan {
+  partitionOrder: number;
+  partitionSize: number;
+  parameters: number[];
+  bits: number;
+}
+
+/**
+ * Residual of the fixed polynomial predictor, for samples after the warm-up
+ */
+function fixedResidual(samples: Int32Array, order: number): Int32Array {
+  const residual = new Int32Array(samples.length - order);
+  for (let i = order; i < samples.length; i++) {
+    let prediction = 0;
+    switch (order) {
+      case 1:
+        prediction = samples[i - 1];
+        break;
+      case 2:
+        prediction = 2 * samples[i - 1] - samples[i - 2];
+        break;
+      case 3:
+        prediction = 3 * samples[i - 1] - 3 * samples[i - 2] + samples[i - 3];
+        break;
+      case 4:
+        prediction = 4 * samples[i - 1] - 6 * samples[i - 2] + 4 * samples[i - 3] - samples[i - 4];
+        break;
+    }
+    residual[i - order] = samples[i] - prediction;
+  }
+  return residual;
+}
+
+/**
+ * Best Rice parameter for a partition from the sum of its zigzagged residuals.
+ * The cost treats each value as its mean, which is close enough to rank choices.
+ */
+function estimateRiceCost(sum: number, count: number): { parameter: number; cost: number } {
+  if (count === 0) return { parameter: 0, cost: 0 };
+
+  const mean = sum / count;
+  const estimate = mean > 1 ? Math.floor(Math.log2(mean)) : 0;
+  let best = { parameter: 0, cost: Infinity };
+  for (let k = Math.max(0, estimate - 1); k <= Math.min(30, estimate + 1); k++) {
+    const cost = count * (k + 1) + Math.floor(sum / 2 ** k);
+    if (cost < best.cost) best = { parameter: k, cost };
+  }
+  return best;
+}
+
+/** Map signed to unsigned: 0, -1, 1, -2, ... -> 0, 1, 2, 3, ... */
+function zigzag(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+/**
+ * Frame numbers use the UTF-8 style variable-length encoding
+ */
+function encodeUtf8Number(value: number): number[] {
+  if (value < 0x80) return [value];
+
+  const bytes: number[] = [];
+  let remaining = value;
+  let payloadBits = 6;
+  let count = 1;
+  while (remaining >= 2 ** payloadBits) {
+    bytes.unshift(0x80 | (remaining & 0x3f));
+    remaining = Math.floor(remaining / 64);
+    count++;
+    payloadBits = 7 - count;
+  }
+  const prefix = (0xff << (8 - count)) & 0xff;
+  bytes.unshift(prefix | remaining);
+  return bytes;
+}
+
+const CRC8_TABLE = createCrcTable(0x07, 8);
+const CRC16_TABLE = createCrcTable(0x8005, 16);
+
+/**
+ * Table for an MSB-first CRC with the given polynomial
+ */
+function createCrcTable(polynomial: number, width: number): Uint16Array {
+  const topBit = 1 << (width - 1);
+  const mask = (1 << width) - 1;
+  const table = new Uint16Array(256);
+  for (let byte = 0; byte < 256; byte++) {
+    let crc = byte << (width - 8);
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & topBit ? ((crc << 1) ^ polynomial) & mask : (crc << 1) & mask;
+    }
+    table[byte] = crc;
+  }
+  return table;
+}
+
+function crc8(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc = CRC8_TABLE[crc ^ byte];
+  }
+  return crc;
+}
+
+function crc16(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ byte];
+  }
+  return crc;
+}
+
+/**
+ * MSB-first bit writer over a growable byte buffer
+ */
+class BitWriter {
+  private bytes: Uint8Array;
+  private length = 0; // Whole bytes written
+  private accumulator = 0;
+  private pendingBits = 0;
+
+  constructor(initialCapacity: number) {
+    this.bytes = new Uint8Array(initialCapacity);
+  }
+
+  /** Bytes written so far (the writer must be byte-aligned to use this as an offset) */
+  get byteLength(): number {
+    return this.length;
+  }
+
+  /** Write the low `count` bits of an unsigned value (count <= 32) */
+  writeBits(value: number, count: number): void {
+    if (count > 24) {
+      this.writeBits(Math.floor(value / 0x10000), count - 16);
+      this.writeBits(value & 0xffff, 16);
+      return;
+    }
+    // Fill the pending byte a few bits at a time
+    let remaining = count;
+    while (remaining > 0) {
+      const take = Math.min(remaining, 8 - this.pendingBits);
+      remaining -= take;
+      const bits = (value >>> remaining) & ((1 << take) - 1);
+      this.accumulator = (this.accumulator << take) | bits;
+      this.pendingBits += take;
+      if (this.pendingBits === 8) this.flushByte();
+    }
+  }
+
+  /** Write a two's complement value in `count` bits */
+  writeSigned(value: number, count: number): void {
+    this.writeBits(value < 0 ? value + 2 ** count : value, count);
+  }
+
+  /** Rice code: unary quotient, stop bit, then `k` low bits */
+  writeRice(value: number, k: number): void {
+    const unsigned = zigzag(value);
+    let quotient = Math.floor(unsigned / 2 ** k);
+    while (quotient >= 24) {
+      this.writeBits(0, 24);
+      quotient -= 24;
+    }
+    this.writeBits(1, quotient + 1);
+    if (k > 0) this.writeBits(unsigned % 2 ** k, k);
+  }
+
+  writeBytes(values: ArrayLike<number>): void {
+    for (let i = 0; i < values.length; i++) this.writeBits(values[i], 8);
+  }
+
+  alignToByte(): void {
+    if (this.pendingBits > 0) this.writeBits(0, 8 - this.pendingBits);
+  }
+
+  /** View of the bytes written since `start` (call when byte-aligned) */
+  bytesFrom(start: number): Uint8Array {
+    return this.bytes.subarray(start, this.length);
+  }
+
+  patchUint24(offset: number, value: number): void {
+    this.bytes[offset] = (value >> 16) & 0xff;
+    this.bytes[offset + 1] = (value >> 8) & 0xff;
+    this.bytes[offset + 2] = value & 0xff;
+  }
+
+  toArrayBuffer(): ArrayBuffer {
+    this.alignToByte();
+    return this.bytes.slice(0, this.length).buffer;
+  }
+
+  private flushByte(): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = this.accumulator & 0xff;
+    this.accumulator = 0;
+    this.pendingBits = 0;
+  }
+}
+
+// Singleton instance
+export const flacEncoder = new FlacEncoder();
@@ -0,0 +1,534 @@
+/**
+ * Loudness Analyzer
+ *
+ * EBU R128 / ITU-R BS.1770-4 loudness measurement of WAV audio:
+ * - Integrated loudness (gated, LUFS)
+ * - Momentary (400ms) and short-term (3s) loudness curves
+ * - Loudness range (LRA, LU)
+ * - True peak (4x oversampled, dBTP)
+ *
+ * Performance notes:
+ * - Single streaming pass over the PCM data, no intermediate float buffers
+ * - Long files can be measured straight from disk with analyzeStream()
+ * - Everything is accumulated in 100ms blocks; the curves are derived from them
+ * - True-peak interpolation is skipped where the signal is below -12 dBFS
+ *   (band-limited audio can't produce inter-sample overs that large)
+ */
+
+import { logger } from '../lib/logger';
+import { audioChunker, WavInfo } from './audio-chunker';
+import { readPcmSample } from '../utils/audio-envelope';
+import { AUDIO_CONFIG } from '../config/audio-config';
+import type { WavStreamReader } from './wav-stream-reader';
+
+/** Level reported for digital silence so results never contain -Infinity */
+export const LOUDNESS_FLOOR_LUFS = -100;
+
+export type LoudnessFlagKind = 'loudness' | 'true-peak';
+
+/**
+ * A passage that exceeds one of the configured ceilings.
+ */
+export interface LoudnessFlag {
+  kind: LoudnessFlagKind;
+  start: number; // Seconds
+  end: number; // Seconds
+  peak: number; // Highest short-term LUFS or dBTP within the passage
+}
+
+export interface LoudnessAnalysis {
+  integratedLufs: number;
+  loudnessRange: number; // LU
+  truePeakDbtp: number;
+  samplePeakDbfs: number;
+  /** Curve step in seconds. Value i covers the window starting at i * curveStepSeconds */
+  curveStepSeconds: number;
+  momentary: Float32Array; // 400ms windows, LUFS
+  shortTerm: Float32Array; // 3s windows, LUFS
+  duration: number;
+  flags: LoudnessFlag[];
+}
+
+export interface LoudnessAnalysisOptions {
+  maxShortTermLufs?: number; // Flag passages louder than this (short-term)
+  maxTruePeakDbtp?: number; // Flag passages whose true peak exceeds this
+}
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+const BLOCK_SECONDS = 0.1;
+const MOMENTARY_BLOCKS = 4; // 400ms
+const SHORT_TERM_BLOCKS = 30; // 3s
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10; // Integrated loudness
+const LRA_RELATIVE_GATE_LU = -20;
+const OVERSAMPLING = 4;
+const TAPS_PER_PHASE = 12;
+const TRUE_PEAK_SKIP_LEVEL = 0.25; // -12 dBFS
+
+/** Filter state and per-block results carried across the windows of one pass */
+interface LoudnessScan {
+  wavInfo: WavInfo;
+  totalFrames: number;
+  framesPerBlock: number;
+  shelf: Biquad;
+  highPass: Biquad;
+  weights: number[];
+  state: Float64Array[];
+  history: Float64Array[];
+  historyIndex: number;
+  blockPower: Float64Array; // Weighted mean square per 100ms block
+  blockTruePeak: Float32Array; // Linear true peak per 100ms block
+  samplePeak: number;
+}
+
+/**
+ * Service for measuring programme loudness against delivery specs.
+ */
+export class LoudnessAnalyzer {
+  private readonly DEFAULT_MAX_SHORT_TERM_LUFS = -9;
+  private readonly DEFAULT_MAX_TRUE_PEAK_DBTP = -1;
+
+  /** Polyphase interpolation filter, built once */
+  private readonly interpolationFilter = this.createInterpolationFilter();
+
+  /**
+   * Analyze a WAV buffer.
+   *
+   * @param buffer - WAV audio (e.g. from AudioExtractor.extractFromTimeline)
+   * @param options - Ceilings used to flag passages
+   * @throws SpliceError if the buffer is not a valid WAV file
+   */
+  analyze(buffer: ArrayBuffer, options: LoudnessAnalysisOptions = {}): LoudnessAnalysis {
+    const wavInfo = audioChunker.getWavInfo(buffer);
+    const blockAlign = (wavInfo.bitsPerSample / 8) * wavInfo.channels;
+    const dataEnd = Math.min(wavInfo.dataOffset + wavInfo.dataSize, buffer.byteLength);
+    const totalFrames = Math.max(0, Math.floor((dataEnd - wavInfo.dataOffset) / blockAlign));
+
+    const scan = this.createScan(wavInfo, totalFrames);
+    this.measureBlocks(scan, new DataView(buffer), wavInfo.dataOffset, 0, scan.blockPower.length);
+    return this.finishScan(scan, options);
+  }
+
+  /**
+   * Analyze a WAV file streamed from disk, one window at a time.
+   * Gives the same result as analyze() on the whole file.
+   *
+   * @param reader - Reader over the file (e.g. from AudioExtractor.openTimelineStream)
+   * @param options - Ceilings used to flag passages
+   */
+  async analyzeStream(
+    reader: WavStreamReader,
+    options: LoudnessAnalysisOptions = {}
+  ): Promise<LoudnessAnalysis> {
+    const scan = this.createScan(reader.info, reader.totalFrames);
+    const blockBytes = scan.framesPerBlock * reader.blockAlign;
+    const blocksPerWindow = Math.max(1, Math.floor(AUDIO_CONFIG.STREAM_WINDOW_BYTES / blockBytes));
+
+    // Windows hold whole blocks, so filter and peak state simply carries over
+    for await (const window of reader.windows(blocksPerWindow * scan.framesPerBlock)) {
+      const firstBlock = window.startFrame / scan.framesPerBlock;
+      const blockCount = Math.min(
+        Math.floor(window.frameCount / scan.framesPerBlock),
+        scan.blockPower.length - firstBlock
+      );
+      this.measureBlocks(scan, window.view, 0, firstBlock, blockCount);
+    }
+    return this.finishScan(scan, options);
+  }
+
+  private createScan(wavInfo: WavInfo, totalFrames: number): LoudnessScan {
+    const { sampleRate, channels } = wavInfo;
+    const framesPerBlock = Math.round(BLOCK_SECONDS * sampleRate);
+    // A trailing partial block (<100ms) is not measured
+    const blockCount = Math.floor(totalFrames / framesPerBlock);
+    const [shelf, highPass] = this.createKWeightingFilters(sampleRate);
+
+    return {
+      wavInfo,
+      totalFrames,
+      framesPerBlock,
+      shelf,
+      highPass,
+      weights: this.getChannelWeights(channels),
+      // Per-channel filter state: [x1, x2, y1, y2] for each of the two stages
+      state: Array.from({ length: channels }, () => new Float64Array(8)),
+      // Per-channel history for true-peak interpolation
+      history: Array.from({ length: channels }, () => new Float64Array(TAPS_PER_PHASE)),
+      historyIndex: 0,
+      blockPower: new Float64Array(blockCount),
+      blockTruePeak: new Float32Array(blockCount),
+      samplePeak: 0,
+    };
+  }
+
+  /**
+   * Filter and measure consecutive 100ms blocks.
+   *
+   * @param view - PCM data holding the blocks
+   * @param byteOffset - Offset of the first block's first frame in the view
+   * @param firstBlock - Index of the first block in the whole file
+   * @param blockCount - Number of blocks to measure
+   */
+  private measureBlocks(
+    scan: LoudnessScan,
+    view: DataView,
+    byteOffset: number,
+    firstBlock: number,
+    blockCount: number
+  ): void {
+    const { channels, bitsPerSample, sampleFormat } = scan.wavInfo;
+    const { framesPerBlock, shelf, highPass, weights, state, history } = scan;
+    const { blockPower, blockTruePeak } = scan;
+    const bytesPerSample = bitsPerSample / 8;
+    const blockAlign = bytesPerSample * channels;
+
+    for (let block = firstBlock; block < firstBlock + blockCount; block++) {
+      const channelSums = new Float64Array(channels);
+      let blockPeak = 0;
+
+      for (let f = 0; f < framesPerBlock; f++) {
+        const frameOffset = byteOffset + ((block - firstBlock) * framesPerBlock + f) * blockAlign;
+        scan.historyIndex = (scan.historyIndex + 1) % TAPS_PER_PHASE;
+
+        for (let ch = 0; ch < channels; ch++) {
+          const x = readPcmSample(
+            view,
+            frameOffset + ch * bytesPerSample,
+            bitsPerSample,
+            sampleFormat
+          );
+          const s = state[ch];
+
+          // Stage 1: high shelf
+          const y1 =
+            shelf.b0 * x + shelf.b1 * s[0] + shelf.b2 * s[1] - shelf.a1 * s[2] - shelf.a2 * s[3];
+          s[1] = s[0];
+          s[0] = x;
+          s[3] = s[2];
+          s[2] = y1;
+
+          // Stage 2: high pass
+          const y2 =
+            highPass.b0 * y1 +
+            highPass.b1 * s[4] +
+            highPass.b2 * s[5] -
+            highPass.a1 * s[6] -
+            highPass.a2 * s[7];
+          s[5] = s[4];
+          s[4] = y1;
+          s[7] = s[6];
+          s[6] = y2;
+
+          channelSums[ch] += y2 * y2;
+
+          // Peaks
+          const h = history[ch];
+          h[scan.historyIndex] = x;
+          const abs = Math.abs(x);
+          if (abs > blockPeak) blockPeak = abs;
+          if (abs > scan.samplePeak) scan.samplePeak = abs;
+          // Interpolated values lag the input by half the filter length
+          const interpolated = this.interpolatePeak(h, scan.historyIndex);
+          if (f < TAPS_PER_PHASE / 2 && block > 0) {
+            if (interpolated > blockTruePeak[block - 1]) blockTruePeak[block - 1] = interpolated;
+          } else if (interpolated > blockPeak) {
+            blockPeak = interpolated;
+          }
+        }
+      }
+
+      let power = 0;
+      for (let ch = 0; ch < channels; ch++) {
+        power += weights[ch] * (channelSums[ch] / framesPerBlock);
+      }
+      blockPower[block] = power;
+      blockTruePeak[block] = blockPeak;
+    }
+  }
+
+  /**
+   * Derive the loudness curves, totals and flags from the measured blocks.
+   */
+  private finishScan(scan: LoudnessScan, options: LoudnessAnalysisOptions): LoudnessAnalysis {
+    const {
+      maxShortTermLufs = this.DEFAULT_MAX_SHORT_TERM_LUFS,
+      maxTruePeakDbtp = this.DEFAULT_MAX_TRUE_PEAK_DBTP,
+    } = options;
+    const { blockPower, blockTruePeak } = scan;
+
+    let truePeak = 0;
+    for (const peak of blockTruePeak) {
+      if (peak > truePeak) truePeak = peak;
+    }
+
+    const momentary = this.windowedLoudness(blockPower, MOMENTARY_BLOCKS);
+    const shortTerm = this.windowedLoudness(blockPower, SHORT_TERM_BLOCKS);
+    const integratedLufs = this.integratedLoudness(blockPower);
+    const loudnessRange = this.loudnessRange(shortTerm);
+
+    const flags = [
+      ...this.findLoudPassages(shortTerm, maxShortTermLufs),
+      ...this.findTruePeakPassages(blockTruePeak, maxTruePeakDbtp),
+    ].sort((a, b) => a.start - b.start);
+
+    const analysis: LoudnessAnalysis = {
+      integratedLufs,
+      loudnessRange,
+      truePeakDbtp: this.toDb(truePeak),
+      samplePeakDbfs: this.toDb(scan.samplePeak),
+      curveStepSeconds: BLOCK_SECONDS,
+      momentary,
+      shortTerm,
+      duration: scan.totalFrames / scan.wavInfo.sampleRate,
+      flags,
+    };
+
+    logger.info(
+      `Loudness: ${integratedLufs.toFixed(1)} LUFS integrated, LRA ${loudnessRange.toFixed(1)} LU, ` +
+        `true peak ${analysis.truePeakDbtp.toFixed(1)} dBTP, ${flags.length} flagged passages`
+    );
+
+    return analysis;
+  }
+
+  /**
+   * Generate plausible mock analysis for development outside Premiere
+   */
+  createMockAnalysis(duration: number): LoudnessAnalysis {
+    const points = Math.floor(duration / BLOCK_SECONDS);
+    const momentary = new Float32Array(points).map(() => -18 + Math.random() * 8 - 4);
+    const shortTerm = new Float32Array(points).map(() => -18 + Math.random() * 4 - 2);
+
+    return {
+      integratedLufs: -18,
+      loudnessRange: 6,
+      truePeakDbtp: -2.5,
+      samplePeakDbfs: -3,
+      curveStepSeconds: BLOCK_SECONDS,
+      momentary,
+      shortTerm,
+      duration,
+      flags: [],
+    };
+  }
+
+  /**
+   * K-weighting pre-filter (BS.1770-4), computed for any sample rate.
+   * Same bilinear-transform design as libebur128; at 48kHz it reproduces the
+   * coefficients published in the standard.
+   */
+  private createKWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+    // Stage 1: high shelf (+4dB above ~1.7kHz)
+    let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+    let Q = 0.7071752369554196;
+    const Vh = Math.pow(10, 3.999843853973347 / 20);
+    const Vb = Math.pow(Vh, 0.4996667741545416);
+    let a0 = 1 + K / Q + K * K;
+    const shelf: Biquad = {
+      b0: (Vh + (Vb * K) / Q + K * K) / a0,
+      b1: (2 * (K * K - Vh)) / a0,
+      b2: (Vh - (Vb * K) / Q + K * K) / a0,
+      a1: (2 * (K * K - 1)) / a0,
+      a2: (1 - K / Q + K * K) / a0,
+    };
+
+    // Stage 2: high pass (~38Hz)
+    K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+    Q = 0.5003270373238773;
+    a0 = 1 + K / Q + K * K;
+    const highPass: Biquad = {
+      b0: 1,
+      b1: -2,
+      b2: 1,
+      a1: (2 * (K * K - 1)) / a0,
+      a2: (1 - K / Q + K * K) / a0,
+    };
+
+    return [shelf, highPass];
+  }
+
+  /**
+   * Channel weights: surround channels count +1.5dB, LFE is excluded (5.1 layout)
+   */
+  private getChannelWeights(channels: number): number[] {
+    if (channels === 6) {
+      return [1, 1, 1, 0, 1.41, 1.41];
+    }
+    return new Array(channels).fill(1);
+  }
+
+  /**
+   * Windowed-sinc interpolation filter for 4x oversampling.
+   * Coefficient j belongs to phase j % 4; the center tap reproduces the input sample.
+   */
+  private createInterpolationFilter(): Float64Array {
+    const length = OVERSAMPLING * TAPS_PER_PHASE;
+    const center = length / 2;
+    const filter = new Float64Array(length);
+    for (let j = 0; j < length; j++) {
+      const t = (j - center) / OVERSAMPLING;
+      const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t);
+      const window = 0.5 * (1 - Math.cos((2 * Math.PI * j) / length));
+      filter[j] = sinc * window;
+    }
+    return filter;
+  }
+
+  /**
+   * Largest absolute interpolated value between the two history samples
+   * at the filter center. Returns 0 when the signal there is too quiet to matter.
+   */
+  private interpolatePeak(history: Float64Array, newest: number): number {
+    const half = TAPS_PER_PHASE / 2;
+    const a = history[(newest - half + 1 + TAPS_PER_PHASE) % TAPS_PER_PHASE];
+    const b = history[(newest - half + TAPS_PER_PHASE) % TAPS_PER_PHASE];
+    if (Math.abs(a) < TRUE_PEAK_SKIP_LEVEL && Math.abs(b) < TRUE_PEAK_SKIP_LEVEL) {
+      return 0;
+    }
+
+    let peak = 0;
+    for (let phase = 1; phase < OVERSAMPLING; phase++) {
+      let sum = 0;
+      for (let k = 0; k < TAPS_PER_PHASE; k++) {
+        sum +=
+          this.interpolationFilter[phase + OVERSAMPLING * k] *
+          history[(newest - k + TAPS_PER_PHASE) % TAPS_PER_PHASE];
+      }
+      const abs = Math.abs(sum);
+      if (abs > peak) peak = abs;
+    }
+    return peak;
+  }
+
+  /**
+   * Loudness of sliding windows of `size` blocks, one value per block step
+   */
+  private windowedLoudness(blockPower: Float64Array, size: number): Float32Array {
+    const count = Math.max(0, blockPower.length - size + 1);
+    const curve = new Float32Array(count);
+    let sum = 0;
+    for (let i = 0; i < blockPower.length; i++) {
+      sum += blockPower[i];
+      if (i >= size) sum -= blockPower[i - size];
+      if (i >= size - 1) curve[i - size + 1] = this.powerToLufs(sum / size);
+    }
+    return curve;
+  }
+
+  /**
+   * Two-stage gated integrated loudness over 400ms blocks with 75% overlap
+   */
+  private integratedLoudness(blockPower: Float64Array): number {
+    const gatingBlocks: number[] = [];
+    for (let i = 0; i + MOMENTARY_BLOCKS <= blockPower.length; i++) {
+      let sum = 0;
+      for (let k = 0; k < MOMENTARY_BLOCKS; k++) sum += blockPower[i + k];
+      gatingBlocks.push(sum / MOMENTARY_BLOCKS);
+    }
+
+    const aboveAbsolute = gatingBlocks.filter((p) => this.powerToLufs(p) > ABSOLUTE_GATE_LUFS);
+    if (aboveAbsolute.length === 0) return LOUDNESS_FLOOR_LUFS;
+
+    const relativeGate = this.powerToLufs(this.mean(aboveAbsolute)) + RELATIVE_GATE_LU;
+    const aboveRelative = aboveAbsolute.filter((p) => this.powerToLufs(p) > relativeGate);
+    if (aboveRelative.length === 0) return LOUDNESS_FLOOR_LUFS;
+
+    return this.powerToLufs(this.mean(aboveRelative));
+  }
+
+  /**
+   * Loudness range (EBU Tech 3342): spread between the 10th and 95th percentile
+   * of gated short-term loudness
+   */
+  private loudnessRange(shortTerm: Float32Array): number {
+    const aboveAbsolute = Array.from(shortTerm).filter((l) => l > ABSOLUTE_GATE_LUFS);
+    if (aboveAbsolute.length === 0) return 0;
+
+    const meanPower = this.mean(aboveAbsolute.map((l) => Math.pow(10, (l + 0.691) / 10)));
+    const relativeGate = this.powerToLufs(meanPower) + LRA_RELATIVE_GATE_LU;
+    const gated = aboveAbsolute.filter((l) => l > relativeGate).sort((a, b) => a - b);
+    if (gated.length === 0) return 0;
+
+    const percentile = (p: number) =>
+      gated[Math.min(gated.length - 1, Math.round(p * (gated.length - 1)))];
+    return percentile(0.95) - percentile(0.1);
+  }
+
+  /**
+   * Merge windows whose short-term loudness exceeds the ceiling into passages
+   */
+  private findLoudPassages(shortTerm: Float32Array, ceiling: number): LoudnessFlag[] {
+    const windowSeconds = SHORT_TERM_BLOCKS * BLOCK_SECONDS;
+    return this.mergeFlagged(
+      'loudness',
+      shortTerm,
+      ceiling,
+      (i) => i * BLOCK_SECONDS,
+      (i) => i * BLOCK_SECONDS + windowSeconds
+    );
+  }
+
+  /**
+   * Merge 100ms blocks whose true peak exceeds the ceiling into passages
+   */
+  private findTruePeakPassages(blockTruePeak: Float32Array, ceilingDbtp: number): LoudnessFlag[] {
+    const peaksDb = blockTruePeak.map((p) => this.toDb(p));
+    return this.mergeFlagged(
+      'true-peak',
+      peaksDb,
+      ceilingDbtp,
+      (i) => i * BLOCK_SECONDS,
+      (i) => (i + 1) * BLOCK_SECONDS
+    );
+  }
+
+  private mergeFlagged(
+    kind: LoudnessFlagKind,
+    values: Float32Array,
+    ceiling: number,
+    startOf: (index: number) => number,
+    endOf: (index: number) => number
+  ): LoudnessFlag[] {
+    const flags: LoudnessFlag[] = [];
+    let current: LoudnessFlag | null = null;
+
+    for (let i = 0; i < values.length; i++) {
+      if (values[i] <= ceiling) continue;
+
+      const start = startOf(i);
+      if (current && start <= current.end) {
+        current.end = endOf(i);
+        current.peak = Math.max(current.peak, values[i]);
+      } else {
+        current = { kind, start, end: endOf(i), peak: values[i] };
+        flags.push(current);
+      }
+    }
+
+    return flags;
+  }
+
+  private powerToLufs(power: number): number {
+    if (power <= 0) return LOUDNESS_FLOOR_LUFS;
+    return Math.max(LOUDNESS_FLOOR_LUFS, -0.691 + 10 * Math.log10(power));
+  }
+
+  private toDb(linear: number): number {
+    if (linear <= 0) return LOUDNESS_FLOOR_LUFS;
+    return Math.max(LOUDNESS_FLOOR_LUFS, 20 * Math.log10(linear));
+  }
+
+  private mean(values: number[]): number {
+    return values.reduce((sum, v) => sum + v, 0) / values.length;
+  }
+}
+
+// Singleton instance
+export const loudnessAnalyzer = new LoudnessAnalyzer();
@@ -0,0 +1,131 @@
+import { logger } from '../lib/logger';
+import type { SilentSection } from './silence-detector';
+
+/** Prefix of the payload line in a review marker's comments */
+const PAYLOAD_PREFIX = 'splice-review:';
+
+/** Machine-readable part of a review marker, stored as JSON in its comments */
+export interface ReviewMarkerPayload {
+  v: 1;
+  type: 'silence' | 'take';
+  id: string; // Section number, or groupId:takeNumber for takes
+  confidence: number;
+  start: number; // Sequence seconds
+  end: number;
+  isNatural?: boolean; // Silence only
+}
+
+/** A marker to write for one detected candidate */
+export interface ReviewMarkerSpec {
+  name: string;
+  time: number;
+  duration: number;
+  color: MarkerColor;
+  comments: string;
+}
+
+/**
+ * Lets editors review detections in Premiere instead of the panel.
+ *
+ * Each candidate (a silent section or a take) becomes a sequence marker
+ * spanning its range. The comments hold a readable summary followed by a
+ * `splice-review:{...}` JSON line, so the markers the editor leaves in place
+ * can be read back and applied. Deleting a marker rejects its candidate.
+ * Silence markers are red; take markers are green for the best take and
+ * yellow for the others.
+ */
+export class ReviewMarkerService {
+  /**
+   * Markers for detected silent sections
+   */
+  fromSections(sections: SilentSection[]): ReviewMarkerSpec[] {
+    return sections.map((section, i) =>
+      this.toSpec(`Splice: cut ${section.duration.toFixed(2)}s`, 'red', {
+        v: 1,
+        type: 'silence',
+        id: String(i + 1),
+        confidence: section.confidence,
+        start: section.start,
+        end: section.end,
+        isNatural: section.isNatural,
+      })
+    );
+  }
+
+  /**
+   * Markers for selected takes; the best take of each group is green
+   */
+  fromTakes(takes: NormalizedTake[]): ReviewMarkerSpec[] {
+    return takes.map((take) =>
+      this.toSpec(
+        `Splice: ${take.clipName}${take.isBest ? ' (best)' : ''}`,
+        take.isBest ? 'green' : 'yellow',
+        {
+          v: 1,
+          type: 'take',
+          id: this.getTakeId(take),
+          confidence: take.confidence.overall,
+          start: take.start,
+          end: take.end,
+        }
+      )
+    );
+  }
+
+  /**
+   * Read the payload from a marker's comments.
+   * Returns null for markers Splice did not write, or whose payload was edited beyond repair.
+   */
+  decode(comments: string | undefined): ReviewMarkerPayload | null {
+    const line = (comments ?? '').split(/\r?\n/).find((l) => l.trim().startsWith(PAYLOAD_PREFIX));
+    if (!line) return null;
+
+    try {
+      const payload = JSON.parse(line.trim().slice(PAYLOAD_PREFIX.length));
+      if (
+        (payload.type !== 'silence' && payload.type !== 'take') ||
+        typeof payload.id !== 'string' ||
+        !Number.isFinite(payload.start) ||
+        !Number.isFinite(payload.end) ||
+        payload.end <= payload.start
+      ) {
+        return null;
+      }
+      return payload as ReviewMarkerPayload;
+    } catch (error) {
+      logger.warn('Ignoring review marker with unreadable payload', error);
+      return null;
+    }
+  }
+
+  /**
+   * Silent section described by a silence marker
+   */
+  toSection(payload: ReviewMarkerPayload): SilentSection {
+    return {
+      start: payload.start,
+      end: payload.end,
+      duration: payload.end - payload.start,
+      isNatural: payload.isNatural ?? false,
+      confidence: payload.confidence,
+    };
+  }
+
+  getTakeId(take: NormalizedTake): string {
+    return `${take.groupId}:${take.takeNumber}`;
+  }
+
+  private toSpec(name: string, color: MarkerColor, payload: ReviewMarkerPayload): ReviewMarkerSpec {
+    const summary = `${payload.type === 'silence' ? 'Silence' : 'Take'} ${payload.start.toFixed(2)}s - ${payload.end.toFixed(2)}s, ${Math.round(payload.confidence * 100)}% confidence. Delete this marker to reject it.`;
+    return {
+      name,
+      time: payload.start,
+      duration: payload.end - payload.start,
+      color,
+      comments: `${summary}\n${PAYLOAD_PREFIX}${JSON.stringify(payload)}`,
+    };
+  }
+}
+
+// Singleton instance
+export const reviewMarkers = new ReviewMarkerService();
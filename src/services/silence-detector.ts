@@ -1,5 +1,19 @@
 import { logger } from '../lib/logger';
 import { aiServices } from '../api/ai-services';
+import { audioChunker } from './audio-chunker';
+import {
+  computeEnergyEnvelope,
+  computeEnergyEnvelopeStream,
+  EnergyEnvelope,
+} from '../utils/audio-envelope';
+import type { WavStreamReader } from './wav-stream-reader';
+
+/**
+ * Which signal placed a section boundary.
+ * - 'transcript': Whisper token timestamp
+ * - 'energy': measured speech onset/offset in the audio envelope
+ */
+export type BoundarySource = 'transcript' | 'energy';
 
 /**
  * Represents a detected silent section in the timeline.
@@ -10,6 +24,9 @@ export interface SilentSection {
   duration: number; // Gap duration in seconds
   isNatural: boolean; // True if LLM determines this is a natural pause
   confidence: number; // 0-1 confidence in the classification
+  boundarySource?: { start: BoundarySource; end: BoundarySource }; // Hybrid mode only
+  precedingText?: string; // Transcribed words just before the section, for review
+  followingText?: string; // Transcribed words just after the section, for review
 }
 
 interface Gap {
@@ -18,28 +35,55 @@ interface Gap {
   duration: number;
   precedingText?: string;
   followingText?: string;
+  // Original token boundaries, kept for AI matching after energy refinement
+  tokenStart?: number;
+  tokenEnd?: number;
+  // Outer limits for refinement: start of the preceding token, end of the following one
+  precedingStart?: number;
+  followingEnd?: number;
+  boundarySource?: { start: BoundarySource; end: BoundarySource };
 }
 
+/**
+ * Detection strategy:
+ * - 'transcription': gaps between Whisper words, classified by AI or heuristics (needs network)
+ * - 'energy': windowed RMS of the WAV compared against thresholdDb (fully local/offline)
+ * - 'hybrid': transcription gaps with each edge snapped to the measured speech onset/offset
+ */
+export type SilenceDetectionMode = 'transcription' | 'energy' | 'hybrid';
+
 interface DetectionOptions {
-  audioBuffer: ArrayBuffer;
-  thresholdDb?: number; // Not used with transcription-based detection
+  audioBuffer: ArrayBuffer | WavStreamReader; // A reader is analyzed and uploaded from disk
+  mode?: SilenceDetectionMode;
+  thresholdDb?: number; // RMS level (dBFS) below which audio counts as silent (energy/hybrid)
   useVoiceIsolation?: boolean;
   useAIAnalysis?: boolean;
   minGapDuration?: number; // Minimum gap to consider (seconds)
+  onTranscription?: (result: WhisperTranscriptionResult) => void; // Reuse words without re-transcribing
 }
 
 /**
  * Detects silence/gaps in audio using transcription and AI analysis.
  *
- * Pipeline:
+ * Pipeline (transcription mode):
  * 1. (Optional) Voice isolation for cleaner transcription
  * 2. Transcribe with word-level timestamps
  * 3. Find gaps between words
  * 4. Use LLM to classify gaps as natural vs cuttable
+ *
+ * Energy mode skips all of the above and measures the WAV directly,
+ * so it works offline and for users without transcription minutes.
+ * Hybrid mode runs the transcription pipeline but moves each gap edge onto
+ * the real speech offset/onset found in the signal envelope.
  */
 export class SilenceDetector {
   private readonly DEFAULT_MIN_GAP = 0.3; // 300ms minimum
   private readonly MAX_NATURAL_GAP = 1.5; // 1.5s heuristic threshold
+  private readonly DEFAULT_THRESHOLD_DB = -40;
+  private readonly ENERGY_WINDOW_SECONDS = 0.01; // 10ms analysis windows
+  private readonly MIN_SPEECH_BURST = 0.05; // Louder blips shorter than this don't split silence
+  private readonly MAX_BOUNDARY_SHIFT = 0.5; // Max distance (s) an edge may move from its token
+  private readonly HYBRID_MIN_TOKEN_GAP = 0.1; // Token gaps this small may hide a longer silence
 
   /**
    * Main entry point for silence detection.
@@ -47,6 +91,8 @@ export class SilenceDetector {
   async detectSilence(options: DetectionOptions): Promise<SilentSection[]> {
     const {
       audioBuffer,
+      mode = 'transcription',
+      thresholdDb = this.DEFAULT_THRESHOLD_DB,
       useVoiceIsolation = false,
       useAIAnalysis = true,
       minGapDuration = this.DEFAULT_MIN_GAP,
@@ -54,17 +100,30 @@ export class SilenceDetector {
 
     logger.info('Starting silence detection', {
       bufferSize: audioBuffer.byteLength,
+      mode,
       useVoiceIsolation,
       useAIAnalysis,
     });
 
+    if (mode === 'energy') {
+      if (useVoiceIsolation) {
+        logger.info('Voice isolation is skipped in energy mode (no network calls)');
+      }
+      return await this.detectFromEnergy(audioBuffer, thresholdDb, minGapDuration);
+    }
+
     try {
       // Step 1: Optional voice isolation
-      let processedAudio = audioBuffer;
+      let processedAudio: ArrayBuffer | WavStreamReader = audioBuffer;
       if (useVoiceIsolation) {
         logger.info('Applying voice isolation...');
         try {
-          const isolated = await aiServices.isolateVoice(audioBuffer);
+          // Isolation takes the whole file in one request, so a reader is read in full
+          const isolated = await aiServices.isolateVoice(
+            audioBuffer instanceof ArrayBuffer
+              ? audioBuffer
+              : await audioBuffer.readBytes(0, audioBuffer.byteLength)
+          );
           processedAudio = isolated.vocals;
           logger.info('Voice isolation complete');
         } catch (error) {
@@ -75,19 +134,40 @@ export class SilenceDetector {
       // Step 2: Transcribe with word-level timestamps
       logger.info('Transcribing audio with timestamps...');
       const transcription = await aiServices.transcribeWithTimestamps(processedAudio);
+      options.onTranscription?.(transcription);
+
+      // Hybrid: measure the original (non-isolated) WAV for boundary refinement
+      const envelope = mode === 'hybrid' ? await this.tryComputeEnvelope(audioBuffer) : null;
 
       if (!transcription.words || transcription.words.length === 0) {
         logger.warn('No words in transcription, checking segments');
         // Fall back to segment-based detection
         if (transcription.segments && transcription.segments.length > 0) {
-          return this.detectFromSegments(transcription.segments, minGapDuration, useAIAnalysis);
+          return this.detectFromSegments(
+            transcription.segments,
+            minGapDuration,
+            useAIAnalysis,
+            envelope,
+            thresholdDb
+          );
         }
         logger.warn('No transcription data available');
         return [];
       }
 
       // Step 3: Find gaps between words
-      const gaps = this.findGapsFromWords(transcription.words, minGapDuration);
+      let gaps: Gap[];
+      if (envelope) {
+        // Whisper stretches words across trailing silence, so consider smaller token gaps
+        // and let the measured envelope decide the real duration
+        const tokenGaps = this.findGapsFromWords(
+          transcription.words,
+          Math.min(minGapDuration, this.HYBRID_MIN_TOKEN_GAP)
+        );
+        gaps = this.refineGapsWithEnvelope(tokenGaps, envelope, thresholdDb, minGapDuration);
+      } else {
+        gaps = this.findGapsFromWords(transcription.words, minGapDuration);
+      }
       logger.info(`Found ${gaps.length} gaps above ${minGapDuration}s threshold`);
 
       if (gaps.length === 0) {
@@ -115,6 +195,235 @@ export class SilenceDetector {
     }
   }
 
+  /**
+   * Detect silence locally from the signal energy of the WAV buffer or file.
+   * Every region quieter than the threshold for at least minDuration is cuttable.
+   */
+  private async detectFromEnergy(
+    audioBuffer: ArrayBuffer | WavStreamReader,
+    thresholdDb: number,
+    minDuration: number
+  ): Promise<SilentSection[]> {
+    try {
+      const envelope = await this.computeEnvelope(audioBuffer);
+
+      const sections = this.findQuietRegions(envelope, thresholdDb, minDuration);
+      logger.info(
+        `Energy detection found ${sections.length} sections below ${thresholdDb}dB (min ${minDuration}s)`
+      );
+
+      return sections;
+    } catch (error) {
+      logger.error('Energy-based silence detection failed', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Group consecutive below-threshold windows into silent sections.
+   * Short louder blips (clicks, mouth noise) are bridged so they don't split a pause.
+   */
+  private findQuietRegions(
+    envelope: EnergyEnvelope,
+    thresholdDb: number,
+    minDuration: number
+  ): SilentSection[] {
+    const { db, windowSeconds, duration } = envelope;
+    const maxBurstWindows = Math.round(this.MIN_SPEECH_BURST / windowSeconds);
+
+    // Collect raw runs of quiet windows as [startIndex, endIndex)
+    const runs: Array<[number, number]> = [];
+    let runStart = -1;
+    for (let i = 0; i <= db.length; i++) {
+      const quiet = i < db.length && db[i] < thresholdDb;
+      if (quiet && runStart === -1) {
+        runStart = i;
+      } else if (!quiet && runStart !== -1) {
+        const previous = runs[runs.length - 1];
+        if (previous && runStart - previous[1] <= maxBurstWindows) {
+          previous[1] = i;
+        } else {
+          runs.push([runStart, i]);
+        }
+        runStart = -1;
+      }
+    }
+
+    const sections: SilentSection[] = [];
+    for (const [startIndex, endIndex] of runs) {
+      const start = startIndex * windowSeconds;
+      const end = Math.min(endIndex * windowSeconds, duration);
+      const sectionDuration = end - start;
+      if (sectionDuration < minDuration) continue;
+
+      let sumDb = 0;
+      for (let i = startIndex; i < endIndex; i++) {
+        sumDb += db[i];
+      }
+      const meanDb = sumDb / (endIndex - startIndex);
+
+      // Deeper below the threshold = more certain this is real silence
+      const confidence = Math.min(0.99, Math.max(0.5, 0.5 + (thresholdDb - meanDb) / 40));
+
+      sections.push({
+        start,
+        end,
+        duration: sectionDuration,
+        isNatural: false,
+        confidence,
+      });
+    }
+
+    return sections;
+  }
+
+  /**
+   * Energy envelope of a buffer, or of a file streamed from disk window by window
+   */
+  private async computeEnvelope(
+    audioBuffer: ArrayBuffer | WavStreamReader
+  ): Promise<EnergyEnvelope> {
+    if (!(audioBuffer instanceof ArrayBuffer)) {
+      return computeEnergyEnvelopeStream(audioBuffer, this.ENERGY_WINDOW_SECONDS);
+    }
+    const wavInfo = audioChunker.getWavInfo(audioBuffer);
+    return computeEnergyEnvelope(audioBuffer, wavInfo, this.ENERGY_WINDOW_SECONDS);
+  }
+
+  /**
+   * Compute the energy envelope for hybrid refinement.
+   * Returns null (transcript-only boundaries) if the buffer can't be analyzed.
+   */
+  private async tryComputeEnvelope(
+    audioBuffer: ArrayBuffer | WavStreamReader
+  ): Promise<EnergyEnvelope | null> {
+    try {
+      return await this.computeEnvelope(audioBuffer);
+    } catch (error) {
+      logger.warn('Could not analyze audio energy, using transcript boundaries only', error);
+      return null;
+    }
+  }
+
+  /**
+   * Move each gap edge from its token timestamp onto the measured speech offset/onset.
+   *
+   * The quiet stretch inside the token gap is grown outwards (bridging short blips)
+   * until speech energy is found. An edge only moves if speech is found within
+   * MAX_BOUNDARY_SHIFT and without crossing into the neighbouring word; otherwise
+   * the token timestamp is kept. Gaps shorter than minDuration after refinement are dropped.
+   */
+  private refineGapsWithEnvelope(
+    gaps: Gap[],
+    envelope: EnergyEnvelope,
+    thresholdDb: number,
+    minDuration: number
+  ): Gap[] {
+    const { db, windowSeconds } = envelope;
+    const maxBurstWindows = Math.round(this.MIN_SPEECH_BURST / windowSeconds);
+    const toIndex = (time: number) =>
+      Math.min(db.length - 1, Math.max(0, Math.floor(time / windowSeconds)));
+    const isQuiet = (index: number) => db[index] < thresholdDb;
+
+    const refined: Gap[] = [];
+
+    for (const gap of gaps) {
+      const tokenSources = { start: 'transcript', end: 'transcript' } as const;
+      const base: Gap = {
+        ...gap,
+        tokenStart: gap.start,
+        tokenEnd: gap.end,
+        boundarySource: { ...tokenSources },
+      };
+
+      if (db.length === 0) {
+        if (base.duration >= minDuration) refined.push(base);
+        continue;
+      }
+
+      // Anchor on the longest quiet run inside the token gap
+      let anchorStart = -1;
+      let anchorEnd = -1;
+      let runStart = -1;
+      const firstIndex = toIndex(gap.start);
+      const lastIndex = toIndex(gap.end);
+      for (let i = firstIndex; i <= lastIndex + 1; i++) {
+        const quiet = i <= lastIndex && isQuiet(i);
+        if (quiet && runStart === -1) {
+          runStart = i;
+        } else if (!quiet && runStart !== -1) {
+          if (i - runStart > anchorEnd - anchorStart) {
+            anchorStart = runStart;
+            anchorEnd = i;
+          }
+          runStart = -1;
+        }
+      }
+
+      if (anchorStart === -1) {
+        // Nothing below threshold - the transcript is all we have
+        if (base.duration >= minDuration) refined.push(base);
+        continue;
+      }
+
+      const leftLimit = toIndex(
+        Math.max(gap.precedingStart ?? 0, gap.start - this.MAX_BOUNDARY_SHIFT)
+      );
+      const rightLimit = toIndex(
+        Math.min(gap.followingEnd ?? envelope.duration, gap.end + this.MAX_BOUNDARY_SHIFT)
+      );
+
+      // Grow left until speech (a loud run longer than a blip) is found
+      let lo = anchorStart;
+      let loud = 0;
+      let startFromEnergy = false;
+      for (let i = anchorStart - 1; i >= leftLimit; i--) {
+        if (isQuiet(i)) {
+          lo = i;
+          loud = 0;
+        } else if (++loud > maxBurstWindows) {
+          startFromEnergy = true;
+          break;
+        }
+      }
+
+      // Grow right the same way (hi is exclusive)
+      let hi = anchorEnd;
+      loud = 0;
+      let endFromEnergy = false;
+      for (let i = anchorEnd; i <= rightLimit; i++) {
+        if (isQuiet(i)) {
+          hi = i + 1;
+          loud = 0;
+        } else if (++loud > maxBurstWindows) {
+          endFromEnergy = true;
+          break;
+        }
+      }
+
+      // No speech edge within the limits - keep the token boundary
+      const start = startFromEnergy ? lo * windowSeconds : gap.start;
+      const end = endFromEnergy ? Math.min(hi * windowSeconds, envelope.duration) : gap.end;
+      const duration = end - start;
+
+      if (duration < minDuration) continue;
+
+      refined.push({
+        ...base,
+        start,
+        end,
+        duration,
+        boundarySource: {
+          start: startFromEnergy ? 'energy' : 'transcript',
+          end: endFromEnergy ? 'energy' : 'transcript',
+        },
+      });
+    }
+
+    logger.info(`Refined ${refined.length}/${gaps.length} gaps against the audio envelope`);
+    return refined;
+  }
+
   /**
    * Find gaps between words from Whisper transcription.
    */
@@ -135,6 +444,8 @@ export class SilenceDetector {
           duration,
           precedingText: current.word,
           followingText: next.word,
+          precedingStart: current.start,
+          followingEnd: next.end,
         });
       }
     }
@@ -148,9 +459,11 @@ export class SilenceDetector {
   private async detectFromSegments(
     segments: WhisperSegment[],
     minDuration: number,
-    useAIAnalysis: boolean
+    useAIAnalysis: boolean,
+    envelope: EnergyEnvelope | null = null,
+    thresholdDb: number = this.DEFAULT_THRESHOLD_DB
   ): Promise<SilentSection[]> {
-    const gaps: Gap[] = [];
+    let gaps: Gap[] = [];
 
     for (let i = 0; i < segments.length - 1; i++) {
       const current = segments[i];
@@ -166,10 +479,16 @@ export class SilenceDetector {
           duration,
           precedingText: current.text.trim(),
           followingText: next.text.trim(),
+          precedingStart: current.start,
+          followingEnd: next.end,
         });
       }
     }
 
+    if (envelope) {
+      gaps = this.refineGapsWithEnvelope(gaps, envelope, thresholdDb, minDuration);
+    }
+
     if (gaps.length === 0) {
       return [];
     }
@@ -201,29 +520,19 @@ export class SilenceDetector {
 
       // Map gaps to sections with AI classification
       return gaps.map((gap) => {
-        // Find matching pause analysis
+        // Find matching pause analysis (the AI sees token timestamps, not refined ones)
+        const tokenStart = gap.tokenStart ?? gap.start;
+        const tokenEnd = gap.tokenEnd ?? gap.end;
         const pauseMatch = analysis.pauses.find(
-          (p) => Math.abs(p.start - gap.start) < 0.1 && Math.abs(p.end - gap.end) < 0.1
+          (p) => Math.abs(p.start - tokenStart) < 0.1 && Math.abs(p.end - tokenEnd) < 0.1
         );
 
         if (pauseMatch) {
-          return {
-            start: gap.start,
-            end: gap.end,
-            duration: gap.duration,
-            isNatural: pauseMatch.isNatural,
-            confidence: pauseMatch.confidence,
-          };
+          return this.toSection(gap, pauseMatch.isNatural, pauseMatch.confidence);
         }
 
         // Gap not analyzed by AI, use heuristic
-        return {
-          start: gap.start,
-          end: gap.end,
-          duration: gap.duration,
-          isNatural: gap.duration < this.MAX_NATURAL_GAP,
-          confidence: 0.5,
-        };
+        return this.toSection(gap, gap.duration < this.MAX_NATURAL_GAP, 0.5);
       });
     } catch (error) {
       logger.warn('AI classification failed, falling back to heuristics', error);
@@ -249,16 +558,33 @@ export class SilenceDetector {
         confidence = Math.min(0.95, 0.5 + (gap.duration - this.MAX_NATURAL_GAP) / 3);
       }
 
-      return {
-        start: gap.start,
-        end: gap.end,
-        duration: gap.duration,
-        isNatural,
-        confidence,
-      };
+      return this.toSection(gap, isNatural, confidence);
     });
   }
 
+  /**
+   * Build a SilentSection from a classified gap.
+   */
+  private toSection(gap: Gap, isNatural: boolean, confidence: number): SilentSection {
+    const section: SilentSection = {
+      start: gap.start,
+      end: gap.end,
+      duration: gap.duration,
+      isNatural,
+      confidence,
+    };
+    if (gap.boundarySource) {
+      section.boundarySource = gap.boundarySource;
+    }
+    if (gap.precedingText !== undefined) {
+      section.precedingText = gap.precedingText;
+    }
+    if (gap.followingText !== undefined) {
+      section.followingText = gap.followingText;
+    }
+    return section;
+  }
+
   /**
    * Create mock detection results for testing.
    */
@@ -0,0 +1,202 @@
+import { logger } from '../lib/logger';
+
+/** A span ripple-deleted from the timeline, in seconds as the timeline was before the edit */
+export interface RemovedRange {
+  start: number;
+  end: number;
+}
+
+interface TimeMapEdit {
+  version: number;
+  sessionId?: string; // Edit log session that made the edit
+  ranges: RemovedRange[]; // Sorted and merged
+  restore: boolean; // A reverted edit puts its ranges back
+}
+
+/**
+ * Keeps timestamps measured on the timeline valid after Splice ripple-deletes
+ * parts of it, so transcripts and detections don't have to be made again.
+ *
+ * Each apply operation records the ranges it removed as a new version.
+ * Anything measured at an earlier version (transcript words, takes, pending
+ * sections) can be mapped onto the current timeline. Times inside a removed
+ * range move to where the range was; items left with no length are dropped.
+ *
+ * Only Splice's own edits are known here. Edits made by hand in Premiere are
+ * not, so callers check the sequence duration before trusting old timestamps.
+ */
+export class TimeMapService {
+  private edits: TimeMapEdit[] = [];
+  private version = 0;
+
+  /**
+   * Version of the current timeline; stamp measurements with it
+   */
+  getVersion(): number {
+    return this.version;
+  }
+
+  /**
+   * Record the ranges one apply operation removed.
+   * Ranges are in the timeline as it was before the operation, in any order.
+   * @returns The new version, or the current one if nothing was removed
+   */
+  record(ranges: RemovedRange[], sessionId?: string): number {
+    const merged = this.normalize(ranges);
+    if (merged.length === 0) return this.version;
+
+    this.version++;
+    this.edits.push({ version: this.version, sessionId, ranges: merged, restore: false });
+    logger.info(`Time map v${this.version}: ${merged.length} ranges removed`);
+    return this.version;
+  }
+
+  /**
+   * Record that an edit session was reverted, putting its ranges back.
+   * Only correct for the most recent edit, as reverting in Premiere is.
+   * @returns false if the session removed nothing
+   */
+  revert(sessionId: string): boolean {
+    const edit = [...this.edits].reverse().find((e) => e.sessionId === sessionId && !e.restore);
+    if (!edit) return false;
+
+    this.version++;
+    this.edits.push({ version: this.version, sessionId, ranges: edit.ranges, restore: true });
+    logger.info(`Time map v${this.version}: reverted v${edit.version}`);
+    return true;
+  }
+
+  /**
+   * Position on the current timeline of a time measured at an earlier version
+   */
+  mapTime(time: number, fromVersion: number): number {
+    let mapped = time;
+    for (const edit of this.editsSince(fromVersion)) {
+      mapped = edit.restore
+        ? this.restoreRanges(mapped, edit.ranges)
+        : this.removeRanges(mapped, edit.ranges);
+    }
+    return mapped;
+  }
+
+  /**
+   * Seconds removed (less any restored) since a version
+   */
+  removedSince(fromVersion: number): number {
+    return this.editsSince(fromVersion).reduce((sum, edit) => {
+      const length = edit.ranges.reduce((total, r) => total + r.end - r.start, 0);
+      return sum + (edit.restore ? -length : length);
+    }, 0);
+  }
+
+  /**
+   * A range measured at an earlier version on the current timeline,
+   * or null if it was cut away entirely
+   */
+  mapRange(start: number, end: number, fromVersion: number): RemovedRange | null {
+    const mappedStart = this.mapTime(start, fromVersion);
+    const mappedEnd = this.mapTime(end, fromVersion);
+    return mappedEnd > mappedStart ? { start: mappedStart, end: mappedEnd } : null;
+  }
+
+  remapWords(words: WhisperWord[], fromVersion: number): WhisperWord[] {
+    return this.remapItems(words, fromVersion);
+  }
+
+  /**
+   * Silent sections or other detections with a duration
+   */
+  remapSections<T extends { start: number; end: number; duration: number }>(
+    sections: T[],
+    fromVersion: number
+  ): T[] {
+    return this.remapItems(sections, fromVersion).map((s) => ({
+      ...s,
+      duration: s.end - s.start,
+    }));
+  }
+
+  remapTakes(takes: NormalizedTake[], fromVersion: number): NormalizedTake[] {
+    return this.remapItems(takes, fromVersion);
+  }
+
+  /**
+   * Take groups on the current timeline; groups left without takes are dropped
+   */
+  remapTakeGroups(groups: TakeGroup[], fromVersion: number): TakeGroup[] {
+    if (this.editsSince(fromVersion).length === 0) return groups;
+
+    return groups
+      .map((group) => {
+        const takes = this.remapTakes(group.takes, fromVersion);
+        const best = takes.findIndex((take) => take.isBest);
+        return { ...group, takes, bestTakeIndex: best >= 0 ? best : 0 };
+      })
+      .filter((group) => group.takes.length > 0);
+  }
+
+  private remapItems<T extends { start: number; end: number }>(
+    items: T[],
+    fromVersion: number
+  ): T[] {
+    if (this.editsSince(fromVersion).length === 0) return items;
+
+    const remapped: T[] = [];
+    for (const item of items) {
+      const range = this.mapRange(item.start, item.end, fromVersion);
+      if (range) remapped.push({ ...item, start: range.start, end: range.end });
+    }
+    return remapped;
+  }
+
+  private editsSince(fromVersion: number): TimeMapEdit[] {
+    return this.edits.filter((edit) => edit.version > fromVersion);
+  }
+
+  /**
+   * Time after removing sorted ranges; times inside a range move to its start
+   */
+  private removeRanges(time: number, ranges: RemovedRange[]): number {
+    let shift = 0;
+    for (const range of ranges) {
+      if (time >= range.end) {
+        shift += range.end - range.start;
+      } else if (time > range.start) {
+        return range.start - shift;
+      } else {
+        break;
+      }
+    }
+    return time - shift;
+  }
+
+  /**
+   * Inverse of removeRanges; a time at a cut point moves past the restored range
+   */
+  private restoreRanges(time: number, ranges: RemovedRange[]): number {
+    let restored = time;
+    for (const range of ranges) {
+      if (restored < range.start) break;
+      restored += range.end - range.start;
+    }
+    return restored;
+  }
+
+  private normalize(ranges: RemovedRange[]): RemovedRange[] {
+    const merged: RemovedRange[] = [];
+    for (const range of [...ranges]
+      .filter((r) => r.end > r.start)
+      .sort((a, b) => a.start - b.start)) {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ start: range.start, end: range.end });
+      }
+    }
+    return merged;
+  }
+}
+
+// Singleton instance
+export const timeMap = new TimeMapService();
@@ -0,0 +1,244 @@
+/**
+ * Transcript Stitcher
+ *
+ * Merges per-chunk Whisper results from overlapping audio chunks into one
+ * transcript on the full file's timeline:
+ * - Word and segment times are offset by each chunk's startTime
+ * - Words heard by both chunks are aligned by text and time (longest common
+ *   subsequence), and the transcripts are spliced at the matched word nearest the
+ *   middle of the overlap, away from the chunk edges where words get garbled
+ * - Without a match, the overlap is split at its midpoint
+ *
+ * Segments are split at the same point. Whisper picks segment boundaries freely,
+ * so a segment spanning the splice may repeat or miss a word of text; the word
+ * list is exact and is what cutting uses.
+ */
+
+import { logger } from '../lib/logger';
+import { AudioChunk } from './audio-chunker';
+
+/** Index into the left and right word lists of a word heard by both chunks */
+type WordMatch = [left: number, right: number];
+
+/**
+ * Merges overlapping chunk transcriptions into one seamless result.
+ */
+export class TranscriptStitcher {
+  private readonly MATCH_TOLERANCE_SECONDS = 0.75; // Max start time drift for the same word
+  private readonly EDGE_SECONDS = 0.1; // Segments this close to a chunk edge were cut by it
+
+  /**
+   * Merge chunk results into one transcript with times relative to the full audio.
+   *
+   * @param results - Transcription of each chunk, in chunk order
+   * @param chunks - The chunks that were transcribed (for offsets and overlaps)
+   * @returns Single transcription result
+   */
+  stitch(
+    results: WhisperTranscriptionResult[],
+    chunks: Array<Pick<AudioChunk, 'startTime' | 'endTime'>>
+  ): WhisperTranscriptionResult {
+    if (results.length !== chunks.length) {
+      throw new Error(`Got ${results.length} chunk results for ${chunks.length} chunks`);
+    }
+    if (results.length === 0) {
+      return { task: 'transcribe', language: '', duration: 0, text: '', words: [], segments: [] };
+    }
+
+    let words = this.offsetTimes(results[0].words ?? [], chunks[0].startTime);
+    let segments = this.offsetTimes(results[0].segments ?? [], chunks[0].startTime);
+
+    for (let i = 1; i < results.length; i++) {
+      const overlapStart = chunks[i].startTime;
+      const overlapEnd = Math.max(overlapStart, chunks[i - 1].endTime);
+      const nextWords = this.offsetTimes(results[i].words ?? [], chunks[i].startTime);
+      const nextSegments = this.offsetTimes(results[i].segments ?? [], chunks[i].startTime);
+
+      const splice = this.spliceWords(words, nextWords, overlapStart, overlapEnd);
+      words = splice.words;
+      segments = this.spliceSegments(
+        segments,
+        nextSegments,
+        splice.cutTime,
+        overlapStart,
+        overlapEnd
+      );
+    }
+
+    const last = results.length - 1;
+    const merged: WhisperTranscriptionResult = {
+      task: 'transcribe',
+      language: results[0].language,
+      duration: chunks[last].startTime + results[last].duration,
+      text: this.joinText(segments, words),
+      words,
+      segments: segments.map((segment, id) => ({ ...segment, id })),
+    };
+
+    logger.info(
+      `Stitched ${results.length} chunk transcripts: ${words.length} words, ` +
+        `${segments.length} segments`
+    );
+    return merged;
+  }
+
+  /**
+   * Join two word lists across an overlap, dropping the words both chunks heard.
+   */
+  private spliceWords(
+    left: WhisperWord[],
+    right: WhisperWord[],
+    overlapStart: number,
+    overlapEnd: number
+  ): { words: WhisperWord[]; cutTime: number } {
+    const midpoint = (overlapStart + overlapEnd) / 2;
+
+    // Only words inside the overlap can be duplicates
+    let leftFirst = left.length;
+    while (leftFirst > 0 && left[leftFirst - 1].end > overlapStart) leftFirst--;
+    let rightEnd = 0;
+    while (rightEnd < right.length && right[rightEnd].start < overlapEnd) rightEnd++;
+
+    const matches = this.alignWords(left.slice(leftFirst), right.slice(0, rightEnd));
+
+    if (matches.length === 0) {
+      return {
+        words: [
+          ...left.filter((word) => word.start < midpoint),
+          ...right.filter((word) => word.start >= midpoint),
+        ],
+        cutTime: midpoint,
+      };
+    }
+
+    // Splice at the match closest to the middle of the overlap
+    let best = matches[0];
+    for (const match of matches) {
+      const distance = Math.abs(right[match[1]].start - midpoint);
+      if (distance < Math.abs(right[best[1]].start - midpoint)) best = match;
+    }
+    const leftIndex = leftFirst + best[0];
+    const rightIndex = best[1];
+
+    return {
+      words: [...left.slice(0, leftIndex + 1), ...right.slice(rightIndex + 1)],
+      cutTime: left[leftIndex].end,
+    };
+  }
+
+  /**
+   * Longest common subsequence of two word lists, where words match if their text
+   * is the same and they start within MATCH_TOLERANCE_SECONDS of each other.
+   */
+  private alignWords(left: WhisperWord[], right: WhisperWord[]): WordMatch[] {
+    const leftText = left.map((word) => normalizeWord(word.word));
+    const rightText = right.map((word) => normalizeWord(word.word));
+    const isMatch = (i: number, j: number): boolean =>
+      leftText[i] !== '' &&
+      leftText[i] === rightText[j] &&
+      Math.abs(left[i].start - right[j].start) <= this.MATCH_TOLERANCE_SECONDS;
+
+    // lengths[i][j] = LCS length of left[i..] and right[j..]
+    const lengths = Array.from({ length: left.length + 1 }, () =>
+      new Array<number>(right.length + 1).fill(0)
+    );
+    for (let i = left.length - 1; i >= 0; i--) {
+      for (let j = right.length - 1; j >= 0; j--) {
+        lengths[i][j] = isMatch(i, j)
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    const matches: WordMatch[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < left.length && j < right.length) {
+      if (isMatch(i, j) && lengths[i][j] === lengths[i + 1][j + 1] + 1) {
+        matches.push([i, j]);
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Keep left segments that end before the cut and right segments that start after
+   * it. A segment spanning the cut from each side is kept once, preferring the one
+   * not truncated by a chunk edge; any remaining overlap is trimmed so segment
+   * times never go backwards.
+   */
+  private spliceSegments(
+    left: WhisperSegment[],
+    right: WhisperSegment[],
+    cutTime: number,
+    overlapStart: number,
+    overlapEnd: number
+  ): WhisperSegment[] {
+    const spans = (segment: WhisperSegment): boolean =>
+      segment.start < cutTime && segment.end > cutTime;
+    let leftSpan = left.find(spans);
+    let rightSpan = right.find(spans);
+
+    if (leftSpan && rightSpan) {
+      const leftClipped = leftSpan.end >= overlapEnd - this.EDGE_SECONDS;
+      const rightClipped = rightSpan.start <= overlapStart + this.EDGE_SECONDS;
+      if (leftClipped && !rightClipped) {
+        leftSpan = undefined;
+      } else if (rightClipped && !leftClipped) {
+        rightSpan = undefined;
+      } else if (leftClipped || overlapRatio(leftSpan, rightSpan) > 0.5) {
+        leftSpan = undefined; // Same speech heard twice
+      }
+    }
+
+    const merged = [
+      ...left.filter((segment) => segment.end <= cutTime),
+      ...(leftSpan ? [leftSpan] : []),
+      ...(rightSpan ? [rightSpan] : []),
+      ...right.filter((segment) => segment.start >= cutTime),
+    ];
+    for (let i = 1; i < merged.length; i++) {
+      if (merged[i - 1].end > merged[i].start) {
+        merged[i - 1] = { ...merged[i - 1], end: merged[i].start };
+      }
+    }
+    return merged;
+  }
+
+  private offsetTimes<T extends { start: number; end: number }>(items: T[], offset: number): T[] {
+    return items.map((item) => ({ ...item, start: item.start + offset, end: item.end + offset }));
+  }
+
+  private joinText(segments: WhisperSegment[], words: WhisperWord[]): string {
+    const parts = segments.length > 0 ? segments.map((s) => s.text) : words.map((w) => w.word);
+    return parts
+      .map((part) => part.trim())
+      .filter(Boolean)
+      .join(' ');
+  }
+}
+
+/**
+ * Intersection over union of two time ranges
+ */
+function overlapRatio(a: WhisperSegment, b: WhisperSegment): number {
+  const intersection = Math.min(a.end, b.end) - Math.max(a.start, b.start);
+  const union = Math.max(a.end, b.end) - Math.min(a.start, b.start);
+  return union > 0 ? Math.max(0, intersection) / union : 0;
+}
+
+/**
+ * Lowercase a word and strip punctuation, so "Hello," matches "hello"
+ */
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+// Singleton instance
+export const transcriptStitcher = new TranscriptStitcher();
@@ -0,0 +1,271 @@
+/**
+ * WAV Stream Reader
+ *
+ * Reads WAV audio from disk a window at a time instead of loading the whole file.
+ * A 2-hour 48 kHz stereo export is ~1.3GB, far more than the panel can hold in a
+ * single ArrayBuffer; streamed, peak memory depends on the window size only.
+ *
+ * - The header is parsed from the first bytes of the file, reading further if
+ *   metadata chunks (bext, iXML, JUNK) push the data chunk back
+ * - PCM is handed out in windows of whole frames
+ * - Raw file bytes can be streamed too (for hashing)
+ */
+
+import { logger } from '../lib/logger';
+import { SpliceError, SpliceErrorCode, isSpliceError } from '../lib/errors';
+import { AUDIO_CONFIG } from '../config/audio-config';
+import { audioChunker, WavInfo } from './audio-chunker';
+
+declare const require: (module: string) => any;
+
+/**
+ * Random-access bytes of a file (or an in-memory buffer for tests and small audio).
+ */
+export interface WavByteSource {
+  /** Total size in bytes */
+  readonly size: number;
+  /** Read `length` bytes at `offset`; fewer only at the end of the source */
+  read(offset: number, length: number): Promise<ArrayBuffer>;
+  /** Release the file handle */
+  close(): Promise<void>;
+}
+
+/**
+ * A run of whole frames from the data chunk, in the file's own sample format.
+ */
+export interface PcmWindow {
+  view: DataView; // Interleaved samples, starting at byte 0
+  startFrame: number; // Index of the first frame in the whole file
+  frameCount: number;
+}
+
+/** First header read; doubled until the data chunk is found */
+const INITIAL_HEADER_BYTES = 64 * 1024;
+
+/**
+ * Windowed reader over a WAV file.
+ * Always close() the reader when done so the file handle is released.
+ */
+export class WavStreamReader {
+  private closed = false;
+
+  private constructor(
+    private readonly source: WavByteSource,
+    readonly info: WavInfo
+  ) {}
+
+  /**
+   * Parse the header of a WAV source and return a reader for its data.
+   * The source is closed if the header is invalid.
+   *
+   * @param source - File or buffer to read
+   * @throws SpliceError with a CHUNK_* code if the header is invalid
+   */
+  static async open(source: WavByteSource): Promise<WavStreamReader> {
+    try {
+      return new WavStreamReader(source, await readHeader(source));
+    } catch (error) {
+      await source.close();
+      throw error;
+    }
+  }
+
+  /** Size of the whole file in bytes */
+  get byteLength(): number {
+    return this.source.size;
+  }
+
+  /** Bytes per frame (all channels) */
+  get blockAlign(): number {
+    return (this.info.bitsPerSample / 8) * this.info.channels;
+  }
+
+  get totalFrames(): number {
+    return Math.floor(this.info.dataSize / this.blockAlign);
+  }
+
+  /** Duration of the data chunk in seconds */
+  get duration(): number {
+    return this.totalFrames / this.info.sampleRate;
+  }
+
+  /**
+   * Read raw bytes of the file, clamped to its end.
+   */
+  async readBytes(offset: number, length: number): Promise<ArrayBuffer> {
+    if (this.closed) {
+      throw new SpliceError(SpliceErrorCode.AUDIO_FILE_READ_FAILED, 'WAV stream is closed');
+    }
+    const start = Math.max(0, offset);
+    const end = Math.min(offset + length, this.source.size);
+    if (end <= start) {
+      return new ArrayBuffer(0);
+    }
+    return this.source.read(start, end - start);
+  }
+
+  /**
+   * Read a range of frames, clamped to the data chunk.
+   *
+   * @returns Window holding the frames that exist (possibly none)
+   */
+  async readFrames(startFrame: number, frameCount: number): Promise<PcmWindow> {
+    const first = Math.min(Math.max(0, startFrame), this.totalFrames);
+    const last = Math.min(Math.max(first, startFrame + frameCount), this.totalFrames);
+    const data = await this.readBytes(
+      this.info.dataOffset + first * this.blockAlign,
+      (last - first) * this.blockAlign
+    );
+    return {
+      view: new DataView(data),
+      startFrame: first,
+      frameCount: Math.floor(data.byteLength / this.blockAlign),
+    };
+  }
+
+  /**
+   * Iterate over the data chunk in windows of whole frames.
+   *
+   * @param framesPerWindow - Window length (default: AUDIO_CONFIG.STREAM_WINDOW_BYTES worth)
+   */
+  async *windows(framesPerWindow = this.defaultWindowFrames()): AsyncGenerator<PcmWindow> {
+    const step = Math.max(1, Math.floor(framesPerWindow));
+    for (let frame = 0; frame < this.totalFrames; frame += step) {
+      const window = await this.readFrames(frame, step);
+      if (window.frameCount === 0) {
+        // File shrank since it was opened
+        logger.warn(`WAV stream ended early at frame ${frame} of ${this.totalFrames}`);
+        return;
+      }
+      yield window;
+    }
+  }
+
+  /**
+   * Iterate over every byte of the file, header included, in order.
+   */
+  async *bytes(windowBytes: number = AUDIO_CONFIG.STREAM_WINDOW_BYTES): AsyncGenerator<Uint8Array> {
+    const step = Math.max(1, Math.floor(windowBytes));
+    for (let offset = 0; offset < this.source.size; offset += step) {
+      const data = await this.readBytes(offset, step);
+      if (data.byteLength === 0) return;
+      yield new Uint8Array(data);
+    }
+  }
+
+  /**
+   * Release the underlying file. Safe to call more than once.
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    await this.source.close();
+  }
+
+  private defaultWindowFrames(): number {
+    return Math.max(1, Math.floor(AUDIO_CONFIG.STREAM_WINDOW_BYTES / this.blockAlign));
+  }
+}
+
+/**
+ * Read just enough of the file to parse its header.
+ */
+async function readHeader(source: WavByteSource): Promise<WavInfo> {
+  const maxLength = Math.min(source.size, AUDIO_CONFIG.STREAM_MAX_HEADER_BYTES);
+  let length = Math.min(INITIAL_HEADER_BYTES, maxLength);
+
+  for (;;) {
+    const header = await source.read(0, length);
+    try {
+      return audioChunker.getWavInfoFromHeader(header, source.size);
+    } catch (error) {
+      // A chunk that runs past the bytes read so far looks missing or truncated
+      const mayBeFurtherIn =
+        isSpliceError(error) &&
+        (error.code === SpliceErrorCode.CHUNK_MISSING_DATA ||
+          error.code === SpliceErrorCode.CHUNK_MISSING_HEADER);
+      if (!mayBeFurtherIn || length >= maxLength) {
+        throw error;
+      }
+      length = Math.min(length * 2, maxLength);
+    }
+  }
+}
+
+/**
+ * Wrap an in-memory WAV buffer as a byte source.
+ */
+export function createBufferSource(buffer: ArrayBuffer): WavByteSource {
+  return {
+    size: buffer.byteLength,
+    read: async (offset, length) => buffer.slice(offset, offset + length),
+    close: async () => {},
+  };
+}
+
+/**
+ * Open a file on disk for windowed reads through the UXP fs module.
+ *
+ * @param filePath - Native path of the file
+ * @param onClose - Called after the file handle is released (e.g. to delete a temp export),
+ *   or before throwing if the file cannot be opened
+ * @throws SpliceError AUDIO_FILE_READ_FAILED if the file cannot be opened
+ */
+export async function openFileSource(
+  filePath: string,
+  onClose?: () => Promise<void>
+): Promise<WavByteSource> {
+  let fs: any;
+  let fd: any;
+  let size: number;
+  try {
+    fs = require('fs');
+    const stats = await fs.lstat(filePath);
+    size = stats.size;
+    fd = await fs.open(filePath, 'r');
+  } catch (error) {
+    // There is no source for the caller to close(), so clean up now
+    await onClose?.();
+    throw new SpliceError(
+      SpliceErrorCode.AUDIO_FILE_READ_FAILED,
+      `Could not open audio file: ${filePath}`,
+      { filePath },
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  let open = true;
+
+  return {
+    size,
+    read: async (offset, length) => {
+      const buffer = new ArrayBuffer(length);
+      let filled = 0;
+      try {
+        while (filled < length) {
+          const { bytesRead } = await fs.read(fd, buffer, filled, length - filled, offset + filled);
+          if (!bytesRead) break;
+          filled += bytesRead;
+        }
+      } catch (error) {
+        throw new SpliceError(
+          SpliceErrorCode.AUDIO_FILE_READ_FAILED,
+          `Failed to read audio file: ${filePath}`,
+          { filePath, offset, length },
+          error instanceof Error ? error : undefined
+        );
+      }
+      return filled === length ? buffer : buffer.slice(0, filled);
+    },
+    close: async () => {
+      if (!open) return;
+      open = false;
+      try {
+        await fs.close(fd);
+      } catch (error) {
+        logger.warn('Failed to close audio file', { filePath, error });
+      }
+      await onClose?.();
+    },
+  };
+}
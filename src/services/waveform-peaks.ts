@@ -0,0 +1,275 @@
+/**
+ * Waveform Peaks
+ *
+ * Min/max peak data for drawing the sequence waveform in the panel:
+ * - One pass over the PCM data builds the finest level; each coarser level
+ *   merges WAVEFORM_LEVEL_FACTOR neighbouring peaks of the level below
+ * - Channels are folded together, so a peak covers every channel
+ * - Peaks are cached per sequence, so reopening the Silence tab is instant
+ *
+ * Drawing picks the coarsest level that still has a peak for every pixel
+ * column (getColumns), so zooming never rescans the audio.
+ */
+
+import { logger } from '../lib/logger';
+import { AUDIO_CONFIG } from '../config/audio-config';
+import { audioChunker, WavInfo } from './audio-chunker';
+import { readPcmSample } from '../utils/audio-envelope';
+import type { WavStreamReader } from './wav-stream-reader';
+
+/**
+ * Peaks at one zoom level. Peak i covers frames [i * framesPerPeak, (i + 1) * framesPerPeak).
+ */
+export interface PeakLevel {
+  framesPerPeak: number;
+  secondsPerPeak: number;
+  min: Float32Array; // -1..1
+  max: Float32Array; // -1..1
+}
+
+export interface WaveformPeakData {
+  duration: number; // Seconds
+  sampleRate: number;
+  levels: PeakLevel[]; // Finest first
+}
+
+/** Min/max per pixel column of a time range */
+export interface WaveformColumns {
+  min: Float32Array;
+  max: Float32Array;
+}
+
+/**
+ * Service for building, downsampling and caching waveform peaks.
+ */
+export class WaveformPeakGenerator {
+  private readonly cache = new Map<string, WaveformPeakData>();
+
+  /**
+   * Build peaks for every zoom level from a WAV buffer.
+   *
+   * @param buffer - WAV audio (e.g. from AudioExtractor.extractFromTimeline)
+   * @throws SpliceError if the buffer is not a valid WAV file
+   */
+  generate(buffer: ArrayBuffer): WaveformPeakData {
+    const wavInfo = audioChunker.getWavInfo(buffer);
+    const blockAlign = (wavInfo.bitsPerSample / 8) * wavInfo.channels;
+    const dataEnd = Math.min(wavInfo.dataOffset + wavInfo.dataSize, buffer.byteLength);
+    const totalFrames = Math.max(0, Math.floor((dataEnd - wavInfo.dataOffset) / blockAlign));
+
+    const finest = this.createLevel(wavInfo.sampleRate, totalFrames);
+    this.fillPeaks(finest, new DataView(buffer), wavInfo.dataOffset, wavInfo, 0, totalFrames);
+    return this.buildLevels(finest, wavInfo.sampleRate, totalFrames);
+  }
+
+  /**
+   * Build peaks from a WAV file streamed from disk, one window at a time.
+   * Gives the same result as generate() on the whole file.
+   *
+   * @param reader - Reader over the file (e.g. from AudioExtractor.openTimelineStream)
+   */
+  async generateStream(reader: WavStreamReader): Promise<WaveformPeakData> {
+    const { info } = reader;
+    const finest = this.createLevel(info.sampleRate, reader.totalFrames);
+
+    // Read whole peaks at a time so none straddles two reads
+    const peaksPerRead = Math.max(
+      1,
+      Math.floor(AUDIO_CONFIG.STREAM_WINDOW_BYTES / (finest.framesPerPeak * reader.blockAlign))
+    );
+    for await (const pcm of reader.windows(peaksPerRead * finest.framesPerPeak)) {
+      this.fillPeaks(finest, pcm.view, 0, info, pcm.startFrame, pcm.frameCount);
+    }
+    return this.buildLevels(finest, info.sampleRate, reader.totalFrames);
+  }
+
+  /**
+   * Min/max for each pixel column of a time range, from the coarsest level
+   * that still has at least one peak per column.
+   *
+   * @param data - Peaks from generate()
+   * @param startTime - Start of the visible range in seconds
+   * @param endTime - End of the visible range in seconds
+   * @param columns - Number of pixel columns to fill
+   */
+  getColumns(
+    data: WaveformPeakData,
+    startTime: number,
+    endTime: number,
+    columns: number
+  ): WaveformColumns {
+    const min = new Float32Array(Math.max(0, columns));
+    const max = new Float32Array(Math.max(0, columns));
+    if (columns <= 0 || endTime <= startTime || data.levels.length === 0) {
+      return { min, max };
+    }
+
+    const secondsPerColumn = (endTime - startTime) / columns;
+    let level = data.levels[0];
+    for (const candidate of data.levels) {
+      if (candidate.secondsPerPeak <= secondsPerColumn) level = candidate;
+    }
+
+    for (let column = 0; column < columns; column++) {
+      const from = startTime + column * secondsPerColumn;
+      const first = Math.max(0, Math.floor(from / level.secondsPerPeak));
+      const last = Math.min(
+        level.min.length,
+        Math.max(first + 1, Math.ceil((from + secondsPerColumn) / level.secondsPerPeak))
+      );
+      let low = 0;
+      let high = 0;
+      for (let i = first; i < last; i++) {
+        if (level.min[i] < low) low = level.min[i];
+        if (level.max[i] > high) high = level.max[i];
+      }
+      min[column] = low;
+      max[column] = high;
+    }
+
+    return { min, max };
+  }
+
+  /**
+   * Cached peaks for a sequence, if any.
+   *
+   * @param key - Identifies the sequence and its current length
+   */
+  getCached(key: string): WaveformPeakData | undefined {
+    const data = this.cache.get(key);
+    if (data) {
+      // Most recently used last
+      this.cache.delete(key);
+      this.cache.set(key, data);
+    }
+    return data;
+  }
+
+  /**
+   * Remember peaks for a sequence, evicting the least recently used ones.
+   */
+  setCached(key: string, data: WaveformPeakData): void {
+    this.cache.delete(key);
+    this.cache.set(key, data);
+    while (this.cache.size > AUDIO_CONFIG.WAVEFORM_CACHE_MAX_SEQUENCES) {
+      const oldest = this.cache.keys().next().value as string;
+      this.cache.delete(oldest);
+    }
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Generate plausible mock peaks for development outside Premiere
+   */
+  createMockPeaks(duration: number): WaveformPeakData {
+    const sampleRate = AUDIO_CONFIG.DEFAULT_SAMPLE_RATE;
+    const totalFrames = Math.round(duration * sampleRate);
+    const finest = this.createLevel(sampleRate, totalFrames);
+
+    let level = 0.3;
+    for (let i = 0; i < finest.max.length; i++) {
+      // Speech-like bursts with quiet gaps
+      level = Math.min(0.9, Math.max(0, level + (Math.random() - 0.5) * 0.1));
+      const amplitude = Math.sin(i / 37) > -0.6 ? level : 0.01;
+      finest.max[i] = amplitude * Math.random();
+      finest.min[i] = -amplitude * Math.random();
+    }
+
+    return this.buildLevels(finest, sampleRate, totalFrames);
+  }
+
+  private createLevel(sampleRate: number, totalFrames: number): PeakLevel {
+    const framesPerPeak = Math.max(1, Math.round(AUDIO_CONFIG.WAVEFORM_PEAK_SECONDS * sampleRate));
+    const count = Math.ceil(totalFrames / framesPerPeak);
+    return {
+      framesPerPeak,
+      secondsPerPeak: framesPerPeak / sampleRate,
+      min: new Float32Array(count),
+      max: new Float32Array(count),
+    };
+  }
+
+  /**
+   * Record the min/max of each peak covered by a run of frames.
+   * firstFrame must fall on a peak boundary.
+   */
+  private fillPeaks(
+    level: PeakLevel,
+    view: DataView,
+    byteOffset: number,
+    wavInfo: WavInfo,
+    firstFrame: number,
+    frameCount: number
+  ): void {
+    const { channels, bitsPerSample, sampleFormat } = wavInfo;
+    const bytesPerSample = bitsPerSample / 8;
+    const blockAlign = bytesPerSample * channels;
+    const firstPeak = firstFrame / level.framesPerPeak;
+    const peakCount = Math.ceil(frameCount / level.framesPerPeak);
+
+    for (let p = 0; p < peakCount; p++) {
+      const start = p * level.framesPerPeak;
+      const end = Math.min(start + level.framesPerPeak, frameCount);
+      let low = 0;
+      let high = 0;
+
+      for (let frame = start; frame < end; frame++) {
+        const frameOffset = byteOffset + frame * blockAlign;
+        for (let ch = 0; ch < channels; ch++) {
+          const sample = readPcmSample(
+            view,
+            frameOffset + ch * bytesPerSample,
+            bitsPerSample,
+            sampleFormat
+          );
+          if (sample < low) low = sample;
+          if (sample > high) high = sample;
+        }
+      }
+
+      level.min[firstPeak + p] = low;
+      level.max[firstPeak + p] = high;
+    }
+  }
+
+  /**
+   * Derive the coarser zoom levels from the finest one.
+   */
+  private buildLevels(
+    finest: PeakLevel,
+    sampleRate: number,
+    totalFrames: number
+  ): WaveformPeakData {
+    const factor = AUDIO_CONFIG.WAVEFORM_LEVEL_FACTOR;
+    const levels = [finest];
+
+    for (let i = 1; i < AUDIO_CONFIG.WAVEFORM_LEVELS; i++) {
+      const below = levels[i - 1];
+      const count = Math.ceil(below.min.length / factor);
+      const level: PeakLevel = {
+        framesPerPeak: below.framesPerPeak * factor,
+        secondsPerPeak: below.secondsPerPeak * factor,
+        min: new Float32Array(count),
+        max: new Float32Array(count),
+      };
+      for (let j = 0; j < below.min.length; j++) {
+        const k = Math.floor(j / factor);
+        if (below.min[j] < level.min[k]) level.min[k] = below.min[j];
+        if (below.max[j] > level.max[k]) level.max[k] = below.max[j];
+      }
+      levels.push(level);
+    }
+
+    const data: WaveformPeakData = { duration: totalFrames / sampleRate, sampleRate, levels };
+    logger.debug(
+      `Waveform peaks: ${finest.min.length} at ${finest.secondsPerPeak}s, ${levels.length} levels`
+    );
+    return data;
+  }
+}
+
+// Singleton instance
+export const waveformPeaks = new WaveformPeakGenerator();
@@ -19,6 +19,7 @@ declare module 'premiere' {
     frameSizeHorizontal: number;
     frameSizeVertical: number;
     timebase: string;
+    zeroPoint?: string; // Starting timecode, in ticks
     setPlayerPosition?(time: number): void;
     cti?: Time;
   }
@@ -63,6 +64,7 @@ declare module 'premiere' {
     clips: ClipCollection;
     isMuted(): boolean;
     setMute(mute: boolean): void;
+    isLocked?(): boolean;
   }
 
   interface ClipCollection {
@@ -101,6 +103,8 @@ declare module 'premiere' {
     end: Time;
     comments: string;
     type: string;
+    setColorByIndex?(colorIndex: number): void;
+    colorIndex?: number;
   }
 
   interface Time {
@@ -409,6 +413,7 @@ interface ApplyTakesResult {
   clipsColored: number;
   clipsRenamed: number;
   errors: string[];
+  sequenceCopy?: SequenceCopy; // Non-destructive mode only
 }
 
 /** Configuration for take detection */
@@ -448,10 +453,58 @@ interface TakePreview {
   }>;
 }
 
+// ============================================
+// Marker Types
+// ============================================
+
+/** Sequence marker colors, in the order of Premiere's marker color index (0-7) */
+type MarkerColor = 'green' | 'red' | 'purple' | 'orange' | 'yellow' | 'white' | 'blue' | 'cyan';
+
+// ============================================
+// Track Targeting Types
+// ============================================
+
+/** What happens on tracks that are not cut when the rest of the timeline is ripple deleted */
+type UntargetedTrackPolicy =
+  | 'ripple' // Shift their later clips left by the removed time, keeping them in sync
+  | 'leave'; // Leave them untouched and report them as out of sync
+
+/**
+ * Which tracks timeline edits cut. Track numbers are 0-based indices within
+ * video or audio tracks. Locked tracks are never edited.
+ */
+interface TrackTargeting {
+  videoTracks?: number[]; // Video tracks to cut; all when omitted
+  audioTracks?: number[]; // Audio tracks to cut; all when omitted
+  protectedVideoTracks?: number[]; // Never cut, even when targeted (e.g. B-roll)
+  protectedAudioTracks?: number[]; // Never cut, even when targeted (e.g. music bed)
+  includeMuted?: boolean; // Cut muted tracks too (default: muted tracks are not cut)
+  untargetedPolicy?: UntargetedTrackPolicy; // Default 'leave'
+}
+
+/** A track an edit did not cut, and why */
+interface TrackSkip {
+  type: 'video' | 'audio';
+  index: number;
+  reason: 'locked' | 'muted' | 'protected' | 'not-targeted';
+  shifted: boolean; // Later clips were moved to stay in sync ('ripple' policy)
+}
+
+/** Options for operations that edit the timeline */
+interface ApplyEditOptions extends NonDestructiveOptions {
+  tracks?: TrackTargeting;
+}
+
 // ============================================
 // Export Presets Types
 // ============================================
 
+/**
+ * What to do with breaths: ignore them (no detection), keep them out of
+ * silence cuts, also mark them, or cut them
+ */
+type BreathPolicy = 'keep' | 'protect' | 'mark' | 'cut';
+
 /** Silence detection settings preset */
 interface SilenceDetectionPreset {
   id: string;
@@ -461,10 +514,18 @@ interface SilenceDetectionPreset {
   minSilenceDuration: number; // seconds
   padding: number; // seconds to keep before/after speech
   useVoiceIsolation: boolean;
+  breathPolicy?: BreathPolicy; // Presets saved before breath detection have none ('keep')
+  trackTargeting?: TrackTargeting; // Presets saved before track targeting cut every track
   createdAt: Date;
   updatedAt: Date;
 }
 
+/** How silent sections are applied: removed entirely or shortened to a target pause */
+type SilenceCutMode = 'remove' | 'tighten';
+
+/** Where the kept pause sits in tighten mode */
+type TightenAnchor = 'center' | 'following';
+
 /** Export preset manager result types */
 interface SavePresetResult {
   success: boolean;
@@ -495,6 +556,7 @@ interface BatchJob {
   error?: string;
   startedAt?: Date;
   completedAt?: Date;
+  sequenceCopy?: SequenceCopy; // The duplicate that was cut, in non-destructive mode
 }
 
 /** Batch processor options */
@@ -502,9 +564,15 @@ interface BatchProcessorOptions {
   silenceThreshold?: number;
   useVoiceIsolation?: boolean;
   preset?: SilenceDetectionPreset;
+  cutMode?: SilenceCutMode; // Default: 'remove'
+  tightenTarget?: number; // Pause length (s) kept in tighten mode
+  tightenAnchor?: TightenAnchor;
   onProgress?: (job: BatchJob) => void;
   onComplete?: (job: BatchJob) => void;
   onError?: (job: BatchJob, error: Error) => void;
+  nonDestructive?: boolean; // Cut a duplicate of each sequence instead of the original
+  copyNameTemplate?: string;
+  tracks?: TrackTargeting; // Overrides the preset's track targeting
 }
 
 /** Batch processing result */
@@ -516,6 +584,63 @@ interface BatchProcessingResult {
   errors: Array<{ jobId: string; error: string }>;
 }
 
+// ============================================
+// Edit Log Types
+// ============================================
+
+/** Timeline operation that groups a run of edits */
+type EditOperation = 'silence-cuts' | 'takes' | 'cut-list';
+
+/** One timeline edit made by Splice, with times in sequence seconds */
+type EditAction =
+  | { type: 'razor'; time: number; trackIndex?: number; cuts: number }
+  | {
+      type: 'delete';
+      start: number;
+      end: number;
+      trackIndex?: number;
+      ripple: boolean;
+      clips: number;
+    }
+  | { type: 'rename'; clipStart: number; before: string; after: string }
+  | { type: 'color'; clipStart: number; before?: number; after: number };
+
+/** Every edit of one apply operation on one sequence */
+interface EditSession {
+  id: string;
+  operation: EditOperation;
+  sequenceId: string;
+  sequenceName: string;
+  startedAt: string; // ISO timestamp
+  backupSequenceId?: string; // Project item of the pre-edit duplicate, if one was made
+  backupSequenceName?: string;
+  actions: EditAction[];
+}
+
+/** Apply edits to a duplicate of the active sequence, leaving the original untouched */
+interface NonDestructiveOptions {
+  nonDestructive?: boolean;
+  copyNameTemplate?: string; // {name}, {date} and {time} are filled in (default "{name} - Splice {date}")
+}
+
+/** An original sequence and the duplicate Splice edited instead */
+interface SequenceCopy {
+  originalId: string; // Project item IDs, as used by switchToSequence()
+  originalName: string;
+  copyId: string;
+  copyName: string;
+  operation: EditOperation;
+  createdAt: string; // ISO timestamp
+}
+
+/** Outcome of reverting the last Splice edit */
+interface RevertEditResult {
+  reverted: boolean;
+  method: 'backup-sequence' | 'restore-clips' | 'none';
+  session?: EditSession;
+  errors: string[];
+}
+
 // ============================================
 // LLM Provider Types
 // ============================================
@@ -3,13 +3,19 @@
  *
  * Provides result caching for transcription and audio processing operations.
  * Uses SHA-256 hashing of audio buffers as cache keys to avoid reprocessing
- * identical audio content.
+ * identical audio content. Files streamed from disk are hashed a window at a
+ * time and get the same key as the equivalent buffer.
  *
  * Cache entries are stored in memory with LRU eviction policy to prevent
  * memory exhaustion in long editing sessions.
  */
 
 import { logger } from '../lib/logger';
+import { Sha256 } from './sha256';
+import type { WavStreamReader } from '../services/wav-stream-reader';
+
+/** Audio to derive a cache key from: an in-memory WAV or a reader over a WAV file */
+export type CacheKeySource = ArrayBuffer | WavStreamReader;
 
 export interface CacheEntry<T> {
   key: string;
@@ -61,25 +67,38 @@ export class AudioCache<T> {
 
   /**
    * Generate a cache key from audio buffer using SHA-256 hash.
-   * Uses SubtleCrypto API available in UXP environment.
+   * Uses SubtleCrypto API available in UXP environment; streamed files are
+   * hashed incrementally since SubtleCrypto needs the whole input at once.
    */
-  async generateKey(audioBuffer: ArrayBuffer, prefix = ''): Promise<string> {
+  async generateKey(audio: CacheKeySource, prefix = ''): Promise<string> {
+    if (!(audio instanceof ArrayBuffer)) {
+      const hash = new Sha256();
+      for await (const bytes of audio.bytes()) {
+        hash.update(bytes);
+      }
+      return this.formatKey(hash.digest(), prefix);
+    }
+
     try {
       // Use Web Crypto API for hashing
-      const hashBuffer = await crypto.subtle.digest('SHA-256', audioBuffer);
-      const hashArray = Array.from(new Uint8Array(hashBuffer));
-      const hashHex = hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
-
-      return prefix ? `${prefix}:${hashHex}` : hashHex;
+      const hashBuffer = await crypto.subtle.digest('SHA-256', audio);
+      return this.formatKey(new Uint8Array(hashBuffer), prefix);
     } catch (error) {
       logger.warn('Failed to generate hash, using fallback', error);
       // Fallback to simple hash based on size and first/last bytes
-      const view = new Uint8Array(audioBuffer);
-      const fallbackHash = `${prefix}:${audioBuffer.byteLength}-${view[0]}-${view[view.length - 1]}`;
+      const view = new Uint8Array(audio);
+      const fallbackHash = `${prefix}:${audio.byteLength}-${view[0]}-${view[view.length - 1]}`;
       return fallbackHash;
     }
   }
 
+  private formatKey(hash: Uint8Array, prefix: string): string {
+    const hashHex = Array.from(hash)
+      .map((b) => b.toString(16).padStart(2, '0'))
+      .join('');
+    return prefix ? `${prefix}:${hashHex}` : hashHex;
+  }
+
   /**
    * Get a value from cache by key.
    */
@@ -265,7 +284,7 @@ export class TranscriptionCache extends AudioCache<TranscriptionResult> {
   /**
    * Get cached transcription result by audio buffer.
    */
-  async getByAudio(audioBuffer: ArrayBuffer): Promise<TranscriptionResult | undefined> {
+  async getByAudio(audioBuffer: CacheKeySource): Promise<TranscriptionResult | undefined> {
     const key = await this.generateKey(audioBuffer, 'transcription');
     return this.get(key);
   }
@@ -273,7 +292,7 @@ export class TranscriptionCache extends AudioCache<TranscriptionResult> {
   /**
    * Cache a transcription result.
    */
-  async setByAudio(audioBuffer: ArrayBuffer, result: TranscriptionResult): Promise<void> {
+  async setByAudio(audioBuffer: CacheKeySource, result: TranscriptionResult): Promise<void> {
     const key = await this.generateKey(audioBuffer, 'transcription');
 
     // Estimate size based on segments
@@ -301,7 +320,7 @@ export class VoiceIsolationCache extends AudioCache<IsolatedAudio> {
   /**
    * Get cached isolated audio by original buffer.
    */
-  async getByAudio(audioBuffer: ArrayBuffer): Promise<IsolatedAudio | undefined> {
+  async getByAudio(audioBuffer: CacheKeySource): Promise<IsolatedAudio | undefined> {
     const key = await this.generateKey(audioBuffer, 'isolation');
     return this.get(key);
   }
@@ -309,7 +328,7 @@ export class VoiceIsolationCache extends AudioCache<IsolatedAudio> {
   /**
    * Cache isolated audio result.
    */
-  async setByAudio(audioBuffer: ArrayBuffer, result: IsolatedAudio): Promise<void> {
+  async setByAudio(audioBuffer: CacheKeySource, result: IsolatedAudio): Promise<void> {
     const key = await this.generateKey(audioBuffer, 'isolation');
     const estimatedSize = result.vocals.byteLength + result.background.byteLength;
     this.set(key, result, estimatedSize);
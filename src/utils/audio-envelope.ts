@@ -0,0 +1,225 @@
+/**
+ * Audio Envelope Utility
+ *
+ * Computes a windowed RMS energy envelope (in dBFS) directly from WAV PCM data.
+ * Used by local DSP analysis (silence detection, boundary refinement) that must
+ * run without any network access.
+ *
+ * Performance notes:
+ * - Reads samples straight from a DataView, no intermediate float buffer
+ * - Channels are folded into a single mean-square value per window
+ * - The envelope is ~100 values per second, so it stays small for long timelines
+ * - computeEnergyEnvelopeStream() reads long files from disk a window at a time
+ */
+
+import type { WavInfo, WavSampleFormat } from '../services/audio-chunker';
+import type { WavStreamReader } from '../services/wav-stream-reader';
+import { AUDIO_CONFIG } from '../config/audio-config';
+
+/** Floor used for digital silence so the envelope never contains -Infinity */
+export const ENVELOPE_FLOOR_DB = -100;
+
+export interface EnergyEnvelope {
+  /** Length of each analysis window in seconds */
+  windowSeconds: number;
+  /** Total duration covered by the envelope in seconds */
+  duration: number;
+  /** RMS level of each window in dBFS (clamped to ENVELOPE_FLOOR_DB) */
+  db: Float32Array;
+}
+
+/**
+ * Read a single PCM sample and normalize it to the -1..1 range.
+ *
+ * @param view - DataView over the WAV buffer
+ * @param offset - Byte offset of the sample
+ * @param bitsPerSample - Sample width (8, 16, 24 or 32)
+ * @param sampleFormat - Integer PCM or IEEE float (32-bit only)
+ */
+export function readPcmSample(
+  view: DataView,
+  offset: number,
+  bitsPerSample: number,
+  sampleFormat: WavSampleFormat = 'pcm'
+): number {
+  if (sampleFormat === 'float') {
+    return bitsPerSample === 32 ? view.getFloat32(offset, true) : 0;
+  }
+
+  switch (bitsPerSample) {
+    case 8:
+      // 8-bit WAV is unsigned
+      return (view.getUint8(offset) - 128) / 128;
+    case 16:
+      return view.getInt16(offset, true) / 32768;
+    case 24: {
+      const value =
+        view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+      return value / 8388608;
+    }
+    case 32:
+      return view.getInt32(offset, true) / 2147483648;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Convert a mean-square value to dBFS, clamped to the envelope floor.
+ */
+export function meanSquareToDb(meanSquare: number): number {
+  if (meanSquare <= 0) return ENVELOPE_FLOOR_DB;
+  return Math.max(ENVELOPE_FLOOR_DB, 10 * Math.log10(meanSquare));
+}
+
+/**
+ * Read a range of frames as mono (channels averaged).
+ * Frames outside the data chunk are returned as zeros.
+ *
+ * @param buffer - The full WAV audio buffer
+ * @param wavInfo - Parsed header (from AudioChunker.getWavInfo)
+ * @param startFrame - First frame to read
+ * @param frameCount - Number of frames to read
+ */
+export function readMonoFrames(
+  buffer: ArrayBuffer,
+  wavInfo: WavInfo,
+  startFrame: number,
+  frameCount: number
+): Float32Array {
+  const view = new DataView(buffer);
+  const bytesPerSample = wavInfo.bitsPerSample / 8;
+  const blockAlign = bytesPerSample * wavInfo.channels;
+  const dataEnd = Math.min(wavInfo.dataOffset + wavInfo.dataSize, buffer.byteLength);
+  const totalFrames = Math.max(0, Math.floor((dataEnd - wavInfo.dataOffset) / blockAlign));
+
+  const samples = new Float32Array(Math.max(0, frameCount));
+  for (let i = 0; i < samples.length; i++) {
+    const frame = startFrame + i;
+    if (frame < 0 || frame >= totalFrames) continue;
+
+    const frameOffset = wavInfo.dataOffset + frame * blockAlign;
+    let sum = 0;
+    for (let ch = 0; ch < wavInfo.channels; ch++) {
+      sum += readPcmSample(
+        view,
+        frameOffset + ch * bytesPerSample,
+        wavInfo.bitsPerSample,
+        wavInfo.sampleFormat
+      );
+    }
+    samples[i] = sum / wavInfo.channels;
+  }
+  return samples;
+}
+
+/**
+ * Compute a windowed RMS envelope over the data chunk of a WAV buffer.
+ *
+ * @param buffer - The full WAV audio buffer
+ * @param wavInfo - Parsed header (from AudioChunker.getWavInfo)
+ * @param windowSeconds - Analysis window length (default 10ms)
+ * @returns Envelope with one dB value per window
+ */
+export function computeEnergyEnvelope(
+  buffer: ArrayBuffer,
+  wavInfo: WavInfo,
+  windowSeconds = 0.01
+): EnergyEnvelope {
+  const blockAlign = (wavInfo.bitsPerSample / 8) * wavInfo.channels;
+
+  // Never read past the end of the buffer, even if the header overstates the data size
+  const dataEnd = Math.min(wavInfo.dataOffset + wavInfo.dataSize, buffer.byteLength);
+  const totalFrames = Math.max(0, Math.floor((dataEnd - wavInfo.dataOffset) / blockAlign));
+  const framesPerWindow = Math.max(1, Math.round(windowSeconds * wavInfo.sampleRate));
+  const db = new Float32Array(Math.ceil(totalFrames / framesPerWindow));
+
+  fillEnvelope(
+    db,
+    new DataView(buffer),
+    wavInfo.dataOffset,
+    wavInfo,
+    0,
+    totalFrames,
+    framesPerWindow
+  );
+
+  return {
+    windowSeconds: framesPerWindow / wavInfo.sampleRate,
+    duration: totalFrames / wavInfo.sampleRate,
+    db,
+  };
+}
+
+/**
+ * Compute the same envelope as computeEnergyEnvelope() from a WAV file streamed
+ * from disk, so long timelines never have to be held in memory.
+ *
+ * @param reader - Reader over the WAV file
+ * @param windowSeconds - Analysis window length (default 10ms)
+ */
+export async function computeEnergyEnvelopeStream(
+  reader: WavStreamReader,
+  windowSeconds = 0.01
+): Promise<EnergyEnvelope> {
+  const { info } = reader;
+  const framesPerWindow = Math.max(1, Math.round(windowSeconds * info.sampleRate));
+  const db = new Float32Array(Math.ceil(reader.totalFrames / framesPerWindow));
+
+  // Read whole analysis windows at a time so none straddles two reads
+  const windowsPerRead = Math.max(
+    1,
+    Math.floor(AUDIO_CONFIG.STREAM_WINDOW_BYTES / (framesPerWindow * reader.blockAlign))
+  );
+  for await (const pcm of reader.windows(windowsPerRead * framesPerWindow)) {
+    fillEnvelope(db, pcm.view, 0, info, pcm.startFrame, pcm.frameCount, framesPerWindow);
+  }
+
+  return {
+    windowSeconds: framesPerWindow / info.sampleRate,
+    duration: reader.totalFrames / info.sampleRate,
+    db,
+  };
+}
+
+/**
+ * Write the dB level of each analysis window covered by a run of frames.
+ * firstFrame must fall on a window boundary.
+ */
+function fillEnvelope(
+  db: Float32Array,
+  view: DataView,
+  byteOffset: number,
+  wavInfo: WavInfo,
+  firstFrame: number,
+  frameCount: number,
+  framesPerWindow: number
+): void {
+  const bytesPerSample = wavInfo.bitsPerSample / 8;
+  const blockAlign = bytesPerSample * wavInfo.channels;
+  const firstWindow = firstFrame / framesPerWindow;
+  const windowCount = Math.ceil(frameCount / framesPerWindow);
+
+  for (let w = 0; w < windowCount; w++) {
+    const start = w * framesPerWindow;
+    const end = Math.min(start + framesPerWindow, frameCount);
+    let sumSquares = 0;
+    let count = 0;
+
+    for (let frame = start; frame < end; frame++) {
+      const frameOffset = byteOffset + frame * blockAlign;
+      for (let ch = 0; ch < wavInfo.channels; ch++) {
+        const sample = readPcmSample(
+          view,
+          frameOffset + ch * bytesPerSample,
+          wavInfo.bitsPerSample,
+          wavInfo.sampleFormat
+        );
+        sumSquares += sample * sample;
+        count++;
+      }
+    }
+
+    db[firstWindow + w] = meanSquareToDb(count > 0 ? sumSquares / count : 0);
+  }
+}
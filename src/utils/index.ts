@@ -13,6 +13,7 @@ export {
   type CacheEntry,
   type CacheStats,
   type AudioCacheOptions,
+  type CacheKeySource,
 } from './audio-cache';
 
 export {
@@ -25,3 +26,35 @@ export {
   type MetricSummary,
   type PerformanceReport,
 } from './performance-metrics';
+
+export {
+  computeEnergyEnvelope,
+  computeEnergyEnvelopeStream,
+  readPcmSample,
+  readMonoFrames,
+  meanSquareToDb,
+  ENVELOPE_FLOOR_DB,
+  type EnergyEnvelope,
+} from './audio-envelope';
+
+export { Sha256 } from './sha256';
+
+export { powerSpectrum, spectralFlatness, spectralCentroid, nextPowerOfTwo } from './spectrum';
+
+export {
+  TICKS_PER_SECOND,
+  frameRateFromTimebase,
+  frameRateFromFps,
+  frameRateToFps,
+  secondsToFrames,
+  framesToSeconds,
+  secondsToTicks,
+  ticksToSeconds,
+  framesToTicks,
+  ticksToFrames,
+  quantizeToFrame,
+  isDropFrameRate,
+  framesToTimecode,
+  timecodeToFrames,
+  type FrameRate,
+} from './timecode';
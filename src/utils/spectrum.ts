@@ -0,0 +1,120 @@
+/**
+ * Spectrum Utility
+ *
+ * Small-frame spectral features for local audio classification
+ * (breath detection and similar). Frames are short (~20ms), so a plain
+ * iterative radix-2 FFT is fast enough and avoids any dependency.
+ */
+
+/** Added to power values so silent bins don't produce log(0) */
+const POWER_EPSILON = 1e-12;
+
+/**
+ * Smallest power of two >= n
+ */
+export function nextPowerOfTwo(n: number): number {
+  let size = 1;
+  while (size < n) size <<= 1;
+  return size;
+}
+
+/**
+ * Hann-windowed power spectrum of a frame.
+ *
+ * @param frame - Samples in the -1..1 range; zero-padded to a power of two
+ * @returns Power per bin, from DC to Nyquist (size / 2 + 1 values)
+ */
+export function powerSpectrum(frame: Float32Array): Float32Array {
+  const size = nextPowerOfTwo(Math.max(2, frame.length));
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+
+  for (let i = 0; i < frame.length; i++) {
+    const window = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (frame.length - 1 || 1)));
+    re[i] = frame[i] * window;
+  }
+
+  fftInPlace(re, im);
+
+  const bins = size / 2 + 1;
+  const power = new Float32Array(bins);
+  for (let k = 0; k < bins; k++) {
+    power[k] = (re[k] * re[k] + im[k] * im[k]) / size;
+  }
+  return power;
+}
+
+/**
+ * Spectral flatness (Wiener entropy): geometric / arithmetic mean of the power bins.
+ * Near 0 for tonal sounds (voiced speech), approaching ~0.5+ for noise (breaths, fricatives).
+ * The DC bin is ignored.
+ */
+export function spectralFlatness(power: Float32Array): number {
+  if (power.length < 2) return 0;
+
+  let logSum = 0;
+  let sum = 0;
+  for (let k = 1; k < power.length; k++) {
+    const p = power[k] + POWER_EPSILON;
+    logSum += Math.log(p);
+    sum += p;
+  }
+
+  const count = power.length - 1;
+  return Math.exp(logSum / count) / (sum / count);
+}
+
+/**
+ * Spectral centroid in Hz (power-weighted mean frequency)
+ */
+export function spectralCentroid(power: Float32Array, sampleRate: number): number {
+  const binHz = sampleRate / (2 * (power.length - 1));
+  let weighted = 0;
+  let sum = 0;
+  for (let k = 0; k < power.length; k++) {
+    weighted += k * binHz * power[k];
+    sum += power[k];
+  }
+  return sum > 0 ? weighted / sum : 0;
+}
+
+/**
+ * Iterative radix-2 Cooley-Tukey FFT. Length must be a power of two.
+ */
+function fftInPlace(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = start + k;
+        const b = a + len / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
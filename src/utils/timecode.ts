@@ -0,0 +1,167 @@
+/**
+ * Frame-Accurate Time Utilities
+ *
+ * Premiere stores a sequence's frame duration as a tick count (timebase),
+ * with 254016000000 ticks per second. Rates are kept as exact fractions
+ * (29.97 fps is 30000/1001), so frame numbers don't drift on long timelines.
+ *
+ * Tick counts are handled as numbers, which stay exact up to about ten hours.
+ */
+
+/** Ticks per second in Premiere's time representation */
+export const TICKS_PER_SECOND = 254016000000;
+
+/** Frames per second as an exact fraction */
+export interface FrameRate {
+  numerator: number;
+  denominator: number;
+}
+
+function gcd(a: number, b: number): number {
+  while (b !== 0) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
+
+/**
+ * Frame rate of a sequence from its timebase (ticks per frame).
+ */
+export function frameRateFromTimebase(ticksPerFrame: string | number): FrameRate {
+  const ticks = Number(ticksPerFrame);
+  if (!Number.isFinite(ticks) || ticks <= 0) {
+    throw new Error(`Invalid timebase: ${ticksPerFrame}`);
+  }
+
+  const divisor = gcd(TICKS_PER_SECOND, Math.round(ticks));
+  return { numerator: TICKS_PER_SECOND / divisor, denominator: Math.round(ticks) / divisor };
+}
+
+/**
+ * Frame rate from frames per second, recognizing the NTSC rates (23.976, 29.97, 59.94).
+ */
+export function frameRateFromFps(fps: number): FrameRate {
+  const ntsc = Math.round(fps * 1.001);
+  if (!Number.isInteger(fps) && Math.abs(fps - (ntsc * 1000) / 1001) < 0.005) {
+    return { numerator: ntsc * 1000, denominator: 1001 };
+  }
+  return { numerator: Math.round(fps), denominator: 1 };
+}
+
+export function frameRateToFps(rate: FrameRate): number {
+  return rate.numerator / rate.denominator;
+}
+
+/**
+ * Nearest frame to a time in seconds.
+ */
+export function secondsToFrames(seconds: number, rate: FrameRate): number {
+  return Math.round((seconds * rate.numerator) / rate.denominator);
+}
+
+export function framesToSeconds(frames: number, rate: FrameRate): number {
+  return (frames * rate.denominator) / rate.numerator;
+}
+
+/**
+ * Nearest tick to a time in seconds.
+ */
+export function secondsToTicks(seconds: number): number {
+  return Math.round(seconds * TICKS_PER_SECOND);
+}
+
+/**
+ * Seconds of a tick count, as read from Premiere's Time.ticks.
+ */
+export function ticksToSeconds(ticks: string | number): number {
+  return Number(ticks) / TICKS_PER_SECOND;
+}
+
+/**
+ * Tick position of a frame. Exact for rates read from a timebase.
+ */
+export function framesToTicks(frames: number, rate: FrameRate): number {
+  return Math.round((frames * TICKS_PER_SECOND * rate.denominator) / rate.numerator);
+}
+
+/**
+ * Nearest frame to a tick position.
+ */
+export function ticksToFrames(ticks: string | number, rate: FrameRate): number {
+  return Math.round((Number(ticks) * rate.numerator) / (TICKS_PER_SECOND * rate.denominator));
+}
+
+/**
+ * Time in seconds snapped to the nearest frame boundary.
+ */
+export function quantizeToFrame(seconds: number, rate: FrameRate): number {
+  return framesToSeconds(secondsToFrames(seconds, rate), rate);
+}
+
+/**
+ * Whether a rate can be counted as drop-frame timecode (29.97 and 59.94).
+ */
+export function isDropFrameRate(rate: FrameRate): boolean {
+  const fps = frameRateToFps(rate);
+  return rate.denominator !== 1 && Math.round(fps) % 30 === 0 && !Number.isInteger(fps);
+}
+
+/**
+ * SMPTE timecode of a frame number, counting at the nominal rate (30 for 29.97).
+ * Non-drop-frame (HH:MM:SS:FF) unless dropFrame is set at a drop-frame rate,
+ * which gives HH:MM:SS;FF with frame numbers skipped as in timecodeToFrames.
+ */
+export function framesToTimecode(
+  frames: number,
+  rate: FrameRate,
+  dropFrame: boolean = false
+): string {
+  const base = Math.round(frameRateToFps(rate));
+  let total = Math.max(0, Math.round(frames));
+
+  const drop = dropFrame && isDropFrameRate(rate);
+  if (drop) {
+    // Add back the frame numbers skipped so far, then count as non-drop
+    const dropped = Math.round(base / 15);
+    const perTenMinutes = base * 600 - dropped * 9;
+    const perMinute = base * 60 - dropped;
+    const tens = Math.floor(total / perTenMinutes);
+    const rest = total % perTenMinutes;
+    total +=
+      dropped * 9 * tens +
+      (rest > dropped ? dropped * Math.floor((rest - dropped) / perMinute) : 0);
+  }
+
+  const ff = total % base;
+  const totalSeconds = Math.floor(total / base);
+
+  const [hh, mm, ss, frame] = [
+    Math.floor(totalSeconds / 3600),
+    Math.floor((totalSeconds % 3600) / 60),
+    totalSeconds % 60,
+    ff,
+  ].map((n) => n.toString().padStart(2, '0'));
+  return `${hh}:${mm}:${ss}${drop ? ';' : ':'}${frame}`;
+}
+
+/**
+ * Frame number of an HH:MM:SS:FF timecode. A ';' before the frames marks
+ * drop-frame timecode (29.97/59.94), which skips frame numbers 0 and 1
+ * (0-3 at 59.94) each minute except every tenth.
+ * Returns null if the text is not a valid timecode at this rate.
+ */
+export function timecodeToFrames(timecode: string, rate: FrameRate): number | null {
+  const match = /^(\d{1,2}):(\d{2}):(\d{2})([:;])(\d{2})$/.exec(timecode.trim());
+  if (!match) return null;
+
+  const [hh, mm, ss, ff] = [match[1], match[2], match[3], match[5]].map(Number);
+  const base = Math.round(frameRateToFps(rate));
+  if (mm > 59 || ss > 59 || ff >= base) return null;
+
+  const totalMinutes = hh * 60 + mm;
+  const frames = (totalMinutes * 60 + ss) * base + ff;
+  if (match[4] !== ';') return frames;
+
+  const dropped = Math.round(base / 15);
+  return frames - dropped * (totalMinutes - Math.floor(totalMinutes / 10));
+}
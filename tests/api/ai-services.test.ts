@@ -1,5 +1,11 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { AIServices } from '../../src/api/ai-services';
+import type { WhisperClient } from '../../src/api/whisper';
+import { audioChunker, AudioChunk } from '../../src/services/audio-chunker';
+import { WavStreamReader, createBufferSource } from '../../src/services/wav-stream-reader';
+import { AUDIO_CONFIG } from '../../src/config/audio-config';
+import { SpliceErrorCode } from '../../src/lib/errors';
+import { WavBuilder } from '../utils/wav-builder';
 
 describe('AIServices', () => {
   let services: AIServices;
@@ -49,4 +55,252 @@ describe('AIServices', () => {
       expect(services.getMode()).toBe('proxy');
     });
   });
+
+  describe('transcribeWithTimestamps', () => {
+    const wordsResult = (words: WhisperWord[]): WhisperTranscriptionResult => ({
+      task: 'transcribe',
+      language: 'en',
+      duration: 6,
+      text: words.map((w) => w.word).join(' '),
+      words,
+    });
+
+    it('stitches overlapping chunks of long audio into one result', async () => {
+      const wav = new WavBuilder(16000, 1, 16).addTone(440, 0.1).build();
+      const chunk = { buffer: wav, totalChunks: 2 };
+      vi.spyOn(audioChunker, 'needsChunking').mockReturnValueOnce(true);
+      vi.spyOn(audioChunker, 'chunkWavBuffer').mockResolvedValueOnce([
+        { ...chunk, startTime: 0, endTime: 6, chunkIndex: 0 },
+        { ...chunk, startTime: 4, endTime: 10, chunkIndex: 1 },
+      ]);
+      const transcribeWithTimestamps = vi
+        .fn()
+        .mockResolvedValueOnce(
+          wordsResult([
+            { word: 'long', start: 3, end: 3.5 },
+            { word: 'audio', start: 4.5, end: 5 },
+            { word: 'spl', start: 5.8, end: 6 },
+          ])
+        )
+        .mockResolvedValueOnce(
+          wordsResult([
+            { word: 'audio', start: 0.5, end: 1 },
+            { word: 'splits', start: 1.8, end: 2.3 },
+          ])
+        );
+      services.setClients({
+        whisperClient: { transcribeWithTimestamps } as unknown as WhisperClient,
+      });
+
+      const result = await services.transcribeWithTimestamps(wav);
+
+      expect(transcribeWithTimestamps).toHaveBeenCalledTimes(2);
+      expect(result.words).toEqual([
+        { word: 'long', start: 3, end: 3.5 },
+        { word: 'audio', start: 4.5, end: 5 },
+        { word: 'splits', start: 5.8, end: 6.3 },
+      ]);
+    });
+  });
+
+  describe('transcribeWithTimestamps from a reader', () => {
+    afterEach(() => {
+      Object.assign(audioChunker, {
+        MAX_FILE_SIZE_BYTES: AUDIO_CONFIG.MAX_CHUNK_SIZE_BYTES,
+        CHUNK_OVERLAP_SECONDS: AUDIO_CONFIG.CHUNK_OVERLAP_SECONDS,
+      });
+    });
+
+    it('reads and prepares one upload-sized chunk at a time', async () => {
+      // One second of the 16 kHz mono upload fits per chunk
+      Object.assign(audioChunker, {
+        MAX_FILE_SIZE_BYTES: 16000 * 2 + 44,
+        CHUNK_OVERLAP_SECONDS: 0,
+      });
+      const wav = new WavBuilder(48000, 2, 16).addNoise(3, 0.3).build();
+      const reader = await WavStreamReader.open(createBufferSource(wav));
+      const readBytes = vi.spyOn(reader, 'readBytes');
+      const transcribeWithTimestamps = vi.fn().mockResolvedValue({
+        task: 'transcribe',
+        language: 'en',
+        duration: 1,
+        text: 'word',
+        words: [{ word: 'word', start: 0.2, end: 0.4 }],
+      });
+      services.setClients({
+        whisperClient: { transcribeWithTimestamps } as unknown as WhisperClient,
+      });
+
+      const result = await services.transcribeWithTimestamps(reader);
+
+      expect(result.words!.map((w) => w.start)).toEqual([0.2, 1.2, 2.2]);
+      expect(transcribeWithTimestamps).toHaveBeenCalledTimes(3);
+      expect(Math.max(...readBytes.mock.calls.map(([, length]) => length))).toBe(48000 * 4);
+    });
+  });
+
+  describe('chunk scheduling', () => {
+    const wav = new WavBuilder(16000, 1, 16).addTone(440, 0.1).build();
+
+    /** Chunks every 10s with 2s of overlap; each buffer's length identifies its chunk */
+    const mockChunks = (count: number): AudioChunk[] => {
+      const chunks = Array.from({ length: count }, (_, i) => ({
+        buffer: new ArrayBuffer(i + 1),
+        startTime: i * 10,
+        endTime: i * 10 + 12,
+        chunkIndex: i,
+        totalChunks: count,
+      }));
+      vi.spyOn(audioChunker, 'needsChunking').mockReturnValueOnce(true);
+      vi.spyOn(audioChunker, 'chunkWavBuffer').mockResolvedValueOnce(chunks);
+      return chunks;
+    };
+
+    /** One word per chunk, in the middle of it */
+    const chunkResult = (index: number): WhisperTranscriptionResult => ({
+      task: 'transcribe',
+      language: 'en',
+      duration: 12,
+      text: `word${index}`,
+      words: [{ word: `word${index}`, start: 5, end: 5.5 }],
+      segments: [],
+    });
+
+    /** Whisper stub that resolves each request when the test says so */
+    const createWhisper = () => {
+      const pending: Array<{ index: number; resolve: () => void; reject: (e: Error) => void }> = [];
+      const transcribeWithTimestamps = vi.fn(
+        (buffer: ArrayBuffer) =>
+          new Promise<WhisperTranscriptionResult>((resolve, reject) => {
+            const index = buffer.byteLength - 1;
+            pending.push({ index, resolve: () => resolve(chunkResult(index)), reject });
+          })
+      );
+      services.setClients({
+        whisperClient: { transcribeWithTimestamps } as unknown as WhisperClient,
+      });
+      const settle = async (index: number, error?: Error): Promise<void> => {
+        const request = pending.splice(
+          pending.findIndex((p) => p.index === index),
+          1
+        )[0];
+        if (error) request.reject(error);
+        else request.resolve();
+        await vi.advanceTimersByTimeAsync(0);
+      };
+      return { pending, transcribeWithTimestamps, settle };
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('keeps at most the concurrency limit of chunks in flight', async () => {
+      mockChunks(5);
+      const whisper = createWhisper();
+
+      const promise = services.transcribeWithTimestamps(wav, {}, { concurrency: 2 });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(whisper.pending.map((p) => p.index)).toEqual([0, 1]);
+      await whisper.settle(1);
+      expect(whisper.pending.map((p) => p.index)).toEqual([0, 2]);
+      for (const index of [0, 2, 3, 4]) await whisper.settle(index);
+
+      const result = await promise;
+      expect(result.words!.map((w) => [w.word, w.start])).toEqual([
+        ['word0', 5],
+        ['word1', 15],
+        ['word2', 25],
+        ['word3', 35],
+        ['word4', 45],
+      ]);
+    });
+
+    it('streams the transcript in order as chunks finish', async () => {
+      mockChunks(3);
+      const whisper = createWhisper();
+      const onProgress = vi.fn();
+
+      const promise = services.transcribeWithTimestamps(wav, {}, { onProgress });
+      await vi.advanceTimersByTimeAsync(0);
+      await whisper.settle(1);
+      await whisper.settle(0);
+      await whisper.settle(2);
+      await promise;
+
+      const reports = onProgress.mock.calls.map(([progress]) => [
+        progress.completedChunks,
+        progress.totalChunks,
+        progress.partial.text,
+      ]);
+      expect(reports).toEqual([
+        [1, 3, ''], // Chunk 1 finished first, but chunk 0 is still missing
+        [2, 3, 'word0 word1'],
+        [3, 3, 'word0 word1 word2'],
+      ]);
+    });
+
+    it('retries only the chunk that failed', async () => {
+      mockChunks(3);
+      const whisper = createWhisper();
+
+      const promise = services.transcribeWithTimestamps(wav);
+      await vi.advanceTimersByTimeAsync(0);
+      await whisper.settle(0);
+      await whisper.settle(1, new Error('HTTP 503'));
+      await whisper.settle(2);
+      await vi.advanceTimersByTimeAsync(1000); // Retry delay
+      await whisper.settle(1);
+
+      const result = await promise;
+      const calls = whisper.transcribeWithTimestamps.mock.calls.map(
+        ([buffer]) => buffer.byteLength - 1
+      );
+      expect(calls.sort()).toEqual([0, 1, 1, 2]);
+      expect(result.words!.map((w) => w.word)).toEqual(['word0', 'word1', 'word2']);
+    });
+
+    it('fails with the chunk index once retries run out', async () => {
+      mockChunks(2);
+      const whisper = createWhisper();
+
+      const promise = services.transcribeWithTimestamps(wav, {}, { maxRetries: 1 });
+      const outcome = expect(promise).rejects.toMatchObject({
+        code: SpliceErrorCode.TRANSCRIPTION_FAILED,
+        context: { chunkIndex: 1, attempts: 2 },
+      });
+      await vi.advanceTimersByTimeAsync(0);
+      await whisper.settle(1, new Error('HTTP 500'));
+      await vi.advanceTimersByTimeAsync(1000);
+      await whisper.settle(1, new Error('HTTP 500'));
+
+      await outcome;
+    });
+
+    it('stops when the abort signal fires', async () => {
+      mockChunks(4);
+      const whisper = createWhisper();
+      const controller = new AbortController();
+
+      const promise = services.transcribeWithTimestamps(
+        wav,
+        {},
+        { concurrency: 1, signal: controller.signal }
+      );
+      const outcome = expect(promise).rejects.toMatchObject({
+        code: SpliceErrorCode.TRANSCRIPTION_CANCELLED,
+      });
+      await vi.advanceTimersByTimeAsync(0);
+      controller.abort();
+      await outcome;
+
+      await whisper.settle(0);
+      expect(whisper.transcribeWithTimestamps).toHaveBeenCalledTimes(1);
+    });
+  });
 });
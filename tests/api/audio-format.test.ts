@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseAudioFormat,
+  getAudioFileInfo,
+  SUPPORTED_AUDIO_FORMATS,
+} from '../../lib/audio-format';
+
+describe('Audio Format Negotiation', () => {
+  it('advertises WAV and FLAC', () => {
+    expect(SUPPORTED_AUDIO_FORMATS).toEqual(['wav', 'flac']);
+  });
+
+  describe('parseAudioFormat', () => {
+    it('defaults to WAV for clients that do not send a format', () => {
+      expect(parseAudioFormat(undefined)).toBe('wav');
+      expect(parseAudioFormat(null)).toBe('wav');
+    });
+
+    it('accepts supported formats', () => {
+      expect(parseAudioFormat('wav')).toBe('wav');
+      expect(parseAudioFormat('flac')).toBe('flac');
+    });
+
+    it('rejects anything else', () => {
+      expect(parseAudioFormat('mp3')).toBeNull();
+      expect(parseAudioFormat('FLAC')).toBeNull();
+      expect(parseAudioFormat(1)).toBeNull();
+    });
+  });
+
+  describe('getAudioFileInfo', () => {
+    it('returns the MIME type and file name for upstream uploads', () => {
+      expect(getAudioFileInfo('flac')).toEqual({ type: 'audio/flac', filename: 'audio.flac' });
+      expect(getAudioFileInfo('wav')).toEqual({ type: 'audio/wav', filename: 'audio.wav' });
+    });
+  });
+});
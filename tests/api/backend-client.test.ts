@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BackendClient } from '../../src/api/backend-client';
+import { isFlacBuffer } from '../../src/services/flac-encoder';
+import { WavBuilder } from '../utils/wav-builder';
+
+const jsonResponse = (status: number, body: unknown): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+/** Fake backend: GET answers format negotiation, POST records the upload */
+const createServer = (negotiate: () => Response | Promise<Response>) => {
+  const uploads: FormData[] = [];
+  const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+    if (init?.method === 'GET') {
+      return negotiate();
+    }
+    uploads.push(init?.body as FormData);
+    return jsonResponse(200, { success: true, text: '', segments: [] });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return { fetchMock, uploads };
+};
+
+describe('BackendClient audio uploads', () => {
+  const wav = new WavBuilder(16000, 1, 16).addTone(440, 0.5, 0.5).build();
+  let client: BackendClient;
+
+  beforeEach(() => {
+    client = new BackendClient('https://backend.test/api');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends FLAC when the endpoint advertises it', async () => {
+    const { uploads } = createServer(() => jsonResponse(200, { audioFormats: ['wav', 'flac'] }));
+
+    await client.transcribe(wav);
+
+    const file = uploads[0].get('audio') as File;
+    expect(uploads[0].get('audioFormat')).toBe('flac');
+    expect(file.type).toBe('audio/flac');
+    expect(isFlacBuffer(await file.arrayBuffer())).toBe(true);
+  });
+
+  it('falls back to WAV for servers without negotiation', async () => {
+    const { uploads } = createServer(() => jsonResponse(405, { error: 'Method not allowed' }));
+
+    await client.transcribe(wav);
+
+    const file = uploads[0].get('audio') as File;
+    expect(uploads[0].get('audioFormat')).toBe('wav');
+    expect(file.type).toBe('audio/wav');
+    expect(file.size).toBe(wav.byteLength);
+  });
+
+  it('negotiates once per endpoint', async () => {
+    const { fetchMock } = createServer(() => jsonResponse(200, { audioFormats: ['wav'] }));
+
+    await client.transcribe(wav);
+    await client.transcribe(wav);
+
+    const checks = fetchMock.mock.calls.filter(([, init]) => init?.method === 'GET');
+    expect(checks.map(([url]) => url)).toEqual(['https://backend.test/api/ai/transcribe']);
+  });
+
+  it('checks again after a network error', async () => {
+    const negotiate = vi
+      .fn<() => Promise<Response>>()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValue(jsonResponse(200, { audioFormats: ['wav', 'flac'] }));
+    const { uploads } = createServer(negotiate);
+
+    await client.transcribe(wav);
+    await client.transcribe(wav);
+
+    expect(negotiate).toHaveBeenCalledTimes(2);
+    expect(uploads.map((form) => form.get('audioFormat'))).toEqual(['wav', 'flac']);
+  });
+});
@@ -1,5 +1,110 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { PremiereAPI } from '../../src/api/premiere';
+import {
+  framesToTicks,
+  frameRateFromFps,
+  secondsToTicks,
+  ticksToSeconds,
+} from '../../src/utils/timecode';
+
+type FakeClipSpec = [name: string, start: number, end: number];
+
+/**
+ * A UXP-like sequence at 25 fps whose clips can be split, removed (rippling
+ * their own track) and moved, and that takes colored markers
+ */
+function fakeSequence(video: FakeClipSpec[][], audio: FakeClipSpec[][]): any {
+  const time = (ticks: number) => ({ ticks: String(ticks), seconds: ticksToSeconds(ticks) });
+  const tracks: any[] = [];
+
+  const track = (name: string, specs: FakeClipSpec[]) => {
+    const list: any[] = [];
+    const clip = (clipName: string, startTicks: number, endTicks: number): any => {
+      const c: any = {
+        name: clipName,
+        startTicks,
+        endTicks,
+        get start() {
+          return time(c.startTicks);
+        },
+        get end() {
+          return time(c.endTicks);
+        },
+        split(seconds: number) {
+          const at = secondsToTicks(seconds);
+          list.splice(list.indexOf(c) + 1, 0, clip(clipName, at, c.endTicks));
+          c.endTicks = at;
+        },
+        remove(ripple: boolean) {
+          list.splice(list.indexOf(c), 1);
+          if (!ripple) return;
+          const length = c.endTicks - c.startTicks;
+          for (const later of list.filter((other) => other.startTicks >= c.endTicks)) {
+            later.startTicks -= length;
+            later.endTicks -= length;
+          }
+        },
+        move(seconds: number) {
+          c.startTicks += secondsToTicks(seconds);
+          c.endTicks += secondsToTicks(seconds);
+        },
+      };
+      return c;
+    };
+    for (const [clipName, start, end] of specs) {
+      list.push(clip(clipName, secondsToTicks(start), secondsToTicks(end)));
+    }
+
+    const t = {
+      name,
+      isMuted: () => false,
+      isLocked: () => false,
+      get clips() {
+        return Object.assign([...list], { numItems: list.length });
+      },
+    };
+    tracks.push(t);
+    return t;
+  };
+  const collection = (items: any[]) => Object.assign(items, { numTracks: items.length });
+
+  const markers: any[] = [];
+  Object.defineProperties(markers, {
+    numMarkers: { get: () => markers.length },
+    createMarker: {
+      value: (seconds: number) => {
+        const marker: any = {
+          start: time(secondsToTicks(seconds)),
+          setColorByIndex(colorIndex: number) {
+            marker.colorIndex = colorIndex;
+          },
+        };
+        markers.push(marker);
+        return marker;
+      },
+    },
+  });
+
+  return {
+    name: 'Fake Sequence',
+    sequenceID: 'fake-seq',
+    timebase: String(framesToTicks(1, frameRateFromFps(25))),
+    videoTracks: collection(video.map((specs, i) => track(`Video ${i + 1}`, specs))),
+    audioTracks: collection(audio.map((specs, i) => track(`Audio ${i + 1}`, specs))),
+    markers,
+    get end() {
+      const ends = tracks.flatMap((t) => t.clips.map((c: any) => c.endTicks));
+      return time(Math.max(0, ...ends));
+    },
+  };
+}
+
+/** Run the API against a fake sequence instead of mock mode */
+function attachSequence(api: PremiereAPI, sequence: any): void {
+  const internals = api as any;
+  internals.app = {};
+  internals.project = { activeSequence: sequence };
+}
 
 describe('PremiereAPI', () => {
   let api: PremiereAPI;
@@ -44,4 +149,180 @@ describe('PremiereAPI', () => {
       expect(result.name).toBe('Mock Project');
     });
   });
+
+  describe('applyReviewMarkers', () => {
+    it('applies the detections whose markers remain', async () => {
+      await api.autoCutSilence();
+      const pending = api.pendingSilentSections.length;
+
+      const result = await api.applyReviewMarkers();
+
+      expect(result.markersFound).toBe(pending);
+      expect(result.silence?.cutsApplied).toBe(pending);
+      expect(result.takes).toBeNull();
+      expect(result.markersRemoved).toBe(pending);
+    });
+  });
+
+  describe('applySilenceCuts', () => {
+    const take: NormalizedTake = {
+      groupId: 'intro',
+      phrase: 'Welcome back',
+      takeNumber: 1,
+      start: 20,
+      end: 24,
+      text: 'Welcome back',
+      isBest: true,
+      score: 80,
+      colorIndex: 1,
+      clipName: 'Take 1',
+      confidence: { boundaryAccuracy: 0.9, textMatch: 0.8, audioQuality: 0.7, overall: 0.85 },
+    };
+
+    it('moves pending takes onto the cut timeline', async () => {
+      api.pendingTakes = [take];
+
+      await api.applySilenceCuts([
+        { start: 5, end: 8, duration: 3, isNatural: false, confidence: 0.9 },
+      ]);
+
+      expect(api.pendingTakes[0]).toMatchObject({ start: 17, end: 21 });
+    });
+
+    it('moves pending takes by the frame-snapped range that was removed', async () => {
+      attachSequence(api, fakeSequence([[['Interview', 0, 60]]], [[['Interview', 0, 60]]]));
+      api.pendingTakes = [take];
+
+      await api.applySilenceCuts([
+        { start: 10.01, end: 12.03, duration: 2.02, isNatural: false, confidence: 0.9 },
+      ]);
+
+      expect(api.pendingTakes[0].start).toBeCloseTo(17.96, 9);
+      expect(api.pendingTakes[0].end).toBeCloseTo(21.96, 9);
+    });
+
+    it('counts the frame-snapped time removed and skips sub-frame sections', async () => {
+      attachSequence(api, fakeSequence([[['Interview', 0, 60]]], [[['Interview', 0, 60]]]));
+
+      const result = await api.applySilenceCuts(
+        [
+          { start: 5, end: 5.015, duration: 0.015, isNatural: false, confidence: 0.9 },
+          { start: 10.01, end: 12.03, duration: 2.02, isNatural: false, confidence: 0.9 },
+        ],
+        { minCutDuration: 0 }
+      );
+
+      expect(result.cutsAttempted).toBe(2);
+      expect(result.cutsApplied).toBe(1);
+      expect(result.timeRemoved).toBeCloseTo(2.04, 9); // 10.00 - 12.04 on the 25 fps grid
+    });
+  });
+
+  describe('addMarker', () => {
+    it('sets the marker color by Premiere color index', async () => {
+      const sequence = fakeSequence([[['Interview', 0, 60]]], []);
+      attachSequence(api, sequence);
+
+      await api.addMarker(2, 'Breath', 'cyan');
+      await api.addMarker(4, 'Clipping', 'red');
+
+      expect(sequence.markers.map((m: any) => m.colorIndex)).toEqual([7, 1]);
+    });
+  });
+
+  describe('addReviewMarkers', () => {
+    it('colors silence, best take and alternate take markers apart', async () => {
+      const sequence = fakeSequence([[['Interview', 0, 60]]], []);
+      attachSequence(api, sequence);
+      const take = (takeNumber: number, isBest: boolean): NormalizedTake => ({
+        groupId: 'intro',
+        phrase: 'Welcome back',
+        takeNumber,
+        start: takeNumber * 10,
+        end: takeNumber * 10 + 4,
+        text: 'Welcome back',
+        isBest,
+        score: isBest ? 90 : 60,
+        colorIndex: 1,
+        clipName: `Take ${takeNumber}`,
+        confidence: { boundaryAccuracy: 0.9, textMatch: 0.8, audioQuality: 0.7, overall: 0.85 },
+      });
+
+      await api.addReviewMarkers({
+        sections: [{ start: 2, end: 3, duration: 1, isNatural: false, confidence: 0.9 }],
+        takes: [take(1, false), take(2, true)],
+      });
+
+      // Red, yellow, green in Premiere's marker colors
+      expect(sequence.markers.map((m: any) => m.colorIndex)).toEqual([1, 4, 0]);
+    });
+  });
+
+  describe('deleteRange', () => {
+    const ripplePolicy: TrackTargeting = {
+      videoTracks: [0],
+      audioTracks: [],
+      untargetedPolicy: 'ripple',
+    };
+
+    it('shifts later clips on untargeted tracks with the ripple policy', async () => {
+      const sequence = fakeSequence(
+        [
+          [['Interview', 0, 60]],
+          [
+            ['Title', 0, 10],
+            ['Logo', 15, 20],
+          ],
+        ],
+        []
+      );
+      attachSequence(api, sequence);
+
+      const result = await api.deleteRange(10, 15, ripplePolicy);
+
+      expect(result.tracksSkipped).toEqual([
+        expect.objectContaining({ type: 'video', index: 1, shifted: true }),
+      ]);
+      expect(sequence.videoTracks[1].clips[1].start.seconds).toBe(10);
+    });
+
+    it('leaves an untargeted track alone when a clip lies in the range', async () => {
+      const sequence = fakeSequence(
+        [
+          [['Interview', 0, 60]],
+          [
+            ['Title', 0, 12],
+            ['Logo', 15, 20],
+          ],
+        ],
+        []
+      );
+      attachSequence(api, sequence);
+
+      const result = await api.deleteRange(10, 15, ripplePolicy);
+
+      expect(result.tracksSkipped).toEqual([
+        expect.objectContaining({ type: 'video', index: 1, shifted: false }),
+      ]);
+      expect(sequence.videoTracks[1].clips[1].start.seconds).toBe(15);
+    });
+  });
+
+  describe('simulateCuts', () => {
+    it('reports the cut sequence without editing it', async () => {
+      const report = await api.simulateCuts(
+        { cuts: [{ start: 10, end: 20, duration: 10, label: 'Cut' }] },
+        {},
+        { videoTracks: [0], audioTracks: [0] }
+      );
+
+      expect(report.durationBefore).toBe(180);
+      expect(report.timeRemoved).toBeCloseTo(10, 1);
+      expect(report.syncBreaks.map((brk) => brk.clipName)).toEqual([
+        'Lower third',
+        'B-roll',
+        'Music',
+      ]);
+    });
+  });
 });
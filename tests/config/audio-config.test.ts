@@ -92,15 +92,21 @@ describe('validateTimelineDuration', () => {
 });
 
 describe('AUDIO_CONFIG constants', () => {
-  it('has sensible chunk duration', () => {
-    expect(AUDIO_CONFIG.CHUNK_DURATION_SECONDS).toBe(600); // 10 minutes
-    expect(AUDIO_CONFIG.CHUNK_DURATION_SECONDS).toBeLessThanOrEqual(600);
+  it('caps chunks at an hour', () => {
+    expect(AUDIO_CONFIG.CHUNK_DURATION_SECONDS).toBe(3600);
   });
 
   it('has 25MB max chunk size for Whisper', () => {
     expect(AUDIO_CONFIG.MAX_CHUNK_SIZE_BYTES).toBe(25 * 1024 * 1024);
   });
 
+  it('overlaps chunks by a small fraction of their length', () => {
+    expect(AUDIO_CONFIG.CHUNK_OVERLAP_SECONDS).toBeGreaterThan(0);
+    expect(AUDIO_CONFIG.CHUNK_OVERLAP_SECONDS).toBeLessThan(
+      AUDIO_CONFIG.CHUNK_DURATION_SECONDS / 10
+    );
+  });
+
   it('has timeout values in correct order', () => {
     expect(AUDIO_CONFIG.EXPORT_TIMEOUT_BASE_MS).toBeLessThan(AUDIO_CONFIG.EXPORT_TIMEOUT_MAX_MS);
     expect(AUDIO_CONFIG.EXPORT_TIMEOUT_PER_MINUTE_MS).toBeGreaterThan(0);
@@ -112,6 +118,31 @@ describe('AUDIO_CONFIG constants', () => {
     );
   });
 
+  it('uploads 16 kHz audio for transcription', () => {
+    expect(AUDIO_CONFIG.UPLOAD_PREPROCESS_ENABLED).toBe(true);
+    expect(AUDIO_CONFIG.UPLOAD_SAMPLE_RATE).toBe(16000);
+    expect(AUDIO_CONFIG.UPLOAD_RESAMPLER_ZERO_CROSSINGS).toBeGreaterThan(0);
+    expect(AUDIO_CONFIG.UPLOAD_FLAC_ENABLED).toBe(true);
+  });
+
+  it('transcribes chunks in parallel with bounded retries', () => {
+    expect(AUDIO_CONFIG.TRANSCRIBE_CONCURRENCY).toBeGreaterThanOrEqual(1);
+    expect(AUDIO_CONFIG.TRANSCRIBE_CHUNK_RETRIES).toBeGreaterThanOrEqual(0);
+    expect(AUDIO_CONFIG.TRANSCRIBE_RETRY_DELAY_MS).toBeGreaterThan(0);
+  });
+
+  it('streams WAV files in windows far smaller than a chunk', () => {
+    expect(AUDIO_CONFIG.STREAM_WINDOW_BYTES).toBeLessThan(AUDIO_CONFIG.MAX_CHUNK_SIZE_BYTES);
+    expect(AUDIO_CONFIG.STREAM_MAX_HEADER_BYTES).toBeGreaterThanOrEqual(64 * 1024);
+  });
+
+  it('keeps waveform peaks for several zoom levels and sequences', () => {
+    expect(AUDIO_CONFIG.WAVEFORM_PEAK_SECONDS).toBeGreaterThan(0);
+    expect(AUDIO_CONFIG.WAVEFORM_LEVELS).toBeGreaterThan(1);
+    expect(AUDIO_CONFIG.WAVEFORM_LEVEL_FACTOR).toBeGreaterThan(1);
+    expect(AUDIO_CONFIG.WAVEFORM_CACHE_MAX_SEQUENCES).toBeGreaterThanOrEqual(1);
+  });
+
   it('has valid audio format defaults', () => {
     expect(AUDIO_CONFIG.DEFAULT_SAMPLE_RATE).toBe(48000);
     expect(AUDIO_CONFIG.DEFAULT_CHANNELS).toBe(2);
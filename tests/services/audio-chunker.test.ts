@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { AudioChunker, audioChunker } from '../../src/services/audio-chunker';
+import { WavStreamReader, createBufferSource } from '../../src/services/wav-stream-reader';
 import { SpliceErrorCode } from '../../src/lib/errors';
 import { WavBuilder, createInvalidWav } from '../utils/wav-builder';
 import { AUDIO_CONFIG } from '../../src/config/audio-config';
@@ -199,6 +200,299 @@ describe('AudioChunker', () => {
     });
   });
 
+  describe('getWavInfo - formats', () => {
+    it('parses plain 24-bit PCM', () => {
+      const wav = new WavBuilder(48000, 2, 24).addTone(440, 0.1).build();
+
+      expect(chunker.getWavInfo(wav)).toMatchObject({
+        sampleRate: 48000,
+        channels: 2,
+        bitsPerSample: 24,
+        sampleFormat: 'pcm',
+        dataOffset: 44,
+        dataSize: 4800 * 2 * 3,
+      });
+    });
+
+    it('parses 32-bit float', () => {
+      const wav = new WavBuilder(48000, 1, 32).asFloat().addTone(440, 0.1).build();
+
+      const info = chunker.getWavInfo(wav);
+
+      expect(info.bitsPerSample).toBe(32);
+      expect(info.sampleFormat).toBe('float');
+    });
+
+    it('parses WAVE_FORMAT_EXTENSIBLE with PCM and float subformats', () => {
+      const pcm = new WavBuilder(48000, 6, 24).asExtensible().addSilence(0.1).build();
+      const float = new WavBuilder(48000, 2, 32).asExtensible().asFloat().addSilence(0.1).build();
+
+      expect(chunker.getWavInfo(pcm)).toMatchObject({
+        channels: 6,
+        bitsPerSample: 24,
+        sampleFormat: 'pcm',
+        dataOffset: 12 + 8 + 40 + 8,
+      });
+      expect(chunker.getWavInfo(float).sampleFormat).toBe('float');
+    });
+
+    it('parses RF64 using the ds64 data size', () => {
+      const wav = new WavBuilder(48000, 2, 16).asRf64().addTone(440, 0.1).build();
+
+      const info = chunker.getWavInfo(wav);
+
+      expect(info.dataSize).toBe(4800 * 2 * 2);
+      expect(info.dataOffset).toBe(12 + 8 + 28 + 8 + 16 + 8);
+    });
+
+    it('skips bext, iXML and LIST chunks', () => {
+      const wav = new WavBuilder(48000, 2, 16)
+        .addChunk('bext', new Uint8Array(602), 'before-fmt')
+        .addChunk('iXML', '<BWFXML><PROJECT>Odd</PROJECT></BWFXML>') // Odd size, padded
+        .addChunk('LIST', 'INFOISFT\u0005\u0000\u0000\u0000Test\u0000')
+        .addTone(440, 0.1)
+        .build();
+
+      const info = chunker.getWavInfo(wav);
+
+      expect(info.sampleRate).toBe(48000);
+      expect(info.dataSize).toBe(4800 * 2 * 2);
+      expect(wav.byteLength - info.dataOffset).toBe(info.dataSize);
+    });
+
+    it('clamps a data size that overstates the buffer', () => {
+      const wav = new WavBuilder(48000, 1, 16).addSilence(0.1).build();
+      new DataView(wav).setUint32(40, 0xffffffff, true);
+
+      expect(chunker.getWavInfo(wav).dataSize).toBe(4800 * 2);
+    });
+
+    it('throws CHUNK_INVALID_FORMAT for compressed encodings', () => {
+      expect(() => chunker.getWavInfo(createInvalidWav('unsupported-format'))).toThrow(
+        expect.objectContaining({ code: SpliceErrorCode.CHUNK_INVALID_FORMAT })
+      );
+    });
+
+    it('throws CHUNK_INVALID_FORMAT for an unknown extensible subformat', () => {
+      expect(() => chunker.getWavInfo(createInvalidWav('extensible-unknown-subformat'))).toThrow(
+        expect.objectContaining({ code: SpliceErrorCode.CHUNK_INVALID_FORMAT })
+      );
+    });
+
+    it('throws CHUNK_INVALID_FORMAT for 16-bit float', () => {
+      const wav = new WavBuilder(48000, 1, 16).asFloat().build();
+
+      expect(() => chunker.getWavInfo(wav)).toThrow(
+        expect.objectContaining({ code: SpliceErrorCode.CHUNK_INVALID_FORMAT })
+      );
+    });
+
+    it('throws CHUNK_MISSING_HEADER for RF64 without a ds64 chunk', () => {
+      expect(() => chunker.getWavInfo(createInvalidWav('rf64-missing-ds64'))).toThrow(
+        expect.objectContaining({ code: SpliceErrorCode.CHUNK_MISSING_HEADER })
+      );
+    });
+
+    it('throws CHUNK_INVALID_WAV for buffers shorter than a RIFF header', () => {
+      expect(() => chunker.getWavInfo(new ArrayBuffer(8))).toThrow(
+        expect.objectContaining({ code: SpliceErrorCode.CHUNK_INVALID_WAV })
+      );
+    });
+  });
+
+  describe('chunkWavBuffer - re-assembly', () => {
+    // Shrink the limits so small fixtures are split into 0.5s chunks
+    const createSmallChunker = (bitsPerSample: number): AudioChunker => {
+      const small = new AudioChunker();
+      Object.assign(small, {
+        MAX_FILE_SIZE_BYTES: 0.75 * 16000 * 2 * (bitsPerSample / 8),
+        CHUNK_DURATION_SECONDS: 0.5,
+      });
+      return small;
+    };
+
+    const readChunkHeader = (buffer: ArrayBuffer) => {
+      const view = new DataView(buffer);
+      return {
+        formatTag: view.getUint16(20, true),
+        channels: view.getUint16(22, true),
+        bitsPerSample: view.getUint16(34, true),
+        dataSize: view.getUint32(40, true),
+      };
+    };
+
+    it.each([
+      ['24-bit PCM', () => new WavBuilder(16000, 2, 24), 1, 24],
+      ['32-bit float', () => new WavBuilder(16000, 2, 32).asFloat(), 3, 32],
+      ['extensible 24-bit', () => new WavBuilder(16000, 2, 24).asExtensible(), 1, 24],
+      ['RF64', () => new WavBuilder(16000, 2, 16).asRf64(), 1, 16],
+    ])('splits %s into plain RIFF chunks', async (_name, create, formatTag, bits) => {
+      const wav = create()
+        .addChunk('bext', new Uint8Array(256), 'before-fmt')
+        .addChunk('LIST', 'metadata')
+        .addTone(440, 1)
+        .build();
+      const info = chunker.getWavInfo(wav);
+
+      const chunks = await createSmallChunker(bits).chunkWavBuffer(wav, 1, { overlapSeconds: 0 });
+
+      expect(chunks.length).toBe(2);
+      for (const chunk of chunks) {
+        expect(readChunkHeader(chunk.buffer)).toEqual({
+          formatTag,
+          channels: 2,
+          bitsPerSample: bits,
+          dataSize: 8000 * 2 * (bits / 8),
+        });
+      }
+
+      // Second chunk starts exactly half way through the source data
+      const secondData = new Uint8Array(chunks[1].buffer, 44, 16);
+      const sourceData = new Uint8Array(wav, info.dataOffset + info.dataSize / 2, 16);
+      expect(secondData).toEqual(sourceData);
+    });
+  });
+
+  describe('chunkWavBuffer - chunk length', () => {
+    it('fills each chunk up to the size limit at the audio byte rate', async () => {
+      // 0.5s of 16kHz mono 16-bit per chunk, plus its header
+      const small = new AudioChunker();
+      Object.assign(small, { MAX_FILE_SIZE_BYTES: 0.5 * 16000 * 2 + 44 });
+      const wav = new WavBuilder(16000, 1, 16).addNoise(1.2, 0.3).build();
+
+      const chunks = await small.chunkWavBuffer(wav, 1.2, { overlapSeconds: 0 });
+
+      expect(chunks.map(({ startTime, endTime }) => [startTime, endTime])).toEqual([
+        [0, 0.5],
+        [0.5, 1],
+        [1, 1.2],
+      ]);
+      expect(chunks[0].buffer.byteLength).toBe(0.5 * 16000 * 2 + 44);
+    });
+
+    it('sizes chunks for the byte rate they will be uploaded at', async () => {
+      const small = new AudioChunker();
+      Object.assign(small, { MAX_FILE_SIZE_BYTES: 0.5 * 16000 * 2 + 44 });
+      const wav = new WavBuilder(48000, 2, 16).addNoise(1.2, 0.3).build();
+
+      const chunks = await small.chunkWavBuffer(wav, 1.2, {
+        overlapSeconds: 0,
+        bytesPerSecond: 16000 * 2,
+      });
+
+      expect(chunks.map(({ startTime, endTime }) => [startTime, endTime])).toEqual([
+        [0, 0.5],
+        [0.5, 1],
+        [1, 1.2],
+      ]);
+      expect(chunks[0].buffer.byteLength).toBe(0.5 * 48000 * 4 + 44); // Still the source format
+    });
+
+    it('leaves room for the overlap', async () => {
+      const small = new AudioChunker();
+      Object.assign(small, { MAX_FILE_SIZE_BYTES: 0.5 * 16000 * 2 + 44 });
+      const wav = new WavBuilder(16000, 1, 16).addNoise(1.2, 0.3).build();
+
+      const chunks = await small.chunkWavBuffer(wav, 1.2, { overlapSeconds: 0.25 });
+
+      expect(chunks.map(({ startTime, endTime }) => [startTime, endTime])).toEqual([
+        [0, 0.5],
+        [0.25, 0.75],
+        [0.5, 1],
+        [0.75, 1.2],
+        [1, 1.2],
+      ]);
+      for (const chunk of chunks) {
+        expect(chunk.buffer.byteLength).toBeLessThanOrEqual(0.5 * 16000 * 2 + 44);
+      }
+    });
+
+    it('throws when the byte rate leaves no room beyond the overlap', async () => {
+      // Under 0.1s of 48kHz stereo fits, less than the 0.25s overlap
+      const small = new AudioChunker();
+      Object.assign(small, { MAX_FILE_SIZE_BYTES: 0.5 * 16000 * 2 + 44 });
+      const wav = new WavBuilder(48000, 2, 16).addNoise(1.2, 0.3).build();
+
+      await expect(small.chunkWavBuffer(wav, 1.2, { overlapSeconds: 0.25 })).rejects.toMatchObject({
+        code: SpliceErrorCode.CHUNK_SIZE_EXCEEDED,
+      });
+      await expect(
+        small.chunkWavBufferIterator(wav, 1.2, { overlapSeconds: 0.25 }).next()
+      ).rejects.toMatchObject({ code: SpliceErrorCode.CHUNK_SIZE_EXCEEDED });
+    });
+  });
+
+  describe('chunkWavBuffer - overlap', () => {
+    const createSmallChunker = (): AudioChunker => {
+      const small = new AudioChunker();
+      Object.assign(small, {
+        MAX_FILE_SIZE_BYTES: 25000,
+        CHUNK_DURATION_SECONDS: 0.5,
+        CHUNK_OVERLAP_SECONDS: 0.1,
+      });
+      return small;
+    };
+
+    it('extends every chunk but the last into the next one', async () => {
+      const wav = new WavBuilder(16000, 1, 16).addNoise(1.2, 0.3).build();
+
+      const chunks = await createSmallChunker().chunkWavBuffer(wav, 1.2);
+
+      expect(chunks.map(({ startTime, endTime }) => [startTime, endTime])).toEqual([
+        [0, 0.6],
+        [0.5, 1.1],
+        [1, 1.2],
+      ]);
+      expect(new DataView(chunks[0].buffer).getUint32(40, true)).toBe(0.6 * 16000 * 2);
+    });
+
+    it('repeats the overlapping audio at the start of the next chunk', async () => {
+      const wav = new WavBuilder(16000, 1, 16).addNoise(1, 0.3).build();
+
+      const chunks = await createSmallChunker().chunkWavBuffer(wav, 1);
+
+      const overlapBytes = 0.1 * 16000 * 2;
+      const firstTail = new Uint8Array(
+        chunks[0].buffer,
+        chunks[0].buffer.byteLength - overlapBytes
+      );
+      const secondHead = new Uint8Array(chunks[1].buffer, 44, overlapBytes);
+      expect(firstTail).toEqual(secondHead);
+    });
+
+    it('uses the same ranges in the iterator', async () => {
+      const wav = new WavBuilder(16000, 1, 16).addNoise(1.2, 0.3).build();
+      const small = createSmallChunker();
+
+      const iterated: Array<[number, number]> = [];
+      for await (const chunk of small.chunkWavBufferIterator(wav, 1.2, { overlapSeconds: 0.2 })) {
+        iterated.push([chunk.startTime, chunk.endTime]);
+      }
+
+      expect(iterated).toEqual([
+        [0, 0.7],
+        [0.5, 1.2],
+        [1, 1.2],
+      ]);
+    });
+
+    it('reads the same chunks from a stream', async () => {
+      const wav = new WavBuilder(16000, 1, 16).addNoise(1.2, 0.3).build();
+      const small = createSmallChunker();
+      const reader = await WavStreamReader.open(createBufferSource(wav));
+
+      const streamed: ArrayBuffer[] = [];
+      for await (const chunk of small.chunkWavBufferIterator(reader, 1.2)) {
+        streamed.push(chunk.buffer);
+      }
+
+      const buffered = await small.chunkWavBuffer(wav, 1.2);
+      expect(streamed.map((b) => new Uint8Array(b))).toEqual(
+        buffered.map((c) => new Uint8Array(c.buffer))
+      );
+    });
+  });
+
   describe('mergeTranscriptionResults', () => {
     it('adjusts timestamps based on chunk offsets', () => {
       const chunkResults = [
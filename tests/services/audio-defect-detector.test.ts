@@ -0,0 +1,168 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { AudioDefectDetector } from '../../src/services/audio-defect-detector';
+import { WavStreamReader, createBufferSource } from '../../src/services/wav-stream-reader';
+import { AUDIO_CONFIG } from '../../src/config/audio-config';
+import { SpliceErrorCode } from '../../src/lib/errors';
+import { WavBuilder, createInvalidWav } from '../utils/wav-builder';
+
+describe('AudioDefectDetector', () => {
+  const detector = new AudioDefectDetector();
+
+  it('reports nothing for clean audio', () => {
+    const wav = new WavBuilder(16000, 2, 16).addTone(1000, 2, 0.5).build();
+
+    const report = detector.detect(wav);
+
+    expect(report.defects).toEqual([]);
+    expect(report.clippedSamples).toBe(0);
+    expect(report.duration).toBeCloseTo(2);
+  });
+
+  describe('clipping', () => {
+    it('finds runs of full-scale samples', () => {
+      const wav = new WavBuilder(16000, 1, 16)
+        .addTone(1000, 1, 0.5)
+        .addTone(100, 0.5, 2) // Overdriven: flat tops at full scale
+        .addTone(1000, 1, 0.5)
+        .build();
+
+      const report = detector.detect(wav);
+      const clipping = report.defects.filter((d) => d.kind === 'clipping');
+
+      expect(clipping.length).toBe(1);
+      expect(clipping[0].start).toBeCloseTo(1, 1);
+      expect(clipping[0].end).toBeCloseTo(1.5, 1);
+      expect(clipping[0].severity).toBe('high');
+      expect(clipping[0].channel).toBe(0);
+      expect(report.clippedSamples).toBeGreaterThan(1000);
+    });
+
+    it('ignores isolated full-scale samples shorter than the minimum run', () => {
+      // A 4kHz full-scale tone at 16kHz touches full scale on single samples only
+      const wav = new WavBuilder(16000, 1, 16).addTone(4000, 1, 1).build();
+
+      expect(detector.detect(wav).defects).toEqual([]);
+      expect(detector.detect(wav, { minClipRun: 1 }).defects.length).toBe(1);
+    });
+
+    it('finds positive clipping in 8-bit audio', () => {
+      // 8-bit positive full scale is 127/128
+      const wav = new WavBuilder(16000, 1, 8)
+        .addTone(1000, 0.5, 0.5)
+        .addConstant(1, 0.1)
+        .addTone(1000, 0.5, 0.5)
+        .build();
+
+      const clipping = detector.detect(wav).defects.filter((d) => d.kind === 'clipping');
+
+      expect(clipping.length).toBe(1);
+      expect(clipping[0].start).toBeCloseTo(0.5, 2);
+    });
+
+    it('marks clipping on several channels as channel null', () => {
+      const wav = new WavBuilder(16000, 2, 16).addTone(100, 0.5, 2).build();
+
+      const clipping = detector.detect(wav).defects.filter((d) => d.kind === 'clipping');
+
+      expect(clipping[0].channel).toBeNull();
+    });
+  });
+
+  describe('dropouts', () => {
+    it('finds sudden drops to digital zero', () => {
+      const wav = new WavBuilder(16000, 1, 16)
+        .addTone(1000, 0.5, 0.5)
+        .addSilence(0.01)
+        .addTone(1000, 0.5, 0.5)
+        .build();
+
+      const dropouts = detector.detect(wav).defects.filter((d) => d.kind === 'dropout');
+
+      expect(dropouts.length).toBe(1);
+      expect(dropouts[0].start).toBeCloseTo(0.5, 2);
+      expect(dropouts[0].end - dropouts[0].start).toBeCloseTo(0.01, 2);
+      expect(dropouts[0].severity).toBe('medium');
+    });
+
+    it('ignores long stretches of digital silence', () => {
+      const wav = new WavBuilder(16000, 1, 16)
+        .addTone(1000, 0.5, 0.5)
+        .addSilence(2)
+        .addTone(1000, 0.5, 0.5)
+        .build();
+
+      expect(detector.detect(wav).defects).toEqual([]);
+    });
+
+    it('ignores silence that fades in from quiet audio', () => {
+      const wav = new WavBuilder(16000, 1, 16)
+        .addTone(1000, 0.5, 0.001)
+        .addSilence(0.01)
+        .addTone(1000, 0.5, 0.5)
+        .build();
+
+      expect(detector.detect(wav).defects).toEqual([]);
+    });
+  });
+
+  describe('dc offset', () => {
+    it('finds windows with a constant offset', () => {
+      const wav = new WavBuilder(16000, 1, 16)
+        .addTone(1000, 2, 0.3)
+        .addConstant(0.05, 2)
+        .addTone(1000, 1, 0.3)
+        .build();
+
+      const report = detector.detect(wav);
+      const dc = report.defects.filter((d) => d.kind === 'dc-offset');
+
+      expect(dc.length).toBe(1);
+      expect(dc[0].start).toBeCloseTo(2);
+      expect(dc[0].end).toBeCloseTo(4);
+      expect(dc[0].severity).toBe('medium');
+      expect(dc[0].channel).toBe(0);
+      expect(report.dcOffset[0]).toBeCloseTo(0.02, 2);
+    });
+  });
+
+  it('can disable individual checks', () => {
+    const wav = new WavBuilder(16000, 1, 16).addTone(100, 0.5, 2).addConstant(0.05, 1).build();
+
+    const report = detector.detect(wav, { detectClipping: false, detectDcOffset: false });
+
+    expect(report.defects).toEqual([]);
+  });
+
+  describe('detectStream', () => {
+    const windowBytes = AUDIO_CONFIG.STREAM_WINDOW_BYTES;
+
+    afterEach(() => {
+      Object.assign(AUDIO_CONFIG, { STREAM_WINDOW_BYTES: windowBytes });
+    });
+
+    it('matches detect() when runs cross window boundaries', async () => {
+      Object.assign(AUDIO_CONFIG, { STREAM_WINDOW_BYTES: 999 });
+      const wav = new WavBuilder(16000, 2, 16)
+        .addTone(1000, 0.5, 0.5)
+        .addTone(100, 0.3, 2)
+        .addSilence(0.01)
+        .addTone(1000, 0.5, 0.5)
+        .addConstant(0.05, 1.5)
+        .build();
+      const reader = await WavStreamReader.open(createBufferSource(wav));
+
+      const streamed = await detector.detectStream(reader);
+
+      expect(streamed.defects.map((d) => d.kind)).toEqual(
+        expect.arrayContaining(['clipping', 'dropout', 'dc-offset'])
+      );
+      expect(streamed).toEqual(detector.detect(wav));
+    });
+  });
+
+  it('rejects invalid WAV data with a chunk error code', () => {
+    expect(() => detector.detect(createInvalidWav('no-riff'))).toThrow(
+      expect.objectContaining({ code: SpliceErrorCode.CHUNK_INVALID_WAV })
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { AudioPreprocessor } from '../../src/services/audio-preprocessor';
+import { audioChunker } from '../../src/services/audio-chunker';
+import { readMonoFrames } from '../../src/utils/audio-envelope';
+import { SpliceErrorCode } from '../../src/lib/errors';
+import { WavBuilder, createInvalidWav } from '../utils/wav-builder';
+
+/** RMS of the output, skipping the filter's edge transients */
+const measureRms = (wav: ArrayBuffer): number => {
+  const info = audioChunker.getWavInfo(wav);
+  const frames = info.dataSize / ((info.bitsPerSample / 8) * info.channels);
+  const edge = Math.round(info.sampleRate * 0.05);
+  const samples = readMonoFrames(wav, info, edge, frames - 2 * edge);
+  const sumSquares = samples.reduce((sum, x) => sum + x * x, 0);
+  return Math.sqrt(sumSquares / samples.length);
+};
+
+describe('AudioPreprocessor', () => {
+  const preprocessor = new AudioPreprocessor();
+
+  it('downmixes 48 kHz stereo to 16 kHz mono 16-bit', () => {
+    const wav = new WavBuilder(48000, 2, 16).addTone(1000, 1, 0.5).build();
+
+    const output = preprocessor.prepareForUpload(wav);
+    const info = audioChunker.getWavInfo(output);
+
+    expect(info).toMatchObject({
+      sampleRate: 16000,
+      channels: 1,
+      bitsPerSample: 16,
+      sampleFormat: 'pcm',
+      dataSize: 16000 * 2,
+    });
+    expect(output.byteLength).toBeLessThan(wav.byteLength / 5);
+  });
+
+  it('keeps the level of in-band audio', () => {
+    const wav = new WavBuilder(48000, 2, 16).addTone(1000, 1, 0.5).build();
+
+    // Sine RMS = amplitude / sqrt(2)
+    expect(measureRms(preprocessor.prepareForUpload(wav))).toBeCloseTo(0.5 / Math.SQRT2, 2);
+  });
+
+  it('filters out content above the new Nyquist frequency', () => {
+    const wav = new WavBuilder(48000, 1, 16).addTone(12000, 1, 0.5).build();
+
+    // Without an anti-alias filter this would fold down to 4 kHz at full level
+    expect(measureRms(preprocessor.prepareForUpload(wav))).toBeLessThan(0.005);
+  });
+
+  it('handles non-integer ratios from 44.1 kHz', () => {
+    const wav = new WavBuilder(44100, 2, 16).addTone(440, 1, 0.5).build();
+
+    const output = preprocessor.prepareForUpload(wav);
+
+    expect(audioChunker.getWavInfo(output).dataSize).toBe(16000 * 2);
+    expect(measureRms(output)).toBeCloseTo(0.5 / Math.SQRT2, 2);
+  });
+
+  it('converts 24-bit and float input to 16-bit', () => {
+    const formats = [new WavBuilder(48000, 2, 24), new WavBuilder(48000, 2, 32).asFloat()];
+
+    for (const builder of formats) {
+      const output = preprocessor.prepareForUpload(builder.addTone(1000, 0.5, 0.5).build());
+
+      expect(audioChunker.getWavInfo(output).bitsPerSample).toBe(16);
+      expect(measureRms(output)).toBeCloseTo(0.5 / Math.SQRT2, 2);
+    }
+  });
+
+  it('downmixes without resampling when already at or below the target rate', () => {
+    const wav = new WavBuilder(8000, 2, 16).addTone(440, 0.5, 0.5).build();
+
+    const output = preprocessor.prepareForUpload(wav);
+
+    expect(audioChunker.getWavInfo(output)).toMatchObject({ sampleRate: 8000, channels: 1 });
+    expect(measureRms(output)).toBeCloseTo(0.5 / Math.SQRT2, 2);
+  });
+
+  it('returns the input when it is already in the upload format', () => {
+    const wav = new WavBuilder(16000, 1, 16).addTone(440, 0.5).build();
+
+    expect(preprocessor.prepareForUpload(wav)).toBe(wav);
+  });
+
+  it('returns the input when disabled', () => {
+    const wav = new WavBuilder(48000, 2, 16).addTone(440, 0.5).build();
+
+    expect(preprocessor.prepareForUpload(wav, { enabled: false })).toBe(wav);
+  });
+
+  it('reports the byte rate of the audio it will produce', () => {
+    const info = (wav: ArrayBuffer) => audioChunker.getWavInfo(wav);
+    const stereo = new WavBuilder(48000, 2, 24).addTone(440, 0.1).build();
+    const narrowband = new WavBuilder(8000, 2, 16).addTone(440, 0.1).build();
+
+    expect(preprocessor.getUploadBytesPerSecond(info(stereo))).toBe(16000 * 2);
+    expect(preprocessor.getUploadBytesPerSecond(info(narrowband))).toBe(8000 * 2);
+    expect(preprocessor.getUploadBytesPerSecond(info(stereo), { enabled: false })).toBe(
+      48000 * 2 * 3
+    );
+  });
+
+  it('rejects invalid WAV data with a chunk error code', () => {
+    expect(() => preprocessor.prepareForUpload(createInvalidWav('no-riff'))).toThrow(
+      expect.objectContaining({ code: SpliceErrorCode.CHUNK_INVALID_WAV })
+    );
+  });
+});
@@ -106,6 +106,20 @@ describe('BatchProcessor', () => {
       expect(completedCount).toBe(1);
     });
 
+    it('records the duplicate that was cut in non-destructive mode', async () => {
+      await processor.queueSequences(['seq1']);
+
+      const result = await processor.startProcessing({
+        nonDestructive: true,
+        copyNameTemplate: '{name} (clean)',
+      });
+
+      expect(result.jobs[0].sequenceCopy).toMatchObject({
+        copyName: 'Main Sequence (clean)',
+        operation: 'silence-cuts',
+      });
+    });
+
     it('prevents starting when already processing', async () => {
       await processor.queueSequences(['seq1']);
 
@@ -0,0 +1,139 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { BreathDetector } from '../../src/services/breath-detector';
+import type { SilentSection } from '../../src/services/silence-detector';
+import { WavStreamReader, createBufferSource } from '../../src/services/wav-stream-reader';
+import { AUDIO_CONFIG } from '../../src/config/audio-config';
+import { SpliceErrorCode } from '../../src/lib/errors';
+import { WavBuilder, createInvalidWav } from '../utils/wav-builder';
+
+const word = (text: string, start: number, end: number): WhisperWord => ({
+  word: text,
+  start,
+  end,
+});
+
+describe('BreathDetector', () => {
+  const detector = new BreathDetector();
+
+  describe('detect', () => {
+    it('finds quiet noise between speech as a breath', () => {
+      const wav = new WavBuilder(16000, 1, 16)
+        .addTone(200, 1, 0.5)
+        .addNoise(0.4, 0.05)
+        .addTone(200, 1, 0.5)
+        .build();
+
+      const breaths = detector.detect(wav);
+
+      expect(breaths.length).toBe(1);
+      expect(breaths[0].start).toBeCloseTo(1, 1);
+      expect(breaths[0].end).toBeCloseTo(1.4, 1);
+      expect(breaths[0].levelDb).toBeCloseTo(-31, 0);
+      expect(breaths[0].confidence).toBeGreaterThan(0.5);
+    });
+
+    it('ignores quiet tones and digital silence', () => {
+      const wav = new WavBuilder(16000, 1, 16)
+        .addTone(200, 1, 0.5)
+        .addTone(300, 0.4, 0.03)
+        .addSilence(0.4)
+        .addTone(200, 1, 0.5)
+        .build();
+
+      expect(detector.detect(wav)).toEqual([]);
+    });
+
+    it('ignores noise too long to be a breath', () => {
+      const wav = new WavBuilder(16000, 1, 16).addNoise(2, 0.05).build();
+
+      expect(detector.detect(wav)).toEqual([]);
+    });
+
+    it('only scans gaps between transcribed words', () => {
+      const wav = new WavBuilder(16000, 1, 16)
+        .addNoise(0.4, 0.05)
+        .addTone(200, 1, 0.5)
+        .addNoise(0.4, 0.05)
+        .addTone(200, 1, 0.5)
+        .build();
+
+      // Whisper often stretches the first word back over the lead-in breath
+      const breaths = detector.detect(wav, [word('hello', 0, 1.4), word('there', 1.8, 2.8)]);
+
+      expect(breaths.length).toBe(1);
+      expect(breaths[0].start).toBeCloseTo(1.4, 1);
+    });
+
+    it('rejects invalid WAV data with a chunk error code', () => {
+      expect(() => detector.detect(createInvalidWav('no-riff'))).toThrow(
+        expect.objectContaining({ code: SpliceErrorCode.CHUNK_INVALID_WAV })
+      );
+    });
+  });
+
+  describe('detectStream', () => {
+    const windowBytes = AUDIO_CONFIG.STREAM_WINDOW_BYTES;
+
+    afterEach(() => {
+      Object.assign(AUDIO_CONFIG, { STREAM_WINDOW_BYTES: windowBytes });
+    });
+
+    it('matches detect() when the file is read in small blocks', async () => {
+      Object.assign(AUDIO_CONFIG, { STREAM_WINDOW_BYTES: 3000 });
+      const wav = new WavBuilder(16000, 2, 16)
+        .addTone(200, 1, 0.5)
+        .addNoise(0.4, 0.05)
+        .addTone(200, 1, 0.5)
+        .addNoise(0.3, 0.05)
+        .build();
+      const words = [word('one', 0, 1), word('two', 1.4, 2.4)];
+      const reader = await WavStreamReader.open(createBufferSource(wav));
+
+      const streamed = await detector.detectStream(reader, words);
+
+      expect(streamed.length).toBe(2);
+      expect(streamed).toEqual(detector.detect(wav, words));
+    });
+  });
+
+  describe('applyPolicy', () => {
+    const sections: SilentSection[] = [
+      { start: 2, end: 4, duration: 2, isNatural: false, confidence: 0.9 },
+    ];
+    const breaths = [{ start: 2.5, end: 3, duration: 0.5, confidence: 0.8, levelDb: -30 }];
+
+    it('leaves silence cuts unchanged when breaths are kept', () => {
+      expect(detector.applyPolicy(sections, breaths, 'keep')).toBe(sections);
+    });
+
+    it('keeps breaths out of silence cuts', () => {
+      const result = detector.applyPolicy(sections, breaths, 'protect');
+
+      expect(result.map((s) => [s.start, s.end])).toEqual([
+        [2, 2.5],
+        [3, 4],
+      ]);
+      expect(result[1].duration).toBe(1);
+    });
+
+    it('adds breaths as cuts', () => {
+      const outside = [{ start: 1, end: 1.3, duration: 0.3, confidence: 0.8, levelDb: -30 }];
+
+      const result = detector.applyPolicy(sections, outside, 'cut');
+
+      expect(result.map((s) => s.start)).toEqual([1, 2]);
+      expect(result[0].isNatural).toBe(false);
+    });
+
+    it('does not double count breaths inside silence when cutting', () => {
+      const result = detector.applyPolicy(sections, breaths, 'cut');
+
+      expect(result.map((s) => [s.start, s.end])).toEqual([
+        [2, 2.5],
+        [2.5, 3],
+        [3, 4],
+      ]);
+      expect(result.reduce((sum, s) => sum + s.duration, 0)).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import { CutListExporter, CutListSequenceInfo } from '../../src/services/cut-list-exporter';
+import type { SilentSection } from '../../src/services/silence-detector';
+
+const section = (start: number, end: number): SilentSection => ({
+  start,
+  end,
+  duration: end - start,
+  isNatural: false,
+  confidence: 0.9,
+});
+
+const take = (start: number, end: number): NormalizedTake =>
+  ({ start, end, selected: true }) as NormalizedTake;
+
+const ntsc = { numerator: 30000, denominator: 1001 };
+
+const info: CutListSequenceInfo = {
+  name: 'Interview & B-Roll',
+  frameRate: ntsc,
+  durationFrames: 300,
+  width: 1920,
+  height: 1080,
+};
+
+describe('CutListExporter', () => {
+  const exporter = new CutListExporter();
+
+  describe('keepRangesFromSections', () => {
+    it('keeps everything between the cuts, snapped to frames', () => {
+      const ranges = exporter.keepRangesFromSections(
+        [section(2, 3.01), section(8, 10.5)],
+        300,
+        ntsc
+      );
+
+      expect(ranges).toEqual([
+        { startFrame: 0, endFrame: 60 },
+        { startFrame: 90, endFrame: 240 },
+      ]);
+    });
+
+    it('merges overlapping cuts and clamps them to the sequence', () => {
+      const ranges = exporter.keepRangesFromSections(
+        [section(4, 6), section(-1, 1), section(5, 7)],
+        300,
+        ntsc
+      );
+
+      expect(ranges).toEqual([
+        { startFrame: 30, endFrame: 120 },
+        { startFrame: 210, endFrame: 300 },
+      ]);
+    });
+  });
+
+  describe('keepRangesFromTakes', () => {
+    it('sorts takes and merges touching ones', () => {
+      const ranges = exporter.keepRangesFromTakes([take(5, 6), take(1, 2), take(2, 3)], ntsc);
+
+      expect(ranges).toEqual([
+        { startFrame: 30, endFrame: 90 },
+        { startFrame: 150, endFrame: 180 },
+      ]);
+    });
+  });
+
+  describe('toEdl', () => {
+    it('writes one event per kept range with continuous record times', () => {
+      const edl = exporter.toEdl(
+        [
+          { startFrame: 0, endFrame: 60 },
+          { startFrame: 90, endFrame: 240 },
+        ],
+        info
+      );
+      const lines = edl.split('\n');
+
+      expect(lines[0]).toBe('TITLE: Interview & B-Roll');
+      expect(lines[1]).toBe('FCM: NON-DROP FRAME');
+      expect(lines[3]).toBe(
+        '001  AX       AA/V  C        00:00:00:00 00:00:02:00 00:00:00:00 00:00:02:00'
+      );
+      expect(lines[6]).toBe(
+        '002  AX       AA/V  C        00:00:03:00 00:00:08:00 00:00:02:00 00:00:07:00'
+      );
+      expect(lines[7]).toBe('* FROM CLIP NAME: Interview & B-Roll');
+    });
+
+    it('writes drop-frame timecode when the sequence uses it', () => {
+      const lines = exporter
+        .toEdl([{ startFrame: 1800, endFrame: 17982 }], { ...info, dropFrame: true })
+        .split('\n');
+
+      expect(lines[1]).toBe('FCM: DROP FRAME');
+      expect(lines[3]).toContain('00:01:00;02 00:10:00;00 00:00:00;00 00:08:59;28');
+    });
+  });
+
+  describe('toFcpxml', () => {
+    it('writes rational times at the sequence rate', () => {
+      const xml = exporter.toFcpxml([{ startFrame: 90, endFrame: 240 }], info);
+
+      expect(xml).toContain('<fcpxml version="1.9">');
+      expect(xml).toContain('frameDuration="1001/30000s" width="1920" height="1080"');
+      expect(xml).toContain('start="90090/30000s" duration="150150/30000s"');
+      expect(xml).toContain('offset="0s"');
+      expect(xml).toContain('name="Interview &amp; B-Roll"');
+    });
+
+    it('points the asset at the media file when given', () => {
+      const xml = exporter.toFcpxml([], { ...info, mediaPath: '/Volumes/Media/Render 1.mov' });
+
+      expect(xml).toContain('src="file:///Volumes/Media/Render%201.mov"');
+    });
+  });
+
+  describe('toOtio', () => {
+    it('writes matching video and audio tracks of clips', () => {
+      const timeline = JSON.parse(
+        exporter.toOtio(
+          [
+            { startFrame: 0, endFrame: 60 },
+            { startFrame: 90, endFrame: 240 },
+          ],
+          info
+        )
+      );
+      const [video, audio] = timeline.tracks.children;
+
+      expect(timeline.OTIO_SCHEMA).toBe('Timeline.1');
+      expect(video.kind).toBe('Video');
+      expect(audio.kind).toBe('Audio');
+      expect(video.children).toHaveLength(2);
+      expect(audio.children[1].source_range.start_time).toEqual({
+        OTIO_SCHEMA: 'RationalTime.1',
+        rate: 30000 / 1001,
+        value: 90,
+      });
+      expect(video.children[1].source_range.duration.value).toBe(150);
+      expect(video.children[0].media_reference.OTIO_SCHEMA).toBe('MissingReference.1');
+    });
+  });
+
+  describe('save', () => {
+    it('returns null when UXP is not available', async () => {
+      expect(await exporter.save('TITLE: Test', 'Test', 'edl')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import { CutListImporter } from '../../src/services/cut-list-importer';
+import { CutListExporter, CutListSequenceInfo } from '../../src/services/cut-list-exporter';
+import { SpliceError, SpliceErrorCode } from '../../src/lib/errors';
+
+const info: CutListSequenceInfo = {
+  name: 'Interview',
+  frameRate: { numerator: 25, denominator: 1 },
+  durationFrames: 25 * 60,
+  width: 1920,
+  height: 1080,
+};
+
+describe('CutListImporter', () => {
+  const importer = new CutListImporter();
+
+  describe('parseCsv', () => {
+    it('reads start, end, action and label columns', () => {
+      const { entries, issues } = importer.parseCsv(
+        '1.5,3,cut,Cough\n00:00:10:00,00:00:12:12,delete,"Long, slow pause"',
+        info.frameRate
+      );
+
+      expect(issues).toEqual([]);
+      expect(entries).toEqual([
+        { start: 1.5, end: 3, action: 'cut', label: 'Cough', line: 1 },
+        { start: 10, end: 12.48, action: 'cut', label: 'Long, slow pause', line: 2 },
+      ]);
+    });
+
+    it('maps columns from a header row', () => {
+      const { entries } = importer.parseCsv(
+        'Label,Action,Start,End\nIntro,keep,0:05,1:00.5',
+        info.frameRate
+      );
+
+      expect(entries).toEqual([{ start: 5, end: 60.5, action: 'keep', label: 'Intro', line: 2 }]);
+    });
+
+    it('reports rows it cannot read', () => {
+      const { entries, issues } = importer.parseCsv('1,2,trim\nsoon,3,cut\n4,5', info.frameRate);
+
+      expect(entries).toEqual([{ start: 4, end: 5, action: 'cut', label: 'Line 3', line: 3 }]);
+      expect(issues.map((issue) => issue.line)).toEqual([1, 2]);
+      expect(issues[0].message).toContain('Unknown action');
+    });
+  });
+
+  describe('parseEdl', () => {
+    it('reads the events an export writes back as kept ranges', () => {
+      const exporter = new CutListExporter();
+      const edl = exporter.toEdl(
+        [
+          { startFrame: 0, endFrame: 50 },
+          { startFrame: 100, endFrame: 250 },
+        ],
+        info
+      );
+
+      const { entries, issues } = importer.parseEdl(edl, info.frameRate);
+
+      expect(issues).toEqual([]);
+      expect(entries).toMatchObject([
+        { start: 0, end: 2, action: 'keep', label: 'Interview' },
+        { start: 4, end: 10, action: 'keep', label: 'Interview' },
+      ]);
+    });
+
+    it('counts source timecode from the sequence start timecode', () => {
+      const hour = { ...info, startFrame: 25 * 3600 };
+      const edl = new CutListExporter().toEdl([{ startFrame: 100, endFrame: 250 }], hour);
+
+      expect(edl).toContain('01:00:04:00 01:00:10:00 00:00:00:00 00:00:06:00');
+      expect(importer.parseEdl(edl, hour.frameRate, hour.startFrame).entries).toMatchObject([
+        { start: 4, end: 10 },
+      ]);
+    });
+
+    it('reads timecode as drop-frame under an FCM: DROP FRAME header', () => {
+      const ntsc = { numerator: 30000, denominator: 1001 };
+      const event = '001  AX       V     C        00:10:00:00 00:10:00:10 00:00:00:00 00:00:00:10';
+
+      const dropped = importer.parseEdl(`FCM: DROP FRAME\n${event}`, ntsc);
+      const nonDropped = importer.parseEdl(`FCM: NON-DROP FRAME\n${event}`, ntsc);
+
+      // 00:10:00;00 drop-frame is frame 17982, 18 frames before 00:10:00:00 non-drop
+      expect(dropped.entries[0].start).toBeCloseTo((17982 * 1001) / 30000, 6);
+      expect(nonDropped.entries[0].start).toBeCloseTo((18000 * 1001) / 30000, 6);
+    });
+
+    it('accepts dissolve events with a duration field', () => {
+      const { entries } = importer.parseEdl(
+        '002  AX       V     D    025 00:00:04:00 00:00:06:00 00:00:01:00 00:00:03:00',
+        info.frameRate
+      );
+
+      expect(entries).toMatchObject([{ start: 4, end: 6, label: 'Event 002' }]);
+    });
+  });
+
+  describe('validate', () => {
+    it('cuts everything outside kept ranges together with explicit cuts', () => {
+      const { cuts } = importer.validate(
+        [
+          { start: 2, end: 10, action: 'keep', label: 'A', line: 1 },
+          { start: 20, end: 60, action: 'keep', label: 'B', line: 2 },
+          { start: 30, end: 31, action: 'cut', label: 'Cough', line: 3 },
+        ],
+        info
+      );
+
+      expect(cuts).toEqual([
+        { start: 0, end: 2, duration: 2, label: 'Not kept' },
+        { start: 10, end: 20, duration: 10, label: 'Not kept' },
+        { start: 30, end: 31, duration: 1, label: 'Cough' },
+      ]);
+    });
+
+    it('snaps to frames, trims overruns and drops invalid entries', () => {
+      const { cuts, issues } = importer.validate(
+        [
+          { start: 1.01, end: 1.99, action: 'cut', label: 'Snap', line: 1 },
+          { start: 58, end: 65, action: 'cut', label: 'Overrun', line: 2 },
+          { start: 5, end: 4, action: 'cut', label: 'Backwards', line: 3 },
+          { start: 70, end: 80, action: 'cut', label: 'After', line: 4 },
+        ],
+        info
+      );
+
+      expect(cuts).toEqual([
+        { start: 1, end: 2, duration: 1, label: 'Snap' },
+        { start: 58, end: 60, duration: 2, label: 'Overrun' },
+      ]);
+      expect(issues).toMatchObject([
+        { line: 2, severity: 'warning' },
+        { line: 3, severity: 'error' },
+        { line: 4, severity: 'error' },
+      ]);
+    });
+  });
+
+  describe('load', () => {
+    it('detects the format and totals the time removed', () => {
+      const cutList = importer.load('start,end\n1,2\n5,7.6', 'edits.txt', info);
+
+      expect(cutList.format).toBe('csv');
+      expect(cutList.cuts).toHaveLength(2);
+      expect(cutList.timeRemoved).toBeCloseTo(3.6);
+    });
+
+    it('throws when the file has no entries', () => {
+      let caught: unknown;
+      try {
+        importer.load('TITLE: Empty\nFCM: NON-DROP FRAME\n', 'empty.edl', info);
+      } catch (error) {
+        caught = error;
+      }
+
+      expect(caught).toBeInstanceOf(SpliceError);
+      expect((caught as SpliceError).code).toBe(SpliceErrorCode.CUT_LIST_INVALID);
+    });
+  });
+});
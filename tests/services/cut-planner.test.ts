@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import { CutPlanner } from '../../src/services/cut-planner';
+import type { SilentSection } from '../../src/services/silence-detector';
+
+const section = (start: number, end: number, confidence = 0.9): SilentSection => ({
+  start,
+  end,
+  duration: end - start,
+  isNatural: false,
+  confidence,
+});
+
+describe('CutPlanner', () => {
+  const planner = new CutPlanner();
+
+  describe('applyHandles', () => {
+    it('returns sections unchanged when no handles are set', () => {
+      const result = planner.applyHandles([section(1, 2), section(4, 6)]);
+
+      expect(result).toEqual([section(1, 2), section(4, 6)]);
+    });
+
+    it('shrinks each section by the pre and post handles', () => {
+      const result = planner.applyHandles([section(1, 3)], { preHandle: 0.2, postHandle: 0.3 });
+
+      expect(result.length).toBe(1);
+      expect(result[0].start).toBeCloseTo(1.2);
+      expect(result[0].end).toBeCloseTo(2.7);
+      expect(result[0].duration).toBeCloseTo(1.5);
+    });
+
+    it('grows handles to leave the minimum remaining gap', () => {
+      const result = planner.applyHandles([section(1, 3)], {
+        preHandle: 0.1,
+        postHandle: 0.1,
+        minRemainingGap: 0.6,
+      });
+
+      expect(result[0].start).toBeCloseTo(1.3);
+      expect(result[0].end).toBeCloseTo(2.7);
+    });
+
+    it('drops sections that become shorter than the minimum cut duration', () => {
+      const result = planner.applyHandles([section(1, 1.5), section(3, 5)], {
+        preHandle: 0.2,
+        postHandle: 0.2,
+        minCutDuration: 0.2,
+      });
+
+      expect(result.length).toBe(1);
+      expect(result[0].start).toBeCloseTo(3.2);
+    });
+
+    it('drops sections consumed entirely by the handles', () => {
+      const result = planner.applyHandles([section(1, 1.3)], {
+        preHandle: 0.2,
+        postHandle: 0.2,
+        minCutDuration: 0,
+      });
+
+      expect(result).toEqual([]);
+    });
+
+    it('merges overlapping and touching sections', () => {
+      const result = planner.applyHandles(
+        [section(5, 6), section(1, 2, 0.8), section(1.5, 3), section(3, 4, 0.7)],
+        {}
+      );
+
+      expect(result.length).toBe(2);
+      expect(result[0]).toMatchObject({ start: 1, end: 4, duration: 3, confidence: 0.7 });
+      expect(result[1]).toMatchObject({ start: 5, end: 6 });
+    });
+
+    it('keeps the words around the merged range', () => {
+      const result = planner.applyHandles([
+        { ...section(1, 2), precedingText: 'so', followingText: 'um' },
+        { ...section(1.8, 3), precedingText: 'um', followingText: 'then' },
+      ]);
+
+      expect(result[0]).toMatchObject({ precedingText: 'so', followingText: 'then' });
+    });
+
+    it('does not modify the input sections', () => {
+      const input = [section(1, 2), section(1.5, 3)];
+
+      planner.applyHandles(input, { preHandle: 0.1, postHandle: 0.1 });
+
+      expect(input).toEqual([section(1, 2), section(1.5, 3)]);
+    });
+  });
+
+  describe('tighten mode', () => {
+    it('shortens each pause to the target, centered by default', () => {
+      const result = planner.applyHandles([section(1, 3)], {
+        mode: 'tighten',
+        tightenTarget: 0.4,
+        preHandle: 0.1, // ignored in tighten mode
+      });
+
+      expect(result[0].start).toBeCloseTo(1.2);
+      expect(result[0].end).toBeCloseTo(2.8);
+    });
+
+    it('keeps the pause before the following word when anchored there', () => {
+      const result = planner.applyHandles([section(1, 3)], {
+        mode: 'tighten',
+        tightenTarget: 0.25,
+        tightenAnchor: 'following',
+      });
+
+      expect(result[0].start).toBeCloseTo(1);
+      expect(result[0].end).toBeCloseTo(2.75);
+    });
+
+    it('leaves pauses already shorter than the target untouched', () => {
+      const result = planner.applyHandles([section(1, 1.2), section(2, 3)], {
+        mode: 'tighten',
+        tightenTarget: 0.25,
+      });
+
+      expect(result.length).toBe(1);
+      expect(result[0].start).toBeCloseTo(2.125);
+    });
+
+    it('never keeps less than the minimum remaining gap', () => {
+      const result = planner.applyHandles([section(1, 3)], {
+        mode: 'tighten',
+        tightenTarget: 0.1,
+        minRemainingGap: 0.5,
+      });
+
+      expect(result[0].duration).toBeCloseTo(1.5);
+    });
+  });
+
+  describe('handlesFromPreset', () => {
+    it('uses the preset padding on both sides', () => {
+      const handles = planner.handlesFromPreset({
+        id: 'p',
+        name: 'P',
+        threshold: -40,
+        minSilenceDuration: 0.5,
+        padding: 0.25,
+        useVoiceIsolation: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      expect(handles).toEqual({ preHandle: 0.25, postHandle: 0.25 });
+    });
+  });
+
+  describe('handlesForDisfluencies', () => {
+    it('cuts short candidates exactly as detected', () => {
+      const result = planner.applyHandles(
+        [section(1, 1.06), section(2.5, 2.9)],
+        planner.handlesForDisfluencies()
+      );
+
+      expect(result).toEqual([section(1, 1.06), section(2.5, 2.9)]);
+    });
+  });
+});
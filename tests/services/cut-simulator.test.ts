@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import { CutSimulator, TimelineStructure, TimelineTrack } from '../../src/services/cut-simulator';
+
+const track = (
+  type: 'video' | 'audio',
+  index: number,
+  clips: Array<[string, number, number]>,
+  skipReason?: TimelineTrack['skipReason']
+): TimelineTrack => ({
+  type,
+  index,
+  name: `${type} ${index + 1}`,
+  clips: clips.map(([name, start, end]) => ({ name, start, end })),
+  skipReason,
+});
+
+const timeline = (
+  tracks: TimelineTrack[],
+  untargetedPolicy: UntargetedTrackPolicy = 'leave'
+): TimelineStructure => ({ duration: 60, tracks, untargetedPolicy });
+
+describe('CutSimulator', () => {
+  const simulator = new CutSimulator();
+
+  it('trims, splits and removes clips on cut tracks', () => {
+    const report = simulator.simulate(
+      timeline([
+        track('audio', 0, [
+          ['Intro', 0, 10],
+          ['Answer', 10, 30],
+          ['Outro', 30, 60],
+        ]),
+      ]),
+      [
+        { start: 8, end: 12 },
+        { start: 15, end: 20 },
+        { start: 30, end: 60 },
+      ]
+    );
+
+    expect(report.cuts).toBe(3);
+    expect(report.timeRemoved).toBe(39);
+    expect(report.durationAfter).toBe(21);
+    expect(report.clipChanges).toEqual([
+      expect.objectContaining({ clipName: 'Intro', outcome: 'trimmed', timeRemoved: 2 }),
+      expect.objectContaining({
+        clipName: 'Answer',
+        outcome: 'split',
+        timeRemoved: 7,
+        pieces: [
+          { start: 8, end: 11 },
+          { start: 11, end: 21 },
+        ],
+      }),
+      expect.objectContaining({ clipName: 'Outro', outcome: 'removed', pieces: [] }),
+    ]);
+    expect([report.clipsTrimmed, report.clipsSplit, report.clipsRemoved]).toEqual([1, 1, 1]);
+    expect(report.tracks[0]).toMatchObject({
+      track: 'A1',
+      cut: true,
+      clipsBefore: 3,
+      clipsAfter: 3,
+      durationAfter: 21,
+    });
+    expect(report.syncBreaks).toEqual([]);
+  });
+
+  it('reports clips left behind on untargeted tracks', () => {
+    const report = simulator.simulate(
+      timeline([
+        track('video', 0, [['Interview', 0, 60]]),
+        track(
+          'video',
+          1,
+          [
+            ['Lower third', 5, 8],
+            ['B-roll', 20, 30],
+          ],
+          'not-targeted'
+        ),
+      ]),
+      [{ start: 4, end: 10 }]
+    );
+
+    expect(report.syncBreaks).toEqual([
+      expect.objectContaining({ track: 'V2', clipName: 'Lower third', kind: 'orphaned' }),
+      expect.objectContaining({ track: 'V2', clipName: 'B-roll', kind: 'out-of-sync', offset: 6 }),
+    ]);
+    // V2 still runs to 30s, past the cut interview
+    expect(report.durationAfter).toBe(54);
+    expect(report.tracks[1]).toMatchObject({ cut: false, shifted: false, clipsAfter: 2 });
+  });
+
+  it('shifts untargeted tracks with the ripple policy, except locked ones', () => {
+    const report = simulator.simulate(
+      timeline(
+        [
+          track('audio', 0, [['Dialogue', 0, 60]]),
+          track(
+            'audio',
+            1,
+            [
+              ['Music', 0, 10],
+              ['Sting', 15, 17],
+            ],
+            'protected'
+          ),
+          track('audio', 2, [['Room tone', 20, 30]], 'locked'),
+        ],
+        'ripple'
+      ),
+      [{ start: 10, end: 15 }]
+    );
+
+    expect(report.tracks[1]).toMatchObject({ shifted: true, durationAfter: 12 });
+    expect(report.tracks[2]).toMatchObject({ shifted: false, durationAfter: 30 });
+    expect(report.syncBreaks).toEqual([
+      expect.objectContaining({
+        track: 'A3',
+        clipName: 'Room tone',
+        kind: 'out-of-sync',
+        offset: 5,
+      }),
+    ]);
+  });
+
+  it('leaves a ripple track in place when one of its clips lies in the cut', () => {
+    const report = simulator.simulate(
+      timeline(
+        [
+          track('video', 0, [['Interview', 0, 60]]),
+          track(
+            'video',
+            1,
+            [
+              ['Title', 0, 12],
+              ['Logo', 15, 20],
+            ],
+            'muted'
+          ),
+        ],
+        'ripple'
+      ),
+      [{ start: 10, end: 15 }]
+    );
+
+    // Shifting the logo would slide it over the title, as deleteRange refuses to do
+    expect(report.tracks[1]).toMatchObject({ shifted: false, durationAfter: 20 });
+    expect(report.syncBreaks).toEqual([
+      expect.objectContaining({ clipName: 'Title', kind: 'out-of-sync', offset: 2 }),
+      expect.objectContaining({ clipName: 'Logo', kind: 'out-of-sync', offset: 5 }),
+    ]);
+  });
+
+  it('snaps ranges to frames and keeps them inside the sequence', () => {
+    const report = simulator.simulate(
+      {
+        ...timeline([track('audio', 0, [['Dialogue', 0, 60]])]),
+        frameRate: { numerator: 25, denominator: 1 },
+      },
+      [
+        { start: 1.01, end: 2.03 },
+        { start: 58, end: 70 },
+        { start: 30, end: 30.001 },
+      ]
+    );
+
+    expect(report.cuts).toBe(2);
+    expect(report.timeRemoved).toBeCloseTo(3.04);
+  });
+});
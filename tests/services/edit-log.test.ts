@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EditLogService } from '../../src/services/edit-log';
+import { storage } from '../../src/lib/storage';
+
+// In-memory storage
+const stored = new Map<string, unknown>();
+vi.mock('../../src/lib/storage', () => ({
+  storage: {
+    get: vi.fn(async (key: string) => stored.get(key)),
+    set: vi.fn(async (key: string, value: unknown) => {
+      stored.set(key, value);
+    }),
+  },
+}));
+
+const sequence = { id: 'seq-1', name: 'Interview' };
+
+describe('EditLogService', () => {
+  let service: EditLogService;
+
+  beforeEach(() => {
+    service = new EditLogService();
+    stored.clear();
+    vi.clearAllMocks();
+  });
+
+  it('stores recorded edits per sequence when committed', async () => {
+    service.begin('silence-cuts', sequence, { id: 'seq-2', name: 'Interview (before Splice)' });
+    service.record({ type: 'razor', time: 4, cuts: 2 });
+    service.record({ type: 'delete', start: 2, end: 4, ripple: true, clips: 2 });
+
+    const session = await service.commit();
+
+    expect(session).toMatchObject({
+      operation: 'silence-cuts',
+      sequenceId: 'seq-1',
+      backupSequenceId: 'seq-2',
+    });
+    expect(await service.getLastSession('seq-1')).toEqual(session);
+    expect((await service.getLastSession('seq-1'))?.actions).toHaveLength(2);
+    expect(service.isRecording()).toBe(false);
+  });
+
+  it('ignores edits made outside a session', async () => {
+    service.record({ type: 'razor', time: 1, cuts: 1 });
+
+    expect(await service.commit()).toBeNull();
+    expect(storage.set).not.toHaveBeenCalled();
+  });
+
+  it('does not store sessions without edits or backup', async () => {
+    service.begin('takes', sequence);
+
+    expect(await service.commit()).toBeNull();
+    expect(await service.getSessions('seq-1')).toEqual([]);
+  });
+
+  it('keeps only the most recent sessions', async () => {
+    for (let i = 0; i < 12; i++) {
+      service.begin('takes', sequence);
+      service.record({ type: 'rename', clipStart: i, before: 'Clip', after: `Take ${i}` });
+      await service.commit();
+    }
+
+    const sessions = await service.getSessions('seq-1');
+
+    expect(sessions).toHaveLength(10);
+    expect(sessions[9].actions[0]).toMatchObject({ after: 'Take 11' });
+  });
+
+  it('removes a reverted session', async () => {
+    service.begin('takes', sequence);
+    service.record({ type: 'color', clipStart: 0, before: 0, after: 3 });
+    const first = await service.commit();
+    service.begin('takes', sequence);
+    service.record({ type: 'color', clipStart: 5, before: 0, after: 5 });
+    const second = await service.commit();
+
+    await service.removeSession('seq-1', second!.id);
+
+    expect(await service.getLastSession('seq-1')).toEqual(first);
+  });
+
+  it('stores original/duplicate pairs', async () => {
+    const copy = (originalId: string): SequenceCopy => ({
+      originalId,
+      originalName: 'Interview',
+      copyId: `${originalId}-copy`,
+      copyName: 'Interview - Splice 2024-05-01',
+      operation: 'silence-cuts',
+      createdAt: '2024-05-01T10:00:00.000Z',
+    });
+
+    await service.recordSequenceCopy(copy('seq-1'));
+    await service.recordSequenceCopy(copy('seq-2'));
+
+    expect(await service.getSequenceCopies()).toHaveLength(2);
+    expect(await service.getSequenceCopies('seq-2')).toEqual([copy('seq-2')]);
+  });
+
+  it('fills in copy name templates', () => {
+    const date = new Date(2024, 4, 1, 9, 5);
+
+    expect(service.formatCopyName('{name} - Splice {date}', 'Interview', date)).toBe(
+      'Interview - Splice 2024-05-01'
+    );
+    expect(service.formatCopyName('{name} {time} {other}', 'Interview', date)).toBe(
+      'Interview 09:05 {other}'
+    );
+  });
+
+  it('returns no sessions when storage fails', async () => {
+    vi.mocked(storage.get).mockRejectedValueOnce(new Error('Storage error'));
+
+    expect(await service.getSessions('seq-1')).toEqual([]);
+  });
+});
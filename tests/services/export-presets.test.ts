@@ -125,6 +125,34 @@ describe('ExportPresetsService', () => {
       expect(result.success).toBe(false);
       expect(result.error).toContain('Padding');
     });
+
+    it('validates breath policy', async () => {
+      const result = await service.savePreset({
+        name: 'Invalid Breaths',
+        threshold: -40,
+        minSilenceDuration: 0.5,
+        padding: 0.1,
+        useVoiceIsolation: false,
+        breathPolicy: 'remove' as BreathPolicy,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Breath policy');
+    });
+
+    it('validates track targeting', async () => {
+      const result = await service.savePreset({
+        name: 'Invalid Tracks',
+        threshold: -40,
+        minSilenceDuration: 0.5,
+        padding: 0.1,
+        useVoiceIsolation: false,
+        trackTargeting: { audioTracks: [0, 1.5] },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Track numbers');
+    });
   });
 
   describe('updatePreset', () => {
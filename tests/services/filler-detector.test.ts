@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FillerDetector } from '../../src/services/filler-detector';
+
+/**
+ * Build evenly spaced words: each word lasts 0.3s with a 0.05s gap
+ */
+function buildWords(text: string, gap = 0.05): WhisperWord[] {
+  let time = 0;
+  return text.split(' ').map((word) => {
+    const w = { word, start: time, end: time + 0.3 };
+    time += 0.3 + gap;
+    return w;
+  });
+}
+
+describe('FillerDetector', () => {
+  let detector: FillerDetector;
+
+  beforeEach(() => {
+    detector = new FillerDetector();
+  });
+
+  describe('fillers', () => {
+    it('detects single-word fillers with high confidence', () => {
+      const words = buildWords('So um I think uh yes');
+
+      const candidates = detector.detect(words);
+
+      expect(candidates.map((c) => c.text)).toEqual(['um', 'uh']);
+      expect(candidates.every((c) => c.kind === 'filler')).toBe(true);
+      expect(candidates[0].confidence).toBe(0.9);
+      expect(candidates[0].isNatural).toBe(false);
+    });
+
+    it('records the words around each candidate for review', () => {
+      const candidates = detector.detect(buildWords('So um I think'));
+
+      expect(candidates[0]).toMatchObject({ precedingText: 'So', followingText: 'I' });
+    });
+
+    it('ignores punctuation and case', () => {
+      const candidates = detector.detect(buildWords('Well, Um, okay'));
+
+      expect(candidates.length).toBe(1);
+      expect(candidates[0].text).toBe('Um,');
+    });
+
+    it('matches multi-word fillers as one candidate', () => {
+      const words = buildWords('it was you know great');
+
+      const candidates = detector.detect(words);
+
+      expect(candidates.length).toBe(1);
+      expect(candidates[0].text).toBe('you know');
+      expect(candidates[0].start).toBe(words[2].start);
+    });
+
+    it('gives ambiguous fillers lower confidence unless set off by pauses', () => {
+      const flowing = detector.detect(buildWords('it was like great'));
+      const isolated = detector.detect(buildWords('it was like great', 0.3));
+
+      expect(flowing[0].confidence).toBe(0.5);
+      expect(isolated[0].confidence).toBe(0.7);
+    });
+
+    it('extends the cut to the next word, absorbing at most a short gap', () => {
+      const words: WhisperWord[] = [
+        { word: 'um', start: 0, end: 0.2 },
+        { word: 'hello', start: 0.3, end: 0.6 },
+        { word: 'uh', start: 1, end: 1.2 },
+        { word: 'world', start: 3, end: 3.3 },
+      ];
+
+      const candidates = detector.detect(words);
+
+      expect(candidates[0].end).toBeCloseTo(0.3);
+      expect(candidates[1].end).toBeCloseTo(1.5);
+      expect(candidates[1].duration).toBeCloseTo(0.5);
+    });
+  });
+
+  describe('repetitions', () => {
+    it('removes all but the last repeated word', () => {
+      const words = buildWords('I I I think so');
+
+      const candidates = detector.detect(words);
+
+      expect(candidates.length).toBe(1);
+      expect(candidates[0]).toMatchObject({ kind: 'repetition', text: 'I I' });
+      expect(candidates[0].start).toBe(words[0].start);
+      expect(candidates[0].end).toBe(words[2].start);
+    });
+
+    it('skips words that are legitimately doubled', () => {
+      expect(detector.detect(buildWords('it was very very good'))).toEqual([]);
+    });
+
+    it('does not treat widely spaced repeats as stutters', () => {
+      expect(detector.detect(buildWords('the the', 1))).toEqual([]);
+    });
+
+    it('lowers confidence for repeats separated by a pause', () => {
+      const candidates = detector.detect(buildWords('the the end', 0.3));
+
+      expect(candidates[0].confidence).toBe(0.6);
+    });
+  });
+
+  describe('options', () => {
+    it('can disable fillers or repetitions', () => {
+      const words = buildWords('um we we go');
+
+      expect(detector.detect(words, { detectFillers: false }).map((c) => c.kind)).toEqual([
+        'repetition',
+      ]);
+      expect(detector.detect(words, { detectRepetitions: false }).map((c) => c.kind)).toEqual([
+        'filler',
+      ]);
+    });
+
+    it('filters by minimum confidence', () => {
+      const candidates = detector.detect(buildWords('um it was like fine'), {
+        minConfidence: 0.6,
+      });
+
+      expect(candidates.map((c) => c.text)).toEqual(['um']);
+    });
+  });
+
+  describe('lexicons', () => {
+    it('uses the lexicon for the transcript language', () => {
+      const words = buildWords('und äh dann');
+
+      expect(detector.detect(words, { language: 'german' }).length).toBe(1);
+      expect(detector.detect(words, { language: 'de-DE' }).length).toBe(1);
+      expect(detector.detect(words, { language: 'en' }).length).toBe(0);
+    });
+
+    it('falls back to English for unknown languages', () => {
+      expect(detector.detect(buildWords('um ok'), { language: 'xx' }).length).toBe(1);
+    });
+
+    it('accepts custom lexicons', () => {
+      detector.setLexicon('en', {
+        fillers: ['okay so'],
+        ambiguousFillers: [],
+        allowedRepetitions: [],
+      });
+
+      const candidates = detector.detect(buildWords('um okay so we start'));
+
+      expect(candidates.map((c) => c.text)).toEqual(['okay so']);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import { FlacEncoder, isFlacBuffer, getUploadFileInfo } from '../../src/services/flac-encoder';
+import { audioChunker } from '../../src/services/audio-chunker';
+import { SpliceErrorCode } from '../../src/lib/errors';
+import { WavBuilder, createInvalidWav } from '../utils/wav-builder';
+import { decodeFlac } from '../utils/flac-decoder';
+
+/** Integer samples per channel straight from the WAV data */
+const readWavSamples = (wav: ArrayBuffer): Int32Array[] => {
+  const info = audioChunker.getWavInfo(wav);
+  const view = new DataView(wav);
+  const bytesPerSample = info.bitsPerSample / 8;
+  const frames = info.dataSize / (bytesPerSample * info.channels);
+  const channels = Array.from({ length: info.channels }, () => new Int32Array(frames));
+
+  for (let i = 0; i < frames; i++) {
+    for (let ch = 0; ch < info.channels; ch++) {
+      const offset = info.dataOffset + (i * info.channels + ch) * bytesPerSample;
+      channels[ch][i] =
+        info.bitsPerSample === 8
+          ? view.getUint8(offset) - 128
+          : info.bitsPerSample === 16
+            ? view.getInt16(offset, true)
+            : view.getUint8(offset) |
+              (view.getUint8(offset + 1) << 8) |
+              (view.getInt8(offset + 2) << 16);
+    }
+  }
+  return channels;
+};
+
+describe('FlacEncoder', () => {
+  const encoder = new FlacEncoder();
+
+  describe('encode', () => {
+    it.each([
+      ['16-bit mono', () => new WavBuilder(16000, 1, 16)],
+      ['16-bit stereo', () => new WavBuilder(48000, 2, 16)],
+      ['24-bit stereo', () => new WavBuilder(48000, 2, 24)],
+      ['8-bit mono', () => new WavBuilder(8000, 1, 8)],
+      ['6 channels', () => new WavBuilder(48000, 6, 16).asExtensible()],
+    ])('round-trips %s losslessly', (_name, create) => {
+      const wav = create()
+        .addTone(440, 0.3, 0.5)
+        .addSilence(0.2)
+        .addNoise(0.3, 0.2)
+        .addTone(3000, 0.25, 0.9)
+        .build();
+      const info = audioChunker.getWavInfo(wav);
+
+      const decoded = decodeFlac(encoder.encode(wav));
+
+      expect(decoded.sampleRate).toBe(info.sampleRate);
+      expect(decoded.channels).toBe(info.channels);
+      expect(decoded.bitsPerSample).toBe(info.bitsPerSample);
+      expect(decoded.samples).toEqual(readWavSamples(wav));
+    });
+
+    it('round-trips identical, inverted and offset stereo channels', () => {
+      // Exercise each stereo decorrelation mode
+      const builder = new WavBuilder(16000, 2, 16).addTone(500, 0.5, 0.5);
+      const wav = builder.build();
+      const view = new DataView(wav);
+      for (let offset = 44; offset < wav.byteLength; offset += 4) {
+        const left = view.getInt16(offset, true);
+        view.setInt16(offset + 2, offset < 44 + 16000 ? -left : (left >> 1) + 3, true);
+      }
+
+      expect(decodeFlac(encoder.encode(wav)).samples).toEqual(readWavSamples(wav));
+    });
+
+    it('handles full-scale square waves without overflow', () => {
+      const builder = new WavBuilder(48000, 2, 24);
+      for (let i = 0; i < 20; i++) {
+        builder.addConstant(1, 0.005).addConstant(-1, 0.005);
+      }
+      const square = builder.build();
+
+      expect(decodeFlac(encoder.encode(square)).samples).toEqual(readWavSamples(square));
+    });
+
+    it('encodes an empty WAV as a stream with no frames', () => {
+      const wav = new WavBuilder(48000, 2, 24).build();
+
+      expect(decodeFlac(encoder.encode(wav)).totalSamples).toBe(0);
+    });
+
+    it('records the frame size range in STREAMINFO', () => {
+      const wav = new WavBuilder(16000, 1, 16).addNoise(1, 0.3).build();
+
+      const decoded = decodeFlac(encoder.encode(wav));
+
+      expect(decoded.minFrameSize).toBeGreaterThan(0);
+      expect(decoded.maxFrameSize).toBeGreaterThanOrEqual(decoded.minFrameSize);
+      expect(decoded.totalSamples).toBe(16000);
+    });
+
+    it('compresses speech-like audio well below the WAV size', () => {
+      const wav = new WavBuilder(16000, 1, 16)
+        .addTone(220, 1, 0.3)
+        .addSilence(1)
+        .addTone(330, 1, 0.3)
+        .build();
+
+      expect(encoder.encode(wav).byteLength).toBeLessThan(wav.byteLength / 2);
+    });
+
+    it('rejects float audio with a chunk error code', () => {
+      const wav = new WavBuilder(48000, 1, 32).asFloat().addTone(440, 0.1).build();
+
+      expect(() => encoder.encode(wav)).toThrow(
+        expect.objectContaining({ code: SpliceErrorCode.CHUNK_INVALID_FORMAT })
+      );
+    });
+
+    it('rejects invalid WAV data with a chunk error code', () => {
+      expect(() => encoder.encode(createInvalidWav('no-riff'))).toThrow(
+        expect.objectContaining({ code: SpliceErrorCode.CHUNK_INVALID_WAV })
+      );
+    });
+  });
+
+  describe('canEncode', () => {
+    it('accepts 8/16/24-bit PCM only', () => {
+      expect(encoder.canEncode(new WavBuilder(48000, 2, 16).build())).toBe(true);
+      expect(encoder.canEncode(new WavBuilder(48000, 2, 24).asRf64().build())).toBe(true);
+      expect(encoder.canEncode(new WavBuilder(48000, 2, 32).build())).toBe(false);
+      expect(encoder.canEncode(new WavBuilder(48000, 2, 32).asFloat().build())).toBe(false);
+      expect(encoder.canEncode(createInvalidWav('no-fmt'))).toBe(false);
+    });
+  });
+
+  describe('encodeForUpload', () => {
+    it('returns FLAC for integer PCM', () => {
+      const wav = new WavBuilder(16000, 1, 16).addTone(440, 0.1).build();
+
+      expect(isFlacBuffer(encoder.encodeForUpload(wav))).toBe(true);
+    });
+
+    it('returns the input when disabled, unsupported or invalid', () => {
+      const wav = new WavBuilder(16000, 1, 16).addTone(440, 0.1).build();
+      const float = new WavBuilder(48000, 1, 32).asFloat().addTone(440, 0.1).build();
+      const invalid = createInvalidWav('no-riff');
+
+      expect(encoder.encodeForUpload(wav, { enabled: false })).toBe(wav);
+      expect(encoder.encodeForUpload(float)).toBe(float);
+      expect(encoder.encodeForUpload(invalid)).toBe(invalid);
+    });
+  });
+
+  describe('upload helpers', () => {
+    it('detects FLAC buffers and picks the upload MIME type', () => {
+      const wav = new WavBuilder(16000, 1, 16).addTone(440, 0.1).build();
+      const flac = encoder.encode(wav);
+
+      expect(isFlacBuffer(flac)).toBe(true);
+      expect(isFlacBuffer(wav)).toBe(false);
+      expect(getUploadFileInfo(flac)).toEqual({
+        format: 'flac',
+        type: 'audio/flac',
+        filename: 'audio.flac',
+      });
+      expect(getUploadFileInfo(wav).type).toBe('audio/wav');
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { LoudnessAnalyzer, LOUDNESS_FLOOR_LUFS } from '../../src/services/loudness-analyzer';
+import { WavStreamReader, createBufferSource } from '../../src/services/wav-stream-reader';
+import { AUDIO_CONFIG } from '../../src/config/audio-config';
+import { SpliceErrorCode } from '../../src/lib/errors';
+import { WavBuilder, createInvalidWav } from '../utils/wav-builder';
+
+describe('LoudnessAnalyzer', () => {
+  const analyzer = new LoudnessAnalyzer();
+
+  describe('integrated loudness', () => {
+    it('measures a full-scale 1kHz sine in one channel at -3.01 LUFS', () => {
+      const wav = new WavBuilder(48000, 1, 16).addTone(1000, 5, 1).build();
+
+      const result = analyzer.analyze(wav);
+
+      expect(result.integratedLufs).toBeCloseTo(-3.01, 1);
+    });
+
+    it('sums stereo channels', () => {
+      const wav = new WavBuilder(48000, 2, 16).addTone(1000, 5, 0.5).build();
+
+      const result = analyzer.analyze(wav);
+
+      // -6.02 dBFS per channel, +3.01 for two channels, -3.01 for a sine
+      expect(result.integratedLufs).toBeCloseTo(-6.02, 1);
+    });
+
+    it('computes K-weighting for other sample rates', () => {
+      const wav = new WavBuilder(44100, 1, 16).addTone(1000, 5, 1).build();
+
+      expect(analyzer.analyze(wav).integratedLufs).toBeCloseTo(-3.01, 1);
+    });
+
+    it('reads 24-bit, float and extensible files', () => {
+      const formats = [
+        new WavBuilder(48000, 1, 24),
+        new WavBuilder(48000, 1, 32).asFloat(),
+        new WavBuilder(48000, 1, 24).asExtensible().asRf64(),
+      ];
+
+      for (const builder of formats) {
+        const wav = builder.addTone(1000, 5, 1).build();
+        expect(analyzer.analyze(wav).integratedLufs).toBeCloseTo(-3.01, 1);
+      }
+    });
+
+    it('gates out silence', () => {
+      const wav = new WavBuilder(16000, 1, 16)
+        .addTone(1000, 3, 0.5)
+        .addSilence(10)
+        .addTone(1000, 3, 0.5)
+        .build();
+
+      const result = analyzer.analyze(wav);
+
+      expect(result.integratedLufs).toBeCloseTo(-9.03, 0);
+    });
+
+    it('reports the floor for digital silence', () => {
+      const wav = new WavBuilder(16000, 1, 16).addSilence(2).build();
+
+      const result = analyzer.analyze(wav);
+
+      expect(result.integratedLufs).toBe(LOUDNESS_FLOOR_LUFS);
+      expect(result.loudnessRange).toBe(0);
+      expect(result.truePeakDbtp).toBe(LOUDNESS_FLOOR_LUFS);
+    });
+  });
+
+  describe('curves and range', () => {
+    it('produces momentary and short-term curves at 100ms steps', () => {
+      const wav = new WavBuilder(16000, 1, 16).addTone(1000, 5, 0.5).build();
+
+      const result = analyzer.analyze(wav);
+
+      expect(result.curveStepSeconds).toBe(0.1);
+      expect(result.momentary.length).toBe(47); // 50 blocks, 4 per window
+      expect(result.shortTerm.length).toBe(21); // 50 blocks, 30 per window
+      expect(result.momentary[10]).toBeCloseTo(-9.03, 0);
+      expect(result.duration).toBeCloseTo(5);
+    });
+
+    it('measures loudness range between quiet and loud passages', () => {
+      const steady = new WavBuilder(16000, 1, 16).addTone(1000, 20, 0.5).build();
+      const varied = new WavBuilder(16000, 1, 16)
+        .addTone(1000, 10, 0.5)
+        .addTone(1000, 10, 0.05)
+        .build();
+
+      expect(analyzer.analyze(steady).loudnessRange).toBeCloseTo(0, 1);
+      expect(analyzer.analyze(varied).loudnessRange).toBeGreaterThan(15);
+    });
+  });
+
+  describe('true peak', () => {
+    it('finds inter-sample peaks above the sample peak', () => {
+      // fs/6 sine: samples never land on the crest (max sample = 0.866 * amplitude)
+      const wav = new WavBuilder(48000, 1, 16).addTone(8000, 1, 0.5).build();
+
+      const result = analyzer.analyze(wav);
+
+      expect(result.samplePeakDbfs).toBeCloseTo(-7.27, 1);
+      expect(result.truePeakDbtp).toBeCloseTo(-6.02, 0);
+      expect(result.truePeakDbtp).toBeGreaterThan(result.samplePeakDbfs + 1);
+    });
+  });
+
+  describe('flags', () => {
+    it('flags passages above the short-term ceiling', () => {
+      const wav = new WavBuilder(16000, 1, 16)
+        .addTone(1000, 5, 0.05)
+        .addTone(1000, 5, 0.9)
+        .addTone(1000, 5, 0.05)
+        .build();
+
+      const result = analyzer.analyze(wav, { maxShortTermLufs: -12, maxTruePeakDbtp: 0 });
+
+      expect(result.flags.length).toBe(1);
+      expect(result.flags[0].kind).toBe('loudness');
+      expect(result.flags[0].start).toBeGreaterThan(2);
+      expect(result.flags[0].end).toBeLessThan(13);
+      expect(result.flags[0].peak).toBeCloseTo(-3.9, 0);
+    });
+
+    it('flags passages above the true-peak ceiling', () => {
+      const wav = new WavBuilder(16000, 1, 16)
+        .addTone(1000, 2, 0.1)
+        .addTone(1000, 0.5, 0.99)
+        .addTone(1000, 2, 0.1)
+        .build();
+
+      const result = analyzer.analyze(wav, { maxShortTermLufs: 0, maxTruePeakDbtp: -1 });
+
+      expect(result.flags.length).toBe(1);
+      expect(result.flags[0].kind).toBe('true-peak');
+      expect(result.flags[0].start).toBeCloseTo(2, 1);
+      expect(result.flags[0].end).toBeCloseTo(2.5, 1);
+    });
+  });
+
+  describe('analyzeStream', () => {
+    const windowBytes = AUDIO_CONFIG.STREAM_WINDOW_BYTES;
+
+    afterEach(() => {
+      Object.assign(AUDIO_CONFIG, { STREAM_WINDOW_BYTES: windowBytes });
+    });
+
+    it('matches analyze() when the file is read in small windows', async () => {
+      Object.assign(AUDIO_CONFIG, { STREAM_WINDOW_BYTES: 10000 });
+      const wav = new WavBuilder(48000, 2, 16)
+        .addTone(1000, 2, 0.1)
+        .addTone(3000, 1, 0.99)
+        .addNoise(1.05, 0.3)
+        .build();
+      const reader = await WavStreamReader.open(createBufferSource(wav));
+
+      const streamed = await analyzer.analyzeStream(reader, { maxShortTermLufs: -20 });
+
+      expect(streamed).toEqual(analyzer.analyze(wav, { maxShortTermLufs: -20 }));
+    });
+  });
+
+  it('rejects invalid WAV data with a chunk error code', () => {
+    expect(() => analyzer.analyze(createInvalidWav('no-riff'))).toThrow(
+      expect.objectContaining({ code: SpliceErrorCode.CHUNK_INVALID_WAV })
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { ReviewMarkerService } from '../../src/services/review-markers';
+import type { SilentSection } from '../../src/services/silence-detector';
+
+const section = (start: number, end: number, confidence = 0.9): SilentSection => ({
+  start,
+  end,
+  duration: end - start,
+  isNatural: false,
+  confidence,
+});
+
+const take = (groupId: string, takeNumber: number, isBest: boolean): NormalizedTake => ({
+  groupId,
+  phrase: 'Welcome back',
+  takeNumber,
+  start: takeNumber * 10,
+  end: takeNumber * 10 + 4,
+  text: 'Welcome back',
+  isBest,
+  score: 80,
+  colorIndex: isBest ? 5 : 2,
+  clipName: `Welcome back - Take ${takeNumber}`,
+  confidence: { boundaryAccuracy: 0.9, textMatch: 0.8, audioQuality: 0.7, overall: 0.85 },
+});
+
+describe('ReviewMarkerService', () => {
+  const service = new ReviewMarkerService();
+
+  it('writes a range marker per section with a readable payload', () => {
+    const [marker] = service.fromSections([section(2, 3.5, 0.75)]);
+
+    expect(marker).toMatchObject({ time: 2, duration: 1.5, color: 'red' });
+    expect(marker.comments).toContain('75% confidence');
+    expect(service.decode(marker.comments)).toEqual({
+      v: 1,
+      type: 'silence',
+      id: '1',
+      confidence: 0.75,
+      start: 2,
+      end: 3.5,
+      isNatural: false,
+    });
+  });
+
+  it('identifies take markers by group and take number', () => {
+    const markers = service.fromTakes([take('g1', 1, false), take('g1', 2, true)]);
+
+    expect(markers.map((m) => m.color)).toEqual(['yellow', 'green']);
+    expect(markers[1].name).toBe('Splice: Welcome back - Take 2 (best)');
+    expect(service.decode(markers[1].comments)).toMatchObject({
+      type: 'take',
+      id: 'g1:2',
+      confidence: 0.85,
+    });
+  });
+
+  it('round-trips sections through marker comments', () => {
+    const original = section(4, 6.25, 0.6);
+    const [marker] = service.fromSections([original]);
+
+    expect(service.toSection(service.decode(marker.comments)!)).toEqual(original);
+  });
+
+  it('ignores markers without a valid payload', () => {
+    expect(service.decode(undefined)).toBeNull();
+    expect(service.decode('Chapter 1')).toBeNull();
+    expect(service.decode('splice-review:{not json')).toBeNull();
+    expect(
+      service.decode('splice-review:{"v":1,"type":"other","id":"1","start":1,"end":2}')
+    ).toBeNull();
+    expect(
+      service.decode('splice-review:{"v":1,"type":"silence","id":"1","start":3,"end":2}')
+    ).toBeNull();
+  });
+});
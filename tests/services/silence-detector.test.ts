@@ -0,0 +1,280 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SilenceDetector } from '../../src/services/silence-detector';
+import { WavStreamReader, createBufferSource } from '../../src/services/wav-stream-reader';
+import { aiServices } from '../../src/api/ai-services';
+import { SpliceErrorCode } from '../../src/lib/errors';
+import { WavBuilder, createInvalidWav } from '../utils/wav-builder';
+
+// Mock AI services - energy mode must never reach them
+vi.mock('../../src/api/ai-services', () => ({
+  aiServices: {
+    isolateVoice: vi.fn(),
+    transcribeWithTimestamps: vi.fn(),
+    detectNaturalPauses: vi.fn(),
+  },
+}));
+
+describe('SilenceDetector', () => {
+  let detector: SilenceDetector;
+
+  beforeEach(() => {
+    detector = new SilenceDetector();
+    vi.clearAllMocks();
+  });
+
+  describe('energy mode', () => {
+    it('finds silent regions below the threshold without network calls', async () => {
+      const wav = new WavBuilder(16000, 1, 16)
+        .addTone(440, 1)
+        .addSilence(1)
+        .addTone(440, 1)
+        .build();
+
+      const sections = await detector.detectSilence({
+        audioBuffer: wav,
+        mode: 'energy',
+        thresholdDb: -40,
+        useVoiceIsolation: true,
+      });
+
+      expect(sections.length).toBe(1);
+      expect(sections[0].start).toBeCloseTo(1, 1);
+      expect(sections[0].end).toBeCloseTo(2, 1);
+      expect(sections[0].isNatural).toBe(false);
+      expect(sections[0].confidence).toBeGreaterThan(0.9);
+      expect(aiServices.isolateVoice).not.toHaveBeenCalled();
+      expect(aiServices.transcribeWithTimestamps).not.toHaveBeenCalled();
+    });
+
+    it('honors thresholdDb', async () => {
+      // A -26dBFS tone (amplitude 0.07) is silent at -20dB but not at -40dB
+      const wav = new WavBuilder(16000, 1, 16)
+        .addTone(440, 1, 0.5)
+        .addTone(440, 1, 0.07)
+        .addTone(440, 1, 0.5)
+        .build();
+
+      const strict = await detector.detectSilence({
+        audioBuffer: wav,
+        mode: 'energy',
+        thresholdDb: -40,
+      });
+      const loose = await detector.detectSilence({
+        audioBuffer: wav,
+        mode: 'energy',
+        thresholdDb: -20,
+      });
+
+      expect(strict.length).toBe(0);
+      expect(loose.length).toBe(1);
+      expect(loose[0].duration).toBeCloseTo(1, 1);
+    });
+
+    it('drops regions shorter than minGapDuration', async () => {
+      const wav = new WavBuilder(16000, 2, 16)
+        .addTone(440, 0.5)
+        .addSilence(0.2)
+        .addTone(440, 0.5)
+        .addSilence(0.8)
+        .addTone(440, 0.5)
+        .build();
+
+      const sections = await detector.detectSilence({
+        audioBuffer: wav,
+        mode: 'energy',
+        minGapDuration: 0.5,
+      });
+
+      expect(sections.length).toBe(1);
+      expect(sections[0].duration).toBeCloseTo(0.8, 1);
+    });
+
+    it('bridges short loud blips inside a pause', async () => {
+      const wav = new WavBuilder(16000, 1, 16)
+        .addTone(440, 0.5)
+        .addSilence(0.5)
+        .addTone(440, 0.02)
+        .addSilence(0.5)
+        .addTone(440, 0.5)
+        .build();
+
+      const sections = await detector.detectSilence({ audioBuffer: wav, mode: 'energy' });
+
+      expect(sections.length).toBe(1);
+      expect(sections[0].duration).toBeGreaterThan(0.9);
+    });
+
+    it('supports 8-bit and 24-bit audio', async () => {
+      for (const bits of [8, 24]) {
+        const wav = new WavBuilder(16000, 1, bits).addTone(440, 1).addSilence(1).build();
+
+        const sections = await detector.detectSilence({ audioBuffer: wav, mode: 'energy' });
+
+        expect(sections.length).toBe(1);
+        expect(sections[0].start).toBeCloseTo(1, 1);
+      }
+    });
+
+    it('measures a file streamed from disk the same as the buffer', async () => {
+      const wav = new WavBuilder(48000, 2, 24)
+        .addTone(440, 1)
+        .addSilence(0.8)
+        .addTone(440, 0.5)
+        .addSilence(0.6)
+        .build();
+      const reader = await WavStreamReader.open(createBufferSource(wav));
+
+      const streamed = await detector.detectSilence({ audioBuffer: reader, mode: 'energy' });
+
+      expect(streamed.length).toBe(2);
+      expect(streamed).toEqual(await detector.detectSilence({ audioBuffer: wav, mode: 'energy' }));
+    });
+
+    it('rejects invalid WAV data with a chunk error code', async () => {
+      await expect(
+        detector.detectSilence({ audioBuffer: createInvalidWav('no-riff'), mode: 'energy' })
+      ).rejects.toMatchObject({ code: SpliceErrorCode.CHUNK_INVALID_WAV });
+    });
+  });
+
+  describe('hybrid mode', () => {
+    // 1s speech, 2s silence, 1s speech
+    const buildWav = () =>
+      new WavBuilder(16000, 1, 16).addTone(440, 1).addSilence(2).addTone(440, 1).build();
+
+    const mockWords = (words: WhisperWord[]) => {
+      vi.mocked(aiServices.transcribeWithTimestamps).mockResolvedValue({
+        text: words.map((w) => w.word).join(' '),
+        words,
+        segments: words.map((w, id) => ({
+          id,
+          start: w.start,
+          end: w.end,
+          text: w.word,
+          no_speech_prob: 0.05,
+        })),
+      } as Awaited<ReturnType<typeof aiServices.transcribeWithTimestamps>>);
+    };
+
+    it('snaps stretched token boundaries to the measured speech edges', async () => {
+      // Whisper stretched "hello" into the silence and started "world" early
+      mockWords([
+        { word: 'hello', start: 0.2, end: 1.3 },
+        { word: 'world', start: 2.7, end: 3.8 },
+      ]);
+
+      const sections = await detector.detectSilence({
+        audioBuffer: buildWav(),
+        mode: 'hybrid',
+        useVoiceIsolation: false,
+        useAIAnalysis: false,
+      });
+
+      expect(sections.length).toBe(1);
+      expect(sections[0].start).toBeCloseTo(1, 1);
+      expect(sections[0].end).toBeCloseTo(3, 1);
+      expect(sections[0].boundarySource).toEqual({ start: 'energy', end: 'energy' });
+    });
+
+    it('finds gaps the transcript alone would miss', async () => {
+      // The token gap looks like a natural pause, the measured one does not
+      mockWords([
+        { word: 'hello', start: 0.2, end: 1.4 },
+        { word: 'world', start: 2.6, end: 3.8 },
+      ]);
+
+      const transcriptOnly = await detector.detectSilence({
+        audioBuffer: buildWav(),
+        mode: 'transcription',
+        useVoiceIsolation: false,
+        useAIAnalysis: false,
+      });
+      const hybrid = await detector.detectSilence({
+        audioBuffer: buildWav(),
+        mode: 'hybrid',
+        useVoiceIsolation: false,
+        useAIAnalysis: false,
+      });
+
+      expect(transcriptOnly.length).toBe(0);
+      expect(hybrid.length).toBe(1);
+      expect(hybrid[0].duration).toBeCloseTo(2, 1);
+    });
+
+    it('keeps the token boundary when no speech edge is within reach', async () => {
+      // "world" is a hallucinated token inside trailing silence
+      const wav = new WavBuilder(16000, 1, 16).addTone(440, 1).addSilence(3).build();
+      mockWords([
+        { word: 'hello', start: 0.2, end: 1.2 },
+        { word: 'world', start: 2.8, end: 3 },
+      ]);
+
+      const sections = await detector.detectSilence({
+        audioBuffer: wav,
+        mode: 'hybrid',
+        useVoiceIsolation: false,
+        useAIAnalysis: false,
+      });
+
+      expect(sections.length).toBe(1);
+      expect(sections[0].boundarySource).toEqual({ start: 'energy', end: 'transcript' });
+      expect(sections[0].start).toBeCloseTo(1, 1);
+      expect(sections[0].end).toBe(2.8);
+    });
+
+    it('matches AI pause analysis against the original token times', async () => {
+      mockWords([
+        { word: 'hello', start: 0.2, end: 1.3 },
+        { word: 'world', start: 2.7, end: 3.8 },
+      ]);
+      vi.mocked(aiServices.detectNaturalPauses).mockResolvedValue({
+        pauses: [{ start: 1.3, end: 2.7, isNatural: false, confidence: 0.9 }],
+      } as Awaited<ReturnType<typeof aiServices.detectNaturalPauses>>);
+
+      const sections = await detector.detectSilence({
+        audioBuffer: buildWav(),
+        mode: 'hybrid',
+        useVoiceIsolation: false,
+        useAIAnalysis: true,
+      });
+
+      expect(sections.length).toBe(1);
+      expect(sections[0].confidence).toBe(0.9);
+    });
+
+    it('records the words on either side of each section', async () => {
+      mockWords([
+        { word: 'hello', start: 0.2, end: 1.3 },
+        { word: 'world', start: 2.7, end: 3.8 },
+      ]);
+
+      const sections = await detector.detectSilence({
+        audioBuffer: buildWav(),
+        mode: 'hybrid',
+        useVoiceIsolation: false,
+        useAIAnalysis: false,
+      });
+
+      expect(sections[0]).toMatchObject({ precedingText: 'hello', followingText: 'world' });
+    });
+
+    it('falls back to transcript boundaries when the audio cannot be analyzed', async () => {
+      mockWords([
+        { word: 'hello', start: 0.2, end: 1 },
+        { word: 'world', start: 3, end: 3.8 },
+      ]);
+
+      const sections = await detector.detectSilence({
+        audioBuffer: createInvalidWav('no-riff'),
+        mode: 'hybrid',
+        useVoiceIsolation: false,
+        useAIAnalysis: false,
+      });
+
+      expect(sections.length).toBe(1);
+      expect(sections[0].start).toBe(1);
+      expect(sections[0].end).toBe(3);
+      expect(sections[0].boundarySource).toBeUndefined();
+    });
+  });
+});
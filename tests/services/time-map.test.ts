@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TimeMapService } from '../../src/services/time-map';
+
+const take = (takeNumber: number, start: number, end: number, isBest = false): NormalizedTake => ({
+  groupId: 'welcome back',
+  phrase: 'Welcome back',
+  takeNumber,
+  start,
+  end,
+  text: 'Welcome back',
+  isBest,
+  score: 80,
+  colorIndex: 1,
+  clipName: `Welcome back - Take ${takeNumber}`,
+  confidence: { boundaryAccuracy: 0.9, textMatch: 0.8, audioQuality: 0.7, overall: 0.85 },
+});
+
+describe('TimeMapService', () => {
+  let service: TimeMapService;
+
+  beforeEach(() => {
+    service = new TimeMapService();
+  });
+
+  it('shifts times after removed ranges and collapses times inside them', () => {
+    service.record([
+      { start: 20, end: 25 },
+      { start: 10, end: 12 },
+    ]);
+
+    expect(service.mapTime(5, 0)).toBe(5);
+    expect(service.mapTime(11, 0)).toBe(10);
+    expect(service.mapTime(15, 0)).toBe(13);
+    expect(service.mapTime(22, 0)).toBe(18);
+    expect(service.mapTime(30, 0)).toBe(23);
+    expect(service.removedSince(0)).toBe(7);
+  });
+
+  it('maps through several operations in order', () => {
+    const first = service.record([{ start: 10, end: 12 }]);
+    service.record([{ start: 0, end: 3 }]);
+
+    expect(service.mapTime(20, 0)).toBe(15);
+    expect(service.mapTime(18, first)).toBe(15);
+    expect(service.getVersion()).toBe(2);
+  });
+
+  it('merges overlapping ranges and ignores empty operations', () => {
+    service.record([
+      { start: 10, end: 14 },
+      { start: 12, end: 16 },
+    ]);
+
+    expect(service.mapTime(20, 0)).toBe(14);
+    expect(service.record([{ start: 5, end: 5 }])).toBe(1);
+  });
+
+  it('trims words that overlap a cut and drops words inside it', () => {
+    service.record([{ start: 1, end: 2 }]);
+
+    const words = service.remapWords(
+      [
+        { word: 'so', start: 0.5, end: 1.2 },
+        { word: 'um', start: 1.3, end: 1.8 },
+        { word: 'welcome', start: 2.1, end: 2.6 },
+      ],
+      0
+    );
+
+    expect(words.map((w) => w.word)).toEqual(['so', 'welcome']);
+    expect(words[0]).toMatchObject({ start: 0.5, end: 1 });
+    expect(words[1].start).toBeCloseTo(1.1);
+    expect(words[1].end).toBeCloseTo(1.6);
+  });
+
+  it('updates section durations', () => {
+    service.record([{ start: 4, end: 5 }]);
+
+    const [section] = service.remapSections(
+      [{ start: 4.5, end: 6, duration: 1.5, isNatural: false, confidence: 0.9 }],
+      0
+    );
+
+    expect(section).toMatchObject({ start: 4, end: 5, duration: 1 });
+  });
+
+  it('drops takes that were cut away and keeps the best take index', () => {
+    service.record([{ start: 0, end: 10 }]);
+
+    const [group] = service.remapTakeGroups(
+      [
+        {
+          id: 'welcome back',
+          phrase: 'Welcome back',
+          takes: [take(1, 2, 6), take(2, 12, 16, true)],
+          bestTakeIndex: 1,
+        },
+      ],
+      0
+    );
+
+    expect(group.takes).toHaveLength(1);
+    expect(group.takes[0]).toMatchObject({ takeNumber: 2, start: 2, end: 6 });
+    expect(group.bestTakeIndex).toBe(0);
+  });
+
+  it('leaves items unchanged when nothing was removed since their version', () => {
+    const version = service.record([{ start: 0, end: 1 }]);
+    const takes = [take(1, 2, 6)];
+
+    expect(service.remapTakes(takes, version)).toBe(takes);
+  });
+
+  it('puts ranges back when their session is reverted', () => {
+    service.record([{ start: 10, end: 12 }], 'edit-1');
+    const cut = service.getVersion();
+
+    expect(service.revert('edit-1')).toBe(true);
+    expect(service.mapTime(15, 0)).toBe(15);
+    expect(service.mapTime(13, cut)).toBe(15);
+    expect(service.removedSince(0)).toBe(0);
+    expect(service.revert('edit-2')).toBe(false);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import { TranscriptStitcher } from '../../src/services/transcript-stitcher';
+import { AudioChunk } from '../../src/services/audio-chunker';
+
+const chunk = (chunkIndex: number, startTime: number, endTime: number): AudioChunk => ({
+  buffer: new ArrayBuffer(0),
+  startTime,
+  endTime,
+  chunkIndex,
+  totalChunks: 2,
+});
+
+/** One word every 0.5s, each 0.4s long */
+const speak = (text: string, from = 0): WhisperWord[] =>
+  text.split(' ').map((word, i) => ({ word, start: from + i * 0.5, end: from + i * 0.5 + 0.4 }));
+
+/** What Whisper would return for a chunk: words it heard, relative to the chunk start */
+const hear = (
+  words: WhisperWord[],
+  startTime: number,
+  endTime: number,
+  jitter = 0
+): WhisperTranscriptionResult => {
+  const heard = words
+    .filter((w) => w.end > startTime && w.start < endTime)
+    .map((w) => ({
+      // Words cut by the chunk edge come out garbled
+      word: w.start < startTime || w.end > endTime ? 'mmph' : w.word,
+      start: w.start - startTime + jitter,
+      end: w.end - startTime + jitter,
+    }));
+  return {
+    task: 'transcribe',
+    language: 'en',
+    duration: endTime - startTime,
+    text: heard.map((w) => w.word).join(' '),
+    words: heard,
+    segments: [],
+  };
+};
+
+const segment = (start: number, end: number, text: string): WhisperSegment => ({
+  id: 0,
+  seek: 0,
+  start,
+  end,
+  text,
+  tokens: [],
+  temperature: 0,
+  avg_logprob: 0,
+  compression_ratio: 0,
+  no_speech_prob: 0,
+});
+
+describe('TranscriptStitcher', () => {
+  const stitcher = new TranscriptStitcher();
+  const script = speak(
+    'one two three four five six seven eight nine ten eleven twelve thirteen fourteen ' +
+      'fifteen sixteen seventeen eighteen nineteen twenty twentyone twentytwo twentythree ' +
+      'twentyfour twentyfive twentysix twentyseven twentyeight twentynine thirty'
+  );
+
+  describe('words', () => {
+    it('offsets times and drops words heard by both chunks', () => {
+      // Chunk edges at 10.2 and 8.1 cut through "twentyone" and "seventeen"
+      const chunks = [chunk(0, 0, 10.2), chunk(1, 8.1, 15)];
+      const results = [hear(script, 0, 10.2), hear(script, 8.1, 15, 0.03)];
+
+      const merged = stitcher.stitch(results, chunks);
+
+      expect(merged.words!.map((w) => w.word)).toEqual(script.map((w) => w.word));
+      merged.words!.forEach((word, i) => expect(word.start).toBeCloseTo(script[i].start, 1));
+    });
+
+    it('aligns repeated words by time', () => {
+      const words = speak('so the the the plan is that we go the the long way round ok');
+      const chunks = [chunk(0, 0, 4.2), chunk(1, 1.3, 8)];
+      const results = [hear(words, 0, 4.2), hear(words, 1.3, 8, -0.1)];
+
+      const merged = stitcher.stitch(results, chunks);
+
+      expect(merged.words!.map((w) => w.word)).toEqual(words.map((w) => w.word));
+    });
+
+    it('matches words regardless of case and punctuation', () => {
+      const chunks = [chunk(0, 0, 3), chunk(1, 2, 5)];
+      const left = hear(speak('a b c d e Hello, f'), 0, 3);
+      const right = hear(speak('a b c d e hello g h', 0), 2, 5);
+
+      const merged = stitcher.stitch([left, right], chunks);
+
+      expect(merged.words!.map((w) => w.word)).toEqual([
+        'a',
+        'b',
+        'c',
+        'd',
+        'e',
+        'Hello,',
+        'g',
+        'h',
+      ]);
+    });
+
+    it('splits at the middle of the overlap when nothing matches', () => {
+      const chunks = [chunk(0, 0, 12), chunk(1, 10, 20)];
+      const left = hear(speak('a b c d e f g h i j k l m n o p q r s t u v w x'), 0, 12);
+      const right = hear(speak('A B C D E F G H I J K L M N O P Q R S T', 10), 10, 20);
+
+      const merged = stitcher.stitch([left, right], chunks);
+
+      expect(merged.words!.every((w, i, all) => i === 0 || w.start >= all[i - 1].start)).toBe(true);
+      expect(merged.words!.filter((w) => w.start < 11).every((w) => /[a-z]/.test(w.word))).toBe(
+        true
+      );
+      expect(merged.words!.filter((w) => w.start >= 11).every((w) => /[A-Z]/.test(w.word))).toBe(
+        true
+      );
+    });
+  });
+
+  describe('segments', () => {
+    it('keeps each segment once, renumbered and in order', () => {
+      const chunks = [chunk(0, 0, 12), chunk(1, 10, 20)];
+      const left = {
+        ...hear(script, 0, 12),
+        segments: [segment(0, 5, 'Alpha.'), segment(5, 10.5, 'Beta.'), segment(10.5, 12, 'Gam')],
+      };
+      const right = {
+        ...hear(script, 10, 20),
+        segments: [segment(0, 0.5, 'eta.'), segment(0.5, 6, 'Gamma.'), segment(6, 10, 'Delta.')],
+      };
+
+      const merged = stitcher.stitch([left, right], chunks);
+
+      expect(merged.segments!.map((s) => s.text)).toEqual(['Alpha.', 'Beta.', 'Gamma.', 'Delta.']);
+      expect(merged.segments!.map((s) => s.id)).toEqual([0, 1, 2, 3]);
+      expect(merged.segments![2]).toMatchObject({ start: 10.5, end: 16 });
+      expect(merged.text).toBe('Alpha. Beta. Gamma. Delta.');
+    });
+
+    it('trims a kept segment that runs past the next one', () => {
+      const chunks = [chunk(0, 0, 12), chunk(1, 10, 20)];
+      const left = { ...hear(script, 0, 12), segments: [segment(0, 11.5, 'Long one.')] };
+      const right = { ...hear(script, 10, 20), segments: [segment(1, 10, 'Next.')] };
+
+      const merged = stitcher.stitch([left, right], chunks);
+
+      expect(merged.segments!.map((s) => [s.start, s.end])).toEqual([
+        [0, 11],
+        [11, 20],
+      ]);
+    });
+  });
+
+  it('offsets a single chunk and reports the full duration', () => {
+    const merged = stitcher.stitch([hear(script, 0, 4)], [chunk(0, 100, 104)]);
+
+    expect(merged.words![0].start).toBe(100);
+    expect(merged.duration).toBe(104);
+    expect(merged.text).toBe('one two three four five six seven eight');
+  });
+
+  it('rejects a result count that does not match the chunks', () => {
+    expect(() => stitcher.stitch([], [chunk(0, 0, 1)])).toThrow();
+  });
+});
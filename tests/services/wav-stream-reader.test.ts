@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  WavStreamReader,
+  WavByteSource,
+  createBufferSource,
+  openFileSource,
+} from '../../src/services/wav-stream-reader';
+import { audioChunker } from '../../src/services/audio-chunker';
+import { SpliceErrorCode } from '../../src/lib/errors';
+import { WavBuilder, createInvalidWav } from '../utils/wav-builder';
+
+/** Buffer source that records every read */
+const trackedSource = (buffer: ArrayBuffer): WavByteSource & { reads: number[] } => {
+  const source = createBufferSource(buffer);
+  const reads: number[] = [];
+  return {
+    ...source,
+    reads,
+    read: (offset, length) => {
+      reads.push(length);
+      return source.read(offset, length);
+    },
+    close: vi.fn(source.close),
+  };
+};
+
+describe('WavStreamReader', () => {
+  it('parses the header like getWavInfo', async () => {
+    const wav = new WavBuilder(48000, 2, 24).addTone(440, 0.5).build();
+
+    const reader = await WavStreamReader.open(createBufferSource(wav));
+
+    expect(reader.info).toEqual(audioChunker.getWavInfo(wav));
+    expect(reader.totalFrames).toBe(24000);
+    expect(reader.duration).toBeCloseTo(0.5);
+    expect(reader.byteLength).toBe(wav.byteLength);
+  });
+
+  it('finds the data chunk behind large metadata chunks', async () => {
+    const wav = new WavBuilder(16000, 1, 16)
+      .addChunk('bext', new Uint8Array(200 * 1024), 'before-fmt')
+      .addTone(440, 0.1)
+      .build();
+
+    const reader = await WavStreamReader.open(createBufferSource(wav));
+
+    expect(reader.info).toEqual(audioChunker.getWavInfo(wav));
+  });
+
+  it('reads only the header when opening', async () => {
+    const wav = new WavBuilder(16000, 1, 16).addNoise(10, 0.3).build();
+    const source = trackedSource(wav);
+
+    await WavStreamReader.open(source);
+
+    expect(source.reads).toEqual([64 * 1024]);
+  });
+
+  it('closes the source and rethrows for invalid files', async () => {
+    const source = trackedSource(createInvalidWav('no-riff'));
+
+    await expect(WavStreamReader.open(source)).rejects.toMatchObject({
+      code: SpliceErrorCode.CHUNK_INVALID_WAV,
+    });
+    expect(source.close).toHaveBeenCalled();
+  });
+
+  describe('windows', () => {
+    it('yields every frame once, in order, as whole frames', async () => {
+      const wav = new WavBuilder(48000, 2, 24).addNoise(0.2, 0.5).build();
+      const info = audioChunker.getWavInfo(wav);
+      const reader = await WavStreamReader.open(createBufferSource(wav));
+
+      const frames: number[] = [];
+      const bytes: number[] = [];
+      for await (const window of reader.windows(1001)) {
+        frames.push(window.startFrame);
+        expect(window.view.byteLength).toBe(window.frameCount * 6);
+        bytes.push(...new Uint8Array(window.view.buffer));
+      }
+
+      expect(frames).toEqual(Array.from({ length: 10 }, (_, i) => i * 1001));
+      expect(new Uint8Array(bytes)).toEqual(new Uint8Array(wav, info.dataOffset, info.dataSize));
+    });
+
+    it('clamps frame reads to the data chunk', async () => {
+      const wav = new WavBuilder(16000, 1, 16).addTone(440, 0.01).build();
+      const reader = await WavStreamReader.open(createBufferSource(wav));
+
+      expect((await reader.readFrames(150, 100)).frameCount).toBe(10);
+      expect((await reader.readFrames(-50, 100)).startFrame).toBe(0);
+      expect((await reader.readFrames(500, 100)).frameCount).toBe(0);
+    });
+  });
+
+  it('streams the raw file bytes', async () => {
+    const wav = new WavBuilder(16000, 1, 16).addNoise(0.1, 0.3).build();
+    const reader = await WavStreamReader.open(createBufferSource(wav));
+
+    const parts: number[] = [];
+    for await (const bytes of reader.bytes(999)) {
+      parts.push(...bytes);
+    }
+
+    expect(new Uint8Array(parts)).toEqual(new Uint8Array(wav));
+  });
+
+  it('refuses reads after close', async () => {
+    const source = trackedSource(new WavBuilder(16000, 1, 16).addTone(440, 0.1).build());
+    const reader = await WavStreamReader.open(source);
+
+    await reader.close();
+    await reader.close();
+
+    expect(source.close).toHaveBeenCalledTimes(1);
+    await expect(reader.readFrames(0, 10)).rejects.toMatchObject({
+      code: SpliceErrorCode.AUDIO_FILE_READ_FAILED,
+    });
+  });
+
+  describe('openFileSource', () => {
+    it('calls onClose when the file cannot be opened', async () => {
+      const onClose = vi.fn(async () => {});
+
+      await expect(openFileSource('/no/such/export.wav', onClose)).rejects.toMatchObject({
+        code: SpliceErrorCode.AUDIO_FILE_READ_FAILED,
+      });
+      expect(onClose).toHaveBeenCalledOnce();
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, afterEach, beforeEach } from 'vitest';
+import { waveformPeaks } from '../../src/services/waveform-peaks';
+import { WavStreamReader, createBufferSource } from '../../src/services/wav-stream-reader';
+import { AUDIO_CONFIG } from '../../src/config/audio-config';
+import { WavBuilder } from '../utils/wav-builder';
+
+describe('WaveformPeakGenerator', () => {
+  beforeEach(() => {
+    waveformPeaks.clearCache();
+  });
+
+  describe('generate', () => {
+    it('builds every zoom level, finest first', () => {
+      const wav = new WavBuilder(48000, 1, 16).addTone(440, 2).build();
+
+      const data = waveformPeaks.generate(wav);
+
+      expect(data.duration).toBeCloseTo(2);
+      expect(data.levels).toHaveLength(AUDIO_CONFIG.WAVEFORM_LEVELS);
+      expect(data.levels[0].framesPerPeak).toBe(480);
+      expect(data.levels[0].min).toHaveLength(200);
+      expect(data.levels[1].secondsPerPeak).toBeCloseTo(
+        data.levels[0].secondsPerPeak * AUDIO_CONFIG.WAVEFORM_LEVEL_FACTOR
+      );
+      expect(data.levels[1].min).toHaveLength(50);
+    });
+
+    it('records the extremes of the audio in each peak', () => {
+      const wav = new WavBuilder(48000, 1, 16).addSilence(0.5).addTone(100, 0.5, 0.8).build();
+
+      const finest = waveformPeaks.generate(wav).levels[0];
+
+      expect(finest.max[10]).toBe(0);
+      expect(finest.min[10]).toBe(0);
+      expect(finest.max[75]).toBeCloseTo(0.8, 1);
+      expect(finest.min[75]).toBeCloseTo(-0.8, 1);
+    });
+
+    it('keeps coarser levels equal to the extremes of the finer ones', () => {
+      const wav = new WavBuilder(48000, 2, 24).addNoise(1, 0.5).build();
+
+      const [finest, next] = waveformPeaks.generate(wav).levels;
+      const factor = AUDIO_CONFIG.WAVEFORM_LEVEL_FACTOR;
+
+      expect(next.max[3]).toBe(Math.max(...finest.max.slice(3 * factor, 4 * factor)));
+      expect(next.min[3]).toBe(Math.min(...finest.min.slice(3 * factor, 4 * factor)));
+    });
+  });
+
+  describe('generateStream', () => {
+    const windowBytes = AUDIO_CONFIG.STREAM_WINDOW_BYTES;
+
+    afterEach(() => {
+      Object.assign(AUDIO_CONFIG, { STREAM_WINDOW_BYTES: windowBytes });
+    });
+
+    it('matches generate() when the file is read in small windows', async () => {
+      Object.assign(AUDIO_CONFIG, { STREAM_WINDOW_BYTES: 5000 });
+      const wav = new WavBuilder(44100, 2, 16).addNoise(0.7, 0.4).addTone(220, 0.6).build();
+      const reader = await WavStreamReader.open(createBufferSource(wav));
+
+      const streamed = await waveformPeaks.generateStream(reader);
+
+      expect(streamed).toEqual(waveformPeaks.generate(wav));
+    });
+  });
+
+  describe('getColumns', () => {
+    it('folds peaks into the requested number of columns', () => {
+      const wav = new WavBuilder(48000, 1, 16).addSilence(1.28).addTone(100, 1.28, 0.5).build();
+      const data = waveformPeaks.generate(wav);
+
+      const { min, max } = waveformPeaks.getColumns(data, 0, 2.56, 4);
+
+      expect(Array.from(max.slice(0, 2))).toEqual([0, 0]);
+      expect(max[3]).toBeCloseTo(0.5, 1);
+      expect(min[3]).toBeCloseTo(-0.5, 1);
+    });
+
+    it('returns empty columns for an empty range', () => {
+      const data = waveformPeaks.createMockPeaks(10);
+
+      const { max } = waveformPeaks.getColumns(data, 5, 5, 10);
+
+      expect(Array.from(max)).toEqual(new Array(10).fill(0));
+    });
+  });
+
+  describe('cache', () => {
+    it('evicts the least recently used sequence', () => {
+      const data = waveformPeaks.createMockPeaks(1);
+      for (let i = 0; i < AUDIO_CONFIG.WAVEFORM_CACHE_MAX_SEQUENCES; i++) {
+        waveformPeaks.setCached(`seq-${i}`, data);
+      }
+
+      waveformPeaks.getCached('seq-0');
+      waveformPeaks.setCached('seq-new', data);
+
+      expect(waveformPeaks.getCached('seq-0')).toBe(data);
+      expect(waveformPeaks.getCached('seq-1')).toBeUndefined();
+      expect(waveformPeaks.getCached('seq-new')).toBe(data);
+    });
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { AudioCache, TranscriptionCache, VoiceIsolationCache } from '../../src/utils/audio-cache';
+import { WavStreamReader, createBufferSource } from '../../src/services/wav-stream-reader';
+import { WavBuilder } from './wav-builder';
 
 describe('AudioCache', () => {
   let cache: AudioCache<string>;
@@ -42,6 +44,13 @@ describe('AudioCache', () => {
 
       expect(key).toContain('test:');
     });
+
+    it('gives a streamed file the same key as its buffer', async () => {
+      const wav = new WavBuilder(16000, 1, 16).addNoise(0.5, 0.3).build();
+      const reader = await WavStreamReader.open(createBufferSource(wav));
+
+      expect(await cache.generateKey(reader, 'test')).toBe(await cache.generateKey(wav, 'test'));
+    });
   });
 
   describe('get/set', () => {
@@ -0,0 +1,28 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { computeEnergyEnvelope, computeEnergyEnvelopeStream } from '../../src/utils/audio-envelope';
+import { WavStreamReader, createBufferSource } from '../../src/services/wav-stream-reader';
+import { audioChunker } from '../../src/services/audio-chunker';
+import { AUDIO_CONFIG } from '../../src/config/audio-config';
+import { WavBuilder } from './wav-builder';
+
+describe('computeEnergyEnvelopeStream', () => {
+  const windowBytes = AUDIO_CONFIG.STREAM_WINDOW_BYTES;
+
+  afterEach(() => {
+    Object.assign(AUDIO_CONFIG, { STREAM_WINDOW_BYTES: windowBytes });
+  });
+
+  it('matches the buffer envelope when read in small windows', async () => {
+    Object.assign(AUDIO_CONFIG, { STREAM_WINDOW_BYTES: 1000 });
+    const wav = new WavBuilder(16000, 2, 24)
+      .addTone(440, 0.3, 0.5)
+      .addSilence(0.2)
+      .addNoise(0.3055, 0.2)
+      .build();
+    const reader = await WavStreamReader.open(createBufferSource(wav));
+
+    const streamed = await computeEnergyEnvelopeStream(reader);
+
+    expect(streamed).toEqual(computeEnergyEnvelope(wav, audioChunker.getWavInfo(wav)));
+  });
+});
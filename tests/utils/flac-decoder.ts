@@ -0,0 +1,225 @@
+/**
+ * Minimal FLAC Decoder for Testing
+ *
+ * Decodes the subset of FLAC the encoder produces (CONSTANT, VERBATIM and FIXED
+ * subframes, Rice/Rice2 residuals, all stereo decorrelation modes) and verifies
+ * every frame's CRC-8 and CRC-16, so encoder tests can check a lossless round trip.
+ */
+
+export interface DecodedFlac {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  totalSamples: number;
+  minFrameSize: number;
+  maxFrameSize: number;
+  /** Samples per channel, as signed integers */
+  samples: Int32Array[];
+}
+
+/**
+ * Decode a FLAC stream. Throws on anything malformed, including CRC mismatches.
+ */
+export function decodeFlac(buffer: ArrayBuffer): DecodedFlac {
+  const bytes = new Uint8Array(buffer);
+  const reader = new BitReader(bytes);
+
+  if (String.fromCharCode(...bytes.subarray(0, 4)) !== 'fLaC') {
+    throw new Error('Missing fLaC marker');
+  }
+  reader.skipBytes(4);
+
+  // Metadata blocks; STREAMINFO must be first
+  let info: Omit<DecodedFlac, 'samples'> | undefined;
+  let isLast = false;
+  while (!isLast) {
+    isLast = reader.readBits(1) === 1;
+    const type = reader.readBits(7);
+    const length = reader.readBits(24);
+    if (type === 0) {
+      reader.readBits(16); // Min block size
+      reader.readBits(16); // Max block size
+      const minFrameSize = reader.readBits(24);
+      const maxFrameSize = reader.readBits(24);
+      const sampleRate = reader.readBits(20);
+      const channels = reader.readBits(3) + 1;
+      const bitsPerSample = reader.readBits(5) + 1;
+      const totalSamples = reader.readBits(4) * 2 ** 32 + reader.readBits(32);
+      reader.skipBytes(16); // MD5
+      info = { sampleRate, channels, bitsPerSample, totalSamples, minFrameSize, maxFrameSize };
+    } else {
+      reader.skipBytes(length);
+    }
+  }
+  if (!info) throw new Error('Missing STREAMINFO');
+
+  const samples = Array.from({ length: info.channels }, () => new Int32Array(info.totalSamples));
+  let written = 0;
+
+  while (reader.position < bytes.length) {
+    const frameStart = reader.position;
+    if (reader.readBits(14) !== 0b11111111111110) throw new Error('Lost frame sync');
+    reader.readBits(2); // Reserved + blocking strategy
+    const blockSizeCode = reader.readBits(4);
+    reader.readBits(4); // Sample rate (checked against STREAMINFO via the audio itself)
+    const assignment = reader.readBits(4);
+    reader.readBits(3); // Sample size
+    reader.readBits(1);
+    readUtf8Number(reader);
+
+    let blockSize: number;
+    if (blockSizeCode === 0b0110) blockSize = reader.readBits(8) + 1;
+    else if (blockSizeCode === 0b0111) blockSize = reader.readBits(16) + 1;
+    else if (blockSizeCode >= 0b1000) blockSize = 256 * 2 ** (blockSizeCode - 8);
+    else if (blockSizeCode === 0b0001) blockSize = 192;
+    else blockSize = 576 * 2 ** (blockSizeCode - 2);
+
+    const headerCrc = crc(bytes.subarray(frameStart, reader.position), 0x07, 8);
+    if (reader.readBits(8) !== headerCrc) throw new Error('Frame header CRC-8 mismatch');
+
+    const channelBits = (ch: number): number => {
+      const isSide =
+        (assignment === 0b1000 && ch === 1) ||
+        (assignment === 0b1001 && ch === 0) ||
+        (assignment === 0b1010 && ch === 1);
+      return info!.bitsPerSample + (isSide ? 1 : 0);
+    };
+    const channelCount = assignment >= 0b1000 ? 2 : assignment + 1;
+    const decoded = Array.from({ length: channelCount }, (_, ch) =>
+      readSubframe(reader, blockSize, channelBits(ch))
+    );
+
+    // Undo stereo decorrelation
+    if (assignment === 0b1000) {
+      for (let i = 0; i < blockSize; i++) decoded[1][i] = decoded[0][i] - decoded[1][i];
+    } else if (assignment === 0b1001) {
+      for (let i = 0; i < blockSize; i++) decoded[0][i] = decoded[1][i] + decoded[0][i];
+    } else if (assignment === 0b1010) {
+      for (let i = 0; i < blockSize; i++) {
+        const side = decoded[1][i];
+        const mid = decoded[0][i] * 2 + (side & 1);
+        decoded[0][i] = (mid + side) >> 1;
+        decoded[1][i] = (mid - side) >> 1;
+      }
+    }
+
+    reader.alignToByte();
+    const frameCrc = crc(bytes.subarray(frameStart, reader.position), 0x8005, 16);
+    if (reader.readBits(16) !== frameCrc) throw new Error('Frame CRC-16 mismatch');
+
+    decoded.forEach((channel, ch) => samples[ch].set(channel, written));
+    written += blockSize;
+  }
+
+  if (written !== info.totalSamples) {
+    throw new Error(`Decoded ${written} samples, STREAMINFO says ${info.totalSamples}`);
+  }
+  return { ...info, samples };
+}
+
+function readSubframe(reader: BitReader, blockSize: number, bits: number): Int32Array {
+  reader.readBits(1); // Zero pad
+  const type = reader.readBits(6);
+  if (reader.readBits(1) === 1) throw new Error('Wasted bits are not supported');
+
+  const out = new Int32Array(blockSize);
+  if (type === 0) {
+    out.fill(reader.readSigned(bits));
+  } else if (type === 1) {
+    for (let i = 0; i < blockSize; i++) out[i] = reader.readSigned(bits);
+  } else if (type >= 0b001000 && type <= 0b001100) {
+    const order = type & 0b111;
+    for (let i = 0; i < order; i++) out[i] = reader.readSigned(bits);
+    const residual = readResidual(reader, blockSize, order);
+    const coefficients = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]][order];
+    for (let i = order; i < blockSize; i++) {
+      let prediction = 0;
+      coefficients.forEach((c, j) => (prediction += c * out[i - 1 - j]));
+      out[i] = prediction + residual[i - order];
+    }
+  } else {
+    throw new Error(`Unsupported subframe type ${type}`);
+  }
+  return out;
+}
+
+function readResidual(reader: BitReader, blockSize: number, order: number): Int32Array {
+  const method = reader.readBits(2);
+  const parameterBits = method === 0 ? 4 : 5;
+  const partitionOrder = reader.readBits(4);
+  const partitions = 2 ** partitionOrder;
+  const residual = new Int32Array(blockSize - order);
+
+  let index = 0;
+  for (let p = 0; p < partitions; p++) {
+    const k = reader.readBits(parameterBits);
+    if (k === 2 ** parameterBits - 1) throw new Error('Escaped partitions are not supported');
+    const count = blockSize / partitions - (p === 0 ? order : 0);
+    for (let i = 0; i < count; i++) {
+      let quotient = 0;
+      while (reader.readBits(1) === 0) quotient++;
+      const unsigned = quotient * 2 ** k + (k > 0 ? reader.readBits(k) : 0);
+      residual[index++] = unsigned % 2 === 0 ? unsigned / 2 : -(unsigned + 1) / 2;
+    }
+  }
+  return residual;
+}
+
+function readUtf8Number(reader: BitReader): number {
+  const first = reader.readBits(8);
+  let extra = 0;
+  while (first & (0x80 >> extra)) extra++;
+  if (extra === 0) return first;
+  let value = first & (0xff >> (extra + 1));
+  for (let i = 1; i < extra; i++) value = value * 64 + (reader.readBits(8) & 0x3f);
+  return value;
+}
+
+/** Bitwise MSB-first CRC, independent of the encoder's table-driven version */
+function crc(bytes: Uint8Array, polynomial: number, width: number): number {
+  const topBit = 1 << (width - 1);
+  const mask = (1 << width) - 1;
+  let value = 0;
+  for (const byte of bytes) {
+    value ^= byte << (width - 8);
+    for (let bit = 0; bit < 8; bit++) {
+      value = value & topBit ? ((value << 1) ^ polynomial) & mask : (value << 1) & mask;
+    }
+  }
+  return value;
+}
+
+class BitReader {
+  private bitPosition = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  /** Current byte offset (only meaningful when byte-aligned) */
+  get position(): number {
+    return this.bitPosition >> 3;
+  }
+
+  readBits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const byte = this.bytes[this.bitPosition >> 3];
+      if (byte === undefined) throw new Error('Unexpected end of stream');
+      value = value * 2 + ((byte >> (7 - (this.bitPosition & 7))) & 1);
+      this.bitPosition++;
+    }
+    return value;
+  }
+
+  readSigned(count: number): number {
+    const value = this.readBits(count);
+    return value >= 2 ** (count - 1) ? value - 2 ** count : value;
+  }
+
+  skipBytes(count: number): void {
+    this.bitPosition += count * 8;
+  }
+
+  alignToByte(): void {
+    this.bitPosition = Math.ceil(this.bitPosition / 8) * 8;
+  }
+}
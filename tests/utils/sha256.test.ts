@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { Sha256 } from '../../src/utils/sha256';
+
+const hex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+
+describe('Sha256', () => {
+  it('hashes the standard test vectors', () => {
+    expect(hex(new Sha256().digest())).toBe(
+      'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+    );
+    expect(hex(new Sha256().update(new TextEncoder().encode('abc')).digest())).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    );
+  });
+
+  it.each([55, 56, 64, 119, 1000])(
+    'matches SubtleCrypto for %i bytes fed in uneven pieces',
+    async (length) => {
+      const data = Uint8Array.from({ length }, (_, i) => (i * 31 + 7) & 0xff);
+      const hash = new Sha256();
+      for (let offset = 0, step = 1; offset < length; offset += step, step = (step * 3) % 70) {
+        hash.update(data.subarray(offset, offset + step));
+      }
+
+      const expected = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+
+      expect(hash.digest()).toEqual(expected);
+    }
+  );
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TICKS_PER_SECOND,
+  frameRateFromTimebase,
+  frameRateFromFps,
+  secondsToFrames,
+  framesToSeconds,
+  secondsToTicks,
+  ticksToSeconds,
+  framesToTicks,
+  ticksToFrames,
+  quantizeToFrame,
+  isDropFrameRate,
+  framesToTimecode,
+  timecodeToFrames,
+} from '../../src/utils/timecode';
+
+describe('timecode', () => {
+  describe('frameRateFromTimebase', () => {
+    it('reduces ticks per frame to an exact rate', () => {
+      expect(frameRateFromTimebase('8475667200')).toEqual({ numerator: 30000, denominator: 1001 });
+      expect(frameRateFromTimebase(TICKS_PER_SECOND / 25)).toEqual({
+        numerator: 25,
+        denominator: 1,
+      });
+    });
+
+    it('rejects an invalid timebase', () => {
+      expect(() => frameRateFromTimebase('0')).toThrow('Invalid timebase');
+      expect(() => frameRateFromTimebase('abc')).toThrow('Invalid timebase');
+    });
+  });
+
+  describe('frameRateFromFps', () => {
+    it('recognizes NTSC rates', () => {
+      expect(frameRateFromFps(29.97)).toEqual({ numerator: 30000, denominator: 1001 });
+      expect(frameRateFromFps(23.976)).toEqual({ numerator: 24000, denominator: 1001 });
+      expect(frameRateFromFps(24)).toEqual({ numerator: 24, denominator: 1 });
+    });
+  });
+
+  describe('frame conversion', () => {
+    const ntsc = { numerator: 30000, denominator: 1001 };
+
+    it('rounds seconds to the nearest frame', () => {
+      expect(secondsToFrames(1, ntsc)).toBe(30);
+      expect(secondsToFrames(3600, ntsc)).toBe(107892);
+    });
+
+    it('converts frames back to exact seconds', () => {
+      expect(framesToSeconds(30000, ntsc)).toBeCloseTo(1001);
+    });
+  });
+
+  describe('tick conversion', () => {
+    const ntsc = { numerator: 30000, denominator: 1001 };
+
+    it('converts between seconds and ticks', () => {
+      expect(secondsToTicks(1.5)).toBe(381024000000);
+      expect(ticksToSeconds('381024000000')).toBe(1.5);
+    });
+
+    it('places frames exactly on the tick grid', () => {
+      expect(framesToTicks(1, ntsc)).toBe(8475667200);
+      expect(framesToTicks(107892, ntsc)).toBe(107892 * 8475667200);
+      expect(ticksToFrames(String(107892 * 8475667200), ntsc)).toBe(107892);
+    });
+
+    it('snaps seconds to the nearest frame', () => {
+      expect(quantizeToFrame(0.51, { numerator: 25, denominator: 1 })).toBe(0.52);
+      expect(secondsToFrames(quantizeToFrame(3600.01, ntsc), ntsc)).toBe(107892);
+    });
+
+    it('does not drift over many frame-snapped cuts', () => {
+      // 500 cuts of 1.37s each, snapped, add up to a whole number of frames
+      let ticks = 0;
+      for (let i = 0; i < 500; i++) {
+        ticks += framesToTicks(secondsToFrames(1.37, ntsc), ntsc);
+      }
+      expect(ticks % framesToTicks(1, ntsc)).toBe(0);
+      expect(ticksToFrames(ticks, ntsc)).toBe(500 * 41);
+    });
+  });
+
+  describe('isDropFrameRate', () => {
+    it('only accepts NTSC multiples of 30', () => {
+      expect(isDropFrameRate({ numerator: 30000, denominator: 1001 })).toBe(true);
+      expect(isDropFrameRate({ numerator: 60000, denominator: 1001 })).toBe(true);
+      expect(isDropFrameRate({ numerator: 24000, denominator: 1001 })).toBe(false);
+      expect(isDropFrameRate({ numerator: 30, denominator: 1 })).toBe(false);
+    });
+  });
+
+  describe('framesToTimecode', () => {
+    it('formats non-drop-frame timecode at the nominal rate', () => {
+      expect(framesToTimecode(0, { numerator: 25, denominator: 1 })).toBe('00:00:00:00');
+      expect(framesToTimecode(90061 * 25 + 12, { numerator: 25, denominator: 1 })).toBe(
+        '25:01:01:12'
+      );
+      expect(framesToTimecode(107892, { numerator: 30000, denominator: 1001 })).toBe('00:59:56:12');
+    });
+
+    it('formats drop-frame timecode that reads back to the same frame', () => {
+      const ntsc = { numerator: 30000, denominator: 1001 };
+      expect(framesToTimecode(1800, ntsc, true)).toBe('00:01:00;02');
+      expect(framesToTimecode(17982, ntsc, true)).toBe('00:10:00;00');
+      expect(framesToTimecode(107892, ntsc, true)).toBe('01:00:00;00');
+      for (const frames of [0, 1799, 1800, 3597, 17981, 53946, 107891]) {
+        expect(timecodeToFrames(framesToTimecode(frames, ntsc, true), ntsc)).toBe(frames);
+      }
+    });
+
+    it('ignores drop-frame at rates without it', () => {
+      expect(framesToTimecode(50, { numerator: 25, denominator: 1 }, true)).toBe('00:00:02:00');
+    });
+  });
+
+  describe('timecodeToFrames', () => {
+    const ntsc = { numerator: 30000, denominator: 1001 };
+
+    it('reads non-drop-frame timecode', () => {
+      expect(timecodeToFrames('00:59:56:12', ntsc)).toBe(107892);
+      expect(timecodeToFrames('00:00:02:00', { numerator: 25, denominator: 1 })).toBe(50);
+    });
+
+    it('skips dropped frame numbers in drop-frame timecode', () => {
+      expect(timecodeToFrames('00:01:00;02', ntsc)).toBe(1800);
+      expect(timecodeToFrames('00:10:00;00', ntsc)).toBe(17982);
+    });
+
+    it('rejects frames beyond the frame rate', () => {
+      expect(timecodeToFrames('00:00:01:25', { numerator: 25, denominator: 1 })).toBeNull();
+      expect(timecodeToFrames('1.5', ntsc)).toBeNull();
+    });
+  });
+});
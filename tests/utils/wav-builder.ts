@@ -5,14 +5,24 @@
  * Generates WAV buffers with configurable parameters.
  */
 
+/** Where an extra chunk is placed relative to fmt and data */
+export type ExtraChunkPosition = 'before-fmt' | 'before-data';
+
 /**
  * Builder class for creating WAV audio buffers.
+ *
+ * Defaults to a plain 44-byte PCM header. Use asFloat(), asExtensible(),
+ * asRf64() and addChunk() to produce the layouts Premiere and field recorders write.
  */
 export class WavBuilder {
   private sampleRate: number;
   private channels: number;
   private bitsPerSample: number;
   private samples: number[] = [];
+  private isFloat = false;
+  private isExtensible = false;
+  private isRf64 = false;
+  private extraChunks: Array<{ id: string; data: Uint8Array; position: ExtraChunkPosition }> = [];
 
   constructor(sampleRate = 48000, channels = 2, bitsPerSample = 16) {
     this.sampleRate = sampleRate;
@@ -57,6 +67,55 @@ export class WavBuilder {
     return this;
   }
 
+  /**
+   * Add a constant sample value (DC) on all channels.
+   */
+  addConstant(value: number, durationSeconds: number): this {
+    const numSamples = Math.floor(durationSeconds * this.sampleRate * this.channels);
+    for (let i = 0; i < numSamples; i++) {
+      this.samples.push(value);
+    }
+    return this;
+  }
+
+  /**
+   * Write IEEE float samples (format tag 3). Use with 32 bits per sample.
+   */
+  asFloat(): this {
+    this.isFloat = true;
+    return this;
+  }
+
+  /**
+   * Write a 40-byte WAVE_FORMAT_EXTENSIBLE fmt chunk with a PCM or float SubFormat GUID.
+   */
+  asExtensible(): this {
+    this.isExtensible = true;
+    return this;
+  }
+
+  /**
+   * Write an RF64 file: ds64 chunk with 64-bit sizes, 0xFFFFFFFF in the 32-bit fields.
+   */
+  asRf64(): this {
+    this.isRf64 = true;
+    return this;
+  }
+
+  /**
+   * Add a metadata chunk (bext, iXML, LIST, ...) that parsers must skip.
+   * Odd-sized chunks get the RIFF pad byte.
+   */
+  addChunk(
+    id: string,
+    data: Uint8Array | string,
+    position: ExtraChunkPosition = 'before-data'
+  ): this {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    this.extraChunks.push({ id, data: bytes, position });
+    return this;
+  }
+
   /**
    * Get the duration of the current audio in seconds.
    */
@@ -70,37 +129,58 @@ export class WavBuilder {
   build(): ArrayBuffer {
     const bytesPerSample = this.bitsPerSample / 8;
     const dataSize = this.samples.length * bytesPerSample;
-    const headerSize = 44;
-    const buffer = new ArrayBuffer(headerSize + dataSize);
+    const fmt = this.buildFmtChunk();
+
+    const chunks: Array<{ id: string; data: Uint8Array }> = [];
+    if (this.isRf64) {
+      chunks.push({ id: 'ds64', data: new Uint8Array(28) }); // Filled in once sizes are known
+    }
+    chunks.push(...this.extraChunks.filter((c) => c.position === 'before-fmt'));
+    chunks.push({ id: 'fmt ', data: fmt });
+    chunks.push(...this.extraChunks.filter((c) => c.position === 'before-data'));
+
+    const chunksSize = chunks.reduce((sum, c) => sum + 8 + c.data.length + (c.data.length % 2), 0);
+    const dataOffset = 12 + chunksSize + 8;
+    const buffer = new ArrayBuffer(dataOffset + dataSize);
     const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+    const riffSize = buffer.byteLength - 8;
 
     // RIFF header
-    writeString(view, 0, 'RIFF');
-    view.setUint32(4, 36 + dataSize, true); // File size - 8
+    writeString(view, 0, this.isRf64 ? 'RF64' : 'RIFF');
+    view.setUint32(4, this.isRf64 ? 0xffffffff : riffSize, true); // File size - 8
     writeString(view, 8, 'WAVE');
 
-    // fmt sub-chunk
-    writeString(view, 12, 'fmt ');
-    view.setUint32(16, 16, true); // Subchunk1Size (16 for PCM)
-    view.setUint16(20, 1, true); // AudioFormat (1 = PCM)
-    view.setUint16(22, this.channels, true);
-    view.setUint32(24, this.sampleRate, true);
-    view.setUint32(28, this.sampleRate * this.channels * bytesPerSample, true); // ByteRate
-    view.setUint16(32, this.channels * bytesPerSample, true); // BlockAlign
-    view.setUint16(34, this.bitsPerSample, true);
+    let offset = 12;
+    for (const chunk of chunks) {
+      writeString(view, offset, chunk.id);
+      view.setUint32(offset + 4, chunk.data.length, true);
+      bytes.set(chunk.data, offset + 8);
+      if (chunk.id === 'ds64') {
+        writeUint64(view, offset + 8, riffSize);
+        writeUint64(view, offset + 16, dataSize);
+        writeUint64(view, offset + 24, this.samples.length / this.channels); // Sample count
+        view.setUint32(offset + 32, 0, true); // Table length
+      }
+      offset += 8 + chunk.data.length + (chunk.data.length % 2);
+    }
 
     // data sub-chunk
-    writeString(view, 36, 'data');
-    view.setUint32(40, dataSize, true);
+    writeString(view, offset, 'data');
+    view.setUint32(offset + 4, this.isRf64 ? 0xffffffff : dataSize, true);
+    offset += 8;
 
     // Write samples
     const maxValue = Math.pow(2, this.bitsPerSample - 1) - 1;
-    let offset = 44;
 
     for (const sample of this.samples) {
-      const intValue = Math.round(Math.max(-1, Math.min(1, sample)) * maxValue);
+      const clamped = Math.max(-1, Math.min(1, sample));
+      const intValue = Math.round(clamped * maxValue);
 
-      if (this.bitsPerSample === 16) {
+      if (this.isFloat) {
+        view.setFloat32(offset, clamped, true);
+        offset += 4;
+      } else if (this.bitsPerSample === 16) {
         view.setInt16(offset, intValue, true);
         offset += 2;
       } else if (this.bitsPerSample === 8) {
@@ -122,6 +202,34 @@ export class WavBuilder {
     return buffer;
   }
 
+  /**
+   * Build the fmt chunk body (16 bytes, or 40 for WAVE_FORMAT_EXTENSIBLE).
+   */
+  private buildFmtChunk(): Uint8Array {
+    const bytesPerSample = this.bitsPerSample / 8;
+    const formatCode = this.isFloat ? 3 : 1;
+    const fmt = new Uint8Array(this.isExtensible ? 40 : 16);
+    const view = new DataView(fmt.buffer);
+
+    view.setUint16(0, this.isExtensible ? 0xfffe : formatCode, true); // AudioFormat
+    view.setUint16(2, this.channels, true);
+    view.setUint32(4, this.sampleRate, true);
+    view.setUint32(8, this.sampleRate * this.channels * bytesPerSample, true); // ByteRate
+    view.setUint16(12, this.channels * bytesPerSample, true); // BlockAlign
+    view.setUint16(14, this.bitsPerSample, true);
+
+    if (this.isExtensible) {
+      view.setUint16(16, 22, true); // cbSize
+      view.setUint16(18, this.bitsPerSample, true); // Valid bits per sample
+      view.setUint32(20, this.channels === 1 ? 0x4 : (1 << this.channels) - 1, true); // Channel mask
+      // SubFormat GUID: {0000000X-0000-0010-8000-00AA00389B71}
+      view.setUint32(24, formatCode, true);
+      fmt.set([0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xaa, 0x00, 0x38, 0x9b, 0x71], 28);
+    }
+
+    return fmt;
+  }
+
   /**
    * Reset the builder for reuse.
    */
@@ -142,7 +250,10 @@ export type InvalidWavType =
   | 'truncated'
   | 'invalid-sample-rate'
   | 'invalid-channels'
-  | 'invalid-bits';
+  | 'invalid-bits'
+  | 'unsupported-format'
+  | 'extensible-unknown-subformat'
+  | 'rf64-missing-ds64';
 
 /**
  * Create an invalid WAV buffer for testing error handling.
@@ -243,6 +354,45 @@ export function createInvalidWav(type: InvalidWavType): ArrayBuffer {
       writeString(view, 36, 'data');
       view.setUint32(40, 0, true);
       break;
+
+    case 'unsupported-format':
+      writeString(view, 0, 'RIFF');
+      view.setUint32(4, 36, true);
+      writeString(view, 8, 'WAVE');
+      writeString(view, 12, 'fmt ');
+      view.setUint32(16, 16, true);
+      view.setUint16(20, 2, true); // Microsoft ADPCM
+      view.setUint16(22, 2, true);
+      view.setUint32(24, 48000, true);
+      view.setUint32(28, 192000, true);
+      view.setUint16(32, 4, true);
+      view.setUint16(34, 4, true);
+      writeString(view, 36, 'data');
+      view.setUint32(40, 0, true);
+      break;
+
+    case 'extensible-unknown-subformat': {
+      // Extensible header whose SubFormat GUID is not PCM or IEEE float
+      const wav = new WavBuilder(48000, 2, 16).asExtensible().addSilence(0.01).build();
+      new DataView(wav).setUint8(12 + 8 + 24 + 15, 0x00); // Last GUID byte
+      return wav;
+    }
+
+    case 'rf64-missing-ds64':
+      writeString(view, 0, 'RF64');
+      view.setUint32(4, 0xffffffff, true);
+      writeString(view, 8, 'WAVE');
+      writeString(view, 12, 'fmt ');
+      view.setUint32(16, 16, true);
+      view.setUint16(20, 1, true);
+      view.setUint16(22, 2, true);
+      view.setUint32(24, 48000, true);
+      view.setUint32(28, 192000, true);
+      view.setUint16(32, 4, true);
+      view.setUint16(34, 16, true);
+      writeString(view, 36, 'data');
+      view.setUint32(40, 0xffffffff, true); // Size lives in the (missing) ds64 chunk
+      break;
   }
 
   return buffer;
@@ -273,6 +423,14 @@ export function createWavOfSize(targetSizeBytes: number): ArrayBuffer {
   return builder.build();
 }
 
+/**
+ * Helper to write a little-endian 64-bit size to a DataView.
+ */
+function writeUint64(view: DataView, offset: number, value: number): void {
+  view.setUint32(offset, value % 0x100000000, true);
+  view.setUint32(offset + 4, Math.floor(value / 0x100000000), true);
+}
+
 /**
  * Helper to write a string to a DataView.
  */